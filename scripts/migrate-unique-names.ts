@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+
+dotenv.config({
+  path: process.env.NODE_ENV === 'production' ? '.env' : '.env.local',
+});
+
+import mongoose from 'mongoose';
+import connectDB from '../src/config/db.config';
+import { migrateUniqueNames } from '../src/migrations/unique-names.migration';
+
+(async () => {
+  try {
+    await connectDB();
+    const result = await migrateUniqueNames();
+    console.log('Unique names migration done:', result);
+  } catch (error) {
+    console.error('Unique names migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+})();
\ No newline at end of file
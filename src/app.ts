@@ -19,6 +19,16 @@ import subscriptionRoutes from "./routes/subscription.routes";
 import notificationRoutes from "./routes/notification.routes";
 import adminRoutes from "./routes/admin.routes";
 import healthRoutes from "./routes/health.routes";
+import trashRoutes from "./routes/trash.routes";
+import jobRoutes from "./routes/job.routes";
+import batchRoutes from "./routes/batch.routes";
+import searchRoutes from "./routes/search.routes";
+import tagRoutes from "./routes/tag.routes";
+import metadataSchemaRoutes from "./routes/metadata-schema.routes";
+import meRoutes from "./routes/me.routes";
+import shareRoutes from "./routes/share.routes";
+import fileRequestRoutes from "./routes/file-request.routes";
+import retentionRoutes from "./routes/retention.routes";
 
 const app: Application = express();
 
@@ -62,8 +72,18 @@ app.use(express.urlencoded({ limit: "2mb", extended: true }));
 app.use("/api", healthRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/user", userRoutes);
+app.use("/api/me", meRoutes);
 app.use("/api/file", fileRoutes);
 app.use("/api/folder", folderRoutes);
+app.use("/api/trash", trashRoutes);
+app.use("/api/job", jobRoutes);
+app.use("/api/batch", batchRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/tag", tagRoutes);
+app.use("/api/metadata-schema", metadataSchemaRoutes);
+app.use("/api/share", shareRoutes);
+app.use("/api/file-request", fileRequestRoutes);
+app.use("/api/retention", retentionRoutes);
 app.use("/api/business", businessRoutes);
 app.use("/api/permission", permissionRoutes);
 app.use("/api/subscription", subscriptionRoutes);
@@ -2,6 +2,7 @@ import type { Request, Response, NextFunction } from "express";
 import bcrypt from "bcrypt";
 
 import AdminService from "../services/admin.service";
+import storageQuotaService from "../services/storage-quota.service";
 import { AppError } from "../errors/app.errors";
 
 /**
@@ -14,6 +15,11 @@ type CreateAdminBody = {
   role?: "admin" | "superadmin";
 };
 
+type UpdateQuotaBody = {
+  maxBytes?: number | null; // null = back to the plan limit
+  maxFiles?: number | null;
+};
+
 type UpdateAdminBody = {
   username?: string;
   email?: string;
@@ -221,4 +227,46 @@ export async function deleteAdmin(
   } catch (error) {
     next(error);
   }
+}
+
+/**
+ * Override a business storage quota
+ * @route PUT /admin/business/:id/quota
+ * @desc Set (number) or clear (null) the byte / file limits of a business
+ * @access Platform admins
+ */
+export async function updateBusinessQuota(
+  req: Request<{ id: string }, {}, UpdateQuotaBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const usage = await storageQuotaService.setOverrides(req.params.id, {
+      maxBytes: req.body.maxBytes,
+      maxFiles: req.body.maxFiles,
+    });
+
+    res.status(200).json(usage);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Recount a business storage usage
+ * @route POST /admin/business/:id/quota/recalculate
+ * @desc Rebuild the usage counters from the stored files (repairs drift)
+ * @access Platform admins
+ */
+export async function recalculateBusinessUsage(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await storageQuotaService.recalculate(req.params.id);
+    res.status(200).json(await storageQuotaService.getUsage(req.params.id));
+  } catch (error) {
+    next(error);
+  }
 }
\ No newline at end of file
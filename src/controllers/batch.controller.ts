@@ -0,0 +1,110 @@
+import type { Request, Response, NextFunction } from "express";
+import batchService, { type BatchItem } from "../services/batch.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { NameConflictPolicy } from "../services/name-conflict.service";
+
+type BatchBody = {
+  businessId: string;
+  items: BatchItem[];
+};
+
+type BatchTransferBody = BatchBody & {
+  targetFolderId?: string | null;
+  conflict?: NameConflictPolicy;
+};
+
+type BatchTagBody = BatchBody & {
+  tagIds: string[];
+  action?: "add" | "remove";
+};
+
+/**
+ * POST /batch/delete
+ * Starts the batch; poll GET /job/:id for progress and per-item outcomes.
+ */
+export const batchDelete = async (
+  req: Request<{}, {}, BatchBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await batchService.deleteItems({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      items: req.body.items,
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /batch/move
+ */
+export const batchMove = async (
+  req: Request<{}, {}, BatchTransferBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await batchService.moveItems({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      items: req.body.items,
+      targetFolderId: req.body.targetFolderId ?? null,
+      conflict: req.body.conflict,
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /batch/copy
+ */
+export const batchCopy = async (
+  req: Request<{}, {}, BatchTransferBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await batchService.copyItems({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      items: req.body.items,
+      targetFolderId: req.body.targetFolderId ?? null,
+      conflict: req.body.conflict,
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /batch/tag
+ */
+export const batchTag = async (
+  req: Request<{}, {}, BatchTagBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await batchService.tagItems({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      items: req.body.items,
+      tagIds: req.body.tagIds,
+      action: req.body.action ?? "add",
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -2,6 +2,9 @@ import type { Request, Response, NextFunction } from "express";
 import { Types } from "mongoose";
 
 import businessService from "../services/business.service";
+import storageQuotaService from "../services/storage-quota.service";
+import pathService from "../services/path.service";
+import { requireAuth } from "../middleware/auth.middleware";
 import { AppError } from "../errors/app.errors";
 
 /**
@@ -74,4 +77,68 @@ export const updateBusiness = async (req: Request, res: Response, next: NextFunc
   } catch (err) {
     return next(err);
   }
+};
+
+/**
+ * PUT /api/business/:id/trash-retention
+ * Body: { trashRetentionDays }
+ * Requires auth (business owner).
+ */
+export const updateTrashRetention = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const trashRetentionDays = Number(req.body?.trashRetentionDays);
+
+    if (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 1 || trashRetentionDays > 365) {
+      throw new AppError({
+        message: "trashRetentionDays must be an integer between 1 and 365",
+        statusCode: 400,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const updated = await businessService.updateTrashRetention(id, trashRetentionDays);
+    if (!updated) {
+      throw new AppError({
+        message: "Business not found",
+        statusCode: 404,
+        code: "BUSINESS_NOT_FOUND",
+      });
+    }
+
+    return res.status(200).json(updated);
+  } catch (err) {
+    return next(err);
+  }
+};
+
+/**
+ * GET /api/business/:id/usage
+ * Storage used vs. the business limits.
+ * Requires auth (business member).
+ */
+export const getStorageUsage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const usage = await storageQuotaService.getUsage(req.params.id);
+    return res.status(200).json(usage);
+  } catch (err) {
+    return next(err);
+  }
+};
+
+/**
+ * GET /api/business/:id/resolve?path=/Clients/Acme/contract.pdf
+ * Item at a path, with its breadcrumbs.
+ */
+export const resolvePath = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const resolved = await pathService.resolve({
+      businessId: req.params.id,
+      path: String(req.query.path),
+      userId: requireAuth(req).userIdString,
+    });
+    return res.status(200).json(resolved);
+  } catch (err) {
+    return next(err);
+  }
 };
\ No newline at end of file
@@ -0,0 +1,96 @@
+import type { Request, Response, NextFunction } from "express";
+import commentService from "../services/comment.service";
+import { requireAuth } from "../middleware/auth.middleware";
+
+type CreateCommentBody = {
+  body: string;
+  parentId?: string | null;
+};
+
+type UpdateCommentBody = {
+  body?: string;
+  resolved?: boolean;
+};
+
+/**
+ * GET /file/:id/comments
+ * Threads with their replies.
+ */
+export const listFileComments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const threads = await commentService.listComments(req.params.id);
+    res.status(200).json(threads);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /file/:id/comments
+ */
+export const createFileComment = async (
+  req: Request<{ id: string }, {}, CreateCommentBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const comment = await commentService.createComment({
+      fileId: req.params.id,
+      userId: requireAuth(req).userIdString,
+      body: req.body.body,
+      parentId: req.body.parentId ?? null,
+    });
+
+    res.status(201).json(comment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /file/:id/comments/:commentId
+ */
+export const updateFileComment = async (
+  req: Request<{ id: string; commentId: string }, {}, UpdateCommentBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const comment = await commentService.updateComment({
+      fileId: req.params.id,
+      commentId: req.params.commentId,
+      userId: requireAuth(req).userIdString,
+      body: req.body.body,
+      resolved: req.body.resolved,
+    });
+
+    res.status(200).json(comment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /file/:id/comments/:commentId
+ */
+export const deleteFileComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await commentService.deleteComment({
+      fileId: req.params.id,
+      commentId: req.params.commentId,
+      userId: requireAuth(req).userIdString,
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,152 @@
+import type { Request, Response, NextFunction } from "express";
+import fileRequestService from "../services/file-request.service";
+import { requireAuth } from "../middleware/auth.middleware";
+
+type CreateFileRequestBody = {
+  title?: string;
+  expiresAt: string;
+  maxFiles: number;
+  maxFileSize: number;
+  allowedContentTypes?: string[];
+};
+
+/**
+ * POST /file-request/folder/:id
+ */
+export const createFileRequest = async (
+  req: Request<{ id: string }, {}, CreateFileRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const fileRequest = await fileRequestService.createRequest({
+      userId: requireAuth(req).userIdString,
+      folderId: req.params.id,
+      title: req.body.title,
+      expiresAt: new Date(req.body.expiresAt),
+      maxFiles: Number(req.body.maxFiles),
+      maxFileSize: Number(req.body.maxFileSize),
+      allowedContentTypes: req.body.allowedContentTypes,
+    });
+
+    res.status(201).json(fileRequest);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file-request/links?folderId=
+ */
+export const listFileRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const fileRequests = await fileRequestService.listRequests(requireAuth(req).userIdString, {
+      folderId: typeof req.query.folderId === "string" ? req.query.folderId : undefined,
+    });
+
+    res.status(200).json(fileRequests);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /file-request/links/:id/revoke
+ */
+export const revokeFileRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const fileRequest = await fileRequestService.revokeRequest(req.params.id, requireAuth(req).userIdString);
+    res.status(200).json(fileRequest);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file-request/:token
+ * Public: no authentication.
+ */
+export const describeFileRequest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const fileRequest = await fileRequestService.describe(req.params.token);
+    res.status(200).json(fileRequest);
+  } catch (error) {
+    next(error);
+  }
+};
+
+type PublicStartUploadBody = {
+  fileName: string;
+  fileSize: number;
+  contentType?: string | null;
+  checksumSha256?: string | null;
+};
+
+/**
+ * POST /file-request/:token/upload/start
+ * Public: no authentication.
+ */
+export const startFileRequestUpload = async (
+  req: Request<{ token: string }, {}, PublicStartUploadBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const startedUpload = await fileRequestService.startUpload({
+      token: req.params.token,
+      fileName: req.body.fileName,
+      fileSize: Number(req.body.fileSize),
+      contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
+    });
+
+    res.status(200).json(startedUpload);
+  } catch (error) {
+    next(error);
+  }
+};
+
+type PublicCompleteUploadBody = PublicStartUploadBody & {
+  fileId: string;
+  s3Key: string;
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * POST /file-request/:token/upload/complete
+ * Public: no authentication.
+ */
+export const completeFileRequestUpload = async (
+  req: Request<{ token: string }, {}, PublicCompleteUploadBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const uploadedFile = await fileRequestService.completeUpload({
+      token: req.params.token,
+      fileId: req.body.fileId,
+      s3Key: req.body.s3Key,
+      fileName: req.body.fileName,
+      fileSize: Number(req.body.fileSize),
+      contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
+      metadata: req.body.metadata,
+    });
+
+    res.status(201).json(uploadedFile);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
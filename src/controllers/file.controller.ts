@@ -1,5 +1,14 @@
 import type { Request, Response, NextFunction } from "express";
 import fileService from "../services/file.service";
+import fileVersionService from "../services/file-version.service";
+import trashService from "../services/trash.service";
+import copyService from "../services/copy.service";
+import tagService from "../services/tag.service";
+import thumbnailService from "../services/thumbnail.service";
+import fileLockService from "../services/file-lock.service";
+import pathService from "../services/path.service";
+import type { NameConflictPolicy } from "../services/name-conflict.service";
+import { requireAuth } from "../middleware/auth.middleware";
 
 /**
  * Response type for GET /file/:id
@@ -16,7 +25,7 @@ export const getFileById = async (
 ): Promise<void> => {
   try {
     const fileId = req.params.id;
-    const file = await fileService.getFileById(fileId);
+    const file = await fileService.getFileById(fileId, requireAuth(req).userIdString);
 
     if (!file) {
       res.status(404).json({ message: "File not found" });
@@ -34,11 +43,13 @@ export const getFileById = async (
  */
 type StartUploadBody = {
   businessId: string;
-  userId: string;
   folderId?: string | null;
+  fileId?: string | null;
   fileName: string;
   fileSize: number;
   contentType?: string | null;
+  checksumSha256?: string | null;
+  conflict?: NameConflictPolicy;
 };
 
 /**
@@ -52,11 +63,14 @@ export const startFileUpload = async (
   try {
     const startResult = await fileService.startUpload({
       businessId: req.body.businessId,
-      userId: req.body.userId,
+      userId: requireAuth(req).userIdString,
       folderId: req.body.folderId ?? null,
+      fileId: req.body.fileId ?? null,
       fileName: req.body.fileName,
       fileSize: Number(req.body.fileSize),
       contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
+      conflict: req.body.conflict,
     });
 
     res.status(200).json(startResult);
@@ -71,12 +85,13 @@ export const startFileUpload = async (
 type CompleteUploadBody = {
   fileId: string;
   businessId: string;
-  userId: string;
   folderId?: string | null;
   fileName: string;
   fileSize: number;
   contentType?: string | null;
+  checksumSha256?: string | null;
   s3Key: string;
+  metadata?: Record<string, unknown>;
 };
 
 /**
@@ -91,12 +106,14 @@ export const completeFileUpload = async (
     const createdFile = await fileService.completeUpload({
       fileId: req.body.fileId,
       businessId: req.body.businessId,
-      userId: req.body.userId,
+      userId: requireAuth(req).userIdString,
       folderId: req.body.folderId ?? null,
       fileName: req.body.fileName,
       fileSize: Number(req.body.fileSize),
       contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
       s3Key: req.body.s3Key,
+      metadata: req.body.metadata,
     });
 
     res.status(201).json(createdFile);
@@ -105,6 +122,163 @@ export const completeFileUpload = async (
   }
 };
 
+/**
+ * POST /file/upload/multipart/start
+ * Same body as /file/upload/start.
+ */
+export const startMultipartFileUpload = async (
+  req: Request<{}, {}, StartUploadBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const startResult = await fileService.startMultipartUpload({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      folderId: req.body.folderId ?? null,
+      fileId: req.body.fileId ?? null,
+      fileName: req.body.fileName,
+      fileSize: Number(req.body.fileSize),
+      contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
+      conflict: req.body.conflict,
+    });
+
+    res.status(200).json(startResult);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Body type for POST /file/upload/multipart/parts
+ */
+type PresignPartsBody = {
+  businessId: string;
+  s3Key: string;
+  uploadId: string;
+  partNumbers: number[];
+};
+
+/**
+ * POST /file/upload/multipart/parts
+ * Presigned PUT URLs for the requested part numbers.
+ */
+export const presignMultipartParts = async (
+  req: Request<{}, {}, PresignPartsBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const partUrls = await fileService.presignMultipartParts({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      s3Key: req.body.s3Key,
+      uploadId: req.body.uploadId,
+      partNumbers: req.body.partNumbers.map(Number),
+    });
+
+    res.status(200).json({ parts: partUrls });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file/upload/multipart/parts?businessId=&s3Key=&uploadId=
+ * Parts already uploaded (resume).
+ */
+export const listMultipartParts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const uploadedParts = await fileService.listMultipartParts({
+      businessId: String(req.query.businessId),
+      userId: requireAuth(req).userIdString,
+      s3Key: String(req.query.s3Key),
+      uploadId: String(req.query.uploadId),
+    });
+
+    res.status(200).json({ parts: uploadedParts });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Body type for POST /file/upload/multipart/complete
+ */
+type CompleteMultipartUploadBody = CompleteUploadBody & {
+  uploadId: string;
+  parts: Array<{ partNumber: number; eTag: string }>;
+};
+
+/**
+ * POST /file/upload/multipart/complete
+ */
+export const completeMultipartFileUpload = async (
+  req: Request<{}, {}, CompleteMultipartUploadBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const createdFile = await fileService.completeMultipartUpload({
+      fileId: req.body.fileId,
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      folderId: req.body.folderId ?? null,
+      fileName: req.body.fileName,
+      fileSize: Number(req.body.fileSize),
+      contentType: req.body.contentType ?? undefined,
+      checksumSha256: req.body.checksumSha256 ?? undefined,
+      s3Key: req.body.s3Key,
+      metadata: req.body.metadata,
+      uploadId: req.body.uploadId,
+      parts: req.body.parts.map((part) => ({
+        partNumber: Number(part.partNumber),
+        eTag: String(part.eTag),
+      })),
+    });
+
+    res.status(201).json(createdFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Body type for POST /file/upload/multipart/abort
+ */
+type AbortMultipartUploadBody = {
+  businessId: string;
+  s3Key: string;
+  uploadId: string;
+};
+
+/**
+ * POST /file/upload/multipart/abort
+ */
+export const abortMultipartFileUpload = async (
+  req: Request<{}, {}, AbortMultipartUploadBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await fileService.abortMultipartUpload({
+      businessId: req.body.businessId,
+      userId: requireAuth(req).userIdString,
+      s3Key: req.body.s3Key,
+      uploadId: req.body.uploadId,
+    });
+
+    res.status(200).json({ message: "Multipart upload aborted" });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * PUT /file/:id
  * Metadata-only update.
@@ -117,11 +291,15 @@ export const updateFile = async (
   try {
     const fileId = req.params.id;
 
-    // Prevent accidental s3Key changes via endpoint
-    const updatePayload = { ...req.body } as Record<string, unknown>;
-    delete updatePayload.s3Key;
+    // Anything but the editable fields is refused by the service (400)
+    const { conflict, ...updatePayload } = { ...req.body } as Record<string, unknown>;
 
-    const updatedFile = await fileService.updateFile(fileId, updatePayload);
+    const updatedFile = await fileService.updateFile(
+      fileId,
+      updatePayload,
+      requireAuth(req).userIdString,
+      conflict as NameConflictPolicy | undefined
+    );
 
     if (!updatedFile) {
       res.status(404).json({ message: "File not found for update" });
@@ -136,6 +314,7 @@ export const updateFile = async (
 
 /**
  * DELETE /file/:id
+ * Soft delete: moves the file to the trash (see /trash for restore/purge).
  */
 export const deleteFile = async (
   req: Request,
@@ -144,14 +323,232 @@ export const deleteFile = async (
 ): Promise<void> => {
   try {
     const fileId = req.params.id;
-    const deletedFile = await fileService.deleteFile(fileId);
+    const { userIdString } = requireAuth(req);
 
-    if (!deletedFile) {
-      res.status(404).json({ message: "File not found for deletion" });
-      return;
-    }
+    await trashService.trashFile(fileId, userIdString);
+
+    res.status(200).json({ message: "File moved to trash" });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.status(200).json({ message: "File deleted" });
+type CopyBody = {
+  targetFolderId?: string | null;
+  newName?: string;
+  conflict?: NameConflictPolicy;
+};
+
+/**
+ * POST /file/:id/copy
+ * Copies the current version into `targetFolderId` (root when omitted).
+ */
+export const copyFile = async (
+  req: Request<{ id: string }, {}, CopyBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { targetFolderId, newName, conflict } = req.body;
+
+    const copiedFile = await copyService.copyFile({
+      fileId: req.params.id,
+      userId: requireAuth(req).userIdString,
+      targetFolderId: targetFolderId ?? null,
+      newName,
+      conflict,
+    });
+
+    res.status(201).json(copiedFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file/:id/versions
+ */
+export const listFileVersions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const versions = await fileVersionService.listVersions(req.params.id);
+    res.status(200).json(versions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file/:id/versions/:versionId/download
+ */
+export const getFileVersionDownloadUrl = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const version = await fileVersionService.getVersionDownloadUrl(
+      req.params.id,
+      req.params.versionId
+    );
+    res.status(200).json(version);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /file/:id/versions/:versionId/restore
+ */
+export const restoreFileVersion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const restoredFile = await fileVersionService.restoreVersion(
+      req.params.id,
+      req.params.versionId,
+      requireAuth(req).userIdString
+    );
+    res.status(200).json(restoredFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /file/:id/versions/:versionId
+ */
+export const deleteFileVersion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await fileVersionService.deleteVersion(req.params.id, req.params.versionId, requireAuth(req).userIdString);
+    res.status(200).json({ message: "File version deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+type AttachTagsBody = {
+  tagIds: string[];
+};
+
+/**
+ * POST /file/:id/tags
+ */
+export const attachFileTags = async (
+  req: Request<{ id: string }, {}, AttachTagsBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tagIds = await tagService.attachTags("file", req.params.id, req.body.tagIds);
+    res.status(200).json({ tagIds });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /file/:id/tags/:tagId
+ */
+export const detachFileTag = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tagIds = await tagService.detachTag("file", req.params.id, req.params.tagId);
+    res.status(200).json({ tagIds });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /file/:id/thumbnail
+ * Queue thumbnail generation again (ex: after a recorded failure).
+ */
+export const retryFileThumbnail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await thumbnailService.retry(req.params.id);
+    res.status(202).json({ message: "Thumbnail generation queued" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+type LockBody = {
+  reason?: string | null;
+  durationMinutes?: number;
+};
+
+/**
+ * POST /file/:id/lock
+ * Check out the file (renews the lock when already held by the caller).
+ */
+export const lockFile = async (
+  req: Request<{ id: string }, {}, LockBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const lockedFile = await fileLockService.lockFile({
+      fileId: req.params.id,
+      userId: requireAuth(req).userIdString,
+      reason: req.body.reason ?? null,
+      durationMinutes: req.body.durationMinutes,
+    });
+
+    res.status(200).json(lockedFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /file/:id/unlock
+ */
+export const unlockFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const unlockedFile = await fileLockService.unlockFile({
+      fileId: req.params.id,
+      userId: requireAuth(req).userIdString,
+    });
+
+    res.status(200).json(unlockedFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /file/:id/breadcrumbs
+ * Ancestor chain (root first) and full path.
+ */
+export const getFileBreadcrumbs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const breadcrumbs = await pathService.fileBreadcrumbs(req.params.id);
+    res.status(200).json(breadcrumbs);
   } catch (error) {
     next(error);
   }
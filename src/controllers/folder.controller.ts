@@ -1,5 +1,14 @@
 import type { Request, Response, NextFunction } from "express";
 import folderService from "../services/folder.service";
+import trashService from "../services/trash.service";
+import copyService from "../services/copy.service";
+import tagService from "../services/tag.service";
+import metadataService from "../services/metadata.service";
+import exportService from "../services/export.service";
+import pathService from "../services/path.service";
+import type { NameConflictPolicy } from "../services/name-conflict.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { ListingOrder, ListingSortField } from "../utils/listing.utils";
 
 /**
  * GET /folder
@@ -45,6 +54,7 @@ type CreateFolderBody = {
   userId: string;
   businessId: string;
   parentFolderId?: string | null;
+  conflict?: NameConflictPolicy;
 };
 
 /**
@@ -56,13 +66,14 @@ export const createFolder = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { folderName, userId, businessId, parentFolderId } = req.body;
+    const { folderName, userId, businessId, parentFolderId, conflict } = req.body;
 
     const createdFolder = await folderService.createFolder(
       folderName,
       userId,
       businessId,
-      parentFolderId ?? null
+      parentFolderId ?? null,
+      conflict
     );
 
     res.status(201).json(createdFolder);
@@ -72,7 +83,7 @@ export const createFolder = async (
 };
 
 /**
- * GET /folder/files-folders/:businessId/:folderId?
+ * GET /folder/files-folders/:businessId/:folderId??tags=&meta[key]=value&sort=&order=&limit=&cursor=
  */
 export const getFilesAndFolders = async (
   req: Request,
@@ -83,7 +94,31 @@ export const getFilesAndFolders = async (
     const businessId = req.params.businessId;
     const folderId = req.params.folderId;
 
-    const items = await folderService.fetchItemsByFolderId(folderId, businessId);
+    // ?tags=<tagId>,<tagId> => only items carrying all of them
+    const tagIds = typeof req.query.tags === "string" ? req.query.tags.split(",").filter(Boolean) : undefined;
+
+    // ?meta[<key>]=<value> => files whose metadata field equals value (cast by the folder's schema)
+    const rawMetadataFilters =
+      typeof req.query.meta === "object" && req.query.meta !== null && !Array.isArray(req.query.meta)
+        ? Object.fromEntries(
+            Object.entries(req.query.meta).filter(
+              (entry): entry is [string, string] => typeof entry[1] === "string"
+            )
+          )
+        : {};
+    const metadata = await metadataService.buildListingFilter(folderId, rawMetadataFilters);
+
+    const items = await folderService.fetchItemsByFolderId(
+      folderId,
+      businessId,
+      { tagIds, metadata },
+      {
+        sort: req.query.sort as ListingSortField | undefined,
+        order: req.query.order as ListingOrder | undefined,
+        limit: req.query.limit === undefined ? undefined : Number(req.query.limit),
+        cursor: typeof req.query.cursor === "string" ? req.query.cursor : null,
+      }
+    );
     res.status(200).json(items);
   } catch (error) {
     next(error);
@@ -101,11 +136,15 @@ export const updateFolder = async (
   try {
     const folderId = req.params.id;
 
-    // Never allow s3Key updates from this endpoint
-    const updatePayload = { ...req.body } as Record<string, unknown>;
-    delete updatePayload.s3Key;
+    // Anything but the editable fields is refused by the service (400)
+    const { conflict, ...updatePayload } = { ...req.body } as Record<string, unknown>;
 
-    const updatedFolder = await folderService.updateFolder(folderId, updatePayload);
+    const updatedFolder = await folderService.updateFolder(
+      folderId,
+      updatePayload,
+      requireAuth(req).userIdString,
+      conflict as NameConflictPolicy | undefined
+    );
 
     if (!updatedFolder) {
       res.status(404).json({ message: "Folder not found for update" });
@@ -118,8 +157,37 @@ export const updateFolder = async (
   }
 };
 
+type MoveFolderBody = {
+  targetFolderId?: string | null;
+  conflict?: NameConflictPolicy;
+};
+
+/**
+ * POST /folder/:id/move
+ * `targetFolderId` null/omitted moves the folder to the business root.
+ */
+export const moveFolder = async (
+  req: Request<{ id: string }, {}, MoveFolderBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const movedFolder = await folderService.moveFolder(
+      req.params.id,
+      req.body.targetFolderId ?? null,
+      requireAuth(req).userIdString,
+      req.body.conflict
+    );
+
+    res.status(200).json(movedFolder);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * DELETE /folder/:id
+ * Soft delete: moves the folder (and its subtree) to the trash.
  */
 export const deleteFolder = async (
   req: Request,
@@ -128,14 +196,169 @@ export const deleteFolder = async (
 ): Promise<void> => {
   try {
     const folderId = req.params.id;
-    const deletedFolder = await folderService.deleteFolder(folderId);
+    const { userIdString } = requireAuth(req);
 
-    if (!deletedFolder) {
-      res.status(404).json({ message: "Folder not found" });
-      return;
-    }
+    await trashService.trashFolder(folderId, userIdString);
+
+    res.status(200).json({ message: "Folder moved to trash" });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.status(200).json({ message: "Folder deleted successfully" });
+type CopyFolderBody = {
+  targetFolderId?: string | null;
+  newName?: string;
+  conflict?: NameConflictPolicy;
+};
+
+/**
+ * POST /folder/:id/copy
+ * Starts a background copy of the subtree; poll GET /job/:id for progress.
+ */
+export const copyFolder = async (
+  req: Request<{ id: string }, {}, CopyFolderBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { targetFolderId, newName, conflict } = req.body;
+
+    const job = await copyService.copyFolder({
+      folderId: req.params.id,
+      userId: requireAuth(req).userIdString,
+      targetFolderId: targetFolderId ?? null,
+      newName,
+      conflict,
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /folder/:id/export
+ * Starts a ZIP export of the subtree; poll GET /job/:id for progress and the download URL.
+ */
+export const exportFolder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await exportService.exportFolder({
+      folderId: req.params.id,
+      userId: requireAuth(req).userIdString,
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+type AttachTagsBody = {
+  tagIds: string[];
+};
+
+/**
+ * POST /folder/:id/tags
+ */
+export const attachFolderTags = async (
+  req: Request<{ id: string }, {}, AttachTagsBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tagIds = await tagService.attachTags("folder", req.params.id, req.body.tagIds);
+    res.status(200).json({ tagIds });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /folder/:id/tags/:tagId
+ */
+export const detachFolderTag = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tagIds = await tagService.detachTag("folder", req.params.id, req.params.tagId);
+    res.status(200).json({ tagIds });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /folder/:id/metadata-schema
+ * `metadataSchemaId` null detaches the schema.
+ */
+export const setFolderMetadataSchema = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const folder = await metadataService.setFolderSchema(req.params.id, req.body.metadataSchemaId ?? null);
+    res.status(200).json(folder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /folder/:id/breadcrumbs
+ * Ancestor chain (root first) and full path.
+ */
+export const getFolderBreadcrumbs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const breadcrumbs = await pathService.folderBreadcrumbs(req.params.id);
+    res.status(200).json(breadcrumbs);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /folder/tree/:businessId?depth=
+ * Nested folder hierarchy (sidebar).
+ */
+export const getFolderTree = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const depth = req.query.depth === undefined ? undefined : Number(req.query.depth);
+    const tree = await folderService.getFolderTree(req.params.businessId, depth);
+    res.status(200).json(tree);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /folder/:id/stats
+ * Recursive totals of the subtree.
+ */
+export const getFolderStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const stats = await folderService.getFolderStats(req.params.id);
+    res.status(200).json(stats);
   } catch (error) {
     next(error);
   }
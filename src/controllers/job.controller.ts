@@ -0,0 +1,22 @@
+import type { Request, Response, NextFunction } from "express";
+import jobService from "../services/job.service";
+import exportService from "../services/export.service";
+import { requireAuth } from "../middleware/auth.middleware";
+
+/**
+ * GET /job/:id
+ * Status + progress of a background job started by the caller.
+ * Finished folder exports also get a `downloadUrl` (until the archive expires).
+ */
+export const getJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await jobService.getJob(req.params.id, requireAuth(req).userIdString);
+    res.status(200).json(await exportService.withDownloadUrl(job));
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
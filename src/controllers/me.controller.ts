@@ -0,0 +1,91 @@
+import type { Request, Response, NextFunction } from "express";
+import starService from "../services/star.service";
+import recentFileService from "../services/recent-file.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { StarItemType } from "../models/star.model";
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/**
+ * GET /me/starred?page=&limit=
+ */
+export const listStarred = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const starred = await starService.listStarred(requireAuth(req).userIdString, {
+      page: optionalNumber(req.query.page),
+      limit: optionalNumber(req.query.limit),
+    });
+
+    res.status(200).json(starred);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /me/starred/:itemType/:id
+ */
+export const starItem = async (
+  req: Request<{ itemType: StarItemType; id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const star = await starService.starItem({
+      userId: requireAuth(req).userIdString,
+      itemType: req.params.itemType,
+      itemId: req.params.id,
+    });
+
+    res.status(200).json(star);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /me/starred/:itemType/:id
+ */
+export const unstarItem = async (
+  req: Request<{ itemType: StarItemType; id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await starService.unstarItem({
+      userId: requireAuth(req).userIdString,
+      itemType: req.params.itemType,
+      itemId: req.params.id,
+    });
+
+    res.status(200).json({ message: "Star removed" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /me/recent?page=&limit=
+ */
+export const listRecentFiles = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const recentFiles = await recentFileService.listRecent(requireAuth(req).userIdString, {
+      page: optionalNumber(req.query.page),
+      limit: optionalNumber(req.query.limit),
+    });
+
+    res.status(200).json(recentFiles);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,90 @@
+import type { Request, Response, NextFunction } from "express";
+import metadataService from "../services/metadata.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { MetadataFieldType } from "../models/metadata-schema.model";
+
+type MetadataSchemaBody = {
+  name?: string;
+  fields?: Array<{
+    key: string;
+    label?: string;
+    type: MetadataFieldType;
+    required?: boolean;
+    options?: string[];
+  }>;
+};
+
+/**
+ * GET /metadata-schema/:businessId
+ */
+export const listMetadataSchemas = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const schemas = await metadataService.listSchemas(req.params.businessId);
+    res.status(200).json(schemas);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /metadata-schema/:businessId
+ */
+export const createMetadataSchema = async (
+  req: Request<{ businessId: string }, {}, MetadataSchemaBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const createdSchema = await metadataService.createSchema({
+      businessId: req.params.businessId,
+      userId: requireAuth(req).userIdString,
+      name: req.body.name ?? "",
+      fields: req.body.fields ?? [],
+    });
+
+    res.status(201).json(createdSchema);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /metadata-schema/:businessId/:schemaId
+ * Existing file values are not revalidated.
+ */
+export const updateMetadataSchema = async (
+  req: Request<{ businessId: string; schemaId: string }, {}, MetadataSchemaBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const updatedSchema = await metadataService.updateSchema(req.params.schemaId, req.params.businessId, {
+      name: req.body.name,
+      fields: req.body.fields,
+    });
+
+    res.status(200).json(updatedSchema);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /metadata-schema/:businessId/:schemaId
+ */
+export const deleteMetadataSchema = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await metadataService.deleteSchema(req.params.schemaId, req.params.businessId);
+    res.status(200).json({ message: "Metadata schema deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
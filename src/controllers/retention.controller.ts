@@ -0,0 +1,133 @@
+import type { Request, Response, NextFunction } from "express";
+import retentionService from "../services/retention.service";
+import legalHoldService from "../services/legal-hold.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { LegalHoldTargetType } from "../models/legal-hold.model";
+
+type RetentionRuleBody = {
+  minRetentionDays?: number | null;
+  autoDeleteAfterDays?: number | null;
+};
+
+type LegalHoldBody = {
+  targetType: LegalHoldTargetType;
+  targetId: string;
+  reason: string;
+};
+
+/**
+ * GET /retention/:businessId/rules
+ */
+export const listRetentionRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rules = await retentionService.listRules(req.params.businessId);
+    res.status(200).json(rules);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /retention/:businessId/rules/:folderId
+ */
+export const setRetentionRule = async (
+  req: Request<{ businessId: string; folderId: string }, {}, RetentionRuleBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rule = await retentionService.setRule({
+      businessId: req.params.businessId,
+      folderId: req.params.folderId,
+      userId: requireAuth(req).userIdString,
+      minRetentionDays: req.body.minRetentionDays ?? null,
+      autoDeleteAfterDays: req.body.autoDeleteAfterDays ?? null,
+    });
+
+    res.status(200).json(rule);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /retention/:businessId/rules/:folderId
+ */
+export const deleteRetentionRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await retentionService.removeRule(req.params.businessId, req.params.folderId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /retention/:businessId/holds?active=true
+ */
+export const listLegalHolds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const holds = await legalHoldService.listHolds(req.params.businessId, {
+      activeOnly: req.query.active === "true",
+    });
+    res.status(200).json(holds);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /retention/:businessId/holds
+ */
+export const placeLegalHold = async (
+  req: Request<{ businessId: string }, {}, LegalHoldBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const hold = await legalHoldService.placeHold({
+      businessId: req.params.businessId,
+      userId: requireAuth(req).userIdString,
+      targetType: req.body.targetType,
+      targetId: req.body.targetId,
+      reason: req.body.reason,
+    });
+
+    res.status(201).json(hold);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /retention/:businessId/holds/:holdId/release
+ */
+export const releaseLegalHold = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const hold = await legalHoldService.releaseHold({
+      businessId: req.params.businessId,
+      holdId: req.params.holdId,
+      userId: requireAuth(req).userIdString,
+    });
+
+    res.status(200).json(hold);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,51 @@
+import type { Request, Response, NextFunction } from "express";
+import searchService, { type SearchItemType, type SearchSortField } from "../services/search.service";
+import { requireAuth } from "../middleware/auth.middleware";
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+function optionalDate(value: unknown): Date | undefined {
+  return typeof value === "string" && value.length > 0 ? new Date(value) : undefined;
+}
+
+/**
+ * GET /search?businessId=&q=&type=&contentType=&minSize=&maxSize=&ownerId=
+ *   &createdFrom=&createdTo=&updatedFrom=&updatedTo=&folderId=&sort=&order=&page=&limit=
+ */
+export const search = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const results = await searchService.search({
+      businessId: String(req.query.businessId),
+      userId: requireAuth(req).userIdString,
+      q: optionalString(req.query.q),
+      type: optionalString(req.query.type) as SearchItemType | undefined,
+      contentType: optionalString(req.query.contentType),
+      minSize: optionalNumber(req.query.minSize),
+      maxSize: optionalNumber(req.query.maxSize),
+      ownerId: optionalString(req.query.ownerId),
+      createdFrom: optionalDate(req.query.createdFrom),
+      createdTo: optionalDate(req.query.createdTo),
+      updatedFrom: optionalDate(req.query.updatedFrom),
+      updatedTo: optionalDate(req.query.updatedTo),
+      folderId: optionalString(req.query.folderId),
+      sort: optionalString(req.query.sort) as SearchSortField | undefined,
+      order: optionalString(req.query.order) as "asc" | "desc" | undefined,
+      page: optionalNumber(req.query.page),
+      limit: optionalNumber(req.query.limit),
+    });
+
+    res.status(200).json(results);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
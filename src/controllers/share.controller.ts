@@ -0,0 +1,131 @@
+import type { Request, Response, NextFunction } from "express";
+import shareLinkService from "../services/share-link.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { ShareLinkItemType } from "../models/share-link.model";
+
+type CreateShareLinkBody = {
+  expiresAt?: string | null;
+  password?: string | null;
+  maxDownloads?: number | null;
+};
+
+/**
+ * Password of a protected link (header, so it stays out of URLs and access logs).
+ */
+function sharePassword(req: Request): string | undefined {
+  const password = req.header("x-share-password");
+  return password ? password : undefined;
+}
+
+const createShareLink =
+  (itemType: ShareLinkItemType) =>
+  async (
+    req: Request<{ id: string }, {}, CreateShareLinkBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const link = await shareLinkService.createLink({
+        userId: requireAuth(req).userIdString,
+        itemType,
+        itemId: req.params.id,
+        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+        password: req.body.password ?? null,
+        maxDownloads: req.body.maxDownloads != null ? Number(req.body.maxDownloads) : null,
+      });
+
+      res.status(201).json(link);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * POST /share/file/:id
+ */
+export const createFileShareLink = createShareLink("file");
+
+/**
+ * POST /share/folder/:id
+ */
+export const createFolderShareLink = createShareLink("folder");
+
+/**
+ * GET /share/links?itemType=&itemId=
+ */
+export const listShareLinks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const links = await shareLinkService.listLinks(requireAuth(req).userIdString, {
+      itemType: typeof req.query.itemType === "string" ? (req.query.itemType as ShareLinkItemType) : undefined,
+      itemId: typeof req.query.itemId === "string" ? req.query.itemId : undefined,
+    });
+
+    res.status(200).json(links);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /share/links/:id/revoke
+ */
+export const revokeShareLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const link = await shareLinkService.revokeLink(req.params.id, requireAuth(req).userIdString);
+    res.status(200).json(link);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /share/:token?folderId=
+ * Public: no authentication.
+ */
+export const resolveShareLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const access = await shareLinkService.resolve({
+      token: req.params.token,
+      password: sharePassword(req),
+      folderId: typeof req.query.folderId === "string" ? req.query.folderId : undefined,
+    });
+
+    res.status(200).json(access);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /share/:token/files/:fileId
+ * Public: no authentication.
+ */
+export const downloadSharedFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const download = await shareLinkService.downloadFromFolder({
+      token: req.params.token,
+      password: sharePassword(req),
+      fileId: req.params.fileId,
+    });
+
+    res.status(200).json(download);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
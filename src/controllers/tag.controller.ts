@@ -0,0 +1,135 @@
+import type { Request, Response, NextFunction } from "express";
+import tagService from "../services/tag.service";
+import { requireAuth } from "../middleware/auth.middleware";
+import type { Resource } from "../middleware/permissions.middleware";
+
+/**
+ * GET /tag/:businessId
+ */
+export const listTags = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tags = await tagService.listTags(req.params.businessId);
+    res.status(200).json(tags);
+  } catch (error) {
+    next(error);
+  }
+};
+
+type TagBody = {
+  name?: string;
+  color?: string;
+};
+
+/**
+ * POST /tag/:businessId
+ */
+export const createTag = async (
+  req: Request<{ businessId: string }, {}, TagBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const createdTag = await tagService.createTag({
+      businessId: req.params.businessId,
+      userId: requireAuth(req).userIdString,
+      name: req.body.name ?? "",
+      color: req.body.color,
+    });
+
+    res.status(201).json(createdTag);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /tag/:businessId/:tagId
+ */
+export const updateTag = async (
+  req: Request<{ businessId: string; tagId: string }, {}, TagBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const updatedTag = await tagService.updateTag(req.params.tagId, req.params.businessId, {
+      name: req.body.name,
+      color: req.body.color,
+    });
+
+    res.status(200).json(updatedTag);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /tag/:businessId/:tagId
+ * Also removes the tag from every file and folder.
+ */
+export const deleteTag = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await tagService.deleteTag(req.params.tagId, req.params.businessId);
+    res.status(200).json({ message: "Tag deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /tag/:businessId/:tagId/items
+ */
+export const listTaggedItems = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const taggedItems = await tagService.listItemsByTag(
+      req.params.tagId,
+      req.params.businessId,
+      requireAuth(req).userIdString
+    );
+
+    res.status(200).json(taggedItems);
+  } catch (error) {
+    next(error);
+  }
+};
+
+type BulkTagBody = {
+  items: Array<{ type: Resource; id: string }>;
+  tagIds: string[];
+  action?: "add" | "remove";
+};
+
+/**
+ * POST /tag/:businessId/bulk
+ * Per-item outcome: updated | not_found | forbidden.
+ */
+export const bulkTag = async (
+  req: Request<{ businessId: string }, {}, BulkTagBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const results = await tagService.bulkTag({
+      businessId: req.params.businessId,
+      userId: requireAuth(req).userIdString,
+      items: req.body.items,
+      tagIds: req.body.tagIds,
+      action: req.body.action ?? "add",
+    });
+
+    res.status(200).json({ results });
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
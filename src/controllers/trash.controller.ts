@@ -0,0 +1,84 @@
+import type { Request, Response, NextFunction } from "express";
+import trashService from "../services/trash.service";
+
+/**
+ * GET /trash/:businessId
+ */
+export const listTrash = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const items = await trashService.listTrash(req.params.businessId);
+    res.status(200).json(items);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /trash/file/:id/restore
+ */
+export const restoreFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const restoredFile = await trashService.restoreFile(req.params.id);
+    res.status(200).json(restoredFile);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /trash/folder/:id/restore
+ */
+export const restoreFolder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const restoredFolder = await trashService.restoreFolder(req.params.id);
+    res.status(200).json(restoredFolder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /trash/file/:id
+ * Permanent delete.
+ */
+export const deleteFilePermanently = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await trashService.deleteFilePermanently(req.params.id);
+    res.status(200).json({ message: "File permanently deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /trash/folder/:id
+ * Permanent delete (whole subtree).
+ */
+export const deleteFolderPermanently = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await trashService.deleteFolderPermanently(req.params.id);
+    res.status(200).json({ message: "Folder permanently deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -37,6 +37,22 @@ function extractAccessToken(req: Request): string | undefined {
   return token.trim();
 }
 
+/**
+ * Read the auth context inside a handler mounted after `authenticate`.
+ * Throws 401 if the middleware did not run (misconfigured route).
+ */
+export function requireAuth(req: Request): AuthContext {
+  if (!req.auth?.userIdString) {
+    throw new AppError({
+      message: "Not authenticated",
+      statusCode: 401,
+      code: "NOT_AUTHENTICATED",
+    });
+  }
+
+  return req.auth;
+}
+
 /**
  * Authentication middleware (JWT).
  *
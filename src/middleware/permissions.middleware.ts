@@ -1,18 +1,107 @@
 import type { Request, Response, NextFunction, RequestHandler } from "express";
-import { Types } from "mongoose";
+import { Types, trusted } from "mongoose";
 
 import { AppError } from "../errors/app.errors";
 import { Permission } from "../models/permission.model";
 import { File, type FileHydrated } from "../models/file.model";
 import { Folder, type FolderHydrated } from "../models/folder.model";
+import { User, type IUser } from "../models/user.model";
+import { Admin } from "../models/admin.model";
 
-type Resource = "file" | "folder";
-type Action = "read" | "write" | "create" | "delete" | "owner";
+export type Resource = "file" | "folder";
+export type Action = "read" | "write" | "create" | "delete" | "owner";
 
 function isAction(action: string): action is Action {
   return ["read", "write", "create", "delete", "owner"].includes(action);
 }
 
+/**
+ * Permission check shared by `checkPermission` and services that act on
+ * resources outside `req.params.id` (ex: the destination folder of a copy).
+ *
+ * Allows if:
+ *   1) user owns the resource, OR
+ *   2) has global permission including action, OR
+ *   3) has specific permission for (targetType,targetId) including action
+ *
+ * Throws 404 when the resource does not exist.
+ */
+export async function hasPermission(params: {
+  userId: string;
+  resource: Resource;
+  resourceId: string;
+  action: Action;
+}): Promise<boolean> {
+  const { userId, resource, resourceId, action } = params;
+  const userObjectId = new Types.ObjectId(userId);
+
+  // 1) Ownership check
+  let ownerId: string | undefined;
+
+  if (resource === "folder") {
+    const folderDoc: FolderHydrated | null = await Folder.findById(resourceId);
+    if (!folderDoc) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+    ownerId = folderDoc.userId.toString();
+  } else {
+    const fileDoc: FileHydrated | null = await File.findById(resourceId);
+    if (!fileDoc) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+    ownerId = fileDoc.userId.toString();
+  }
+
+  if (ownerId === userId) {
+    return true;
+  }
+
+  // 2) Global permission
+  const hasGlobal = await Permission.exists({
+    userId: userObjectId,
+    isGlobal: true,
+    accessLevel: action, // Mongo: array contains
+  });
+
+  if (hasGlobal) {
+    return true;
+  }
+
+  // 3) Specific permission
+  const hasSpecific = await Permission.exists({
+    userId: userObjectId,
+    isGlobal: false,
+    targetType: resource,
+    targetId: new Types.ObjectId(resourceId),
+    accessLevel: action,
+  });
+
+  return Boolean(hasSpecific);
+}
+
+/**
+ * Query filter limiting a File/Folder query to what `userId` can read,
+ * with the same rules as `hasPermission` (null = no restriction, global read).
+ */
+export async function readableItemsFilter(
+  userId: string,
+  resource: Resource
+): Promise<Record<string, unknown> | null> {
+  const userObjectId = new Types.ObjectId(userId);
+
+  const hasGlobalRead = await Permission.exists({ userId: userObjectId, isGlobal: true, accessLevel: "read" });
+  if (hasGlobalRead) return null;
+
+  const readableIds = await Permission.find({
+    userId: userObjectId,
+    isGlobal: false,
+    targetType: resource,
+    accessLevel: "read",
+  }).distinct("targetId");
+
+  return { $or: [{ userId: userObjectId }, { _id: trusted({ $in: readableIds }) }] };
+}
+
 /**
  * Authorization middleware:
  * - requires authenticate middleware (req.auth)
@@ -52,48 +141,14 @@ export function checkPermission(resource: Resource, action: string): RequestHand
         });
       }
 
-      // 1) Ownership check
-      let ownerId: string | undefined;
-
-      if (resource === "folder") {
-        const folderDoc: FolderHydrated | null = await Folder.findById(resourceId);
-        if (!folderDoc) {
-          throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
-        }
-        ownerId = folderDoc.userId.toString();
-      } else {
-        const fileDoc: FileHydrated | null = await File.findById(resourceId);
-        if (!fileDoc) {
-          throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
-        }
-        ownerId = fileDoc.userId.toString();
-      }
-
-      if (ownerId === auth.userIdString) {
-        return next();
-      }
-
-      // 2) Global permission
-      const hasGlobal = await Permission.exists({
-        userId: auth.userId,
-        isGlobal: true,
-        accessLevel: action, // Mongo: array contains
+      const isAllowed = await hasPermission({
+        userId: auth.userIdString,
+        resource,
+        resourceId,
+        action,
       });
 
-      if (hasGlobal) {
-        return next();
-      }
-
-      // 3) Specific permission
-      const hasSpecific = await Permission.exists({
-        userId: auth.userId,
-        isGlobal: false,
-        targetType: resource,
-        targetId: new Types.ObjectId(resourceId),
-        accessLevel: action,
-      });
-
-      if (hasSpecific) {
+      if (isAllowed) {
         return next();
       }
 
@@ -107,4 +162,164 @@ export function checkPermission(resource: Resource, action: string): RequestHand
       return next(err);
     }
   };
+}
+
+/**
+ * Part of the request a route takes its ids from (its validators and controller read the same one)
+ */
+export type RequestSource = "params" | "query" | "body";
+
+function readRequestValue(req: Request, from: RequestSource, name: string): unknown {
+  const values = from === "params" ? req.params : from === "query" ? req.query : req.body;
+  return (values as Record<string, unknown> | undefined)?.[name];
+}
+
+/**
+ * Business scope middleware:
+ * - requires authenticate middleware (req.auth)
+ * - allows only users that belong to the business in `req[from][paramName]`
+ *   (`from` defaults to "params"; ex: "query" for /search, "body" for /batch)
+ * - the id is never looked up elsewhere: a route must check the id its controller acts on
+ * - optional `roles` restricts further (ex: owner-only settings)
+ */
+export function checkBusinessAccess(
+  paramName = "businessId",
+  options: { from?: RequestSource; roles?: Array<IUser["role"]> } = {}
+): RequestHandler {
+  const { from = "params", roles } = options;
+
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const auth = req.auth;
+      if (!auth?.userIdString) {
+        throw new AppError({
+          message: "Not authenticated",
+          statusCode: 401,
+          code: "NOT_AUTHENTICATED",
+        });
+      }
+
+      const requestedBusinessId = readRequestValue(req, from, paramName);
+      const businessId = typeof requestedBusinessId === "string" ? requestedBusinessId : "";
+      if (!Types.ObjectId.isValid(businessId)) {
+        throw new AppError({
+          message: "Invalid business id",
+          statusCode: 400,
+          code: "INVALID_ID",
+          details: { businessId },
+        });
+      }
+
+      const user = await User.findById(auth.userId)
+        .select("businessId role")
+        .lean<Pick<IUser, "businessId" | "role"> | null>();
+
+      const isMember = Boolean(user?.businessId && user.businessId.toString() === businessId);
+      const hasRole = !roles || (user !== null && roles.includes(user.role));
+
+      if (!isMember || !hasRole) {
+        throw new AppError({
+          message: "Access denied",
+          statusCode: 403,
+          code: "BUSINESS_FORBIDDEN",
+          details: { businessId },
+        });
+      }
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+/**
+ * Upload middleware (routes without `:id`, ex: /file/upload/*):
+ * - requires authenticate + checkBusinessAccess (membership of `businessId`, same `from`)
+ * - `fileId` of an existing file (new version): "write" on that file
+ * - otherwise `folderId` (destination): "write" on that folder; root uploads need membership only
+ * - ids are read from `req[from]` only (default "body"), where the controller reads them
+ * A `fileId` with no File yet is a reserved id: the upload reservation ties it to its uploader.
+ */
+export function checkUploadAccess(options: { from?: RequestSource } = {}): RequestHandler {
+  const { from = "body" } = options;
+
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const auth = req.auth;
+      if (!auth?.userIdString) {
+        throw new AppError({
+          message: "Not authenticated",
+          statusCode: 401,
+          code: "NOT_AUTHENTICATED",
+        });
+      }
+
+      const requestedFileId = readRequestValue(req, from, "fileId");
+      const requestedFolderId = readRequestValue(req, from, "folderId");
+      const fileId =
+        typeof requestedFileId === "string" && Types.ObjectId.isValid(requestedFileId) ? requestedFileId : null;
+      const folderId =
+        typeof requestedFolderId === "string" && Types.ObjectId.isValid(requestedFolderId) ? requestedFolderId : null;
+
+      let target: { resource: Resource; resourceId: string } | null = null;
+      if (fileId && (await File.exists({ _id: new Types.ObjectId(fileId) }))) {
+        target = { resource: "file", resourceId: fileId };
+      } else if (folderId) {
+        target = { resource: "folder", resourceId: folderId };
+      }
+
+      if (target) {
+        const isAllowed = await hasPermission({ userId: auth.userIdString, ...target, action: "write" });
+
+        if (!isAllowed) {
+          throw new AppError({
+            message: "Access denied",
+            statusCode: 403,
+            code: "FORBIDDEN",
+            details: { resource: target.resource, action: "write" },
+          });
+        }
+      }
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+/**
+ * Platform admin middleware:
+ * - requires authenticate middleware (req.auth)
+ * - allows only users whose email belongs to an Admin account
+ */
+export function checkPlatformAdmin(): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const auth = req.auth;
+      if (!auth?.userIdString) {
+        throw new AppError({
+          message: "Not authenticated",
+          statusCode: 401,
+          code: "NOT_AUTHENTICATED",
+        });
+      }
+
+      const user = await User.findById(auth.userId).select("email").lean<Pick<IUser, "email"> | null>();
+      const isAdmin = Boolean(user?.email && (await Admin.exists({ email: user.email.trim().toLowerCase() })));
+
+      if (!isAdmin) {
+        throw new AppError({
+          message: "Access denied",
+          statusCode: 403,
+          code: "ADMIN_FORBIDDEN",
+        });
+      }
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
  *
  * - In beta/prod: uses Redis store (cluster-safe).
  * - In local/dev: Redis is optional; if Redis is down, falls back to in-memory store.
+ * - In test: always in-memory (suites run without Redis).
  */
 import rateLimit, { type Options } from "express-rate-limit";
 import { RedisStore, type RedisReply, type SendCommandFn } from "rate-limit-redis";
@@ -80,7 +81,8 @@ function createRateLimiter() {
 
   // In local/dev: only use Redis store if Redis is actually ready.
   // In beta/prod: prefer Redis store (your /ready will show if Redis isn't reachable).
-  const shouldUseRedisStore = redisReady || !localOrDev;
+  const isTest = process.env.NODE_ENV === "test";
+  const shouldUseRedisStore = !isTest && (redisReady || !localOrDev);
 
   if (!shouldUseRedisStore) {
     return rateLimit({
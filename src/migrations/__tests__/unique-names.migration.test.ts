@@ -0,0 +1,65 @@
+import { beforeEach, expect, it } from "vitest";
+import { Types } from "mongoose";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import { migrateUniqueNames } from "../unique-names.migration";
+import { clearTestDb, describeWithDb } from "../../test/helpers";
+
+/**
+ * Data written before the unique name indexes: no `deletedAt`, duplicate names in a folder.
+ */
+describeWithDb("migrateUniqueNames", () => {
+  const businessId = new Types.ObjectId();
+  const userId = new Types.ObjectId();
+  const folderId = new Types.ObjectId();
+
+  function legacyFile(fileName: string, createdAt: string, extra: Record<string, unknown> = {}) {
+    const _id = new Types.ObjectId();
+    return { _id, businessId, userId, folderId, fileName, s3Key: `${businessId}/files/${_id}`, createdAt: new Date(createdAt), ...extra };
+  }
+
+  beforeEach(async () => {
+    await clearTestDb();
+    await File.collection.dropIndexes();
+    await Folder.collection.dropIndexes();
+  });
+
+  it("backfills deletedAt, renames the newer duplicates and builds the unique indexes", async () => {
+    const oldest = legacyFile("report.pdf", "2023-01-01");
+    const newer = legacyFile("report.pdf", "2023-02-01");
+    const newest = legacyFile("report.pdf", "2023-03-01", { deletedAt: null });
+    const taken = legacyFile("report (1).pdf", "2023-04-01");
+    const trashed = legacyFile("report.pdf", "2023-05-01", { deletedAt: new Date("2023-06-01") });
+    await File.collection.insertMany([oldest, newer, newest, taken, trashed]);
+    await Folder.collection.insertMany([
+      { businessId, userId, parentFolderId: null, folderName: "v1.2", createdAt: new Date("2023-01-01") },
+      { businessId, userId, folderName: "v1.2", createdAt: new Date("2023-02-01") },
+    ]);
+
+    const result = await migrateUniqueNames();
+
+    expect(result).toEqual({ files: { backfilled: 4, renamed: 2 }, folders: { backfilled: 2, renamed: 1 } });
+
+    const names = async (id: Types.ObjectId) => (await File.collection.findOne({ _id: id }))?.fileName;
+    expect(await names(oldest._id)).toBe("report.pdf");
+    expect(await names(newer._id)).toBe("report (2).pdf");
+    expect(await names(newest._id)).toBe("report (3).pdf");
+    expect(await names(trashed._id)).toBe("report.pdf");
+    expect(await File.collection.countDocuments({ deletedAt: { $exists: false } })).toBe(0);
+
+    const folderNames = await Folder.collection.distinct("folderName");
+    expect(folderNames.sort()).toEqual(["v1.2", "v1.2 (1)"]);
+
+    await expect(File.collection.insertOne(legacyFile("report.pdf", "2024-01-01", { deletedAt: null }))).rejects.toMatchObject({
+      code: 11000,
+    });
+  });
+
+  it("leaves clean data alone", async () => {
+    await File.collection.insertOne(legacyFile("report.pdf", "2023-01-01", { deletedAt: null }));
+
+    const result = await migrateUniqueNames();
+
+    expect(result).toEqual({ files: { backfilled: 0, renamed: 0 }, folders: { backfilled: 0, renamed: 0 } });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,97 @@
+import type { Collection, Types } from "mongoose";
+import { File } from "../models/file.model";
+import { Folder } from "../models/folder.model";
+import { nextAvailableName } from "../utils/name.utils";
+
+type NamedCollection = {
+  label: "files" | "folders";
+  collection: Collection;
+  parentField: "folderId" | "parentFolderId";
+  nameField: "fileName" | "folderName";
+  hasExtension: boolean;
+};
+
+type DuplicateGroup = {
+  _id: { businessId: Types.ObjectId; parentId: Types.ObjectId | null; name: string };
+  ids: Types.ObjectId[];
+};
+
+export type UniqueNamesMigrationResult = Record<NamedCollection["label"], { backfilled: number; renamed: number }>;
+
+/**
+ * Live items missing `deletedAt` (written before it had a default) get `deletedAt: null`:
+ * queries on `deletedAt: null` already treat them as live, but the partial unique indexes
+ * (`deletedAt: { $type: "null" }`) would not cover them.
+ */
+async function backfillDeletedAt({ collection }: NamedCollection): Promise<number> {
+  const result = await collection.updateMany({ deletedAt: { $exists: false } }, { $set: { deletedAt: null } });
+  return result.modifiedCount;
+}
+
+/**
+ * Live items sharing a name in the same parent: the oldest keeps it, the others get
+ * the first free "name (n).ext" (same naming as conflict "autorename").
+ */
+async function renameDuplicates(target: NamedCollection): Promise<number> {
+  const { collection, parentField, nameField } = target;
+  const groups = collection.aggregate<DuplicateGroup>(
+    [
+      { $match: { deletedAt: null } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      {
+        $group: {
+          _id: { businessId: "$businessId", parentId: `$${parentField}`, name: `$${nameField}` },
+          ids: { $push: "$_id" },
+        },
+      },
+      { $match: { "ids.1": { $exists: true } } },
+    ],
+    { allowDiskUse: true }
+  );
+
+  let renamed = 0;
+  for await (const group of groups) {
+    const siblings = { businessId: group._id.businessId, [parentField]: group._id.parentId ?? null, deletedAt: null };
+    const takenNames = new Set(await collection.distinct(nameField, siblings));
+
+    for (const id of group.ids.slice(1)) {
+      const name = nextAvailableName(group._id.name, takenNames, { hasExtension: target.hasExtension });
+      takenNames.add(name);
+      await collection.updateOne({ _id: id }, { $set: { [nameField]: name } });
+      renamed += 1;
+    }
+  }
+
+  return renamed;
+}
+
+/**
+ * Prepare existing data for the unique name indexes of files and folders, then build them.
+ *
+ * Run it (`pnpm migrate:unique-names`) before deploying the indexes: a unique index
+ * does not build over duplicates. Safe to run again; a clean collection is left as is.
+ */
+export async function migrateUniqueNames(): Promise<UniqueNamesMigrationResult> {
+  const targets: NamedCollection[] = [
+    { label: "files", collection: File.collection, parentField: "folderId", nameField: "fileName", hasExtension: true },
+    {
+      label: "folders",
+      collection: Folder.collection,
+      parentField: "parentFolderId",
+      nameField: "folderName",
+      hasExtension: false,
+    },
+  ];
+
+  const result = {} as UniqueNamesMigrationResult;
+  for (const target of targets) {
+    const backfilled = await backfillDeletedAt(target);
+    const renamed = await renameDuplicates(target);
+    result[target.label] = { backfilled, renamed };
+  }
+
+  await File.createIndexes();
+  await Folder.createIndexes();
+
+  return result;
+}
\ No newline at end of file
@@ -53,6 +53,12 @@ const BusinessSchema = new Schema(
       type: Date,
       default: Date.now,
     },
+    trashRetentionDays: {
+      type: Number,
+      default: 30,
+      min: [1, "Trash retention must be at least 1 day"],
+      max: [365, "Trash retention must be at most 365 days"],
+    },
   },
   {
     timestamps: true,
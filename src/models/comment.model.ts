@@ -0,0 +1,121 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const COMMENT_MAX_LENGTH = 5000;
+
+/**
+ * Comment on a file.
+ *
+ * Threads are one level deep: a comment with `parentId: null` starts a thread,
+ * replies point at that first comment. Only thread starters can be resolved.
+ */
+const commentSchema = new Schema(
+  {
+    /**
+     * Commented file
+     */
+    fileId: {
+      type: Schema.Types.ObjectId,
+      ref: "File",
+      required: [true, "fileId is required"],
+    },
+
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * First comment of the thread (null = this comment starts a thread)
+     */
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      default: null,
+    },
+
+    /**
+     * Author
+     */
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "authorId is required"],
+    },
+
+    /**
+     * Text as written (mentions stay as "@username")
+     */
+    body: {
+      type: String,
+      required: [true, "body is required"],
+      trim: true,
+      maxlength: [COMMENT_MAX_LENGTH, `body must be at most ${COMMENT_MAX_LENGTH} characters`],
+    },
+
+    /**
+     * Business members mentioned in the body
+     */
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+
+    /**
+     * Thread resolved (thread starters only)
+     */
+    resolved: {
+      type: Boolean,
+      default: false,
+    },
+
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+
+    /**
+     * Last time the author changed the body (null = never edited)
+     */
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+commentSchema.index({ fileId: 1, createdAt: 1 });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type CommentSchemaType = InferSchemaType<typeof commentSchema>;
+export type CommentHydrated = HydratedDocument<CommentSchemaType>;
+export type CommentId = Types.ObjectId;
+export type CommentLean = CommentSchemaType & { _id: CommentId };
+
+/**
+ * Mongoose model
+ */
+export const Comment = model<CommentSchemaType>("Comment", commentSchema);
\ No newline at end of file
@@ -0,0 +1,137 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+/**
+ * Tokens are 32 random bytes, base64url encoded.
+ */
+export const FILE_REQUEST_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Content type rule: exact ("application/pdf") or family wildcard ("image/*").
+ */
+export const FILE_REQUEST_CONTENT_TYPE_PATTERN = /^[a-z0-9.+-]+\/([a-z0-9.+-]+|\*)$/;
+
+/**
+ * Inbound upload link: lets people without an account drop files into one folder.
+ *
+ * Uploads are attributed to the link creator and always land in `folderId`.
+ */
+const fileRequestSchema = new Schema(
+  {
+    /**
+     * Random secret used in the public URL
+     */
+    token: {
+      type: String,
+      required: [true, "token is required"],
+      unique: true,
+    },
+
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Destination folder of every upload
+     */
+    folderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      required: [true, "folderId is required"],
+      index: true,
+    },
+
+    /**
+     * Link creator: owns the uploaded files and gets notified
+     */
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+      index: true,
+    },
+
+    /**
+     * Shown to the visitor (ex: "Please upload your signed contract")
+     */
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [200, "title must be at most 200 characters"],
+      default: "",
+    },
+
+    expiresAt: {
+      type: Date,
+      required: [true, "expiresAt is required"],
+    },
+
+    /**
+     * Completed uploads allowed through the link
+     */
+    maxFiles: {
+      type: Number,
+      required: [true, "maxFiles is required"],
+      min: [1, "maxFiles must be at least 1"],
+    },
+
+    /**
+     * Per-file limit, in bytes
+     */
+    maxFileSize: {
+      type: Number,
+      required: [true, "maxFileSize is required"],
+      min: [1, "maxFileSize must be at least 1 byte"],
+    },
+
+    /**
+     * Empty = any content type
+     */
+    allowedContentTypes: {
+      type: [String],
+      default: [],
+    },
+
+    /**
+     * Completed uploads so far
+     */
+    uploadedCount: {
+      type: Number,
+      default: 0,
+    },
+
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type FileRequestSchemaType = InferSchemaType<typeof fileRequestSchema>;
+export type FileRequestHydrated = HydratedDocument<FileRequestSchemaType>;
+export type FileRequestId = Types.ObjectId;
+export type FileRequestLean = FileRequestSchemaType & { _id: FileRequestId };
+
+/**
+ * Mongoose model
+ */
+export const FileRequest = model<FileRequestSchemaType>("FileRequest", fileRequestSchema);
\ No newline at end of file
@@ -0,0 +1,121 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+/**
+ * File version (revision) metadata.
+ *
+ * Every upload to a file creates one version with its own S3 object.
+ * The parent `File` document mirrors the current version's s3Key/size/contentType.
+ */
+const fileVersionSchema = new Schema(
+  {
+    /**
+     * Parent file
+     */
+    fileId: {
+      type: Schema.Types.ObjectId,
+      ref: "File",
+      required: [true, "fileId is required"],
+      index: true,
+    },
+
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Monotonic version number per file (1, 2, 3, ...)
+     */
+    versionNumber: {
+      type: Number,
+      required: [true, "versionNumber is required"],
+      min: [1, "versionNumber must be >= 1"],
+    },
+
+    /**
+     * Display name at the time of upload
+     */
+    fileName: {
+      type: String,
+      required: [true, "fileName is required"],
+      trim: true,
+    },
+
+    /**
+     * Version size in bytes
+     */
+    fileSize: {
+      type: Number,
+      required: [true, "fileSize is required"],
+      min: [0, "fileSize must be >= 0"],
+    },
+
+    /**
+     * MIME type of this version
+     */
+    contentType: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+
+    /**
+     * Base64 SHA-256 of the content, verified by S3 (optional)
+     */
+    checksumSha256: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+
+    /**
+     * S3 object key holding this version's bytes
+     */
+    s3Key: {
+      type: String,
+      required: [true, "s3Key is required"],
+      trim: true,
+      unique: true,
+    },
+
+    /**
+     * User who uploaded this version
+     */
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "uploadedBy is required"],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+fileVersionSchema.index({ fileId: 1, versionNumber: -1 }, { unique: true });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type FileVersionSchemaType = InferSchemaType<typeof fileVersionSchema>;
+export type FileVersionHydrated = HydratedDocument<FileVersionSchemaType>;
+export type FileVersionId = Types.ObjectId;
+export type FileVersionLean = FileVersionSchemaType & { _id: FileVersionId };
+
+/**
+ * Mongoose model
+ */
+export const FileVersion = model<FileVersionSchemaType>("FileVersion", fileVersionSchema);
\ No newline at end of file
@@ -5,6 +5,14 @@ import {
   type HydratedDocument,
   Types,
 } from "mongoose";
+import { NATURAL_SORT_COLLATION } from "../utils/listing.utils";
+
+/**
+ * Thumbnail lifecycle:
+ * none (unsupported type) | pending -> ready | failed (retried with backoff)
+ */
+export const THUMBNAIL_STATUSES = ["none", "pending", "ready", "failed"] as const;
+export type ThumbnailStatus = (typeof THUMBNAIL_STATUSES)[number];
 
 /**
  * File metadata.
@@ -76,6 +84,15 @@ const fileSchema = new Schema(
       default: null,
     },
 
+    /**
+     * Base64 SHA-256 of the content, verified by S3 (optional)
+     */
+    checksumSha256: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+
     /**
      * Stable S3 object key.
      * Example: businessId/files/<fileId>
@@ -87,6 +104,98 @@ const fileSchema = new Schema(
       unique: true,
       index: true,
     },
+
+    /**
+     * Version currently served for this file (see FileVersion).
+     * null for files uploaded before versioning existed.
+     */
+    currentVersionId: {
+      type: Schema.Types.ObjectId,
+      ref: "FileVersion",
+      default: null,
+    },
+
+    /**
+     * Highest version number issued so far
+     */
+    versionCount: {
+      type: Number,
+      default: 1,
+      min: [1, "versionCount must be >= 1"],
+    },
+
+    /**
+     * Soft delete (trash). null means "live".
+     */
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+
+    /**
+     * User who moved the item to the trash
+     */
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+
+    /**
+     * Set on items trashed together with an ancestor folder (the folder that was trashed).
+     * null on the item the user actually trashed, so the trash only lists those.
+     */
+    trashRootId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      default: null,
+    },
+
+    /**
+     * Custom metadata values (validated against the folder's metadata schema)
+     */
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+
+    /**
+     * Generated previews (see ThumbnailService).
+     * `sourceKey` is the object they were rendered from: a thumbnail is only served
+     * while it still matches `s3Key` (a new version makes it stale).
+     */
+    thumbnail: {
+      status: { type: String, enum: THUMBNAIL_STATUSES, default: "none" },
+      sourceKey: { type: String, default: null },
+      sizes: { type: [Number], default: [] },
+      attempts: { type: Number, default: 0, min: 0 },
+      lastError: { type: String, default: null },
+      nextAttemptAt: { type: Date, default: null },
+      generatedAt: { type: Date, default: null },
+    },
+
+    /**
+     * Exclusive edit lock (see FileLockService).
+     * A lock whose `expiresAt` is past no longer counts; the lock-expiry worker clears it.
+     */
+    lock: {
+      lockedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+      reason: { type: String, trim: true, maxlength: 500, default: null },
+      lockedAt: { type: Date, default: null },
+      expiresAt: { type: Date, default: null },
+    },
+
+    /**
+     * Tags attached to this item (business tag catalog)
+     */
+    tagIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Tag",
+        index: true,
+      },
+    ],
   },
   {
     timestamps: true,
@@ -104,6 +213,43 @@ fileSchema.virtual("permissions", {
   foreignField: "targetId",
 });
 
+/**
+ * Versions (virtual)
+ */
+fileSchema.virtual("versions", {
+  ref: "FileVersion",
+  localField: "_id",
+  foreignField: "fileId",
+});
+
+/**
+ * File names are unique per folder among live files (trashed ones keep their name).
+ * Missing folder = null = root.
+ */
+fileSchema.index(
+  { businessId: 1, folderId: 1, fileName: 1 },
+  { unique: true, partialFilterExpression: { deletedAt: { $type: "null" } } }
+);
+
+/**
+ * Thumbnail queue (ThumbnailWorker picks due pending / failed files)
+ */
+fileSchema.index({ "thumbnail.status": 1, "thumbnail.nextAttemptAt": 1 });
+
+/**
+ * Stale lock sweep (lock-expiry worker)
+ */
+fileSchema.index({ "lock.expiresAt": 1 }, { partialFilterExpression: { "lock.expiresAt": { $type: "date" } } });
+
+/**
+ * Folder listings sorted by name (the default): equality on the listing filter, then
+ * fileName + _id in natural order. Same collation as the listing aggregations, or it is not used.
+ */
+fileSchema.index(
+  { businessId: 1, folderId: 1, deletedAt: 1, fileName: 1, _id: 1 },
+  { collation: NATURAL_SORT_COLLATION }
+);
+
 /**
  * Schema-derived types (NO Document extension)
  */
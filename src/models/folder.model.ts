@@ -5,6 +5,7 @@ import {
   type HydratedDocument,
   Types,
 } from "mongoose";
+import { NATURAL_SORT_COLLATION } from "../utils/listing.utils";
 
 /**
  * Folder metadata.
@@ -91,6 +92,55 @@ const folderSchema = new Schema(
         required: false,
       },
     ],
+
+    /**
+     * Soft delete (trash). null means "live".
+     */
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+
+    /**
+     * User who moved the item to the trash
+     */
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+
+    /**
+     * Set on items trashed together with an ancestor folder (the folder that was trashed).
+     * null on the item the user actually trashed, so the trash only lists those.
+     */
+    trashRootId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      default: null,
+    },
+
+    /**
+     * Custom metadata schema for files in this folder (and below, unless a subfolder sets its own)
+     */
+    metadataSchemaId: {
+      type: Schema.Types.ObjectId,
+      ref: "MetadataSchema",
+      default: null,
+      index: true,
+    },
+
+    /**
+     * Tags attached to this item (business tag catalog)
+     */
+    tagIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Tag",
+        index: true,
+      },
+    ],
   },
   {
     timestamps: true,
@@ -108,6 +158,24 @@ folderSchema.virtual("permissions", {
   foreignField: "targetId",
 });
 
+/**
+ * Folder names are unique per parent among live folders (trashed ones keep their name).
+ * Missing parent = null = root.
+ */
+folderSchema.index(
+  { businessId: 1, parentFolderId: 1, folderName: 1 },
+  { unique: true, partialFilterExpression: { deletedAt: { $type: "null" } } }
+);
+
+/**
+ * Folder listings sorted by name (the default): equality on the listing filter, then
+ * folderName + _id in natural order. Same collation as the listing aggregations, or it is not used.
+ */
+folderSchema.index(
+  { businessId: 1, parentFolderId: 1, deletedAt: 1, folderName: 1, _id: 1 },
+  { collation: NATURAL_SORT_COLLATION }
+);
+
 /**
  * Schema-derived types (NO Document extension)
  */
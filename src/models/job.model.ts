@@ -0,0 +1,137 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const JOB_TYPES = [
+  "folder_copy",
+  "folder_export",
+  "batch_delete",
+  "batch_move",
+  "batch_copy",
+  "batch_tag",
+] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Long-running operation (ex: copying a large folder tree).
+ *
+ * The HTTP request only creates the job; clients poll `GET /api/job/:id` for progress.
+ * Finished jobs are removed by a TTL index after `expiresAt`.
+ */
+const jobSchema = new Schema(
+  {
+    /**
+     * Kind of work
+     */
+    type: {
+      type: String,
+      enum: JOB_TYPES,
+      required: [true, "type is required"],
+    },
+
+    /**
+     * Lifecycle: queued -> running -> succeeded | failed
+     */
+    status: {
+      type: String,
+      enum: JOB_STATUSES,
+      default: "queued",
+      index: true,
+    },
+
+    /**
+     * User who started the job (only they can read it)
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "userId is required"],
+      index: true,
+    },
+
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+    },
+
+    /**
+     * Units of work done / planned (ex: files + folders copied)
+     */
+    progress: {
+      processed: { type: Number, default: 0, min: 0 },
+      total: { type: Number, default: 0, min: 0 },
+    },
+
+    /**
+     * Job-specific output (ex: id of the copied folder)
+     */
+    result: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+
+    /**
+     * Failure reason (AppError code when available)
+     */
+    error: {
+      message: { type: String, default: null },
+      code: { type: String, default: null },
+    },
+
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+
+    finishedAt: {
+      type: Date,
+      default: null,
+    },
+
+    /**
+     * Refreshed by the process running the job; a stale value means that process is gone
+     */
+    heartbeatAt: {
+      type: Date,
+      default: () => new Date(),
+    },
+
+    /**
+     * Removal date (TTL index)
+     */
+    expiresAt: {
+      type: Date,
+      required: [true, "expiresAt is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+jobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+jobSchema.index({ status: 1, heartbeatAt: 1 });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type JobSchemaType = InferSchemaType<typeof jobSchema>;
+export type JobHydrated = HydratedDocument<JobSchemaType>;
+export type JobId = Types.ObjectId;
+export type JobLean = JobSchemaType & { _id: JobId };
+
+/**
+ * Mongoose model
+ */
+export const Job = model<JobSchemaType>("Job", jobSchema);
\ No newline at end of file
@@ -0,0 +1,83 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const LEGAL_HOLD_TARGET_TYPES = ["file", "folder"] as const;
+export type LegalHoldTargetType = (typeof LEGAL_HOLD_TARGET_TYPES)[number];
+
+/**
+ * Legal hold: nothing under the target can be permanently deleted until the hold is released.
+ * A folder hold covers its whole subtree. Released holds are kept as history.
+ */
+const legalHoldSchema = new Schema(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+    },
+
+    targetType: {
+      type: String,
+      enum: LEGAL_HOLD_TARGET_TYPES,
+      required: [true, "targetType is required"],
+    },
+
+    targetId: {
+      type: Schema.Types.ObjectId,
+      required: [true, "targetId is required"],
+    },
+
+    /**
+     * Why the records are preserved (ex: case or matter reference)
+     */
+    reason: {
+      type: String,
+      required: [true, "reason is required"],
+      trim: true,
+      maxlength: [500, "reason must be at most 500 characters"],
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+    },
+
+    /**
+     * null while the hold is active
+     */
+    releasedAt: {
+      type: Date,
+      default: null,
+    },
+
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+legalHoldSchema.index({ businessId: 1, releasedAt: 1, targetId: 1 });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type LegalHoldSchemaType = InferSchemaType<typeof legalHoldSchema>;
+export type LegalHoldHydrated = HydratedDocument<LegalHoldSchemaType>;
+export type LegalHoldId = Types.ObjectId;
+export type LegalHoldLean = LegalHoldSchemaType & { _id: LegalHoldId };
+
+/**
+ * Mongoose model
+ */
+export const LegalHold = model<LegalHoldSchemaType>("LegalHold", legalHoldSchema);
\ No newline at end of file
@@ -0,0 +1,120 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const METADATA_FIELD_TYPES = ["string", "number", "date", "enum"] as const;
+export type MetadataFieldType = (typeof METADATA_FIELD_TYPES)[number];
+
+/**
+ * Field keys are used as `File.metadata.<key>` paths: keep them plain identifiers.
+ */
+export const METADATA_FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/;
+
+const metadataFieldSchema = new Schema(
+  {
+    /**
+     * Storage key (ex: "invoiceNumber")
+     */
+    key: {
+      type: String,
+      required: [true, "key is required"],
+      match: [METADATA_FIELD_KEY_PATTERN, "key must be an identifier (letters, digits, _)"],
+    },
+
+    /**
+     * Display label (ex: "Invoice number")
+     */
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [100, "label must be at most 100 characters"],
+    },
+
+    type: {
+      type: String,
+      enum: METADATA_FIELD_TYPES,
+      required: [true, "type is required"],
+    },
+
+    required: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * Allowed values ("enum" fields only)
+     */
+    options: {
+      type: [String],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Custom metadata field set defined by a business.
+ *
+ * Attached to folders (`Folder.metadataSchemaId`); files below such a folder have
+ * their `metadata` validated against the nearest attached schema.
+ */
+const metadataSchemaSchema = new Schema(
+  {
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Display name (ex: "Invoices"), unique per business
+     */
+    name: {
+      type: String,
+      required: [true, "name is required"],
+      trim: true,
+      maxlength: [100, "name must be at most 100 characters"],
+    },
+
+    fields: {
+      type: [metadataFieldSchema],
+      default: [],
+    },
+
+    /**
+     * User who defined the schema
+     */
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+metadataSchemaSchema.index({ businessId: 1, name: 1 }, { unique: true });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type MetadataSchemaSchemaType = InferSchemaType<typeof metadataSchemaSchema>;
+export type MetadataSchemaHydrated = HydratedDocument<MetadataSchemaSchemaType>;
+export type MetadataSchemaId = Types.ObjectId;
+export type MetadataSchemaLean = MetadataSchemaSchemaType & { _id: MetadataSchemaId };
+export type MetadataField = InferSchemaType<typeof metadataFieldSchema>;
+
+/**
+ * Mongoose model
+ */
+export const MetadataSchemaModel = model<MetadataSchemaSchemaType>("MetadataSchema", metadataSchemaSchema);
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Schema, model, type Document, type Types } from "mongoose";
 
-export const NOTIFICATION_TYPES = ["welcome", "file_shared", "permission_revoked", "password_reset", "general"] as const;
+export const NOTIFICATION_TYPES = ["welcome", "file_shared", "permission_revoked", "password_reset", "file_request_upload", "comment_mention", "general"] as const;
 export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
 
 export interface INotification extends Document {
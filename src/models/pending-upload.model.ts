@@ -0,0 +1,152 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const PENDING_UPLOAD_STATUSES = ["pending", "completing"] as const;
+export type PendingUploadStatus = (typeof PENDING_UPLOAD_STATUSES)[number];
+
+/**
+ * Upload reservation.
+ *
+ * Created by `startUpload` (one per issued s3Key), consumed exactly once by `completeUpload`.
+ * Expired reservations are swept by the upload reaper, which deletes their S3 objects.
+ */
+const pendingUploadSchema = new Schema(
+  {
+    /**
+     * File the upload will create (or add a version to)
+     */
+    fileId: {
+      type: Schema.Types.ObjectId,
+      ref: "File",
+      required: [true, "fileId is required"],
+    },
+
+    /**
+     * Issued S3 object key (one reservation per key)
+     */
+    s3Key: {
+      type: String,
+      required: [true, "s3Key is required"],
+      trim: true,
+      unique: true,
+    },
+
+    /**
+     * Size announced by the client at start (bytes)
+     */
+    declaredSize: {
+      type: Number,
+      required: [true, "declaredSize is required"],
+      min: [0, "declaredSize must be >= 0"],
+    },
+
+    /**
+     * User who started the upload (only they can complete it)
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "userId is required"],
+    },
+
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Destination folder (null means "root")
+     */
+    folderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      default: null,
+    },
+
+    /**
+     * Display name decided at start (new files only; name conflicts already resolved)
+     */
+    fileName: {
+      type: String,
+      default: null,
+    },
+
+    /**
+     * conflict "autorename": take the next free name if `fileName` got taken before completion
+     */
+    autorename: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * true when the upload adds a version to an existing file
+     */
+    isNewVersion: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * S3 multipart upload id (multipart flow only)
+     */
+    uploadId: {
+      type: String,
+      default: null,
+    },
+
+    /**
+     * File request link the upload was started through (anonymous uploads only)
+     */
+    fileRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: "FileRequest",
+      default: null,
+      index: true,
+    },
+
+    /**
+     * "completing" while a completeUpload call holds the reservation
+     */
+    status: {
+      type: String,
+      enum: PENDING_UPLOAD_STATUSES,
+      default: "pending",
+    },
+
+    /**
+     * After this date the reservation can no longer be completed and gets reaped
+     */
+    expiresAt: {
+      type: Date,
+      required: [true, "expiresAt is required"],
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type PendingUploadSchemaType = InferSchemaType<typeof pendingUploadSchema>;
+export type PendingUploadHydrated = HydratedDocument<PendingUploadSchemaType>;
+export type PendingUploadId = Types.ObjectId;
+export type PendingUploadLean = PendingUploadSchemaType & { _id: PendingUploadId };
+
+/**
+ * Mongoose model
+ */
+export const PendingUpload = model<PendingUploadSchemaType>("PendingUpload", pendingUploadSchema);
\ No newline at end of file
@@ -0,0 +1,78 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const RECENT_FILE_ACTIONS = ["upload", "open", "edit"] as const;
+export type RecentFileAction = (typeof RECENT_FILE_ACTIONS)[number];
+
+/**
+ * How long an untouched entry stays in the feed.
+ */
+export const RECENT_FILE_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Entry of a user's "recent files" feed.
+ *
+ * One document per (user, file): every new activity moves it back to the top,
+ * so the feed is deduplicated by construction.
+ */
+const recentFileSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "userId is required"],
+    },
+
+    fileId: {
+      type: Schema.Types.ObjectId,
+      ref: "File",
+      required: [true, "fileId is required"],
+      index: true,
+    },
+
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+    },
+
+    /**
+     * Latest thing the user did with the file
+     */
+    lastAction: {
+      type: String,
+      enum: RECENT_FILE_ACTIONS,
+      required: [true, "lastAction is required"],
+    },
+
+    lastActivityAt: {
+      type: Date,
+      required: [true, "lastActivityAt is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+recentFileSchema.index({ userId: 1, fileId: 1 }, { unique: true });
+recentFileSchema.index({ userId: 1, lastActivityAt: -1 });
+recentFileSchema.index({ lastActivityAt: 1 }, { expireAfterSeconds: RECENT_FILE_TTL_SECONDS });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type RecentFileSchemaType = InferSchemaType<typeof recentFileSchema>;
+export type RecentFileHydrated = HydratedDocument<RecentFileSchemaType>;
+export type RecentFileId = Types.ObjectId;
+export type RecentFileLean = RecentFileSchemaType & { _id: RecentFileId };
+
+/**
+ * Mongoose model
+ */
+export const RecentFile = model<RecentFileSchemaType>("RecentFile", recentFileSchema);
\ No newline at end of file
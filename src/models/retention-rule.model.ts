@@ -0,0 +1,84 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+/**
+ * Upper bound for both durations (100 years)
+ */
+export const RETENTION_MAX_DAYS = 36_500;
+
+/**
+ * Retention rule attached to a folder; applies to every file in its subtree.
+ *
+ * - `minRetentionDays`: files cannot be permanently deleted before they are this old
+ * - `autoDeleteAfterDays`: files are permanently deleted once they are this old
+ *
+ * Nested rules combine: the longest minimum wins, the nearest auto-delete wins.
+ * Age is measured from the file's `createdAt`.
+ */
+const retentionRuleSchema = new Schema(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Folder the rule is attached to (one rule per folder)
+     */
+    folderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      required: [true, "folderId is required"],
+      unique: true,
+    },
+
+    minRetentionDays: {
+      type: Number,
+      default: null,
+      min: [1, "minRetentionDays must be >= 1"],
+      max: [RETENTION_MAX_DAYS, `minRetentionDays must be <= ${RETENTION_MAX_DAYS}`],
+    },
+
+    autoDeleteAfterDays: {
+      type: Number,
+      default: null,
+      min: [1, "autoDeleteAfterDays must be >= 1"],
+      max: [RETENTION_MAX_DAYS, `autoDeleteAfterDays must be <= ${RETENTION_MAX_DAYS}`],
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+    },
+
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type RetentionRuleSchemaType = InferSchemaType<typeof retentionRuleSchema>;
+export type RetentionRuleHydrated = HydratedDocument<RetentionRuleSchemaType>;
+export type RetentionRuleId = Types.ObjectId;
+export type RetentionRuleLean = RetentionRuleSchemaType & { _id: RetentionRuleId };
+
+/**
+ * Mongoose model
+ */
+export const RetentionRule = model<RetentionRuleSchemaType>("RetentionRule", retentionRuleSchema);
\ No newline at end of file
@@ -0,0 +1,139 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const SHARE_LINK_ITEM_TYPES = ["file", "folder"] as const;
+export type ShareLinkItemType = (typeof SHARE_LINK_ITEM_TYPES)[number];
+
+/**
+ * Tokens are 32 random bytes, base64url encoded.
+ */
+export const SHARE_LINK_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Public (unauthenticated) link to a file or a folder subtree.
+ *
+ * Anyone with the token can read the item until the link expires, is revoked,
+ * or reaches its download limit. An optional password is stored as a bcrypt hash.
+ */
+const shareLinkSchema = new Schema(
+  {
+    /**
+     * Random secret used in the public URL
+     */
+    token: {
+      type: String,
+      required: [true, "token is required"],
+      unique: true,
+    },
+
+    itemType: {
+      type: String,
+      enum: SHARE_LINK_ITEM_TYPES,
+      required: [true, "itemType is required"],
+    },
+
+    /**
+     * File or Folder id (depending on itemType)
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      required: [true, "itemId is required"],
+      index: true,
+    },
+
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * User who created the link (the only one who can list/revoke it)
+     */
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+      index: true,
+    },
+
+    /**
+     * null = never expires
+     */
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+
+    /**
+     * bcrypt hash; null = no password
+     */
+    passwordHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+
+    /**
+     * null = unlimited
+     */
+    maxDownloads: {
+      type: Number,
+      default: null,
+      min: [1, "maxDownloads must be at least 1"],
+    },
+
+    /**
+     * Download URLs issued through the link
+     */
+    downloadCount: {
+      type: Number,
+      default: 0,
+    },
+
+    /**
+     * Successful resolutions of the link (browse + download)
+     */
+    accessCount: {
+      type: Number,
+      default: 0,
+    },
+
+    lastAccessedAt: {
+      type: Date,
+      default: null,
+    },
+
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type ShareLinkSchemaType = InferSchemaType<typeof shareLinkSchema>;
+export type ShareLinkHydrated = HydratedDocument<ShareLinkSchemaType>;
+export type ShareLinkId = Types.ObjectId;
+export type ShareLinkLean = ShareLinkSchemaType & { _id: ShareLinkId };
+
+/**
+ * Mongoose model
+ */
+export const ShareLink = model<ShareLinkSchemaType>("ShareLink", shareLinkSchema);
\ No newline at end of file
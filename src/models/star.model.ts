@@ -0,0 +1,72 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const STAR_ITEM_TYPES = ["file", "folder"] as const;
+export type StarItemType = (typeof STAR_ITEM_TYPES)[number];
+
+/**
+ * Per-user star (favorite) on a file or folder.
+ *
+ * Stars of deleted / no longer readable items are filtered out when listed.
+ */
+const starSchema = new Schema(
+  {
+    /**
+     * User who starred the item
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "userId is required"],
+    },
+
+    /**
+     * Business of the item (stars follow the user's current business)
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    itemType: {
+      type: String,
+      enum: STAR_ITEM_TYPES,
+      required: [true, "itemType is required"],
+    },
+
+    /**
+     * File or Folder id (depending on itemType)
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      required: [true, "itemId is required"],
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+starSchema.index({ userId: 1, itemType: 1, itemId: 1 }, { unique: true });
+starSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type StarSchemaType = InferSchemaType<typeof starSchema>;
+export type StarHydrated = HydratedDocument<StarSchemaType>;
+export type StarId = Types.ObjectId;
+export type StarLean = StarSchemaType & { _id: StarId };
+
+/**
+ * Mongoose model
+ */
+export const Star = model<StarSchemaType>("Star", starSchema);
\ No newline at end of file
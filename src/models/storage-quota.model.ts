@@ -0,0 +1,82 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+/**
+ * Storage usage counters of a business, plus the limits an admin forced on it.
+ *
+ * Limits come from the owner's active plan (see StorageQuotaService);
+ * a non-null override replaces the plan value.
+ */
+const storageQuotaSchema = new Schema(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      unique: true,
+    },
+
+    /**
+     * Bytes stored in S3 (every version of every file, trash included)
+     */
+    usedBytes: {
+      type: Number,
+      default: 0,
+    },
+
+    /**
+     * Files stored (trash included, versions not counted)
+     */
+    fileCount: {
+      type: Number,
+      default: 0,
+    },
+
+    /**
+     * Admin override of the plan's byte limit (null = plan)
+     */
+    maxBytesOverride: {
+      type: Number,
+      default: null,
+      min: [0, "maxBytesOverride must be >= 0"],
+    },
+
+    /**
+     * Admin override of the plan's file limit (null = plan)
+     */
+    maxFilesOverride: {
+      type: Number,
+      default: null,
+      min: [0, "maxFilesOverride must be >= 0"],
+    },
+
+    /**
+     * Last usage recount from the File / FileVersion collections
+     */
+    recalculatedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type StorageQuotaSchemaType = InferSchemaType<typeof storageQuotaSchema>;
+export type StorageQuotaHydrated = HydratedDocument<StorageQuotaSchemaType>;
+export type StorageQuotaId = Types.ObjectId;
+export type StorageQuotaLean = StorageQuotaSchemaType & { _id: StorageQuotaId };
+
+/**
+ * Mongoose model
+ */
+export const StorageQuota = model<StorageQuotaSchemaType>("StorageQuota", storageQuotaSchema);
\ No newline at end of file
@@ -0,0 +1,82 @@
+import {
+  Schema,
+  model,
+  type InferSchemaType,
+  type HydratedDocument,
+  Types,
+} from "mongoose";
+
+export const TAG_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Tag / label (business-scoped catalog).
+ *
+ * Files and folders reference tags through their `tagIds` array.
+ */
+const tagSchema = new Schema(
+  {
+    /**
+     * Business / workspace scope
+     */
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: [true, "businessId is required"],
+      index: true,
+    },
+
+    /**
+     * Display name
+     */
+    name: {
+      type: String,
+      required: [true, "name is required"],
+      trim: true,
+      maxlength: [50, "name must be at most 50 characters"],
+    },
+
+    /**
+     * Lowercased name: tag names are unique per business, case-insensitively
+     */
+    normalizedName: {
+      type: String,
+      required: true,
+    },
+
+    /**
+     * Hex color (#RRGGBB)
+     */
+    color: {
+      type: String,
+      default: "#9e9e9e",
+      match: [TAG_COLOR_PATTERN, "color must be a #RRGGBB hex value"],
+    },
+
+    /**
+     * User who created the tag
+     */
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "createdBy is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+tagSchema.index({ businessId: 1, normalizedName: 1 }, { unique: true });
+
+/**
+ * Schema-derived types (NO Document extension)
+ */
+export type TagSchemaType = InferSchemaType<typeof tagSchema>;
+export type TagHydrated = HydratedDocument<TagSchemaType>;
+export type TagId = Types.ObjectId;
+export type TagLean = TagSchemaType & { _id: TagId };
+
+/**
+ * Mongoose model
+ */
+export const Tag = model<TagSchemaType>("Tag", tagSchema);
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { Types } from "mongoose";
+import app from "../../app";
+import { User } from "../../models/user.model";
+import { bearer } from "../../test/helpers";
+
+const batchService = vi.hoisted(() => ({
+  deleteItems: vi.fn(),
+  moveItems: vi.fn(),
+}));
+
+vi.mock("../../services/batch.service", () => ({ default: batchService, BATCH_MAX_ITEMS: 500 }));
+
+/**
+ * Business scope of the batch routes: membership is checked on the body `businessId` the batch runs in.
+ */
+describe("batch routes", () => {
+  const userId = new Types.ObjectId().toString();
+  const businessId = new Types.ObjectId().toString();
+  const otherBusinessId = new Types.ObjectId().toString();
+  const items = [{ type: "file", id: new Types.ObjectId().toString() }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(User, "findById").mockImplementation(
+      () => ({ select: () => ({ lean: async () => ({ businessId: new Types.ObjectId(businessId), role: "user" }) }) }) as never
+    );
+    batchService.deleteItems.mockResolvedValue({ _id: new Types.ObjectId().toString(), status: "queued" });
+    batchService.moveItems.mockResolvedValue({ _id: new Types.ObjectId().toString(), status: "queued" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("starts a batch in the caller's business", async () => {
+    const response = await request(app)
+      .post("/api/batch/delete")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, items });
+
+    expect(response.status).toBe(202);
+    expect(batchService.deleteItems).toHaveBeenCalledWith({ businessId, userId, items });
+  });
+
+  it("checks the body businessId, not one passed in the query string", async () => {
+    const response = await request(app)
+      .post("/api/batch/move")
+      .query({ businessId })
+      .set("Authorization", bearer(userId))
+      .send({ businessId: otherBusinessId, items, targetFolderId: null });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe("BUSINESS_FORBIDDEN");
+    expect(response.body.details).toEqual({ businessId: otherBusinessId });
+    expect(batchService.moveItems).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
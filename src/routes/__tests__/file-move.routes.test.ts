@@ -0,0 +1,176 @@
+import { beforeEach, expect, it, vi } from "vitest";
+import request from "supertest";
+import { Types, trusted } from "mongoose";
+import app from "../../app";
+import { File, type FileLean } from "../../models/file.model";
+import { FileVersion } from "../../models/file-version.model";
+import { Folder } from "../../models/folder.model";
+import { Job, type JobLean } from "../../models/job.model";
+import { User } from "../../models/user.model";
+import folderService from "../../services/folder.service";
+import { folderPrefix, rootPrefix, thumbnailObjectKey } from "../../utils/s3-key.utils";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  bearer,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+/**
+ * Moving files takes their S3 objects along (MongoDB + in-memory S3).
+ */
+describeWithDb("file moves", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let sourceFolderId: string;
+  let targetFolderId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const source = await folderService.createFolder("Inbox", workspace.userId, workspace.businessId, null);
+    const target = await folderService.createFolder("Archive", workspace.userId, workspace.businessId, null);
+    sourceFolderId = source._id.toString();
+    targetFolderId = target._id.toString();
+  });
+
+  it("keeps a moved file's bytes when its old folder is deleted", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId: sourceFolderId });
+
+    const moved = await request(app)
+      .put(`/api/file/${file._id.toString()}`)
+      .set("Authorization", workspace.auth)
+      .send({ folderId: null });
+
+    expect(moved.status).toBe(200);
+    expect(moved.body.s3Key.startsWith(rootPrefix(workspace.businessId))).toBe(true);
+    expect(fakeS3.has(file.s3Key)).toBe(false);
+    expect((await FileVersion.findOne({ fileId: file._id }).lean())?.s3Key).toBe(moved.body.s3Key);
+
+    await folderService.deleteFolder(sourceFolderId);
+
+    expect(fakeS3.has(moved.body.s3Key)).toBe(true);
+  });
+
+  it("moves ready thumbnails next to the file", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "photo.jpg", folderId: sourceFolderId });
+    await File.updateOne(
+      { _id: file._id },
+      { $set: { "thumbnail.status": "ready", "thumbnail.sourceKey": file.s3Key, "thumbnail.sizes": [128, 256] } }
+    );
+    fakeS3.put(thumbnailObjectKey(file.s3Key, 128));
+    fakeS3.put(thumbnailObjectKey(file.s3Key, 256));
+
+    const moved = await request(app)
+      .put(`/api/file/${file._id.toString()}`)
+      .set("Authorization", workspace.auth)
+      .send({ folderId: targetFolderId });
+
+    expect(moved.status).toBe(200);
+    expect(moved.body.s3Key.startsWith(folderPrefix(workspace.businessId, targetFolderId))).toBe(true);
+    expect(moved.body.thumbnail.sourceKey).toBe(moved.body.s3Key);
+    expect(fakeS3.has(thumbnailObjectKey(moved.body.s3Key, 256))).toBe(true);
+    expect(fakeS3.has(thumbnailObjectKey(file.s3Key, 256))).toBe(false);
+  });
+
+  it("moves a batch of files with their objects", async () => {
+    const first = await uploadTestFile(fakeS3, workspace, { fileName: "a.txt", folderId: sourceFolderId });
+    const second = await uploadTestFile(fakeS3, workspace, { fileName: "b.txt", folderId: sourceFolderId });
+    await uploadTestFile(fakeS3, workspace, { fileName: "b.txt", folderId: targetFolderId });
+
+    const started = await request(app)
+      .post("/api/batch/move")
+      .set("Authorization", workspace.auth)
+      .send({
+        businessId: workspace.businessId,
+        items: [
+          { type: "file", id: first._id.toString() },
+          { type: "file", id: second._id.toString() },
+        ],
+        targetFolderId,
+        conflict: "autorename",
+      });
+
+    expect(started.status).toBe(202);
+    const job = await vi.waitFor(async () => {
+      const current = await Job.findById(started.body._id).lean<JobLean>();
+      if (current?.status !== "succeeded") throw new Error("job still running");
+      return current;
+    });
+    expect(job.result).toMatchObject({ succeeded: 2, failed: 0 });
+
+    const moved = await File.find({ _id: trusted({ $in: [first._id, second._id] }) })
+      .sort({ fileName: 1 })
+      .lean<FileLean[]>();
+    expect(moved.map((file) => file.fileName)).toEqual(["a.txt", "b (1).txt"]);
+    expect((await Folder.findById(targetFolderId).lean())?.fileIds).toHaveLength(3);
+
+    await folderService.deleteFolder(sourceFolderId);
+
+    for (const file of moved) {
+      expect(file.folderId?.toString()).toBe(targetFolderId);
+      expect(fakeS3.has(file.s3Key)).toBe(true);
+    }
+  });
+
+  it("relinks the folders' fileIds", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId: sourceFolderId });
+
+    const moved = await request(app)
+      .put(`/api/file/${file._id.toString()}`)
+      .set("Authorization", workspace.auth)
+      .send({ folderId: targetFolderId });
+
+    expect(moved.status).toBe(200);
+    expect((await Folder.findById(sourceFolderId).lean())?.fileIds).toEqual([]);
+    expect((await Folder.findById(targetFolderId).lean())?.fileIds?.map(String)).toEqual([file._id.toString()]);
+  });
+
+  it("refuses a trashed or foreign target folder", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId: sourceFolderId });
+    const move = (folderId: string) =>
+      request(app).put(`/api/file/${file._id.toString()}`).set("Authorization", workspace.auth).send({ folderId });
+
+    await request(app).delete(`/api/folder/${targetFolderId}`).set("Authorization", workspace.auth);
+    const trashed = await move(targetFolderId);
+    expect(trashed.status).toBe(404);
+    expect(trashed.body.code).toBe("FILE_MOVE_TARGET_NOT_FOUND");
+
+    const other = await createTestWorkspace();
+    const foreign = await folderService.createFolder("Theirs", other.userId, other.businessId, null);
+    const foreignMove = await move(foreign._id.toString());
+    expect(foreignMove.status).toBe(403);
+    expect(foreignMove.body.code).toBe("FILE_MOVE_BUSINESS_MISMATCH");
+
+    const unchanged = await File.findById(file._id).lean<FileLean>();
+    expect(unchanged?.folderId?.toString()).toBe(sourceFolderId);
+    expect(fakeS3.has(file.s3Key)).toBe(true);
+  });
+
+  it("needs write access to the target folder", async () => {
+    const memberId = new Types.ObjectId();
+    await User.create({
+      _id: memberId,
+      username: "member",
+      email: "member@example.test",
+      password: "password123",
+      businessId: workspace.businessId,
+      role: "user",
+    });
+    const memberWorkspace = { ...workspace, userId: memberId.toString(), auth: bearer(memberId.toString()) };
+    const file = await uploadTestFile(fakeS3, memberWorkspace, { fileName: "mine.txt" });
+
+    const response = await request(app)
+      .put(`/api/file/${file._id.toString()}`)
+      .set("Authorization", memberWorkspace.auth)
+      .send({ folderId: targetFolderId });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe("FILE_MOVE_TARGET_FORBIDDEN");
+  });
+});
\ No newline at end of file
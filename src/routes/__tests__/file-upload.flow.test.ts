@@ -0,0 +1,98 @@
+import { beforeEach, expect, it } from "vitest";
+import request from "supertest";
+import { Types } from "mongoose";
+import app from "../../app";
+import { File } from "../../models/file.model";
+import folderService from "../../services/folder.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+/**
+ * Multipart upload end to end (MongoDB + in-memory S3).
+ */
+describeWithDb("multipart upload flow", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let folderId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const folder = await folderService.createFolder("Reports", workspace.userId, workspace.businessId, null);
+    folderId = folder._id.toString();
+  });
+
+  it("stores the file in the folder, owned by the authenticated user", async () => {
+    const start = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", workspace.auth)
+      .send({ businessId: workspace.businessId, folderId, fileName: "report.pdf", fileSize: 10 });
+
+    expect(start.status).toBe(200);
+    const { fileId, s3Key, uploadId } = start.body;
+
+    const parts = await request(app)
+      .post("/api/file/upload/multipart/parts")
+      .set("Authorization", workspace.auth)
+      .send({ businessId: workspace.businessId, s3Key, uploadId, partNumbers: [1] });
+
+    expect(parts.status).toBe(200);
+
+    // The client PUTs its parts; S3 assembles them on complete
+    fakeS3.put(s3Key, 10);
+
+    const complete = await request(app)
+      .post("/api/file/upload/multipart/complete")
+      .set("Authorization", workspace.auth)
+      .send({
+        fileId,
+        businessId: workspace.businessId,
+        folderId,
+        fileName: "report.pdf",
+        fileSize: 10,
+        s3Key,
+        uploadId,
+        parts: [{ partNumber: 1, eTag: "etag-1" }],
+        userId: new Types.ObjectId().toString(),
+      });
+
+    expect(complete.status).toBe(201);
+    const savedFile = await File.findById(fileId).lean();
+    expect(savedFile?.folderId?.toString()).toBe(folderId);
+    expect(savedFile?.userId.toString()).toBe(workspace.userId);
+    expect(savedFile?.fileSize).toBe(10);
+  });
+
+  it("rejects completing someone else's upload", async () => {
+    const start = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", workspace.auth)
+      .send({ businessId: workspace.businessId, fileName: "report.pdf", fileSize: 10 });
+    const { fileId, s3Key, uploadId } = start.body;
+    fakeS3.put(s3Key, 10);
+
+    const intruder = await createTestWorkspace();
+    const complete = await request(app)
+      .post("/api/file/upload/multipart/complete")
+      .set("Authorization", intruder.auth)
+      .send({
+        fileId,
+        businessId: workspace.businessId,
+        fileName: "report.pdf",
+        fileSize: 10,
+        s3Key,
+        uploadId,
+        parts: [{ partNumber: 1, eTag: "etag-1" }],
+      });
+
+    expect(complete.status).toBe(403);
+    expect(await File.exists({ _id: fileId })).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { Types } from "mongoose";
+import app from "../../app";
+import { User } from "../../models/user.model";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import { Permission } from "../../models/permission.model";
+import { bearer } from "../../test/helpers";
+
+const fileService = vi.hoisted(() => ({
+  startUpload: vi.fn(),
+  completeUpload: vi.fn(),
+  startMultipartUpload: vi.fn(),
+  presignMultipartParts: vi.fn(),
+  listMultipartParts: vi.fn(),
+  completeMultipartUpload: vi.fn(),
+  abortMultipartUpload: vi.fn(),
+}));
+
+vi.mock("../../services/file.service", () => ({ default: fileService }));
+
+/**
+ * Route wiring of the upload flows (auth, business membership, destination permission).
+ * Models are stubbed: the full flow against MongoDB lives in file-upload.flow.test.ts.
+ */
+describe("upload routes", () => {
+  const userId = new Types.ObjectId().toString();
+  const otherUserId = new Types.ObjectId().toString();
+  const businessId = new Types.ObjectId().toString();
+  const folderId = new Types.ObjectId().toString();
+  const fileId = new Types.ObjectId().toString();
+  const s3Key = `${businessId}/folders/${folderId}/${fileId}/report.pdf`;
+
+  let folderOwnerId: string;
+  let existingFileIds: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    folderOwnerId = userId;
+    existingFileIds = [];
+
+    vi.spyOn(User, "findById").mockImplementation(
+      () => ({ select: () => ({ lean: async () => ({ businessId: new Types.ObjectId(businessId), role: "user" }) }) }) as never
+    );
+    vi.spyOn(File, "exists").mockImplementation(
+      (async (filter: { _id: Types.ObjectId }) =>
+        existingFileIds.includes(filter._id.toString()) ? { _id: filter._id } : null) as never
+    );
+    vi.spyOn(File, "findById").mockImplementation((async () => ({ userId: new Types.ObjectId(otherUserId) })) as never);
+    vi.spyOn(Folder, "findById").mockImplementation(
+      (async () => ({ userId: new Types.ObjectId(folderOwnerId) })) as never
+    );
+    vi.spyOn(Permission, "exists").mockResolvedValue(null as never);
+
+    fileService.startUpload.mockResolvedValue({ fileId, s3Key, uploadUrl: "https://s3/put" });
+    fileService.completeUpload.mockResolvedValue({ _id: fileId, fileName: "report.pdf" });
+    fileService.startMultipartUpload.mockResolvedValue({ fileId, s3Key, uploadId: "upload-1", partSize: 5, partCount: 2 });
+    fileService.presignMultipartParts.mockResolvedValue([{ partNumber: 1, uploadUrl: "https://s3/part-1" }]);
+    fileService.listMultipartParts.mockResolvedValue([]);
+    fileService.completeMultipartUpload.mockResolvedValue({ _id: fileId, fileName: "report.pdf" });
+    fileService.abortMultipartUpload.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("completes start -> parts -> complete as the authenticated user", async () => {
+    const start = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, folderId, fileName: "report.pdf", fileSize: 10, userId: otherUserId });
+
+    expect(start.status).toBe(200);
+    expect(fileService.startMultipartUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ businessId, folderId, userId })
+    );
+
+    const parts = await request(app)
+      .post("/api/file/upload/multipart/parts")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, s3Key, uploadId: "upload-1", partNumbers: [1, 2] });
+
+    expect(parts.status).toBe(200);
+    expect(fileService.presignMultipartParts).toHaveBeenCalledWith(expect.objectContaining({ userId, s3Key }));
+
+    const listed = await request(app)
+      .get("/api/file/upload/multipart/parts")
+      .query({ businessId, s3Key, uploadId: "upload-1" })
+      .set("Authorization", bearer(userId));
+
+    expect(listed.status).toBe(200);
+
+    const complete = await request(app)
+      .post("/api/file/upload/multipart/complete")
+      .set("Authorization", bearer(userId))
+      .send({
+        fileId,
+        businessId,
+        folderId,
+        fileName: "report.pdf",
+        fileSize: 10,
+        s3Key,
+        uploadId: "upload-1",
+        parts: [{ partNumber: 1, eTag: "etag-1" }],
+        userId: otherUserId,
+      });
+
+    expect(complete.status).toBe(201);
+    expect(fileService.completeMultipartUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ fileId, businessId, userId, uploadId: "upload-1" })
+    );
+  });
+
+  it("rejects callers outside the business", async () => {
+    vi.spyOn(User, "findById").mockImplementation(
+      () => ({ select: () => ({ lean: async () => ({ businessId: new Types.ObjectId(), role: "user" }) }) }) as never
+    );
+
+    const response = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, fileName: "report.pdf", fileSize: 10 });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe("BUSINESS_FORBIDDEN");
+    expect(fileService.startMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it("needs write access to the destination folder", async () => {
+    folderOwnerId = otherUserId;
+
+    const response = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, folderId, fileName: "report.pdf", fileSize: 10 });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe("FORBIDDEN");
+  });
+
+  it("needs write access to the file when uploading a new version", async () => {
+    existingFileIds = [fileId];
+
+    const response = await request(app)
+      .post("/api/file/upload/multipart/start")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, folderId, fileId, fileName: "report.pdf", fileSize: 10 });
+
+    expect(response.status).toBe(403);
+    expect(response.body.details).toEqual({ resource: "file", action: "write" });
+  });
+
+  it("lets the uploader abort", async () => {
+    const response = await request(app)
+      .post("/api/file/upload/multipart/abort")
+      .set("Authorization", bearer(userId))
+      .send({ businessId, s3Key, uploadId: "upload-1" });
+
+    expect(response.status).toBe(200);
+    expect(fileService.abortMultipartUpload).toHaveBeenCalledWith({ businessId, userId, s3Key, uploadId: "upload-1" });
+  });
+
+  it.each([
+    ["/api/file/upload/start", { fileName: "report.pdf", fileSize: 10 }],
+    ["/api/file/upload/complete", { fileId, fileName: "report.pdf", fileSize: 10, s3Key }],
+    ["/api/file/upload/multipart/start", { fileName: "report.pdf", fileSize: 10 }],
+    ["/api/file/upload/multipart/parts", { s3Key, uploadId: "upload-1", partNumbers: [1] }],
+    [
+      "/api/file/upload/multipart/complete",
+      { fileId, fileName: "report.pdf", fileSize: 10, s3Key, uploadId: "upload-1", parts: [{ partNumber: 1, eTag: "e" }] },
+    ],
+    ["/api/file/upload/multipart/abort", { s3Key, uploadId: "upload-1" }],
+  ])("checks the body businessId on POST %s, not the query one", async (path, payload) => {
+    const otherBusinessId = new Types.ObjectId().toString();
+
+    const response = await request(app)
+      .post(path)
+      .query({ businessId })
+      .set("Authorization", bearer(userId))
+      .send({ ...payload, businessId: otherBusinessId });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe("BUSINESS_FORBIDDEN");
+    expect(response.body.details).toEqual({ businessId: otherBusinessId });
+    Object.values(fileService).forEach((serviceMethod) => expect(serviceMethod).not.toHaveBeenCalled());
+  });
+
+  it("checks the query businessId when listing parts", async () => {
+    const response = await request(app)
+      .get("/api/file/upload/multipart/parts")
+      .query({ businessId: new Types.ObjectId().toString(), s3Key, uploadId: "upload-1" })
+      .set("Authorization", bearer(userId))
+      .send({ businessId });
+
+    expect(response.status).toBe(403);
+    expect(fileService.listMultipartParts).not.toHaveBeenCalled();
+  });
+
+  it("checks the destination folder the controller uses", async () => {
+    folderOwnerId = otherUserId;
+
+    const response = await request(app)
+      .post("/api/file/upload/start")
+      .query({ folderId: new Types.ObjectId().toString() })
+      .set("Authorization", bearer(userId))
+      .send({ businessId, folderId, fileName: "report.pdf", fileSize: 10 });
+
+    expect(response.status).toBe(403);
+    expect(response.body.details).toEqual({ resource: "folder", action: "write" });
+    expect(fileService.startUpload).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
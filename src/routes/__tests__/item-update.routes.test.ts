@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { Types } from "mongoose";
+import app from "../../app";
+import { User } from "../../models/user.model";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import { bearer } from "../../test/helpers";
+
+/**
+ * PUT /file/:id and PUT /folder/:id only accept their editable fields.
+ * The field check runs before any write, so models are stubbed (owner = caller).
+ */
+describe("item update routes", () => {
+  const userId = new Types.ObjectId().toString();
+  const itemId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    vi.spyOn(User, "findById").mockImplementation(
+      () => ({ select: () => ({ lean: async () => ({ businessId: new Types.ObjectId(), role: "user" }) }) }) as never
+    );
+    vi.spyOn(File, "findById").mockImplementation((async () => ({ userId: new Types.ObjectId(userId) })) as never);
+    vi.spyOn(Folder, "findById").mockImplementation((async () => ({ userId: new Types.ObjectId(userId) })) as never);
+    vi.spyOn(File, "findByIdAndUpdate");
+    vi.spyOn(Folder, "findByIdAndUpdate");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ["s3Key", { s3Key: "other-business/files/secret.pdf" }],
+    ["fileSize", { fileName: "report.pdf", fileSize: 1 }],
+    ["lock", { lock: { userId: null } }],
+  ])("rejects a file update that sets %s", async (field, body) => {
+    const response = await request(app).put(`/api/file/${itemId}`).set("Authorization", bearer(userId)).send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("FILE_UPDATE_FIELD_NOT_ALLOWED");
+    expect(response.body.details.fields).toEqual([field]);
+    expect(File.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["parentFolderId", { parentFolderId: new Types.ObjectId().toString() }],
+    ["metadataSchemaId", { folderName: "Reports", metadataSchemaId: new Types.ObjectId().toString() }],
+  ])("rejects a folder update that sets %s", async (field, body) => {
+    const response = await request(app).put(`/api/folder/${itemId}`).set("Authorization", bearer(userId)).send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("FOLDER_UPDATE_FIELD_NOT_ALLOWED");
+    expect(response.body.details.fields).toEqual([field]);
+    expect(Folder.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { beforeEach, expect, it } from "vitest";
+import request from "supertest";
+import app from "../../app";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import folderService from "../../services/folder.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+/**
+ * conflict=reject | autorename | replace on folder creation and file renames (MongoDB + in-memory S3).
+ */
+describeWithDb("name conflict policies", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let folderId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const folder = await folderService.createFolder("Reports", workspace.userId, workspace.businessId, null);
+    folderId = folder._id.toString();
+  });
+
+  function createFolder(conflict?: string) {
+    return request(app)
+      .post("/api/folder")
+      .set("Authorization", workspace.auth)
+      .send({ folderName: "Reports", userId: workspace.userId, businessId: workspace.businessId, conflict });
+  }
+
+  it("rejects a taken folder name by default", async () => {
+    const response = await createFolder();
+
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe("FOLDER_NAME_CONFLICT");
+    expect(response.body.details).toEqual({ folderName: "Reports", existingFolderId: folderId });
+  });
+
+  it("autorenames or replaces a taken folder name", async () => {
+    const renamed = await createFolder("autorename");
+    expect(renamed.status).toBe(201);
+    expect(renamed.body.folderName).toBe("Reports (1)");
+
+    const replacing = await createFolder("replace");
+    expect(replacing.status).toBe(201);
+    expect(replacing.body.folderName).toBe("Reports");
+    expect((await Folder.findById(folderId).lean())?.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it("applies the policy when a file is renamed onto a taken name", async () => {
+    const existing = await uploadTestFile(fakeS3, workspace, { fileName: "a.txt", folderId });
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "b.txt", folderId });
+    const rename = (conflict?: string) =>
+      request(app)
+        .put(`/api/file/${file._id.toString()}`)
+        .set("Authorization", workspace.auth)
+        .send({ fileName: "a.txt", conflict });
+
+    const rejected = await rename();
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.code).toBe("FILE_NAME_CONFLICT");
+
+    const renamed = await rename("autorename");
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.fileName).toBe("a (1).txt");
+
+    const replaced = await rename("replace");
+    expect(replaced.status).toBe(200);
+    expect(replaced.body.fileName).toBe("a.txt");
+    expect((await File.findById(existing._id).lean())?.deletedAt).toBeInstanceOf(Date);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { beforeEach, expect, it } from "vitest";
+import request from "supertest";
+import app from "../../app";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import folderService from "../../services/folder.service";
+import { rootPrefix } from "../../utils/s3-key.utils";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+/**
+ * Trash / restore / delete forever through the API (MongoDB + in-memory S3).
+ */
+describeWithDb("trash routes", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let folderId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const folder = await folderService.createFolder("Reports", workspace.userId, workspace.businessId, null);
+    folderId = folder._id.toString();
+  });
+
+  it("trashes a folder with its files and restores them together", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId });
+
+    const trashed = await request(app).delete(`/api/folder/${folderId}`).set("Authorization", workspace.auth);
+    expect(trashed.status).toBe(200);
+
+    const listed = await request(app).get(`/api/trash/${workspace.businessId}`).set("Authorization", workspace.auth);
+    expect(listed.status).toBe(200);
+    expect(listed.body.map((item: { _id: string }) => item._id)).toEqual([folderId]);
+
+    const fileRestore = await request(app)
+      .post(`/api/trash/file/${file._id.toString()}/restore`)
+      .set("Authorization", workspace.auth);
+    expect(fileRestore.status).toBe(409);
+    expect(fileRestore.body.code).toBe("TRASH_ITEM_NOT_ROOT");
+
+    const restored = await request(app)
+      .post(`/api/trash/folder/${folderId}/restore`)
+      .set("Authorization", workspace.auth);
+    expect(restored.status).toBe(200);
+
+    const restoredFile = await File.findById(file._id).lean();
+    expect(restoredFile?.deletedAt).toBeNull();
+    expect(restoredFile?.trashRootId).toBeNull();
+  });
+
+  it("renames a restored file whose name was taken meanwhile", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId });
+    await request(app).delete(`/api/file/${file._id.toString()}`).set("Authorization", workspace.auth);
+    await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId });
+
+    const restored = await request(app)
+      .post(`/api/trash/file/${file._id.toString()}/restore`)
+      .set("Authorization", workspace.auth);
+
+    expect(restored.status).toBe(200);
+    expect(restored.body.fileName).toBe("report (1).txt");
+  });
+
+  it("restores to root when the folder is trashed, and the folder purge keeps its bytes", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId });
+    await request(app).delete(`/api/file/${file._id.toString()}`).set("Authorization", workspace.auth);
+    await request(app).delete(`/api/folder/${folderId}`).set("Authorization", workspace.auth);
+
+    const restored = await request(app)
+      .post(`/api/trash/file/${file._id.toString()}/restore`)
+      .set("Authorization", workspace.auth);
+
+    expect(restored.status).toBe(200);
+    expect(restored.body.folderId).toBeNull();
+    expect(restored.body.s3Key.startsWith(rootPrefix(workspace.businessId))).toBe(true);
+
+    const purged = await request(app).delete(`/api/trash/folder/${folderId}`).set("Authorization", workspace.auth);
+    expect(purged.status).toBe(200);
+    expect(await Folder.exists({ _id: folderId })).toBeNull();
+    expect(fakeS3.has(restored.body.s3Key)).toBe(true);
+  });
+
+  it("deletes a trashed file forever, bytes included", async () => {
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt", folderId });
+
+    const live = await request(app).delete(`/api/trash/file/${file._id.toString()}`).set("Authorization", workspace.auth);
+    expect(live.status).toBe(409);
+    expect(live.body.code).toBe("TRASH_ITEM_NOT_TRASHED");
+
+    await request(app).delete(`/api/file/${file._id.toString()}`).set("Authorization", workspace.auth);
+    const deleted = await request(app).delete(`/api/trash/file/${file._id.toString()}`).set("Authorization", workspace.auth);
+
+    expect(deleted.status).toBe(200);
+    expect(await File.exists({ _id: file._id })).toBeNull();
+    expect(fakeS3.has(file.s3Key)).toBe(false);
+  });
+});
\ No newline at end of file
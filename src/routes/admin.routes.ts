@@ -2,12 +2,15 @@ import { Router, type RequestHandler } from "express";
 import { body, param, validationResult } from "express-validator";
 
 import authenticate from "../middleware/auth.middleware";
+import { checkPlatformAdmin } from "../middleware/permissions.middleware";
 import {
   getAdmins,
   getAdminById,
   createAdmin,
   updateAdmin,
   deleteAdmin,
+  updateBusinessQuota,
+  recalculateBusinessUsage,
 } from "../controllers/admin.controller";
 
 const router = Router();
@@ -60,6 +63,20 @@ const validateUpdateAdmin = [
   handleValidationErrors,
 ];
 
+/**
+ * DTO: UpdateQuota
+ * Each limit is optional; null clears the override (plan limit applies again).
+ */
+const validateUpdateQuota = [
+  body("maxBytes", "maxBytes must be a non-negative integer or null")
+    .optional()
+    .custom((value) => value === null || (Number.isSafeInteger(value) && value >= 0)),
+  body("maxFiles", "maxFiles must be a non-negative integer or null")
+    .optional()
+    .custom((value) => value === null || (Number.isSafeInteger(value) && value >= 0)),
+  handleValidationErrors,
+];
+
 /**
  * GET /admin
  * List admins (no passwordHash).
@@ -96,4 +113,29 @@ router.put(
  */
 router.delete("/:id", authenticate, ...validateMongoIdParam("id"), deleteAdmin);
 
+/**
+ * PUT /admin/business/:id/quota
+ * Override the storage limits of a business (platform admins only).
+ */
+router.put(
+  "/business/:id/quota",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  validateUpdateQuota,
+  checkPlatformAdmin(),
+  updateBusinessQuota
+);
+
+/**
+ * POST /admin/business/:id/quota/recalculate
+ * Recount storage usage from the stored files (platform admins only).
+ */
+router.post(
+  "/business/:id/quota/recalculate",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPlatformAdmin(),
+  recalculateBusinessUsage
+);
+
 export default router;
\ No newline at end of file
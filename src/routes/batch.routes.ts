@@ -0,0 +1,96 @@
+import { Router, type RequestHandler } from "express";
+import { body, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import { BATCH_MAX_ITEMS } from "../services/batch.service";
+import { NAME_CONFLICT_POLICIES } from "../services/name-conflict.service";
+import { batchDelete, batchMove, batchCopy, batchTag } from "../controllers/batch.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+/**
+ * Body shared by every batch: { businessId, items: [{ type: "file" | "folder", id }] }
+ */
+const validateBatchItems = [
+  body("businessId", "businessId must be a valid ObjectId").isMongoId(),
+  body("items", `items must contain 1-${BATCH_MAX_ITEMS} entries`).isArray({ min: 1, max: BATCH_MAX_ITEMS }),
+  body("items.*.type", "items[].type must be file or folder").isIn(["file", "folder"]),
+  body("items.*.id", "items[].id must be a valid ObjectId").isMongoId(),
+];
+
+const validateTransfer = [
+  body("targetFolderId", "targetFolderId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
+  body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+    .optional()
+    .isIn([...NAME_CONFLICT_POLICIES]),
+];
+
+/**
+ * POST /batch/delete
+ * Moves the items to the trash (each needs "delete").
+ * Every batch responds 202 with the job to poll; its result has one outcome per item.
+ */
+router.post(
+  "/delete",
+  authenticate,
+  [...validateBatchItems, handleValidationErrors],
+  checkBusinessAccess("businessId", { from: "body" }),
+  batchDelete
+);
+
+/**
+ * POST /batch/move
+ * Body: { ..., targetFolderId?: string | null, conflict? } (each item needs "write")
+ * conflict=reject (default) | autorename | replace
+ */
+router.post(
+  "/move",
+  authenticate,
+  [...validateBatchItems, ...validateTransfer, handleValidationErrors],
+  checkBusinessAccess("businessId", { from: "body" }),
+  batchMove
+);
+
+/**
+ * POST /batch/copy
+ * Body: { ..., targetFolderId?: string | null, conflict? } (each item needs "read")
+ * conflict=autorename (default) | reject | replace
+ */
+router.post(
+  "/copy",
+  authenticate,
+  [...validateBatchItems, ...validateTransfer, handleValidationErrors],
+  checkBusinessAccess("businessId", { from: "body" }),
+  batchCopy
+);
+
+/**
+ * POST /batch/tag
+ * Body: { ..., tagIds: [], action?: "add" | "remove" } (each item needs "write")
+ */
+router.post(
+  "/tag",
+  authenticate,
+  [
+    ...validateBatchItems,
+    body("tagIds", "tagIds must be a non-empty array").isArray({ min: 1 }),
+    body("tagIds.*", "tagIds must contain valid ObjectIds").isMongoId(),
+    body("action", "action must be add or remove").optional().isIn(["add", "remove"]),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "body" }),
+  batchTag
+);
+
+export default router;
\ No newline at end of file
@@ -1,8 +1,15 @@
 import { Router, type RequestHandler } from "express";
-import { param, body, validationResult } from "express-validator";
+import { param, body, query, validationResult } from "express-validator";
 
 import authenticate from "../middleware/auth.middleware";
-import { getBusiness, updateBusiness } from "../controllers/business.controller";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import {
+  getBusiness,
+  updateBusiness,
+  updateTrashRetention,
+  getStorageUsage,
+  resolvePath,
+} from "../controllers/business.controller";
 
 const router = Router();
 
@@ -41,4 +48,52 @@ router.put(
   updateBusiness
 );
 
+/**
+ * PUT /api/business/:id/trash-retention
+ * Body: { trashRetentionDays }
+ */
+router.put(
+  "/:id/trash-retention",
+  [
+    authenticate,
+    param("id").isMongoId().withMessage("id must be a valid ObjectId"),
+    body("trashRetentionDays")
+      .isInt({ min: 1, max: 365 })
+      .withMessage("trashRetentionDays must be an integer between 1 and 365"),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("id", { roles: ["owner"] }),
+  updateTrashRetention
+);
+
+/**
+ * GET /api/business/:id/usage
+ * Storage usage and quota limits.
+ */
+router.get(
+  "/:id/usage",
+  [authenticate, param("id").isMongoId().withMessage("id must be a valid ObjectId"), handleValidationErrors],
+  checkBusinessAccess("id"),
+  getStorageUsage
+);
+
+/**
+ * GET /api/business/:id/resolve?path=/Clients/Acme/contract.pdf
+ * File or folder at a path ("/" = root; a trailing "/" only matches folders).
+ */
+router.get(
+  "/:id/resolve",
+  [
+    authenticate,
+    param("id").isMongoId().withMessage("id must be a valid ObjectId"),
+    query("path")
+      .isString()
+      .isLength({ min: 1, max: 4096 })
+      .withMessage("path is required (max 4096 characters)"),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("id"),
+  resolvePath
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { Router, type RequestHandler } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkPermission } from "../middleware/permissions.middleware";
+import { FILE_REQUEST_CONTENT_TYPE_PATTERN, FILE_REQUEST_TOKEN_PATTERN } from "../models/file-request.model";
+import {
+  createFileRequest,
+  listFileRequests,
+  revokeFileRequest,
+  describeFileRequest,
+  startFileRequestUpload,
+  completeFileRequestUpload,
+} from "../controllers/file-request.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+const validateToken = [
+  param("token", "Invalid file request token").matches(FILE_REQUEST_TOKEN_PATTERN),
+  handleValidationErrors,
+];
+
+const validateUploadedFile = [
+  body("fileName", "fileName is required").isString().notEmpty(),
+  body("fileSize", "fileSize must be a non-negative number")
+    .isNumeric()
+    .custom((value) => Number(value) >= 0),
+  body("contentType", "contentType must be a string").optional({ nullable: true }).isString(),
+  body("checksumSha256", "checksumSha256 must be a base64 SHA-256 digest")
+    .optional({ nullable: true })
+    .isBase64()
+    .isLength({ min: 44, max: 44 }),
+];
+
+/**
+ * GET /file-request/links
+ * File requests created by the caller.
+ */
+router.get(
+  "/links",
+  authenticate,
+  [query("folderId", "Invalid folderId").optional().isMongoId(), handleValidationErrors],
+  listFileRequests
+);
+
+/**
+ * POST /file-request/links/:id/revoke
+ * Creator only.
+ */
+router.post("/links/:id/revoke", authenticate, ...validateMongoIdParam("id"), revokeFileRequest);
+
+/**
+ * POST /file-request/folder/:id
+ * Body: { expiresAt, maxFiles, maxFileSize, allowedContentTypes?, title? }
+ */
+router.post(
+  "/folder/:id",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("expiresAt", "expiresAt must be an ISO 8601 date").isISO8601(),
+    body("maxFiles", "maxFiles must be an integer 1-1000").isInt({ min: 1, max: 1000 }),
+    body("maxFileSize", "maxFileSize must be a positive number of bytes").isInt({ min: 1 }),
+    body("allowedContentTypes", "allowedContentTypes must be an array").optional().isArray({ max: 50 }),
+    body("allowedContentTypes.*", "allowedContentTypes must contain types like application/pdf or image/*")
+      .isString()
+      .toLowerCase()
+      .matches(FILE_REQUEST_CONTENT_TYPE_PATTERN),
+    body("title", "title must be at most 200 characters").optional().isString().isLength({ max: 200 }),
+    handleValidationErrors,
+  ],
+  checkPermission("folder", "write"),
+  createFileRequest
+);
+
+/**
+ * GET /file-request/:token
+ * Public. Limits and remaining slots of the link.
+ */
+router.get("/:token", ...validateToken, describeFileRequest);
+
+/**
+ * POST /file-request/:token/upload/start
+ * Public. Same as /file/upload/start, restricted to the link's folder and limits.
+ */
+router.post(
+  "/:token/upload/start",
+  ...validateToken,
+  [...validateUploadedFile, handleValidationErrors],
+  startFileRequestUpload
+);
+
+/**
+ * POST /file-request/:token/upload/complete
+ * Public. Same as /file/upload/complete, for keys issued by this link.
+ */
+router.post(
+  "/:token/upload/complete",
+  ...validateToken,
+  [
+    body("fileId", "fileId is required").isMongoId(),
+    body("s3Key", "s3Key is required").isString().notEmpty(),
+    body("metadata", "metadata must be an object").optional().isObject(),
+    ...validateUploadedFile,
+    handleValidationErrors,
+  ],
+  completeFileRequestUpload
+);
+
+export default router;
\ No newline at end of file
@@ -1,14 +1,39 @@
 import { Router, type RequestHandler } from "express";
-import { body, param, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import authenticate from "../middleware/auth.middleware";
-import { checkPermission } from "../middleware/permissions.middleware";
+import { checkBusinessAccess, checkPermission, checkUploadAccess } from "../middleware/permissions.middleware";
 import {
   getFileById,
   startFileUpload,
   completeFileUpload,
+  startMultipartFileUpload,
+  presignMultipartParts,
+  listMultipartParts,
+  completeMultipartFileUpload,
+  abortMultipartFileUpload,
   updateFile,
   deleteFile,
+  listFileVersions,
+  getFileVersionDownloadUrl,
+  restoreFileVersion,
+  deleteFileVersion,
+  copyFile,
+  attachFileTags,
+  detachFileTag,
+  retryFileThumbnail,
+  lockFile,
+  unlockFile,
+  getFileBreadcrumbs,
 } from "../controllers/file.controller";
+import {
+  listFileComments,
+  createFileComment,
+  updateFileComment,
+  deleteFileComment,
+} from "../controllers/comment.controller";
+import { MAX_LOCK_MINUTES } from "../services/file-lock.service";
+import { NAME_CONFLICT_POLICIES } from "../services/name-conflict.service";
+import { COMMENT_MAX_LENGTH } from "../models/comment.model";
 
 const router = Router();
 
@@ -47,7 +72,10 @@ router.get(
  * POST /file/upload/start
  *
  * Best practice:
- * - userId comes from auth (req.user.id), not request body
+ * - userId comes from auth (req.auth), not request body
+ * - pass an existing fileId to upload a new version of that file
+ * - conflict=reject (default) | autorename | replace when fileName is taken in the folder
+ *   (replace uploads a new version of the existing file)
  */
 router.post(
   "/upload/start",
@@ -57,6 +85,9 @@ router.post(
     body("folderId", "folderId must be a valid ObjectId")
       .optional({ nullable: true })
       .isMongoId(),
+    body("fileId", "fileId must be a valid ObjectId")
+      .optional({ nullable: true })
+      .isMongoId(),
     body("fileName", "fileName is required").isString().notEmpty(),
     body("fileSize", "fileSize must be a non-negative number")
       .isNumeric()
@@ -64,9 +95,17 @@ router.post(
     body("contentType", "contentType must be a string")
       .optional({ nullable: true })
       .isString(),
+    body("checksumSha256", "checksumSha256 must be a base64 SHA-256 digest")
+      .optional({ nullable: true })
+      .isBase64()
+      .isLength({ min: 44, max: 44 }),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
     handleValidationErrors,
   ],
-  checkPermission("file", "write"),
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
   startFileUpload
 );
 
@@ -74,7 +113,7 @@ router.post(
  * POST /file/upload/complete
  *
  * Best practice:
- * - userId comes from auth (req.user.id), not request body
+ * - userId comes from auth (req.auth), not request body
  */
 router.post(
   "/upload/complete",
@@ -92,16 +131,150 @@ router.post(
     body("contentType", "contentType must be a string")
       .optional({ nullable: true })
       .isString(),
+    body("checksumSha256", "checksumSha256 must be a base64 SHA-256 digest")
+      .optional({ nullable: true })
+      .isBase64()
+      .isLength({ min: 44, max: 44 }),
     body("s3Key", "s3Key is required").isString().notEmpty(),
+    body("metadata", "metadata must be an object").optional().isObject(),
     handleValidationErrors,
   ],
-  checkPermission("file", "write"),
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
   completeFileUpload
 );
 
+/**
+ * POST /file/upload/multipart/start
+ * Large / resumable uploads. Same body as /upload/start.
+ */
+router.post(
+  "/upload/multipart/start",
+  authenticate,
+  [
+    body("businessId", "businessId is required").isMongoId(),
+    body("folderId", "folderId must be a valid ObjectId")
+      .optional({ nullable: true })
+      .isMongoId(),
+    body("fileId", "fileId must be a valid ObjectId")
+      .optional({ nullable: true })
+      .isMongoId(),
+    body("fileName", "fileName is required").isString().notEmpty(),
+    body("fileSize", "fileSize must be a non-negative number")
+      .isNumeric()
+      .custom((value) => Number(value) >= 0),
+    body("contentType", "contentType must be a string")
+      .optional({ nullable: true })
+      .isString(),
+    body("checksumSha256", "checksumSha256 must be a base64 SHA-256 digest")
+      .optional({ nullable: true })
+      .isBase64()
+      .isLength({ min: 44, max: 44 }),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
+  startMultipartFileUpload
+);
+
+/**
+ * POST /file/upload/multipart/parts
+ * Presign part URLs on demand.
+ */
+router.post(
+  "/upload/multipart/parts",
+  authenticate,
+  [
+    body("businessId", "businessId is required").isMongoId(),
+    body("s3Key", "s3Key is required").isString().notEmpty(),
+    body("uploadId", "uploadId is required").isString().notEmpty(),
+    body("partNumbers", "partNumbers must be a non-empty array").isArray({ min: 1 }),
+    body("partNumbers.*", "partNumbers must be integers >= 1").isInt({ min: 1 }),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
+  presignMultipartParts
+);
+
+/**
+ * GET /file/upload/multipart/parts
+ * Parts already uploaded (resume after a dropped connection).
+ */
+router.get(
+  "/upload/multipart/parts",
+  authenticate,
+  [
+    query("businessId", "businessId is required").isMongoId(),
+    query("s3Key", "s3Key is required").isString().notEmpty(),
+    query("uploadId", "uploadId is required").isString().notEmpty(),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "query" }),
+  checkUploadAccess({ from: "query" }),
+  listMultipartParts
+);
+
+/**
+ * POST /file/upload/multipart/complete
+ * Same body as /upload/complete + uploadId and parts [{ partNumber, eTag }].
+ */
+router.post(
+  "/upload/multipart/complete",
+  authenticate,
+  [
+    body("fileId", "fileId is required").isMongoId(),
+    body("businessId", "businessId is required").isMongoId(),
+    body("folderId", "folderId must be a valid ObjectId")
+      .optional({ nullable: true })
+      .isMongoId(),
+    body("fileName", "fileName is required").isString().notEmpty(),
+    body("fileSize", "fileSize must be a non-negative number")
+      .isNumeric()
+      .custom((value) => Number(value) >= 0),
+    body("contentType", "contentType must be a string")
+      .optional({ nullable: true })
+      .isString(),
+    body("s3Key", "s3Key is required").isString().notEmpty(),
+    body("metadata", "metadata must be an object").optional().isObject(),
+    body("uploadId", "uploadId is required").isString().notEmpty(),
+    body("parts", "parts must be a non-empty array").isArray({ min: 1 }),
+    body("parts.*.partNumber", "partNumber must be an integer >= 1").isInt({ min: 1 }),
+    body("parts.*.eTag", "eTag is required").isString().notEmpty(),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
+  completeMultipartFileUpload
+);
+
+/**
+ * POST /file/upload/multipart/abort
+ */
+router.post(
+  "/upload/multipart/abort",
+  authenticate,
+  [
+    body("businessId", "businessId is required").isMongoId(),
+    body("s3Key", "s3Key is required").isString().notEmpty(),
+    body("uploadId", "uploadId is required").isString().notEmpty(),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "body" }),
+  checkUploadAccess(),
+  abortMultipartFileUpload
+);
+
 /**
  * PUT /file/:id
- * Rename/move metadata only (no S3 moves)
+ * Rename / move (a move relocates the file's S3 objects under the new folder's prefix)
+ * Body: fileName, folderId, contentType, metadata, conflict (any other field => 400)
+ * `metadata` is validated against the folder's metadata schema.
+ * `folderId` (null = root) must be a live folder of the same business the caller can write to.
+ * conflict=reject (default) | autorename | replace (trashes the file using the name)
  */
 router.put(
   "/:id",
@@ -111,6 +284,10 @@ router.put(
     body("fileName", "fileName must be non-empty").optional().isString().notEmpty(),
     body("folderId", "folderId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
     body("contentType", "contentType must be a string").optional({ nullable: true }).isString(),
+    body("metadata", "metadata must be an object").optional().isObject(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
     handleValidationErrors,
   ],
   checkPermission("file", "write"),
@@ -128,4 +305,231 @@ router.delete(
   deleteFile
 );
 
+/**
+ * POST /file/:id/copy
+ * Copy into another folder (or root) of the same business.
+ * conflict=autorename (default) | reject | replace (trashes the file using the name)
+ */
+router.post(
+  "/:id/copy",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("targetFolderId", "targetFolderId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
+    body("newName", "newName must be non-empty").optional().isString().notEmpty(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
+    handleValidationErrors,
+  ],
+  checkPermission("file", "read"),
+  copyFile
+);
+
+/**
+ * GET /file/:id/versions
+ * Version history (newest first).
+ */
+router.get(
+  "/:id/versions",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "read"),
+  listFileVersions
+);
+
+/**
+ * GET /file/:id/versions/:versionId/download
+ * Presigned download URL for a specific version.
+ */
+router.get(
+  "/:id/versions/:versionId/download",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("versionId"),
+  checkPermission("file", "read"),
+  getFileVersionDownloadUrl
+);
+
+/**
+ * POST /file/:id/versions/:versionId/restore
+ * Make an older version current again.
+ */
+router.post(
+  "/:id/versions/:versionId/restore",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("versionId"),
+  checkPermission("file", "write"),
+  restoreFileVersion
+);
+
+/**
+ * DELETE /file/:id/versions/:versionId
+ * Delete a non-current version.
+ */
+router.delete(
+  "/:id/versions/:versionId",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("versionId"),
+  checkPermission("file", "delete"),
+  deleteFileVersion
+);
+
+/**
+ * POST /file/:id/tags
+ * Body: { tagIds: [] } (tags of the same business)
+ */
+router.post(
+  "/:id/tags",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("tagIds", "tagIds must be a non-empty array").isArray({ min: 1 }),
+    body("tagIds.*", "tagIds must contain valid ObjectIds").isMongoId(),
+    handleValidationErrors,
+  ],
+  checkPermission("file", "write"),
+  attachFileTags
+);
+
+/**
+ * DELETE /file/:id/tags/:tagId
+ */
+router.delete(
+  "/:id/tags/:tagId",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("tagId"),
+  checkPermission("file", "write"),
+  detachFileTag
+);
+
+/**
+ * POST /file/:id/thumbnail
+ * Retry thumbnail generation (status and last error are on the file).
+ */
+router.post(
+  "/:id/thumbnail",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "write"),
+  retryFileThumbnail
+);
+
+/**
+ * POST /file/:id/lock
+ * Body: { reason?, durationMinutes? } (default 60 minutes)
+ * Only the lock holder and owners can then change the file.
+ */
+router.post(
+  "/:id/lock",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("reason", "reason must be at most 500 characters")
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 500 }),
+    body("durationMinutes", `durationMinutes must be an integer between 1 and ${MAX_LOCK_MINUTES}`)
+      .optional()
+      .isInt({ min: 1, max: MAX_LOCK_MINUTES })
+      .toInt(),
+    handleValidationErrors,
+  ],
+  checkPermission("file", "write"),
+  lockFile
+);
+
+/**
+ * POST /file/:id/unlock
+ * Lock holder, or a user with owner access (force unlock).
+ */
+router.post(
+  "/:id/unlock",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "write"),
+  unlockFile
+);
+
+/**
+ * GET /file/:id/breadcrumbs
+ */
+router.get(
+  "/:id/breadcrumbs",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "read"),
+  getFileBreadcrumbs
+);
+
+/**
+ * GET /file/:id/comments
+ * Comment threads (oldest first) with their replies.
+ */
+router.get(
+  "/:id/comments",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "read"),
+  listFileComments
+);
+
+/**
+ * POST /file/:id/comments
+ * Body: { body, parentId? } ("@username" mentions business members)
+ */
+router.post(
+  "/:id/comments",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("body", `body must be 1-${COMMENT_MAX_LENGTH} characters`)
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: COMMENT_MAX_LENGTH }),
+    body("parentId", "parentId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
+    handleValidationErrors,
+  ],
+  checkPermission("file", "read"),
+  createFileComment
+);
+
+/**
+ * PATCH /file/:id/comments/:commentId
+ * Body: { body?, resolved? } (body: author only; resolved: thread starters only)
+ */
+router.patch(
+  "/:id/comments/:commentId",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("commentId"),
+  [
+    body("body", `body must be 1-${COMMENT_MAX_LENGTH} characters`)
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: COMMENT_MAX_LENGTH }),
+    body("resolved", "resolved must be a boolean").optional().isBoolean().toBoolean(),
+    handleValidationErrors,
+  ],
+  checkPermission("file", "read"),
+  updateFileComment
+);
+
+/**
+ * DELETE /file/:id/comments/:commentId
+ * Author or file owner. Deleting a thread starter deletes its replies.
+ */
+router.delete(
+  "/:id/comments/:commentId",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("commentId"),
+  checkPermission("file", "read"),
+  deleteFileComment
+);
+
 export default router;
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { Router, type RequestHandler } from "express";
-import { body, param, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import authenticate from "../middleware/auth.middleware";
-import { checkPermission } from "../middleware/permissions.middleware";
+import { checkBusinessAccess, checkPermission } from "../middleware/permissions.middleware";
+import { MAX_TREE_DEPTH } from "../services/folder.service";
+import { NAME_CONFLICT_POLICIES } from "../services/name-conflict.service";
+import { LISTING_MAX_LIMIT, LISTING_ORDERS, LISTING_SORT_FIELDS } from "../utils/listing.utils";
 import {
   getAllFolders,
   getFolderById,
@@ -9,6 +12,15 @@ import {
   updateFolder,
   deleteFolder,
   getFilesAndFolders,
+  copyFolder,
+  attachFolderTags,
+  detachFolderTag,
+  moveFolder,
+  setFolderMetadataSchema,
+  exportFolder,
+  getFolderBreadcrumbs,
+  getFolderTree,
+  getFolderStats,
 } from "../controllers/folder.controller";
 
 const router = Router();
@@ -31,12 +43,27 @@ const validateMongoIdParam = (paramName: string) => [
 
 /**
  * GET /folder/files-folders/:businessId/:folderId?
+ * Optional ?tags=<tagId>,<tagId> filter (items carrying all tags).
+ * Optional ?meta[<key>]=<value> filters on file metadata (fields of the folder's schema).
+ * Paginated: folders first, then files, in ?sort=name|size|createdAt|updatedAt|type and ?order=asc|desc
+ * (default name asc, natural order). ?limit= items per page (default 100); send back
+ * `nextCursor` as ?cursor= (same sort / order) for the next page.
  */
 router.get(
   "/files-folders/:businessId/:folderId?",
   [
     param("businessId", "Invalid businessId").isMongoId(),
     param("folderId", "Invalid folderId").optional().isMongoId(),
+    query("tags", "tags must be comma-separated tag ids")
+      .optional()
+      .matches(/^[0-9a-fA-F]{24}(,[0-9a-fA-F]{24})*$/),
+    query("meta", "meta must be an object of field filters").optional().isObject(),
+    query("sort", `sort must be one of: ${LISTING_SORT_FIELDS.join(", ")}`).optional().isIn([...LISTING_SORT_FIELDS]),
+    query("order", "order must be asc or desc").optional().isIn([...LISTING_ORDERS]),
+    query("limit", `limit must be an integer between 1 and ${LISTING_MAX_LIMIT}`)
+      .optional()
+      .isInt({ min: 1, max: LISTING_MAX_LIMIT }),
+    query("cursor", "cursor must be a string").optional().isString().isLength({ max: 1024 }),
     handleValidationErrors,
   ],
   authenticate,
@@ -44,6 +71,25 @@ router.get(
   getFilesAndFolders
 );
 
+/**
+ * GET /folder/tree/:businessId?depth=<1-50>
+ * Whole live folder hierarchy, `depth` levels deep (default 10).
+ * `hasChildren` on the deepest nodes tells the client there is more to load.
+ */
+router.get(
+  "/tree/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [
+    query("depth", `depth must be an integer between 1 and ${MAX_TREE_DEPTH}`)
+      .optional()
+      .isInt({ min: 1, max: MAX_TREE_DEPTH }),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  getFolderTree
+);
+
 /**
  * GET /folder
  */
@@ -65,6 +111,7 @@ router.get(
  *
  * Best practice:
  * - userId comes from auth (req.user.id), not request body
+ * - conflict=reject (default) | autorename | replace (trashes the folder using the name)
  */
 router.post(
   "/",
@@ -75,6 +122,9 @@ router.post(
     body("parentFolderId", "parentFolderId must be a valid ObjectId")
       .optional({ nullable: true })
       .isMongoId(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
     handleValidationErrors,
   ],
   checkPermission("folder", "write"),
@@ -83,6 +133,8 @@ router.post(
 
 /**
  * PUT /folder/:id
+ * Body: folderName, conflict (any other field => 400)
+ * conflict=reject (default) | autorename | replace (trashes the folder using the name)
  */
 router.put(
   "/:id",
@@ -90,12 +142,68 @@ router.put(
   ...validateMongoIdParam("id"),
   [
     body("folderName", "folderName must be non-empty").optional().isString().notEmpty(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
     handleValidationErrors,
   ],
   checkPermission("folder", "write"),
   updateFolder
 );
 
+/**
+ * POST /folder/:id/move
+ * Reparent a folder (same business, no cycles).
+ * conflict=reject (default) | autorename | replace (trashes the folder using the name)
+ */
+router.post(
+  "/:id/move",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("targetFolderId", "targetFolderId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
+    handleValidationErrors,
+  ],
+  checkPermission("folder", "write"),
+  moveFolder
+);
+
+/**
+ * POST /folder/:id/copy
+ * Deep copy (runs as a job: responds 202 with the job to poll).
+ * conflict=autorename (default) | reject | replace (trashes the folder using the name)
+ */
+router.post(
+  "/:id/copy",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("targetFolderId", "targetFolderId must be a valid ObjectId").optional({ nullable: true }).isMongoId(),
+    body("newName", "newName must be non-empty").optional().isString().notEmpty(),
+    body("conflict", `conflict must be one of: ${NAME_CONFLICT_POLICIES.join(", ")}`)
+      .optional()
+      .isIn([...NAME_CONFLICT_POLICIES]),
+    handleValidationErrors,
+  ],
+  checkPermission("folder", "read"),
+  copyFolder
+);
+
+/**
+ * POST /folder/:id/export
+ * ZIP export (runs as a job: responds 202 with the job to poll).
+ */
+router.post(
+  "/:id/export",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("folder", "read"),
+  exportFolder
+);
+
 /**
  * DELETE /folder/:id
  */
@@ -107,4 +215,74 @@ router.delete(
   deleteFolder
 );
 
+/**
+ * POST /folder/:id/tags
+ * Body: { tagIds: [] } (tags of the same business)
+ */
+router.post(
+  "/:id/tags",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("tagIds", "tagIds must be a non-empty array").isArray({ min: 1 }),
+    body("tagIds.*", "tagIds must contain valid ObjectIds").isMongoId(),
+    handleValidationErrors,
+  ],
+  checkPermission("folder", "write"),
+  attachFolderTags
+);
+
+/**
+ * DELETE /folder/:id/tags/:tagId
+ */
+router.delete(
+  "/:id/tags/:tagId",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  ...validateMongoIdParam("tagId"),
+  checkPermission("folder", "write"),
+  detachFolderTag
+);
+
+/**
+ * PUT /folder/:id/metadata-schema
+ * Body: { metadataSchemaId: string | null } (schema of the same business)
+ */
+router.put(
+  "/:id/metadata-schema",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  [
+    body("metadataSchemaId", "metadataSchemaId must be a valid ObjectId or null")
+      .optional({ values: "null" })
+      .isMongoId(),
+    handleValidationErrors,
+  ],
+  checkPermission("folder", "write"),
+  setFolderMetadataSchema
+);
+
+/**
+ * GET /folder/:id/stats
+ * Recursive file / folder counts, bytes, last change and content type breakdown.
+ */
+router.get(
+  "/:id/stats",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("folder", "read"),
+  getFolderStats
+);
+
+/**
+ * GET /folder/:id/breadcrumbs
+ */
+router.get(
+  "/:id/breadcrumbs",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("folder", "read"),
+  getFolderBreadcrumbs
+);
+
 export default router;
\ No newline at end of file
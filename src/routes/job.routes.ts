@@ -0,0 +1,29 @@
+import { Router, type RequestHandler } from "express";
+import { param, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { getJob } from "../controllers/job.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+/**
+ * GET /job/:id
+ */
+router.get("/:id", authenticate, ...validateMongoIdParam("id"), getJob);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Router, type RequestHandler } from "express";
+import { param, query, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { STAR_ITEM_TYPES } from "../models/star.model";
+import { STAR_MAX_LIMIT } from "../services/star.service";
+import { RECENT_FILE_MAX_LIMIT } from "../services/recent-file.service";
+import { listStarred, starItem, unstarItem, listRecentFiles } from "../controllers/me.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateStarTarget = [
+  param("itemType", "itemType must be file or folder").isIn([...STAR_ITEM_TYPES]),
+  param("id", "Invalid id").isMongoId(),
+  handleValidationErrors,
+];
+
+const validatePagination = (maxLimit: number) => [
+  query("page", "page must be an integer >= 1").optional().isInt({ min: 1 }),
+  query("limit", `limit must be 1-${maxLimit}`).optional().isInt({ min: 1, max: maxLimit }),
+  handleValidationErrors,
+];
+
+/**
+ * GET /me/starred
+ * Starred files and folders of the caller (most recently starred first).
+ */
+router.get("/starred", authenticate, ...validatePagination(STAR_MAX_LIMIT), listStarred);
+
+/**
+ * PUT /me/starred/:itemType/:id
+ * Idempotent; requires read permission on the item.
+ */
+router.put("/starred/:itemType/:id", authenticate, ...validateStarTarget, starItem);
+
+/**
+ * DELETE /me/starred/:itemType/:id
+ */
+router.delete("/starred/:itemType/:id", authenticate, ...validateStarTarget, unstarItem);
+
+/**
+ * GET /me/recent
+ * Files the caller recently uploaded, opened or edited (one entry per file).
+ */
+router.get("/recent", authenticate, ...validatePagination(RECENT_FILE_MAX_LIMIT), listRecentFiles);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { Router, type RequestHandler } from "express";
+import { body, param, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import { METADATA_FIELD_KEY_PATTERN, METADATA_FIELD_TYPES } from "../models/metadata-schema.model";
+import {
+  listMetadataSchemas,
+  createMetadataSchema,
+  updateMetadataSchema,
+  deleteMetadataSchema,
+} from "../controllers/metadata-schema.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+const validateFields = [
+  body("fields.*.key", "fields[].key must be an identifier (letters, digits, _)").matches(METADATA_FIELD_KEY_PATTERN),
+  body("fields.*.label", "fields[].label must be at most 100 characters")
+    .optional()
+    .isString()
+    .isLength({ max: 100 }),
+  body("fields.*.type", `fields[].type must be one of: ${METADATA_FIELD_TYPES.join(", ")}`).isIn([
+    ...METADATA_FIELD_TYPES,
+  ]),
+  body("fields.*.required", "fields[].required must be a boolean").optional().isBoolean({ strict: true }),
+  body("fields.*.options", "fields[].options must be an array of strings").optional().isArray(),
+  body("fields.*.options.*", "fields[].options must be an array of strings").isString().notEmpty(),
+];
+
+/**
+ * GET /metadata-schema/:businessId
+ */
+router.get(
+  "/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  checkBusinessAccess("businessId"),
+  listMetadataSchemas
+);
+
+/**
+ * POST /metadata-schema/:businessId
+ * Body: { name, fields: [{ key, label?, type, required?, options? }] }
+ */
+router.post(
+  "/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [
+    body("name", "name must be 1-100 characters").isString().trim().isLength({ min: 1, max: 100 }),
+    body("fields", "fields must contain 1-50 entries").isArray({ min: 1, max: 50 }),
+    ...validateFields,
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  createMetadataSchema
+);
+
+/**
+ * PUT /metadata-schema/:businessId/:schemaId
+ */
+router.put(
+  "/:businessId/:schemaId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("schemaId"),
+  [
+    body("name", "name must be 1-100 characters").optional().isString().trim().isLength({ min: 1, max: 100 }),
+    body("fields", "fields must contain 1-50 entries").optional().isArray({ min: 1, max: 50 }),
+    ...validateFields,
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  updateMetadataSchema
+);
+
+/**
+ * DELETE /metadata-schema/:businessId/:schemaId
+ * Refused while a live folder still uses the schema.
+ */
+router.delete(
+  "/:businessId/:schemaId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("schemaId"),
+  checkBusinessAccess("businessId"),
+  deleteMetadataSchema
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { Router, type RequestHandler } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import { RETENTION_MAX_DAYS } from "../models/retention-rule.model";
+import { LEGAL_HOLD_TARGET_TYPES } from "../models/legal-hold.model";
+import {
+  listRetentionRules,
+  setRetentionRule,
+  deleteRetentionRule,
+  listLegalHolds,
+  placeLegalHold,
+  releaseLegalHold,
+} from "../controllers/retention.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+/**
+ * Compliance settings: business owners and admins only.
+ */
+const requireComplianceAccess = checkBusinessAccess("businessId", { roles: ["owner", "admin"] });
+
+const validateDays = (field: string) =>
+  body(field, `${field} must be an integer between 1 and ${RETENTION_MAX_DAYS}, or null`)
+    .optional({ nullable: true })
+    .isInt({ min: 1, max: RETENTION_MAX_DAYS })
+    .toInt();
+
+/**
+ * GET /retention/:businessId/rules
+ */
+router.get(
+  "/:businessId/rules",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  requireComplianceAccess,
+  listRetentionRules
+);
+
+/**
+ * PUT /retention/:businessId/rules/:folderId
+ * Body: { minRetentionDays?, autoDeleteAfterDays? } (null or missing = not set)
+ */
+router.put(
+  "/:businessId/rules/:folderId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("folderId"),
+  [validateDays("minRetentionDays"), validateDays("autoDeleteAfterDays"), handleValidationErrors],
+  requireComplianceAccess,
+  setRetentionRule
+);
+
+/**
+ * DELETE /retention/:businessId/rules/:folderId
+ */
+router.delete(
+  "/:businessId/rules/:folderId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("folderId"),
+  requireComplianceAccess,
+  deleteRetentionRule
+);
+
+/**
+ * GET /retention/:businessId/holds?active=true
+ */
+router.get(
+  "/:businessId/holds",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [query("active", "active must be true or false").optional().isIn(["true", "false"]), handleValidationErrors],
+  requireComplianceAccess,
+  listLegalHolds
+);
+
+/**
+ * POST /retention/:businessId/holds
+ * Body: { targetType: "file" | "folder", targetId, reason }
+ */
+router.post(
+  "/:businessId/holds",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [
+    body("targetType", `targetType must be one of: ${LEGAL_HOLD_TARGET_TYPES.join(", ")}`).isIn([
+      ...LEGAL_HOLD_TARGET_TYPES,
+    ]),
+    body("targetId", "targetId must be a valid ObjectId").isMongoId(),
+    body("reason", "reason must be 1-500 characters").isString().trim().isLength({ min: 1, max: 500 }),
+    handleValidationErrors,
+  ],
+  requireComplianceAccess,
+  placeLegalHold
+);
+
+/**
+ * POST /retention/:businessId/holds/:holdId/release
+ */
+router.post(
+  "/:businessId/holds/:holdId/release",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("holdId"),
+  requireComplianceAccess,
+  releaseLegalHold
+);
+
+export default router;
\ No newline at end of file
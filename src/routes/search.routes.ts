@@ -0,0 +1,56 @@
+import { Router, type RequestHandler } from "express";
+import { query, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import { search } from "../controllers/search.controller";
+import {
+  SEARCH_ITEM_TYPES,
+  SEARCH_MAX_LIMIT,
+  SEARCH_MAX_PAGE,
+  SEARCH_SORT_FIELDS,
+} from "../services/search.service";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+/**
+ * GET /search
+ * Business-scoped name search with filters (only items the caller can read).
+ * `q` matches any part of a name; sort=relevance puts exact names, then prefixes, then word starts first.
+ */
+router.get(
+  "/",
+  authenticate,
+  [
+    query("businessId", "businessId is required").isMongoId(),
+    query("q", "q must be 1-200 characters").optional().isString().isLength({ min: 1, max: 200 }),
+    query("type", `type must be one of: ${SEARCH_ITEM_TYPES.join(", ")}`).optional().isIn([...SEARCH_ITEM_TYPES]),
+    query("contentType", "contentType must be a string").optional().isString().isLength({ max: 255 }),
+    query("minSize", "minSize must be an integer >= 0").optional().isInt({ min: 0 }),
+    query("maxSize", "maxSize must be an integer >= 0").optional().isInt({ min: 0 }),
+    query("ownerId", "ownerId must be a valid ObjectId").optional().isMongoId(),
+    query(["createdFrom", "createdTo", "updatedFrom", "updatedTo"], "dates must be ISO 8601")
+      .optional()
+      .isISO8601(),
+    query("folderId", "folderId must be a valid ObjectId").optional().isMongoId(),
+    query("sort", `sort must be one of: ${SEARCH_SORT_FIELDS.join(", ")}`).optional().isIn([...SEARCH_SORT_FIELDS]),
+    query("order", "order must be asc or desc").optional().isIn(["asc", "desc"]),
+    query("page", `page must be 1-${SEARCH_MAX_PAGE}`).optional().isInt({ min: 1, max: SEARCH_MAX_PAGE }),
+    query("limit", `limit must be 1-${SEARCH_MAX_LIMIT}`).optional().isInt({ min: 1, max: SEARCH_MAX_LIMIT }),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId", { from: "query" }),
+  search
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Router, type RequestHandler } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkPermission } from "../middleware/permissions.middleware";
+import { SHARE_LINK_ITEM_TYPES, SHARE_LINK_TOKEN_PATTERN } from "../models/share-link.model";
+import {
+  createFileShareLink,
+  createFolderShareLink,
+  listShareLinks,
+  revokeShareLink,
+  resolveShareLink,
+  downloadSharedFile,
+} from "../controllers/share.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+const validateToken = [
+  param("token", "Invalid share token").matches(SHARE_LINK_TOKEN_PATTERN),
+  handleValidationErrors,
+];
+
+const validateCreateBody = [
+  body("expiresAt", "expiresAt must be an ISO 8601 date").optional({ values: "null" }).isISO8601(),
+  body("password", "password must be 4-128 characters")
+    .optional({ values: "null" })
+    .isString()
+    .isLength({ min: 4, max: 128 }),
+  body("maxDownloads", "maxDownloads must be an integer >= 1").optional({ values: "null" }).isInt({ min: 1 }),
+  handleValidationErrors,
+];
+
+/**
+ * GET /share/links
+ * Links created by the caller, with access/download counters.
+ */
+router.get(
+  "/links",
+  authenticate,
+  [
+    query("itemType", "itemType must be file or folder").optional().isIn([...SHARE_LINK_ITEM_TYPES]),
+    query("itemId", "Invalid itemId").optional().isMongoId(),
+    handleValidationErrors,
+  ],
+  listShareLinks
+);
+
+/**
+ * POST /share/links/:id/revoke
+ * Creator only; the link keeps its counters.
+ */
+router.post("/links/:id/revoke", authenticate, ...validateMongoIdParam("id"), revokeShareLink);
+
+/**
+ * POST /share/file/:id
+ * Body: { expiresAt?, password?, maxDownloads? }
+ */
+router.post(
+  "/file/:id",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  validateCreateBody,
+  checkPermission("file", "write"),
+  createFileShareLink
+);
+
+/**
+ * POST /share/folder/:id
+ * Body: { expiresAt?, password?, maxDownloads? }
+ */
+router.post(
+  "/folder/:id",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  validateCreateBody,
+  checkPermission("folder", "write"),
+  createFolderShareLink
+);
+
+/**
+ * GET /share/:token
+ * Public. Password (if any) in the X-Share-Password header.
+ * Folder links: optional ?folderId= to browse a subfolder.
+ */
+router.get(
+  "/:token",
+  ...validateToken,
+  [query("folderId", "Invalid folderId").optional().isMongoId(), handleValidationErrors],
+  resolveShareLink
+);
+
+/**
+ * GET /share/:token/files/:fileId
+ * Public. Download URL of one file of a shared folder.
+ */
+router.get("/:token/files/:fileId", ...validateToken, ...validateMongoIdParam("fileId"), downloadSharedFile);
+
+export default router;
\ No newline at end of file
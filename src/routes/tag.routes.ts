@@ -0,0 +1,127 @@
+import { Router, type RequestHandler } from "express";
+import { body, param, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess } from "../middleware/permissions.middleware";
+import { TAG_COLOR_PATTERN } from "../models/tag.model";
+import { TAG_BULK_MAX_ITEMS } from "../services/tag.service";
+import {
+  listTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  listTaggedItems,
+  bulkTag,
+} from "../controllers/tag.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+const validateTagColor = body("color", "color must be a #RRGGBB hex value").optional().matches(TAG_COLOR_PATTERN);
+
+/**
+ * GET /tag/:businessId
+ * Tag catalog of the business.
+ */
+router.get(
+  "/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  checkBusinessAccess("businessId"),
+  listTags
+);
+
+/**
+ * POST /tag/:businessId
+ */
+router.post(
+  "/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [
+    body("name", "name must be 1-50 characters").isString().trim().isLength({ min: 1, max: 50 }),
+    validateTagColor,
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  createTag
+);
+
+/**
+ * POST /tag/:businessId/bulk
+ * Body: { items: [{ type: "file" | "folder", id }], tagIds: [], action?: "add" | "remove" }
+ */
+router.post(
+  "/:businessId/bulk",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  [
+    body("items", `items must contain 1-${TAG_BULK_MAX_ITEMS} entries`).isArray({ min: 1, max: TAG_BULK_MAX_ITEMS }),
+    body("items.*.type", "items[].type must be file or folder").isIn(["file", "folder"]),
+    body("items.*.id", "items[].id must be a valid ObjectId").isMongoId(),
+    body("tagIds", "tagIds must be a non-empty array").isArray({ min: 1 }),
+    body("tagIds.*", "tagIds must contain valid ObjectIds").isMongoId(),
+    body("action", "action must be add or remove").optional().isIn(["add", "remove"]),
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  bulkTag
+);
+
+/**
+ * PUT /tag/:businessId/:tagId
+ */
+router.put(
+  "/:businessId/:tagId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("tagId"),
+  [
+    body("name", "name must be 1-50 characters").optional().isString().trim().isLength({ min: 1, max: 50 }),
+    validateTagColor,
+    handleValidationErrors,
+  ],
+  checkBusinessAccess("businessId"),
+  updateTag
+);
+
+/**
+ * DELETE /tag/:businessId/:tagId
+ */
+router.delete(
+  "/:businessId/:tagId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("tagId"),
+  checkBusinessAccess("businessId"),
+  deleteTag
+);
+
+/**
+ * GET /tag/:businessId/:tagId/items
+ * Files + folders carrying the tag (only those the caller can read).
+ */
+router.get(
+  "/:businessId/:tagId/items",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  ...validateMongoIdParam("tagId"),
+  checkBusinessAccess("businessId"),
+  listTaggedItems
+);
+
+export default router;
\ No newline at end of file
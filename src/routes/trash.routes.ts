@@ -0,0 +1,87 @@
+import { Router, type RequestHandler } from "express";
+import { param, validationResult } from "express-validator";
+import authenticate from "../middleware/auth.middleware";
+import { checkBusinessAccess, checkPermission } from "../middleware/permissions.middleware";
+import {
+  listTrash,
+  restoreFile,
+  restoreFolder,
+  deleteFilePermanently,
+  deleteFolderPermanently,
+} from "../controllers/trash.controller";
+
+const router = Router();
+
+/**
+ * Centralized express-validator error handler.
+ */
+const handleValidationErrors: RequestHandler = (req, res, next) => {
+  const validationErrors = validationResult(req);
+  if (!validationErrors.isEmpty()) {
+    return res.status(400).json({ errors: validationErrors.array() });
+  }
+  next();
+};
+
+const validateMongoIdParam = (paramName: string) => [
+  param(paramName, `Invalid ${paramName}`).isMongoId(),
+  handleValidationErrors,
+];
+
+/**
+ * POST /trash/file/:id/restore
+ */
+router.post(
+  "/file/:id/restore",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "delete"),
+  restoreFile
+);
+
+/**
+ * POST /trash/folder/:id/restore
+ */
+router.post(
+  "/folder/:id/restore",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("folder", "delete"),
+  restoreFolder
+);
+
+/**
+ * DELETE /trash/file/:id
+ */
+router.delete(
+  "/file/:id",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("file", "delete"),
+  deleteFilePermanently
+);
+
+/**
+ * DELETE /trash/folder/:id
+ */
+router.delete(
+  "/folder/:id",
+  authenticate,
+  ...validateMongoIdParam("id"),
+  checkPermission("folder", "delete"),
+  deleteFolderPermanently
+);
+
+/**
+ * GET /trash/:businessId
+ * Items trashed directly (descendants of a trashed folder are implied).
+ */
+router.get(
+  "/:businessId",
+  authenticate,
+  ...validateMongoIdParam("businessId"),
+  checkBusinessAccess("businessId"),
+  listTrash
+);
+
+export default router;
\ No newline at end of file
@@ -12,6 +12,7 @@ import { getS3Client } from "./config/s3.config";
 import { getSESClient } from "./config/ses.config";
 import { getStripeClient } from "./config/stripe.config";
 import { setClients } from "./infra/clients";
+import { startWorkers, stopWorkers } from "./workers";
 
 /**
  * Options to make the bootstrap test-friendly.
@@ -19,11 +20,13 @@ import { setClients } from "./infra/clients";
  * - listen: when false, we DO NOT bind a port (useful for supertest(app)).
  * - connectDb: allow tests to skip DB connection when they mock DB access.
  * - initThirdParty: allow tests to skip AWS/Stripe SDK initialization.
+ * - runWorkers: allow tests to skip periodic background jobs (trash purge, etc.).
  */
 export type StartServerOptions = {
   listen?: boolean;
   connectDb?: boolean;
   initThirdParty?: boolean;
+  runWorkers?: boolean;
   port?: number;
 };
 
@@ -31,6 +34,7 @@ const DEFAULT_OPTIONS: Required<StartServerOptions> = {
   listen: true,
   connectDb: true,
   initThirdParty: true,
+  runWorkers: true,
   port: Number(process.env.PORT ?? 5000),
 };
 
@@ -95,6 +99,9 @@ async function connectDbWithRetry(): Promise<void> {
  * - In prod: called when SIGTERM / SIGINT
  */
 export async function closeDependencies(): Promise<void> {
+  // Stop background jobs before their dependencies go away
+  stopWorkers();
+
   // Close MongoDB connection
   try {
     if (mongoose.connection.readyState !== 0) {
@@ -161,6 +168,7 @@ export async function stopServer(server?: Server): Promise<void> {
  * - NODE_ENV=test defaults:
  *   - initThirdParty: false (avoids requiring AWS/Stripe env)
  *   - listen: false (so you can use supertest(app) without binding a port)
+ *   - runWorkers: false (no background sweeps during tests)
  *
  * You can override via startServer({ listen: true }) if you want an actual port.
  */
@@ -173,6 +181,7 @@ export async function startServer(options: StartServerOptions = {}): Promise<Ser
     // sensible test defaults (can be overridden explicitly)
     listen: isTest ? false : DEFAULT_OPTIONS.listen,
     initThirdParty: isTest ? false : DEFAULT_OPTIONS.initThirdParty,
+    runWorkers: isTest ? false : DEFAULT_OPTIONS.runWorkers,
     connectDb: DEFAULT_OPTIONS.connectDb,
     ...options,
     port: options.port ?? (isTest ? 0 : DEFAULT_OPTIONS.port),
@@ -194,6 +203,11 @@ export async function startServer(options: StartServerOptions = {}): Promise<Ser
     if (!isTest) console.log("✅ Database connected");
   }
 
+  // ✅ Background sweeps need the DB (and S3 for purges).
+  if (merged.runWorkers) {
+    startWorkers();
+  }
+
   // ✅ In tests, default is: do NOT listen.
   if (!merged.listen) {
     return null;
@@ -0,0 +1,78 @@
+import { beforeEach, expect, it } from "vitest";
+import { Types } from "mongoose";
+import { FileVersion } from "../../models/file-version.model";
+import fileService from "../file.service";
+import fileVersionService from "../file-version.service";
+import fileLockService from "../file-lock.service";
+import trashService from "../trash.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+describeWithDb("FileVersionService.deleteVersion", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let fileId: string;
+  let oldVersionId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+
+    const file = await uploadTestFile(fakeS3, workspace, { fileName: "plan.txt" });
+    fileId = file._id.toString();
+    await fileVersionService.ensureInitialVersion(file.toObject());
+    oldVersionId = (await FileVersion.findOne({ fileId: file._id }).lean())!._id.toString();
+
+    // Second upload on the same file = new current version
+    const started = await fileService.startUpload({
+      businessId: workspace.businessId,
+      userId: workspace.userId,
+      fileId,
+      fileName: "plan.txt",
+      fileSize: 20,
+      contentType: "text/plain",
+    });
+    fakeS3.put(started.s3Key, 20, "text/plain");
+    await fileService.completeUpload({
+      businessId: workspace.businessId,
+      userId: workspace.userId,
+      fileId,
+      fileName: "plan.txt",
+      fileSize: 20,
+      contentType: "text/plain",
+      s3Key: started.s3Key,
+    });
+  });
+
+  it("deletes an old version of a live, unlocked file", async () => {
+    const deleted = await fileVersionService.deleteVersion(fileId, oldVersionId, workspace.userId);
+
+    expect(fakeS3.has(deleted.s3Key)).toBe(false);
+    expect(await FileVersion.exists({ _id: deleted._id })).toBeNull();
+  });
+
+  it("is refused while another user holds the lock", async () => {
+    await fileLockService.lockFile({ fileId, userId: new Types.ObjectId().toString() });
+
+    await expect(fileVersionService.deleteVersion(fileId, oldVersionId, workspace.userId)).rejects.toMatchObject({
+      code: "FILE_LOCKED",
+    });
+    expect(await FileVersion.exists({ _id: oldVersionId })).not.toBeNull();
+  });
+
+  it("treats a trashed file as missing", async () => {
+    await trashService.trashFile(fileId, workspace.userId);
+
+    await expect(fileVersionService.deleteVersion(fileId, oldVersionId, workspace.userId)).rejects.toMatchObject({
+      code: "FILE_NOT_FOUND",
+    });
+  });
+});
\ No newline at end of file
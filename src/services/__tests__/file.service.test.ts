@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Types } from "mongoose";
+import { File, type FileLean } from "../../models/file.model";
+import { PendingUpload } from "../../models/pending-upload.model";
+import fileService from "../file.service";
+import folderService from "../folder.service";
+import trashService from "../trash.service";
+import recentFileService from "../recent-file.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+describeWithDb("FileService", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+  });
+
+  describe("relocateObjects", () => {
+    it("only moves objects into a live folder of the file's business", async () => {
+      const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt" });
+      const fileLean = (await File.findById(file._id).lean<FileLean>())!;
+
+      const other = await createTestWorkspace();
+      const foreign = await folderService.createFolder("Theirs", other.userId, other.businessId, null);
+      await expect(fileService.relocateObjects(fileLean, foreign._id)).rejects.toMatchObject({
+        statusCode: 403,
+        code: "FOLDER_BUSINESS_MISMATCH",
+      });
+
+      const trashed = await folderService.createFolder("Old", workspace.userId, workspace.businessId, null);
+      await trashService.trashFolder(trashed._id.toString(), workspace.userId);
+      await expect(fileService.relocateObjects(fileLean, trashed._id)).rejects.toMatchObject({
+        statusCode: 404,
+        code: "FOLDER_NOT_FOUND",
+      });
+
+      await expect(fileService.relocateObjects(fileLean, new Types.ObjectId())).rejects.toMatchObject({
+        code: "FOLDER_NOT_FOUND",
+      });
+      expect(fakeS3.has(file.s3Key)).toBe(true);
+      expect((await File.findById(file._id).lean<FileLean>())?.s3Key).toBe(file.s3Key);
+    });
+  });
+
+  describe("startUpload", () => {
+    function startUpload(folderId: string) {
+      return fileService.startUpload({
+        businessId: workspace.businessId,
+        userId: workspace.userId,
+        folderId,
+        fileName: "report.txt",
+        fileSize: 10,
+      });
+    }
+
+    it("refuses a folder of another business before reserving anything", async () => {
+      const other = await createTestWorkspace();
+      const foreign = await folderService.createFolder("Theirs", other.userId, other.businessId, null);
+
+      await expect(startUpload(foreign._id.toString())).rejects.toMatchObject({
+        statusCode: 403,
+        code: "FOLDER_BUSINESS_MISMATCH",
+      });
+      expect(await PendingUpload.countDocuments()).toBe(0);
+    });
+
+    it("refuses a folder in the trash", async () => {
+      const folder = await folderService.createFolder("Old", workspace.userId, workspace.businessId, null);
+      await trashService.trashFolder(folder._id.toString(), workspace.userId);
+
+      await expect(startUpload(folder._id.toString())).rejects.toMatchObject({
+        statusCode: 404,
+        code: "FOLDER_NOT_FOUND",
+      });
+      expect(await PendingUpload.countDocuments()).toBe(0);
+    });
+  });
+
+  describe("completeUpload", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("succeeds once the file is saved, even if a side effect fails", async () => {
+      vi.spyOn(recentFileService, "record").mockRejectedValue(new Error("recent files unavailable"));
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+      const file = await uploadTestFile(fakeS3, workspace, { fileName: "report.txt" });
+
+      expect(await File.exists({ _id: file._id })).not.toBeNull();
+      expect(await PendingUpload.countDocuments()).toBe(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { beforeEach, expect, it } from "vitest";
+import { File } from "../../models/file.model";
+import folderService from "../folder.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+describeWithDb("FolderService.deleteFolder", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let folderId: string;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const folder = await folderService.createFolder("Projects", workspace.userId, workspace.businessId, null);
+    folderId = folder._id.toString();
+  });
+
+  it("deletes the objects of every file in the subtree", async () => {
+    const child = await folderService.createFolder("2024", workspace.userId, workspace.businessId, folderId);
+    const top = await uploadTestFile(fakeS3, workspace, { fileName: "plan.txt", folderId });
+    const nested = await uploadTestFile(fakeS3, workspace, { fileName: "notes.txt", folderId: child._id.toString() });
+
+    await folderService.deleteFolder(folderId);
+
+    expect(fakeS3.has(top.s3Key)).toBe(false);
+    expect(fakeS3.has(nested.s3Key)).toBe(false);
+    expect(await File.exists({ _id: nested._id })).toBeNull();
+  });
+
+  it("keeps objects under the folder prefix that belong to files stored elsewhere", async () => {
+    const movedOut = await uploadTestFile(fakeS3, workspace, { fileName: "contract.txt", folderId });
+    // Moved before objects were relocated with the file: the key still uses this folder's prefix
+    await File.updateOne({ _id: movedOut._id }, { $set: { folderId: null } });
+
+    await folderService.deleteFolder(folderId);
+
+    expect(fakeS3.has(movedOut.s3Key)).toBe(true);
+    expect(await File.exists({ _id: movedOut._id })).not.toBeNull();
+  });
+});
\ No newline at end of file
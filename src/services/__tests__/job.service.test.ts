@@ -0,0 +1,47 @@
+import { beforeEach, expect, it } from "vitest";
+import { Types } from "mongoose";
+import { Job, type JobLean } from "../../models/job.model";
+import jobService, { JOB_STALE_MS } from "../job.service";
+import { clearTestDb, describeWithDb } from "../../test/helpers";
+
+describeWithDb("JobService.failInterrupted", () => {
+  const now = new Date();
+
+  async function createJob(status: JobLean["status"], heartbeatAgeMs: number) {
+    return Job.create({
+      type: "batch_move",
+      status,
+      userId: new Types.ObjectId(),
+      businessId: new Types.ObjectId(),
+      heartbeatAt: new Date(now.getTime() - heartbeatAgeMs),
+      expiresAt: new Date(now.getTime() + JOB_STALE_MS),
+    });
+  }
+
+  beforeEach(async () => {
+    await clearTestDb();
+  });
+
+  it("fails queued and running jobs whose process stopped", async () => {
+    const running = await createJob("running", JOB_STALE_MS + 1000);
+    const queued = await createJob("queued", JOB_STALE_MS + 1000);
+
+    expect(await jobService.failInterrupted(now)).toBe(2);
+
+    for (const job of [running, queued]) {
+      const failed = await Job.findById(job._id).lean<JobLean>();
+      expect(failed?.status).toBe("failed");
+      expect(failed?.error?.code).toBe("JOB_INTERRUPTED");
+      expect(failed?.finishedAt).toEqual(now);
+    }
+  });
+
+  it("leaves live and finished jobs alone", async () => {
+    const live = await createJob("running", 1000);
+    const finished = await createJob("succeeded", JOB_STALE_MS + 1000);
+
+    expect(await jobService.failInterrupted(now)).toBe(0);
+    expect((await Job.findById(live._id).lean<JobLean>())?.status).toBe("running");
+    expect((await Job.findById(finished._id).lean<JobLean>())?.status).toBe("succeeded");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { beforeEach, expect, it } from "vitest";
+import retentionService from "../retention.service";
+import legalHoldService from "../legal-hold.service";
+import folderService from "../folder.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describeWithDb("RetentionService.findAutoDeleteCandidates", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+  let folderId: string;
+  const later = () => new Date(Date.now() + 2 * DAY_MS);
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+    const folder = await folderService.createFolder("Invoices", workspace.userId, workspace.businessId, null);
+    folderId = folder._id.toString();
+    await retentionService.setRule({
+      businessId: workspace.businessId,
+      folderId,
+      userId: workspace.userId,
+      minRetentionDays: null,
+      autoDeleteAfterDays: 1,
+    });
+  });
+
+  async function placeHold(targetType: "file" | "folder", targetId: string) {
+    await legalHoldService.placeHold({
+      businessId: workspace.businessId,
+      userId: workspace.userId,
+      targetType,
+      targetId,
+      reason: "Litigation",
+    });
+  }
+
+  it("leaves held files out so they cannot fill the batch", async () => {
+    const held = await uploadTestFile(fakeS3, workspace, { fileName: "held.txt", folderId });
+    const expired = await uploadTestFile(fakeS3, workspace, { fileName: "expired.txt", folderId });
+    await placeHold("file", held._id.toString());
+
+    const candidates = await retentionService.findAutoDeleteCandidates(later(), 1);
+
+    expect(candidates.map((candidate) => candidate.fileId.toString())).toEqual([expired._id.toString()]);
+  });
+
+  it("skips every folder below a held folder", async () => {
+    const child = await folderService.createFolder("2024", workspace.userId, workspace.businessId, folderId);
+    await uploadTestFile(fakeS3, workspace, { fileName: "old.txt", folderId: child._id.toString() });
+    await placeHold("folder", folderId);
+
+    expect(await retentionService.findAutoDeleteCandidates(later())).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import S3Service from "../s3.service";
+import { installFakeS3, type FakeS3 } from "../../test/helpers";
+
+describe("S3Service.deleteObjects", () => {
+  let fakeS3: FakeS3;
+
+  beforeEach(() => {
+    fakeS3 = installFakeS3();
+  });
+
+  it("splits large deletes into requests of at most 1000 keys", async () => {
+    const keys = Array.from({ length: 2500 }, (_, index) => `business/files/${index}`);
+    keys.forEach((key) => fakeS3.put(key));
+
+    await S3Service.deleteObjects(keys);
+
+    const batchSizes = fakeS3
+      .commands("DeleteObjectsCommand")
+      .map((command) => command.input.Delete.Objects.length);
+    expect(batchSizes).toEqual([1000, 1000, 500]);
+    expect(fakeS3.objects.size).toBe(0);
+  });
+
+  it("skips empty keys and sends nothing when none are left", async () => {
+    await S3Service.deleteObjects(["", ""]);
+
+    expect(fakeS3.commands("DeleteObjectsCommand")).toHaveLength(0);
+  });
+
+  it("throws when S3 reports per-key errors", async () => {
+    fakeS3.send = async () => ({ Errors: [{ Key: "locked-key", Code: "AccessDenied" }] });
+
+    await expect(S3Service.deleteObjects(["locked-key"])).rejects.toThrow(/locked-key \(AccessDenied\)/);
+  });
+});
\ No newline at end of file
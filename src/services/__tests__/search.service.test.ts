@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Types, trusted } from "mongoose";
+import { File } from "../../models/file.model";
+import { Folder } from "../../models/folder.model";
+import { Permission } from "../../models/permission.model";
+import searchService from "../search.service";
+import folderService from "../folder.service";
+import {
+  clearTestDb,
+  createTestWorkspace,
+  describeWithDb,
+  installFakeS3,
+  uploadTestFile,
+  type FakeS3,
+  type TestWorkspace,
+} from "../../test/helpers";
+
+describe("SearchService name matching", () => {
+  const businessId = new Types.ObjectId().toString();
+  const userId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    vi.spyOn(Permission, "exists").mockResolvedValue({ _id: new Types.ObjectId() } as never);
+    vi.spyOn(File, "aggregate").mockResolvedValue([] as never);
+    vi.spyOn(File, "countDocuments").mockResolvedValue(0 as never);
+    vi.spyOn(Folder, "aggregate").mockResolvedValue([] as never);
+    vi.spyOn(Folder, "countDocuments").mockResolvedValue(0 as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("matches every word anywhere in the name, with regex characters escaped", async () => {
+    await searchService.search({ businessId, userId, q: "q3 (draft).pdf", type: "file" });
+
+    const [pipeline] = vi.mocked(File.aggregate).mock.calls[0] as unknown as [Array<Record<string, any>>];
+    expect(pipeline[0].$match.$and).toEqual([
+      { fileName: trusted({ $regex: "q3", $options: "i" }) },
+      { fileName: trusted({ $regex: "\\(draft\\)\\.pdf", $options: "i" }) },
+    ]);
+    expect(pipeline[2].$sort).toEqual({ score: -1, _id: 1 });
+  });
+
+  it("does not rank when there is no search text", async () => {
+    await searchService.search({ businessId, userId, type: "folder" });
+
+    const [pipeline] = vi.mocked(Folder.aggregate).mock.calls[0] as unknown as [Array<Record<string, any>>];
+    expect(pipeline[0].$match.$and).toBeUndefined();
+    expect(pipeline.some((stage) => "$addFields" in stage)).toBe(false);
+  });
+});
+
+describeWithDb("SearchService ranking", () => {
+  let fakeS3: FakeS3;
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    await clearTestDb();
+    fakeS3 = installFakeS3();
+    workspace = await createTestWorkspace();
+  });
+
+  it("finds partial words and ranks exact > prefix > word start > anywhere", async () => {
+    for (const fileName of ["myreport.txt", "q3-report.txt", "report.txt", "Report", "notes.txt"]) {
+      await uploadTestFile(fakeS3, workspace, { fileName });
+    }
+    await folderService.createFolder("Reports", workspace.userId, workspace.businessId, null);
+
+    const result = await searchService.search({ businessId: workspace.businessId, userId: workspace.userId, q: "report" });
+    const names = result.items.map((item) => item.name);
+
+    expect(result.total).toBe(5);
+    expect(names[0]).toBe("Report");
+    expect(names.slice(1, 3).sort()).toEqual(["Reports", "report.txt"]);
+    expect(names.slice(3)).toEqual(["q3-report.txt", "myreport.txt"]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,298 @@
+import { Types } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import type { JobLean, JobType } from "../models/job.model";
+import fileService from "./file.service";
+import folderService from "./folder.service";
+import copyService from "./copy.service";
+import trashService from "./trash.service";
+import tagService from "./tag.service";
+import jobService from "./job.service";
+import type { NameConflictPolicy } from "./name-conflict.service";
+import { hasPermission, type Action, type Resource } from "../middleware/permissions.middleware";
+
+export const BATCH_MAX_ITEMS = 500;
+
+export type BatchItem = {
+  type: Resource;
+  id: string;
+};
+
+type BatchItemError = {
+  code: string;
+  message: string;
+  statusCode: number;
+};
+
+type BatchItemOutcome = BatchItem &
+  (
+    | { status: "succeeded"; result?: Record<string, unknown> }
+    | { status: "failed"; error: BatchItemError }
+  );
+
+type BatchParams = {
+  businessId: string;
+  userId: string;
+  items: BatchItem[];
+};
+
+type BatchTransferParams = BatchParams & {
+  targetFolderId: string | null;
+  conflict?: NameConflictPolicy;
+};
+
+/**
+ * One batch action: the permission each item needs (same as its single-item route)
+ * and what happens to an item once allowed.
+ */
+type BatchOperation = {
+  jobType: JobType;
+  action: Action;
+  apply(item: BatchItem, liveItem: FileLean | FolderLean): Promise<Record<string, unknown> | void>;
+};
+
+/**
+ * Same payload as the error handler would send for this error.
+ */
+function toItemError(error: unknown): BatchItemError {
+  if (error instanceof AppError) {
+    return { code: error.code ?? "APP_ERROR", message: error.message, statusCode: error.statusCode };
+  }
+
+  console.error("❌ Batch item failed:", error);
+  return { code: "INTERNAL_ERROR", message: "Internal Server Error", statusCode: 500 };
+}
+
+/**
+ * Multi-select actions (delete / move / copy / tag) on a mixed list of files and folders.
+ *
+ * Rules:
+ * - every batch runs as a job (`GET /api/job/:id`); its result lists one outcome per item, in request order
+ * - each item is checked on its own (live, same business, `checkPermission` rules of its single-item route);
+ *   a failed item records its AppError code and never stops the rest
+ * - request-wide inputs (destination folder, tags) are checked before the job starts
+ * - an item listed twice is handled once
+ * - items run one after another: deleting a folder first makes its listed children fail with *_NOT_FOUND
+ */
+class BatchService {
+  private toObjectId(id: string, label: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError({ message: `Invalid ${label}`, statusCode: 400, code: "VALIDATION_ERROR" });
+    }
+    return new Types.ObjectId(id);
+  }
+
+  private uniqueItems(items: BatchItem[]): BatchItem[] {
+    const itemsByKey = new Map(items.map((item) => [`${item.type}:${item.id}`, item]));
+    return [...itemsByKey.values()];
+  }
+
+  /**
+   * Live item of the business; anything else is reported as missing (no id probing).
+   */
+  private async loadLiveItem(item: BatchItem, businessId: Types.ObjectId): Promise<FileLean | FolderLean> {
+    const filter = Types.ObjectId.isValid(item.id) ? { _id: new Types.ObjectId(item.id), deletedAt: null } : null;
+    const liveItem = filter
+      ? item.type === "file"
+        ? await File.findOne(filter).lean<FileLean>()
+        : await Folder.findOne(filter).lean<FolderLean>()
+      : null;
+
+    if (!liveItem || !liveItem.businessId.equals(businessId)) {
+      throw new AppError({
+        message: item.type === "file" ? "File not found" : "Folder not found",
+        statusCode: 404,
+        code: item.type === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    return liveItem;
+  }
+
+  /**
+   * Destination of a move / copy (null means "root"): live, same business, writable.
+   */
+  private async resolveTargetFolder(
+    businessId: Types.ObjectId,
+    targetFolderId: string | null,
+    userId: string
+  ): Promise<FolderLean | null> {
+    if (!targetFolderId) return null;
+
+    const targetFolder = await Folder.findOne({
+      _id: this.toObjectId(targetFolderId, "targetFolderId"),
+      deletedAt: null,
+    }).lean<FolderLean>();
+
+    if (!targetFolder || !targetFolder.businessId.equals(businessId)) {
+      throw new AppError({
+        message: "Target folder not found",
+        statusCode: 404,
+        code: "BATCH_TARGET_NOT_FOUND",
+      });
+    }
+
+    const canWrite = await hasPermission({ userId, resource: "folder", resourceId: targetFolderId, action: "write" });
+    if (!canWrite) {
+      throw new AppError({
+        message: "Access denied to the target folder",
+        statusCode: 403,
+        code: "BATCH_TARGET_FORBIDDEN",
+      });
+    }
+
+    return targetFolder;
+  }
+
+  private async runItem(
+    item: BatchItem,
+    businessId: Types.ObjectId,
+    userId: string,
+    operation: BatchOperation
+  ): Promise<BatchItemOutcome> {
+    try {
+      const liveItem = await this.loadLiveItem(item, businessId);
+
+      const isAllowed = await hasPermission({
+        userId,
+        resource: item.type,
+        resourceId: item.id,
+        action: operation.action,
+      });
+      if (!isAllowed) {
+        throw new AppError({
+          message: "Access denied",
+          statusCode: 403,
+          code: "FORBIDDEN",
+          details: { resource: item.type, action: operation.action },
+        });
+      }
+
+      const result = await operation.apply(item, liveItem);
+      return { ...item, status: "succeeded", ...(result ? { result } : {}) };
+    } catch (error) {
+      return { ...item, status: "failed", error: toItemError(error) };
+    }
+  }
+
+  private async run(params: BatchParams, operation: BatchOperation): Promise<JobLean> {
+    const businessId = this.toObjectId(params.businessId, "businessId");
+    const items = this.uniqueItems(params.items);
+
+    return jobService.start({
+      type: operation.jobType,
+      userId: params.userId,
+      businessId: params.businessId,
+      total: items.length,
+      task: async (progress) => {
+        const outcomes: BatchItemOutcome[] = [];
+
+        for (const item of items) {
+          outcomes.push(await this.runItem(item, businessId, params.userId, operation));
+          await progress.advance();
+        }
+
+        return {
+          succeeded: outcomes.filter((outcome) => outcome.status === "succeeded").length,
+          failed: outcomes.filter((outcome) => outcome.status === "failed").length,
+          items: outcomes,
+        };
+      },
+    });
+  }
+
+  /**
+   * Move items to the trash (like `DELETE /file/:id` and `DELETE /folder/:id`).
+   */
+  async deleteItems(params: BatchParams): Promise<JobLean> {
+    return this.run(params, {
+      jobType: "batch_delete",
+      action: "delete",
+      apply: async (item) => {
+        if (item.type === "file") {
+          await trashService.trashFile(item.id, params.userId);
+        } else {
+          await trashService.trashFolder(item.id, params.userId);
+        }
+      },
+    });
+  }
+
+  /**
+   * Move items into a folder (or root). `conflict` defaults to "reject", like the single-item moves.
+   */
+  async moveItems(params: BatchTransferParams): Promise<JobLean> {
+    const businessId = this.toObjectId(params.businessId, "businessId");
+    const targetFolder = await this.resolveTargetFolder(businessId, params.targetFolderId, params.userId);
+    const targetFolderId = targetFolder?._id ?? null;
+    const targetFolderIdString = targetFolderId?.toString() ?? null;
+    const conflict = params.conflict ?? "reject";
+
+    return this.run(params, {
+      jobType: "batch_move",
+      action: "write",
+      apply: async (item) => {
+        if (item.type === "folder") {
+          const moved = await folderService.moveFolder(item.id, targetFolderIdString, params.userId, conflict);
+          return { folderName: moved.folderName };
+        }
+
+        // Same update as `PUT /file/:id` with { folderId } (null moves to the root)
+        const moveUpdate: Record<string, unknown> = { folderId: targetFolderId };
+        const moved = await fileService.updateFile(item.id, moveUpdate, params.userId, conflict);
+        if (!moved) {
+          throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+        }
+
+        return { fileName: moved.fileName };
+      },
+    });
+  }
+
+  /**
+   * Copy items into a folder (or root). `conflict` defaults to "autorename", like the single-item copies.
+   * Folder copies run inside this job rather than starting one job each.
+   */
+  async copyItems(params: BatchTransferParams): Promise<JobLean> {
+    const businessId = this.toObjectId(params.businessId, "businessId");
+    const targetFolder = await this.resolveTargetFolder(businessId, params.targetFolderId, params.userId);
+    const copyTarget = {
+      userId: params.userId,
+      targetFolderId: targetFolder?._id.toString() ?? null,
+      conflict: params.conflict,
+    };
+
+    return this.run(params, {
+      jobType: "batch_copy",
+      action: "read",
+      apply: async (item) => {
+        if (item.type === "file") {
+          const copiedFile = await copyService.copyFile({ ...copyTarget, fileId: item.id });
+          return { fileId: copiedFile._id.toString(), fileName: copiedFile.fileName };
+        }
+
+        const plannedCopy = await copyService.planFolderCopy({ ...copyTarget, folderId: item.id });
+        return plannedCopy.run();
+      },
+    });
+  }
+
+  /**
+   * Add or remove tags of the business on items (like `POST /file/:id/tags`).
+   */
+  async tagItems(params: BatchParams & { tagIds: string[]; action: "add" | "remove" }): Promise<JobLean> {
+    const businessId = this.toObjectId(params.businessId, "businessId");
+    const tagObjectIds = await tagService.resolveTagIds(params.tagIds, businessId);
+
+    return this.run(params, {
+      jobType: "batch_tag",
+      action: "write",
+      apply: async (item, liveItem) => {
+        await tagService.applyTags(item.type, liveItem._id, tagObjectIds, params.action);
+      },
+    });
+  }
+}
+
+export default new BatchService();
\ No newline at end of file
@@ -55,6 +55,29 @@ class BusinessService {
       });
     }
   }
+
+  /**
+   * Set how many days trashed items are kept before the purge worker removes them.
+   */
+  async updateTrashRetention(
+    id: string | Types.ObjectId,
+    trashRetentionDays: number
+  ): Promise<BusinessDocument | null> {
+    try {
+      return await BusinessModel.findByIdAndUpdate(
+        id,
+        { trashRetentionDays },
+        { new: true, runValidators: true }
+      );
+    } catch (cause) {
+      throw new AppError({
+        message: "Failed to update trash retention",
+        statusCode: 500,
+        code: "BUSINESS_UPDATE_FAILED",
+        cause,
+      });
+    }
+  }
 }
 
 export default new BusinessService();
\ No newline at end of file
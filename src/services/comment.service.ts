@@ -0,0 +1,244 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { Comment, type CommentLean } from "../models/comment.model";
+import { File, type FileLean } from "../models/file.model";
+import { User } from "../models/user.model";
+import notificationService from "./notification.service";
+import { hasPermission } from "../middleware/permissions.middleware";
+
+/**
+ * "@alice", "@bob.smith", "@j_doe" (not e-mail addresses: the "@" must start a word)
+ */
+const MENTION_PATTERN = /(?<![\w@.])@([\w.-]{3,})/g;
+
+type CommentAuthor = { _id: Types.ObjectId; username: string };
+
+type CommentListItem = CommentLean & { author: CommentAuthor | null };
+
+type CommentThread = CommentListItem & { replies: CommentListItem[] };
+
+/**
+ * Threaded comments on files.
+ *
+ * Rules:
+ * - anyone who can read the file can comment, reply and resolve / reopen threads
+ * - a reply to a reply joins the same thread (threads are one level deep)
+ * - only the author edits a comment; the author or a file owner deletes it
+ * - deleting a thread starter deletes its replies
+ * - `@username` mentions of business members are stored and notified once
+ * - comments are deleted with their file
+ */
+class CommentService {
+  private notFound(): AppError {
+    return new AppError({ message: "Comment not found", statusCode: 404, code: "COMMENT_NOT_FOUND" });
+  }
+
+  private async loadLiveFile(fileId: string): Promise<FileLean> {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new AppError({ message: "Invalid file ID", statusCode: 400, code: "FILE_INVALID_ID" });
+    }
+
+    const file = await File.findOne({ _id: new Types.ObjectId(fileId), deletedAt: null }).lean<FileLean>();
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return file;
+  }
+
+  private async loadComment(fileId: Types.ObjectId, commentId: string): Promise<CommentLean> {
+    if (!Types.ObjectId.isValid(commentId)) throw this.notFound();
+
+    const comment = await Comment.findOne({ _id: new Types.ObjectId(commentId), fileId }).lean<CommentLean>();
+    if (!comment) throw this.notFound();
+
+    return comment;
+  }
+
+  /**
+   * Business members mentioned in `body` (usernames matched case-insensitively).
+   */
+  private async resolveMentions(businessId: Types.ObjectId, body: string): Promise<Types.ObjectId[]> {
+    const mentionedNames = new Set([...body.matchAll(MENTION_PATTERN)].map((match) => match[1].toLowerCase()));
+    if (mentionedNames.size === 0) return [];
+
+    const members = await User.find({ businessId })
+      .select("username")
+      .lean<Array<{ _id: Types.ObjectId; username: string }>>();
+
+    return members
+      .filter((member) => mentionedNames.has(member.username.trim().toLowerCase()))
+      .map((member) => member._id);
+  }
+
+  /**
+   * Notify mentioned users (never the author). A failed notification never fails the comment.
+   */
+  private async notifyMentions(comment: CommentLean, file: FileLean, userIds: Types.ObjectId[]): Promise<void> {
+    const recipients = userIds.filter((userId) => !userId.equals(comment.authorId));
+
+    for (const userId of recipients) {
+      try {
+        await notificationService.createNotification({
+          userId,
+          type: "comment_mention",
+          message: `You were mentioned in a comment on "${file.fileName}"`,
+          data: { fileId: file._id, commentId: comment._id },
+        });
+      } catch (error) {
+        console.error(`❌ Failed to notify mentioned user ${userId.toString()}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Threads of a file, oldest first, each with its replies (oldest first).
+   */
+  async listComments(fileId: string): Promise<CommentThread[]> {
+    const file = await this.loadLiveFile(fileId);
+
+    const comments = await Comment.find({ fileId: file._id }).sort({ createdAt: 1, _id: 1 }).lean<CommentLean[]>();
+    if (comments.length === 0) return [];
+
+    const authorIds = [...new Set(comments.map((comment) => comment.authorId.toString()))];
+    const authors = await User.find({ _id: trusted({ $in: authorIds.map((id) => new Types.ObjectId(id)) }) })
+      .select("username")
+      .lean<CommentAuthor[]>();
+    const authorById = new Map(authors.map((author) => [author._id.toString(), author]));
+
+    const withAuthor = (comment: CommentLean): CommentListItem => ({
+      ...comment,
+      author: authorById.get(comment.authorId.toString()) ?? null,
+    });
+
+    const threads = new Map<string, CommentThread>();
+    for (const comment of comments) {
+      if (!comment.parentId) threads.set(comment._id.toString(), { ...withAuthor(comment), replies: [] });
+    }
+
+    for (const comment of comments) {
+      if (comment.parentId) threads.get(comment.parentId.toString())?.replies.push(withAuthor(comment));
+    }
+
+    return [...threads.values()];
+  }
+
+  async createComment(params: {
+    fileId: string;
+    userId: string;
+    body: string;
+    parentId?: string | null;
+  }): Promise<CommentLean> {
+    const file = await this.loadLiveFile(params.fileId);
+
+    // Replying to a reply => reply in the same thread
+    let threadId: Types.ObjectId | null = null;
+    if (params.parentId) {
+      const parent = await this.loadComment(file._id, params.parentId);
+      threadId = parent.parentId ?? parent._id;
+    }
+
+    const body = params.body.trim();
+    const mentions = await this.resolveMentions(file.businessId, body);
+
+    const created = await Comment.create({
+      fileId: file._id,
+      businessId: file.businessId,
+      parentId: threadId,
+      authorId: new Types.ObjectId(params.userId),
+      body,
+      mentions,
+    });
+
+    const comment = created.toObject() as CommentLean;
+    await this.notifyMentions(comment, file, mentions);
+
+    return comment;
+  }
+
+  /**
+   * Edit the body (author only) and / or resolve / reopen a thread.
+   */
+  async updateComment(params: {
+    fileId: string;
+    commentId: string;
+    userId: string;
+    body?: string;
+    resolved?: boolean;
+  }): Promise<CommentLean> {
+    if (params.body === undefined && params.resolved === undefined) {
+      throw new AppError({ message: "body or resolved is required", statusCode: 400, code: "VALIDATION_ERROR" });
+    }
+
+    const file = await this.loadLiveFile(params.fileId);
+    const comment = await this.loadComment(file._id, params.commentId);
+    const update: Record<string, unknown> = {};
+    let newMentions: Types.ObjectId[] = [];
+
+    if (params.body !== undefined) {
+      if (!comment.authorId.equals(params.userId)) {
+        throw new AppError({
+          message: "Only the author can edit a comment",
+          statusCode: 403,
+          code: "COMMENT_FORBIDDEN",
+        });
+      }
+
+      const body = params.body.trim();
+      const mentions = await this.resolveMentions(file.businessId, body);
+      newMentions = mentions.filter((userId) => !comment.mentions.some((mentioned) => mentioned.equals(userId)));
+
+      Object.assign(update, { body, mentions, editedAt: new Date() });
+    }
+
+    if (params.resolved !== undefined) {
+      if (comment.parentId) {
+        throw new AppError({
+          message: "Only the first comment of a thread can be resolved",
+          statusCode: 409,
+          code: "COMMENT_NOT_THREAD_START",
+        });
+      }
+
+      Object.assign(
+        update,
+        params.resolved
+          ? { resolved: true, resolvedBy: new Types.ObjectId(params.userId), resolvedAt: new Date() }
+          : { resolved: false, resolvedBy: null, resolvedAt: null }
+      );
+    }
+
+    const updated = await Comment.findByIdAndUpdate(comment._id, { $set: update }, { new: true }).lean<CommentLean>();
+    if (!updated) throw this.notFound();
+
+    await this.notifyMentions(updated, file, newMentions);
+
+    return updated;
+  }
+
+  async deleteComment(params: { fileId: string; commentId: string; userId: string }): Promise<void> {
+    const file = await this.loadLiveFile(params.fileId);
+    const comment = await this.loadComment(file._id, params.commentId);
+
+    const isAuthor = comment.authorId.equals(params.userId);
+    if (
+      !isAuthor &&
+      !(await hasPermission({ userId: params.userId, resource: "file", resourceId: file._id.toString(), action: "owner" }))
+    ) {
+      throw new AppError({
+        message: "Only the author or a file owner can delete a comment",
+        statusCode: 403,
+        code: "COMMENT_FORBIDDEN",
+      });
+    }
+
+    await Comment.deleteMany({ $or: [{ _id: comment._id }, { parentId: comment._id }] });
+  }
+
+  async deleteFileComments(fileIds: Types.ObjectId[]): Promise<void> {
+    if (fileIds.length === 0) return;
+    await Comment.deleteMany({ fileId: trusted({ $in: fileIds }) });
+  }
+}
+
+export default new CommentService();
\ No newline at end of file
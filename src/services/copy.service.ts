@@ -0,0 +1,467 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { FileVersion } from "../models/file-version.model";
+import type { JobLean } from "../models/job.model";
+import S3Service from "./s3.service";
+import folderService from "./folder.service";
+import jobService, { type JobProgress } from "./job.service";
+import thumbnailService from "./thumbnail.service";
+import storageQuotaService from "./storage-quota.service";
+import nameConflictService, { type NameConflictPolicy } from "./name-conflict.service";
+import { hasPermission } from "../middleware/permissions.middleware";
+import { fileObjectKey, folderPrefix, rootPrefix } from "../utils/s3-key.utils";
+import { normalizeFileName, normalizeFolderName, sanitizeFilename } from "../utils/name.utils";
+
+/**
+ * Server-side S3 copies running at the same time inside a folder copy job.
+ */
+const COPY_CONCURRENCY = 5;
+
+type CopyFileParams = {
+  fileId: string;
+  userId: string;
+  targetFolderId: string | null;
+  newName?: string;
+  /** Default "autorename" */
+  conflict?: NameConflictPolicy;
+};
+
+type CopyFolderParams = {
+  folderId: string;
+  userId: string;
+  targetFolderId: string | null;
+  newName?: string;
+  /** Default "autorename" */
+  conflict?: NameConflictPolicy;
+};
+
+/**
+ * A file copy ready to be written: new ids decided, object not copied yet.
+ */
+type PlannedFileCopy = {
+  source: FileLean;
+  fileId: Types.ObjectId;
+  versionId: Types.ObjectId;
+  folderId: Types.ObjectId | null;
+  fileName: string;
+  s3Key: string;
+};
+
+/**
+ * What a finished folder copy reports (the job result).
+ */
+type FolderCopyResult = {
+  folderId: string;
+  folderName: string;
+  folders: number;
+  files: number;
+};
+
+/**
+ * A folder copy with its subtree snapshotted and names claimed; `run` writes it.
+ */
+type PlannedFolderCopy = {
+  businessId: Types.ObjectId;
+  /** Progress units: folders + files */
+  total: number;
+  run(progress?: JobProgress): Promise<FolderCopyResult>;
+};
+
+/**
+ * Deep copy of files and folder subtrees.
+ *
+ * Rules:
+ * - copies get new ids and new S3 keys; objects are copied server-side (no bytes through the API)
+ * - only the current version is copied; it becomes v1 of the copy
+ * - the user making the copy owns it
+ * - a name already used at the destination gets a " (n)" suffix, unless `conflict` says otherwise
+ *   ("replace" trashes the existing item; an item never replaces itself)
+ * - folder copies run as a background job (`GET /api/job/:id` for progress)
+ */
+class CopyService {
+  private async loadLiveFile(fileId: string): Promise<FileLean> {
+    if (!Types.ObjectId.isValid(fileId)) throw new Error("Invalid file ID");
+
+    const file = await File.findOne({ _id: new Types.ObjectId(fileId), deletedAt: null }).lean<FileLean>();
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return file;
+  }
+
+  private async loadLiveFolder(folderId: string): Promise<FolderLean> {
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folder ID");
+
+    const folder = await Folder.findOne({ _id: new Types.ObjectId(folderId), deletedAt: null }).lean<FolderLean>();
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    return folder;
+  }
+
+  /**
+   * Destination folder (null means "root").
+   * Copies never leave their business, and the user needs write access to the destination.
+   */
+  private async resolveTargetFolder(
+    businessId: Types.ObjectId,
+    targetFolderId: string | null,
+    userId: string
+  ): Promise<FolderLean | null> {
+    if (!targetFolderId) return null;
+
+    if (!Types.ObjectId.isValid(targetFolderId)) throw new Error("Invalid targetFolderId");
+
+    const targetFolder = await Folder.findOne({
+      _id: new Types.ObjectId(targetFolderId),
+      deletedAt: null,
+    }).lean<FolderLean>();
+
+    if (!targetFolder) {
+      throw new AppError({
+        message: "Target folder not found",
+        statusCode: 404,
+        code: "COPY_TARGET_NOT_FOUND",
+      });
+    }
+
+    if (!targetFolder.businessId.equals(businessId)) {
+      throw new AppError({
+        message: "Target folder belongs to another business",
+        statusCode: 403,
+        code: "COPY_TARGET_BUSINESS_MISMATCH",
+      });
+    }
+
+    const canWrite = await hasPermission({
+      userId,
+      resource: "folder",
+      resourceId: targetFolderId,
+      action: "write",
+    });
+
+    if (!canWrite) {
+      throw new AppError({
+        message: "Access denied to the target folder",
+        statusCode: 403,
+        code: "COPY_TARGET_FORBIDDEN",
+      });
+    }
+
+    return targetFolder;
+  }
+
+  /**
+   * Name of the copy at the destination; with "replace", the file using it goes to the trash.
+   */
+  private async claimFileName(params: {
+    source: FileLean;
+    folderId: Types.ObjectId | null;
+    fileName: string;
+    conflict: NameConflictPolicy;
+    userId: string;
+  }): Promise<string> {
+    const { fileName, conflictingFile } = await nameConflictService.resolveFileName({
+      businessId: params.source.businessId,
+      folderId: params.folderId,
+      fileName: params.fileName,
+      conflict: params.conflict,
+    });
+
+    if (conflictingFile) {
+      if (conflictingFile._id.equals(params.source._id)) {
+        throw nameConflictService.fileConflict(fileName, conflictingFile._id);
+      }
+      await nameConflictService.trashConflictingFile(conflictingFile, params.userId);
+    }
+
+    return fileName;
+  }
+
+  /**
+   * Name of the copied root folder; with "replace", the folder using it goes to the trash.
+   */
+  private async claimFolderName(params: {
+    source: FolderLean;
+    parentFolderId: Types.ObjectId | null;
+    folderName: string;
+    conflict: NameConflictPolicy;
+    userId: string;
+  }): Promise<string> {
+    const { folderName, conflictingFolder } = await nameConflictService.resolveFolderName({
+      businessId: params.source.businessId,
+      parentFolderId: params.parentFolderId,
+      folderName: params.folderName,
+      conflict: params.conflict,
+    });
+
+    if (conflictingFolder) {
+      if (conflictingFolder._id.equals(params.source._id)) {
+        throw nameConflictService.folderConflict(folderName, conflictingFolder._id);
+      }
+      await nameConflictService.trashConflictingFolder(conflictingFolder, params.userId);
+    }
+
+    return folderName;
+  }
+
+  private planFileCopy(
+    source: FileLean,
+    destination: { folderId: Types.ObjectId | null; keyPrefix: string; fileName: string }
+  ): PlannedFileCopy {
+    const fileId = new Types.ObjectId();
+
+    return {
+      source,
+      fileId,
+      versionId: new Types.ObjectId(),
+      folderId: destination.folderId,
+      fileName: destination.fileName,
+      s3Key: fileObjectKey(destination.keyPrefix, fileId.toString(), sanitizeFilename(destination.fileName)),
+    };
+  }
+
+  /**
+   * Copy the objects, then write File + v1 FileVersion documents for each planned copy.
+   */
+  private async writeFileCopies(plannedCopies: PlannedFileCopy[], userId: string): Promise<void> {
+    await Promise.all(
+      plannedCopies.map((plannedCopy) =>
+        S3Service.copyObject({ sourceKey: plannedCopy.source.s3Key, destinationKey: plannedCopy.s3Key })
+      )
+    );
+
+    const userObjectId = new Types.ObjectId(userId);
+
+    await File.insertMany(
+      plannedCopies.map((plannedCopy) => ({
+        _id: plannedCopy.fileId,
+        userId: userObjectId,
+        businessId: plannedCopy.source.businessId,
+        folderId: plannedCopy.folderId,
+        fileName: plannedCopy.fileName,
+        fileSize: plannedCopy.source.fileSize,
+        contentType: plannedCopy.source.contentType ?? null,
+        checksumSha256: plannedCopy.source.checksumSha256 ?? null,
+        s3Key: plannedCopy.s3Key,
+        currentVersionId: plannedCopy.versionId,
+        versionCount: 1,
+        thumbnail: thumbnailService.initialState(plannedCopy.source),
+      }))
+    );
+
+    await storageQuotaService.recordStored(plannedCopies[0].source.businessId, {
+      bytes: plannedCopies.reduce((total, plannedCopy) => total + plannedCopy.source.fileSize, 0),
+      files: plannedCopies.length,
+    });
+
+    await FileVersion.insertMany(
+      plannedCopies.map((plannedCopy) => ({
+        _id: plannedCopy.versionId,
+        fileId: plannedCopy.fileId,
+        businessId: plannedCopy.source.businessId,
+        versionNumber: 1,
+        fileName: plannedCopy.fileName,
+        fileSize: plannedCopy.source.fileSize,
+        contentType: plannedCopy.source.contentType ?? null,
+        checksumSha256: plannedCopy.source.checksumSha256 ?? null,
+        s3Key: plannedCopy.s3Key,
+        uploadedBy: userObjectId,
+      }))
+    );
+  }
+
+  /**
+   * Copy one file into a folder (or root). Fast enough to run inside the request.
+   */
+  async copyFile(params: CopyFileParams): Promise<FileLean> {
+    const source = await this.loadLiveFile(params.fileId);
+    const targetFolder = await this.resolveTargetFolder(source.businessId, params.targetFolderId, params.userId);
+
+    const targetFolderId = targetFolder?._id ?? null;
+    const requestedName = params.newName ? normalizeFileName(params.newName) : source.fileName;
+
+    await storageQuotaService.assertCanStore(source.businessId, { bytes: source.fileSize, files: 1 });
+
+    const plannedCopy = this.planFileCopy(source, {
+      folderId: targetFolderId,
+      keyPrefix: targetFolder ? targetFolder.s3Key : rootPrefix(source.businessId.toString()),
+      fileName: await this.claimFileName({
+        source,
+        folderId: targetFolderId,
+        fileName: requestedName,
+        conflict: params.conflict ?? "autorename",
+        userId: params.userId,
+      }),
+    });
+
+    await nameConflictService.guardFileName(plannedCopy.fileName, () =>
+      this.writeFileCopies([plannedCopy], params.userId)
+    );
+
+    if (targetFolderId) {
+      await folderService.addFileToFolder(plannedCopy.fileId.toString(), targetFolderId.toString());
+    }
+
+    const copiedFile = await File.findById(plannedCopy.fileId).lean<FileLean>();
+    if (!copiedFile) throw new Error("File copy failed.");
+    return copiedFile;
+  }
+
+  /**
+   * Copy a folder and its live subtree into a folder (or root).
+   * The subtree is snapshotted here; the copy itself runs as a job (progress = folders + files).
+   */
+  async copyFolder(params: CopyFolderParams): Promise<JobLean> {
+    const plannedCopy = await this.planFolderCopy(params);
+
+    return jobService.start({
+      type: "folder_copy",
+      userId: params.userId,
+      businessId: plannedCopy.businessId.toString(),
+      total: plannedCopy.total,
+      task: (progress) => plannedCopy.run(progress),
+    });
+  }
+
+  /**
+   * Checks, snapshot and naming of a folder copy, without writing anything
+   * (callers already inside a job run it directly).
+   */
+  async planFolderCopy(params: CopyFolderParams): Promise<PlannedFolderCopy> {
+    const sourceRoot = await this.loadLiveFolder(params.folderId);
+    const businessId = sourceRoot.businessId;
+    const targetFolder = await this.resolveTargetFolder(businessId, params.targetFolderId, params.userId);
+    const targetFolderId = targetFolder?._id ?? null;
+
+    const sourceFolders = [sourceRoot, ...(await folderService.getLiveDescendantFolders(sourceRoot._id))];
+    const sourceFiles = await File.find({
+      folderId: trusted({ $in: sourceFolders.map((folder) => folder._id) }),
+      deletedAt: null,
+    }).lean<FileLean[]>();
+
+    await storageQuotaService.assertCanStore(businessId, {
+      bytes: sourceFiles.reduce((total, sourceFile) => total + sourceFile.fileSize, 0),
+      files: sourceFiles.length,
+    });
+
+    // New ids up front, so parents/children/files can be linked in one pass
+    const newFolderIdBySourceId = new Map(
+      sourceFolders.map((folder) => [folder._id.toString(), new Types.ObjectId()])
+    );
+    const newFolderId = (sourceFolderId: Types.ObjectId): Types.ObjectId =>
+      newFolderIdBySourceId.get(sourceFolderId.toString())!;
+
+    const requestedName = params.newName ? normalizeFolderName(params.newName) : sourceRoot.folderName;
+    const rootName = await this.claimFolderName({
+      source: sourceRoot,
+      parentFolderId: targetFolderId,
+      folderName: requestedName,
+      conflict: params.conflict ?? "autorename",
+      userId: params.userId,
+    });
+
+    const plannedFiles = sourceFiles.map((sourceFile) => {
+      const folderId = newFolderId(sourceFile.folderId!);
+
+      return this.planFileCopy(sourceFile, {
+        folderId,
+        keyPrefix: folderPrefix(businessId.toString(), folderId.toString()),
+        fileName: sourceFile.fileName,
+      });
+    });
+
+    const userObjectId = new Types.ObjectId(params.userId);
+    const folderDocuments = sourceFolders.map((sourceFolder) => {
+      const folderId = newFolderId(sourceFolder._id);
+      const isRoot = sourceFolder._id.equals(sourceRoot._id);
+
+      return {
+        _id: folderId,
+        folderName: isRoot ? rootName : sourceFolder.folderName,
+        userId: userObjectId,
+        businessId,
+        parentFolderId: isRoot ? targetFolderId : newFolderId(sourceFolder.parentFolderId!),
+        s3Key: folderPrefix(businessId.toString(), folderId.toString()),
+        fileIds: plannedFiles
+          .filter((plannedFile) => plannedFile.folderId?.equals(folderId))
+          .map((plannedFile) => plannedFile.fileId),
+        folderIds: sourceFolders
+          .filter((childFolder) => childFolder.parentFolderId?.equals(sourceFolder._id))
+          .map((childFolder) => newFolderId(childFolder._id)),
+      };
+    });
+
+    const copiedRootId = newFolderId(sourceRoot._id);
+
+    return {
+      businessId,
+      total: folderDocuments.length + plannedFiles.length,
+      run: async (progress) => {
+        try {
+          await nameConflictService.guardFolderName(rootName, () => Folder.insertMany(folderDocuments));
+          if (targetFolderId) {
+            await folderService.addChildFolderToFolder(targetFolderId.toString(), copiedRootId.toString());
+          }
+          await progress?.advance(folderDocuments.length);
+
+          for (let batchStart = 0; batchStart < plannedFiles.length; batchStart += COPY_CONCURRENCY) {
+            const batch = plannedFiles.slice(batchStart, batchStart + COPY_CONCURRENCY);
+            await this.writeFileCopies(batch, params.userId);
+            await progress?.advance(batch.length);
+          }
+        } catch (error) {
+          await this.discardFolderCopy({
+            businessId,
+            folderIds: folderDocuments.map((folderDocument) => folderDocument._id),
+            parentFolderId: targetFolderId,
+            rootFolderId: copiedRootId,
+          });
+          throw error;
+        }
+
+        return {
+          folderId: copiedRootId.toString(),
+          folderName: rootName,
+          folders: folderDocuments.length,
+          files: plannedFiles.length,
+        };
+      },
+    };
+  }
+
+  /**
+   * Undo a partial folder copy: objects under the new prefixes, then metadata.
+   */
+  private async discardFolderCopy(params: {
+    businessId: Types.ObjectId;
+    folderIds: Types.ObjectId[];
+    parentFolderId: Types.ObjectId | null;
+    rootFolderId: Types.ObjectId;
+  }): Promise<void> {
+    try {
+      for (const folderId of params.folderIds) {
+        await S3Service.deletePrefix(folderPrefix(params.businessId.toString(), folderId.toString()));
+      }
+
+      const copiedFileIds = await File.find({ folderId: trusted({ $in: params.folderIds }) }).distinct("_id");
+      const removed = await storageQuotaService.measure({ _id: { $in: copiedFileIds } });
+      await FileVersion.deleteMany({ fileId: trusted({ $in: copiedFileIds }) });
+      await File.deleteMany({ _id: trusted({ $in: copiedFileIds }) });
+      await storageQuotaService.recordRemoved(params.businessId, removed);
+      await Folder.deleteMany({ _id: trusted({ $in: params.folderIds }) });
+
+      if (params.parentFolderId) {
+        await Folder.updateOne({ _id: params.parentFolderId }, { $pull: { folderIds: params.rootFolderId } });
+      }
+    } catch (cleanupError) {
+      console.error("❌ Failed to clean up a partial folder copy:", cleanupError);
+    }
+  }
+}
+
+export default new CopyService();
\ No newline at end of file
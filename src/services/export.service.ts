@@ -0,0 +1,242 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import type { JobLean } from "../models/job.model";
+import S3Service from "./s3.service";
+import folderService from "./folder.service";
+import jobService from "./job.service";
+import { EXPORTS_PREFIX, exportObjectKey } from "../utils/s3-key.utils";
+import { nextAvailableName, sanitizeFilename } from "../utils/name.utils";
+import { ZIP_MAX_BYTES, ZIP_MAX_ENTRIES, ZipWriter } from "../utils/zip.utils";
+
+/**
+ * How long an export archive can be downloaded.
+ */
+export const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Download URL lifetime (capped by S3Service anyway).
+ */
+const EXPORT_URL_EXPIRES_IN_SECONDS = 60 * 60;
+
+type ExportEntry =
+  | { kind: "folder"; path: string; modifiedAt: Date }
+  | { kind: "file"; path: string; modifiedAt: Date; s3Key: string };
+
+type ExportResult = {
+  s3Key: string;
+  archiveName: string;
+  fileCount: number;
+  folderCount: number;
+  totalBytes: number;
+  exportExpiresAt: Date;
+};
+
+type ExportJob = JobLean & { downloadUrl?: string };
+
+/**
+ * ZIP names must not contain path separators (display names can).
+ */
+function toArchiveSegment(name: string): string {
+  return name.replace(/[\\/]/g, "_") || "_";
+}
+
+/**
+ * Folder export ("download folder") as a background job.
+ *
+ * Rules:
+ * - the archive is a snapshot of the live subtree when the export starts
+ * - paths use display names; duplicate names in a folder get " (n)" suffixes
+ * - the archive is written to S3 under `exports/` and deleted after EXPORT_TTL_MS
+ * - the job result carries the key; GET /job/:id adds a fresh download URL
+ */
+class ExportService {
+  /**
+   * Archive entries (folders first, then their files), root folder included.
+   */
+  private planEntries(root: FolderLean, folders: FolderLean[], files: FileLean[]): ExportEntry[] {
+    const childrenByParentId = new Map<string, FolderLean[]>();
+    for (const folder of folders) {
+      const parentKey = folder.parentFolderId?.toString() ?? "";
+      childrenByParentId.set(parentKey, [...(childrenByParentId.get(parentKey) ?? []), folder]);
+    }
+
+    const filesByFolderId = new Map<string, FileLean[]>();
+    for (const file of files) {
+      const folderKey = file.folderId!.toString();
+      filesByFolderId.set(folderKey, [...(filesByFolderId.get(folderKey) ?? []), file]);
+    }
+
+    const entries: ExportEntry[] = [];
+    const stack: Array<{ folder: FolderLean; path: string }> = [
+      { folder: root, path: toArchiveSegment(root.folderName) },
+    ];
+
+    while (stack.length > 0) {
+      const { folder, path } = stack.pop()!;
+      const folderKey = folder._id.toString();
+      const takenNames: string[] = [];
+
+      entries.push({ kind: "folder", path: `${path}/`, modifiedAt: folder.updatedAt });
+
+      const childFolders = (childrenByParentId.get(folderKey) ?? []).sort((left, right) =>
+        left.folderName.localeCompare(right.folderName)
+      );
+      for (const childFolder of childFolders) {
+        const name = nextAvailableName(toArchiveSegment(childFolder.folderName), takenNames, { hasExtension: false });
+        takenNames.push(name);
+        stack.push({ folder: childFolder, path: `${path}/${name}` });
+      }
+
+      const folderFiles = (filesByFolderId.get(folderKey) ?? []).sort((left, right) =>
+        left.fileName.localeCompare(right.fileName)
+      );
+      for (const file of folderFiles) {
+        const name = nextAvailableName(toArchiveSegment(file.fileName), takenNames, { hasExtension: true });
+        takenNames.push(name);
+        entries.push({ kind: "file", path: `${path}/${name}`, modifiedAt: file.updatedAt, s3Key: file.s3Key });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Stream every entry into a ZIP written straight to S3.
+   */
+  private async writeArchive(
+    s3Key: string,
+    entries: ExportEntry[],
+    onFileWritten: () => Promise<void>
+  ): Promise<void> {
+    const zip = new ZipWriter();
+    const abortController = new AbortController();
+
+    const upload = S3Service.uploadStream({
+      key: s3Key,
+      body: zip.output,
+      contentType: "application/zip",
+      signal: abortController.signal,
+    });
+
+    // A failed upload stops reading: close the archive so the writer does not wait forever
+    upload.catch(() => zip.output.destroy());
+
+    try {
+      for (const entry of entries) {
+        if (entry.kind === "folder") {
+          await zip.addDirectory(entry.path, entry.modifiedAt);
+          continue;
+        }
+
+        await zip.addFile(entry.path, await S3Service.getObjectStream(entry.s3Key), entry.modifiedAt);
+        await onFileWritten();
+      }
+
+      await zip.finalize();
+    } catch (error) {
+      abortController.abort();
+      zip.output.destroy();
+      await upload.catch(() => undefined);
+      throw error;
+    }
+
+    await upload;
+  }
+
+  async exportFolder(params: { folderId: string; userId: string }): Promise<JobLean> {
+    if (!Types.ObjectId.isValid(params.folderId)) throw new Error("Invalid folder ID");
+
+    const root = await Folder.findOne({
+      _id: new Types.ObjectId(params.folderId),
+      deletedAt: null,
+    }).lean<FolderLean>();
+    if (!root) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    const descendants = await folderService.getLiveDescendantFolders(root._id);
+    const files = await File.find({
+      folderId: trusted({ $in: [root._id, ...descendants.map((folder) => folder._id)] }),
+      deletedAt: null,
+    }).lean<FileLean[]>();
+
+    const totalBytes = files.reduce((total, file) => total + (file.fileSize ?? 0), 0);
+    const entries = this.planEntries(root, descendants, files);
+
+    // Leave room for headers / central directory (deflate output can exceed the input slightly)
+    if (entries.length > ZIP_MAX_ENTRIES || totalBytes > ZIP_MAX_BYTES * 0.9) {
+      throw new AppError({
+        message: "Folder is too large to export as a single archive",
+        statusCode: 413,
+        code: "EXPORT_TOO_LARGE",
+        details: { fileCount: files.length, totalBytes },
+      });
+    }
+
+    const businessId = root.businessId.toString();
+    const archiveName = `${toArchiveSegment(root.folderName)}.zip`;
+
+    return jobService.start({
+      type: "folder_export",
+      userId: params.userId,
+      businessId,
+      total: files.length,
+      task: async (progress, jobId) => {
+        const s3Key = exportObjectKey(businessId, jobId.toString(), sanitizeFilename(archiveName));
+
+        await this.writeArchive(s3Key, entries, () => progress.advance());
+
+        const result: ExportResult = {
+          s3Key,
+          archiveName,
+          fileCount: files.length,
+          folderCount: descendants.length + 1,
+          totalBytes,
+          exportExpiresAt: new Date(Date.now() + EXPORT_TTL_MS),
+        };
+        return result;
+      },
+    });
+  }
+
+  /**
+   * Add a fresh download URL to a finished, unexpired export job.
+   */
+  async withDownloadUrl(job: JobLean): Promise<ExportJob> {
+    if (job.type !== "folder_export" || job.status !== "succeeded") return job;
+
+    const result = job.result as Partial<ExportResult> | null;
+    const expiresAt = result?.exportExpiresAt ? new Date(result.exportExpiresAt) : null;
+    if (!result?.s3Key || !expiresAt || expiresAt.getTime() <= Date.now()) return job;
+
+    return {
+      ...job,
+      downloadUrl: await S3Service.presignDownload(result.s3Key, {
+        expiresInSeconds: EXPORT_URL_EXPIRES_IN_SECONDS,
+        fileName: result.archiveName,
+      }),
+    };
+  }
+
+  /**
+   * Delete archives older than EXPORT_TTL_MS. Returns the number of objects removed.
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = now.getTime() - EXPORT_TTL_MS;
+
+    const expiredKeys = (await S3Service.listObjects(EXPORTS_PREFIX))
+      .filter((object) => object.lastModified && object.lastModified.getTime() <= cutoff)
+      .map((object) => object.key);
+
+    // DeleteObjects takes at most 1000 keys
+    for (let batchStart = 0; batchStart < expiredKeys.length; batchStart += 1000) {
+      await S3Service.deleteObjects(expiredKeys.slice(batchStart, batchStart + 1000));
+    }
+
+    return expiredKeys.length;
+  }
+}
+
+export default new ExportService();
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { hasPermission } from "../middleware/permissions.middleware";
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_LOCK_MINUTES = 60;
+export const MAX_LOCK_MINUTES = 7 * 24 * 60;
+
+/**
+ * `lock` value of an unlocked file
+ */
+export const NO_LOCK = { lockedBy: null, reason: null, lockedAt: null, expiresAt: null };
+
+/**
+ * Lock as returned to clients (null when the file is not locked)
+ */
+export type ActiveFileLock = {
+  lockedBy: Types.ObjectId;
+  reason: string | null;
+  lockedAt: Date;
+  expiresAt: Date;
+};
+
+type LockState = Pick<FileLean, "lock"> | { lock?: FileLean["lock"] | null };
+
+/**
+ * Exclusive edit locks (check-out) on files.
+ *
+ * Rules:
+ * - one holder per file; locking again as the holder renews the lock (new reason / expiry)
+ * - while locked, only the holder and users with "owner" access may update, move, trash
+ *   or upload / restore versions of the file (others get 423 FILE_LOCKED)
+ * - the holder and "owner" users may unlock
+ * - locks expire on their own: an expired lock is ignored everywhere, the worker clears it
+ * - trashing a file drops its lock
+ */
+class FileLockService {
+  /**
+   * The lock that currently counts, or null (no lock / expired).
+   */
+  activeLock(file: LockState, now: Date = new Date()): ActiveFileLock | null {
+    const lock = file.lock;
+    if (!lock?.lockedBy || !lock.expiresAt || lock.expiresAt <= now) return null;
+
+    return {
+      lockedBy: lock.lockedBy,
+      reason: lock.reason ?? null,
+      lockedAt: lock.lockedAt ?? lock.expiresAt,
+      expiresAt: lock.expiresAt,
+    };
+  }
+
+  private lockedError(fileId: Types.ObjectId, lock: ActiveFileLock): AppError {
+    return new AppError({
+      message: "File is locked by another user",
+      statusCode: 423,
+      code: "FILE_LOCKED",
+      details: {
+        fileId: fileId.toString(),
+        lockedBy: lock.lockedBy.toString(),
+        reason: lock.reason,
+        expiresAt: lock.expiresAt,
+      },
+    });
+  }
+
+  private async hasOwnerAccess(fileId: Types.ObjectId, userId: string): Promise<boolean> {
+    return hasPermission({ userId, resource: "file", resourceId: fileId.toString(), action: "owner" });
+  }
+
+  private async loadLiveFile(fileId: string): Promise<FileLean> {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new AppError({ message: "Invalid file ID", statusCode: 400, code: "FILE_INVALID_ID" });
+    }
+
+    const file = await File.findOne({ _id: new Types.ObjectId(fileId), deletedAt: null }).lean<FileLean>();
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return file;
+  }
+
+  async lockFile(params: {
+    fileId: string;
+    userId: string;
+    reason?: string | null;
+    durationMinutes?: number;
+  }): Promise<FileLean> {
+    const file = await this.loadLiveFile(params.fileId);
+    const userObjectId = new Types.ObjectId(params.userId);
+
+    const durationMinutes = params.durationMinutes ?? DEFAULT_LOCK_MINUTES;
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_LOCK_MINUTES) {
+      throw new AppError({
+        message: `durationMinutes must be an integer between 1 and ${MAX_LOCK_MINUTES}`,
+        statusCode: 400,
+        code: "FILE_LOCK_INVALID_DURATION",
+      });
+    }
+
+    const now = new Date();
+
+    // Atomic: free, expired or already ours => take it
+    const locked = await File.findOneAndUpdate(
+      {
+        _id: file._id,
+        deletedAt: null,
+        $or: [
+          { "lock.lockedBy": null },
+          { "lock.expiresAt": trusted({ $lte: now }) },
+          { "lock.lockedBy": userObjectId },
+        ],
+      },
+      {
+        $set: {
+          lock: {
+            lockedBy: userObjectId,
+            reason: params.reason?.trim() || null,
+            lockedAt: now,
+            expiresAt: new Date(now.getTime() + durationMinutes * MINUTE_MS),
+          },
+        },
+      },
+      { new: true }
+    ).lean<FileLean>();
+
+    if (locked) return locked;
+
+    const current = await this.loadLiveFile(params.fileId);
+    const currentLock = this.activeLock(current);
+    if (currentLock) throw this.lockedError(current._id, currentLock);
+
+    // Lock expired / released between the two reads
+    return this.lockFile(params);
+  }
+
+  async unlockFile(params: { fileId: string; userId: string }): Promise<FileLean> {
+    const file = await this.loadLiveFile(params.fileId);
+    const lock = this.activeLock(file);
+
+    if (!lock) {
+      throw new AppError({ message: "File is not locked", statusCode: 409, code: "FILE_NOT_LOCKED" });
+    }
+
+    const isHolder = lock.lockedBy.toString() === params.userId;
+    if (!isHolder && !(await this.hasOwnerAccess(file._id, params.userId))) {
+      throw new AppError({
+        message: "Only the lock holder or a file owner can unlock this file",
+        statusCode: 403,
+        code: "FILE_LOCK_FORBIDDEN",
+        details: { lockedBy: lock.lockedBy.toString() },
+      });
+    }
+
+    return (await this.clearLock(file._id)) ?? file;
+  }
+
+  /**
+   * Refuse a change to `file` by `userId` while someone else holds its lock.
+   */
+  async assertCanModify(file: LockState & { _id: Types.ObjectId }, userId: string): Promise<void> {
+    const lock = this.activeLock(file);
+    if (!lock || lock.lockedBy.toString() === userId) return;
+
+    if (await this.hasOwnerAccess(file._id, userId)) return;
+
+    throw this.lockedError(file._id, lock);
+  }
+
+  /**
+   * Same check for every live file directly inside `folderIds` (ex: trashing a folder tree).
+   */
+  async assertCanModifyFilesIn(folderIds: Types.ObjectId[], userId: string): Promise<void> {
+    const lockedFiles = await File.find({
+      folderId: trusted({ $in: folderIds }),
+      deletedAt: null,
+      "lock.lockedBy": trusted({ $nin: [null, new Types.ObjectId(userId)] }),
+      "lock.expiresAt": trusted({ $gt: new Date() }),
+    })
+      .select("_id lock")
+      .lean<Array<Pick<FileLean, "_id" | "lock">>>();
+
+    for (const lockedFile of lockedFiles) {
+      await this.assertCanModify(lockedFile, userId);
+    }
+  }
+
+  async clearLock(fileId: Types.ObjectId): Promise<FileLean | null> {
+    return File.findByIdAndUpdate(fileId, { $set: { lock: NO_LOCK } }, { new: true }).lean<FileLean>();
+  }
+
+  /**
+   * Clear every lock past its expiry. Returns how many were cleared.
+   */
+  async expireStale(now: Date = new Date()): Promise<number> {
+    const result = await File.updateMany(
+      { "lock.expiresAt": trusted({ $lte: now }) },
+      { $set: { lock: NO_LOCK } }
+    );
+
+    return result.modifiedCount;
+  }
+}
+
+export default new FileLockService();
\ No newline at end of file
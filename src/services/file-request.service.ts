@@ -0,0 +1,294 @@
+import { randomBytes } from "crypto";
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { FileRequest, type FileRequestLean } from "../models/file-request.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { PendingUpload, type PendingUploadLean } from "../models/pending-upload.model";
+import fileService from "./file.service";
+import notificationService from "./notification.service";
+
+/**
+ * What an anonymous visitor sees before uploading.
+ */
+type PublicFileRequest = {
+  title: string;
+  folderName: string;
+  expiresAt: Date;
+  maxFileSize: number;
+  allowedContentTypes: string[];
+  remainingFiles: number;
+};
+
+function isContentTypeAllowed(allowedContentTypes: string[], contentType: string | undefined): boolean {
+  if (allowedContentTypes.length === 0) return true;
+  if (!contentType) return false;
+
+  const normalizedType = contentType.split(";")[0].trim().toLowerCase();
+  return allowedContentTypes.some((allowedType) =>
+    allowedType.endsWith("/*")
+      ? normalizedType.startsWith(allowedType.slice(0, -1))
+      : normalizedType === allowedType
+  );
+}
+
+/**
+ * File request links (inbound uploads from people without an account).
+ *
+ * Rules:
+ * - visitors can only upload new files into the link's folder (no versions, no other folder)
+ * - uploads are owned by the link creator, who is notified on each submission
+ * - size, content type and file count limits are checked at start; the count is
+ *   enforced again atomically at completion
+ * - a link stops working once revoked, expired, or full
+ */
+class FileRequestService {
+  private notFound(): AppError {
+    return new AppError({ message: "File request not found", statusCode: 404, code: "FILE_REQUEST_NOT_FOUND" });
+  }
+
+  async createRequest(params: {
+    userId: string;
+    folderId: string;
+    title?: string;
+    expiresAt: Date;
+    maxFiles: number;
+    maxFileSize: number;
+    allowedContentTypes?: string[];
+  }): Promise<FileRequestLean> {
+    if (!Types.ObjectId.isValid(params.folderId)) throw new Error("Invalid folder ID");
+
+    const folder = await Folder.findOne({
+      _id: new Types.ObjectId(params.folderId),
+      deletedAt: null,
+    }).lean<FolderLean>();
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    if (params.expiresAt.getTime() <= Date.now()) {
+      throw new AppError({
+        message: "expiresAt must be in the future",
+        statusCode: 400,
+        code: "FILE_REQUEST_INVALID_EXPIRY",
+      });
+    }
+
+    const fileRequest = await FileRequest.create({
+      token: randomBytes(32).toString("base64url"),
+      businessId: folder.businessId,
+      folderId: folder._id,
+      createdBy: new Types.ObjectId(params.userId),
+      title: params.title ?? "",
+      expiresAt: params.expiresAt,
+      maxFiles: params.maxFiles,
+      maxFileSize: params.maxFileSize,
+      allowedContentTypes: [...new Set((params.allowedContentTypes ?? []).map((type) => type.toLowerCase()))],
+    });
+
+    return fileRequest.toObject() as FileRequestLean;
+  }
+
+  async listRequests(userId: string, filters: { folderId?: string } = {}): Promise<FileRequestLean[]> {
+    if (filters.folderId && !Types.ObjectId.isValid(filters.folderId)) throw new Error("Invalid folder ID");
+
+    return FileRequest.find({
+      createdBy: new Types.ObjectId(userId),
+      ...(filters.folderId ? { folderId: new Types.ObjectId(filters.folderId) } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .lean<FileRequestLean[]>();
+  }
+
+  async revokeRequest(fileRequestId: string, userId: string): Promise<FileRequestLean> {
+    if (!Types.ObjectId.isValid(fileRequestId)) throw new Error("Invalid file request ID");
+
+    const filter = { _id: new Types.ObjectId(fileRequestId), createdBy: new Types.ObjectId(userId) };
+
+    // Keep the first revocation date
+    await FileRequest.updateOne({ ...filter, revoked: false }, { $set: { revoked: true, revokedAt: new Date() } });
+
+    const fileRequest = await FileRequest.findOne(filter).lean<FileRequestLean>();
+    if (!fileRequest) throw this.notFound();
+
+    return fileRequest;
+  }
+
+  /**
+   * Load a usable link and its (live) destination folder.
+   */
+  private async openRequest(token: string): Promise<{ fileRequest: FileRequestLean; folder: FolderLean }> {
+    const fileRequest = await FileRequest.findOne({ token }).lean<FileRequestLean>();
+    if (!fileRequest) throw this.notFound();
+
+    if (fileRequest.revoked) {
+      throw new AppError({ message: "This file request was closed", statusCode: 410, code: "FILE_REQUEST_REVOKED" });
+    }
+
+    if (fileRequest.expiresAt.getTime() <= Date.now()) {
+      throw new AppError({ message: "This file request has expired", statusCode: 410, code: "FILE_REQUEST_EXPIRED" });
+    }
+
+    const folder = await Folder.findOne({ _id: fileRequest.folderId, deletedAt: null }).lean<FolderLean>();
+    if (!folder) throw this.notFound();
+
+    return { fileRequest, folder };
+  }
+
+  /**
+   * Completed uploads + uploads still in flight (unexpired reservations).
+   */
+  private async usedSlots(fileRequest: FileRequestLean): Promise<number> {
+    const inFlightCount = await PendingUpload.countDocuments({
+      fileRequestId: fileRequest._id,
+      expiresAt: trusted({ $gt: new Date() }),
+    });
+
+    return fileRequest.uploadedCount + inFlightCount;
+  }
+
+  private fullError(): AppError {
+    return new AppError({
+      message: "This file request does not accept more files",
+      statusCode: 409,
+      code: "FILE_REQUEST_FULL",
+    });
+  }
+
+  async describe(token: string): Promise<PublicFileRequest> {
+    const { fileRequest, folder } = await this.openRequest(token);
+
+    return {
+      title: fileRequest.title ?? "",
+      folderName: folder.folderName,
+      expiresAt: fileRequest.expiresAt,
+      maxFileSize: fileRequest.maxFileSize,
+      allowedContentTypes: fileRequest.allowedContentTypes,
+      remainingFiles: Math.max(fileRequest.maxFiles - (await this.usedSlots(fileRequest)), 0),
+    };
+  }
+
+  /**
+   * Limited `startUpload`: single PUT, new file only, into the link's folder.
+   */
+  async startUpload(params: {
+    token: string;
+    fileName: string;
+    fileSize: number;
+    contentType?: string;
+    checksumSha256?: string;
+  }): Promise<{ fileId: string; s3Key: string; uploadUrl: string; normalizedFileName: string }> {
+    const { fileRequest, folder } = await this.openRequest(params.token);
+
+    if (params.fileSize > fileRequest.maxFileSize) {
+      throw new AppError({
+        message: `File is too large (max ${fileRequest.maxFileSize} bytes)`,
+        statusCode: 400,
+        code: "FILE_REQUEST_FILE_TOO_LARGE",
+      });
+    }
+
+    if (!isContentTypeAllowed(fileRequest.allowedContentTypes, params.contentType)) {
+      throw new AppError({
+        message: "This content type is not accepted",
+        statusCode: 400,
+        code: "FILE_REQUEST_CONTENT_TYPE_NOT_ALLOWED",
+        details: { allowedContentTypes: fileRequest.allowedContentTypes },
+      });
+    }
+
+    if ((await this.usedSlots(fileRequest)) >= fileRequest.maxFiles) throw this.fullError();
+
+    const startedUpload = await fileService.startUpload({
+      businessId: folder.businessId.toString(),
+      userId: fileRequest.createdBy.toString(),
+      folderId: folder._id.toString(),
+      fileName: params.fileName,
+      fileSize: params.fileSize,
+      contentType: params.contentType,
+      checksumSha256: params.checksumSha256,
+      // Visitors cannot see the folder: never fail on (or overwrite) an existing name
+      conflict: "autorename",
+      fileRequestId: fileRequest._id,
+    });
+
+    return {
+      fileId: startedUpload.fileId,
+      s3Key: startedUpload.s3Key,
+      uploadUrl: startedUpload.uploadUrl,
+      normalizedFileName: startedUpload.normalizedFileName,
+    };
+  }
+
+  /**
+   * Limited `completeUpload`: only keys issued through this link.
+   */
+  async completeUpload(params: {
+    token: string;
+    fileId: string;
+    s3Key: string;
+    fileName: string;
+    fileSize: number;
+    contentType?: string;
+    checksumSha256?: string;
+    metadata?: Record<string, unknown>;
+  }): Promise<{ fileId: string; fileName: string; fileSize: number }> {
+    const { fileRequest, folder } = await this.openRequest(params.token);
+
+    const reservation = await PendingUpload.findOne({
+      s3Key: params.s3Key,
+      fileRequestId: fileRequest._id,
+    }).lean<PendingUploadLean>();
+    if (!reservation) {
+      throw new AppError({
+        message: "s3Key was not issued by this file request",
+        statusCode: 403,
+        code: "UPLOAD_KEY_MISMATCH",
+      });
+    }
+
+    // Take a slot atomically; give it back if completion fails
+    const slot = await FileRequest.updateOne(
+      { _id: fileRequest._id, $expr: trusted({ $lt: ["$uploadedCount", "$maxFiles"] }) },
+      { $inc: { uploadedCount: 1 } }
+    );
+    if (slot.modifiedCount === 0) throw this.fullError();
+
+    const savedFile = await fileService
+      .completeUpload({
+        fileId: params.fileId,
+        userId: fileRequest.createdBy.toString(),
+        businessId: folder.businessId.toString(),
+        folderId: folder._id.toString(),
+        fileName: params.fileName,
+        fileSize: params.fileSize,
+        contentType: params.contentType,
+        checksumSha256: params.checksumSha256,
+        s3Key: params.s3Key,
+        metadata: params.metadata,
+      })
+      .catch(async (error: unknown) => {
+        await FileRequest.updateOne({ _id: fileRequest._id }, { $inc: { uploadedCount: -1 } });
+        throw error;
+      });
+
+    try {
+      await notificationService.createNotification({
+        userId: fileRequest.createdBy,
+        type: "file_request_upload",
+        message: `"${savedFile.fileName}" was uploaded to ${folder.folderName}${fileRequest.title ? ` (${fileRequest.title})` : ""}`,
+        data: {
+          fileRequestId: fileRequest._id,
+          fileId: savedFile._id,
+          folderId: folder._id,
+        },
+      });
+    } catch (error) {
+      // The upload itself succeeded
+      console.error("❌ Failed to notify file request owner:", error);
+    }
+
+    return { fileId: savedFile._id.toString(), fileName: savedFile.fileName, fileSize: savedFile.fileSize };
+  }
+}
+
+export default new FileRequestService();
\ No newline at end of file
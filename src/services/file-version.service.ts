@@ -0,0 +1,231 @@
+import { Types } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import {
+  FileVersion,
+  type FileVersionHydrated,
+  type FileVersionLean,
+} from "../models/file-version.model";
+import S3Service from "./s3.service";
+import thumbnailService from "./thumbnail.service";
+import storageQuotaService from "./storage-quota.service";
+import retentionService from "./retention.service";
+import fileLockService from "./file-lock.service";
+
+type FileVersionWithDownloadUrl = FileVersionLean & { downloadUrl: string };
+
+type FileVersionListItem = FileVersionLean & { isCurrent: boolean };
+
+/**
+ * File version history.
+ *
+ * Rules:
+ * - every version owns exactly one S3 object (never shared)
+ * - the parent File mirrors the current version (s3Key/fileSize/contentType)
+ * - the current version can never be deleted (restore another one first)
+ */
+class FileVersionService {
+  /**
+   * `liveOnly`: a trashed file is reported as missing (its history is frozen until restored).
+   */
+  private async loadFile(fileId: string, options: { liveOnly?: boolean } = {}): Promise<FileLean> {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new AppError({ message: "Invalid file ID", statusCode: 400, code: "FILE_INVALID_ID" });
+    }
+
+    const file = await File.findOne({
+      _id: new Types.ObjectId(fileId),
+      ...(options.liveOnly ? { deletedAt: null } : {}),
+    }).lean<FileLean>();
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return file;
+  }
+
+  private async loadVersion(fileId: string, versionId: string): Promise<FileVersionLean> {
+    if (!Types.ObjectId.isValid(versionId)) {
+      throw new AppError({
+        message: "Invalid version ID",
+        statusCode: 400,
+        code: "FILE_VERSION_INVALID_ID",
+      });
+    }
+
+    const version = await FileVersion.findOne({
+      _id: new Types.ObjectId(versionId),
+      fileId: new Types.ObjectId(fileId),
+    }).lean<FileVersionLean>();
+
+    if (!version) {
+      throw new AppError({
+        message: "File version not found",
+        statusCode: 404,
+        code: "FILE_VERSION_NOT_FOUND",
+      });
+    }
+
+    return version;
+  }
+
+  /**
+   * Files created before versioning have no FileVersion rows.
+   * Backfill version 1 from the file itself so history is always complete.
+   */
+  async ensureInitialVersion(file: FileLean): Promise<void> {
+    const hasVersions = await FileVersion.exists({ fileId: file._id });
+    if (hasVersions) return;
+
+    const initialVersion = await FileVersion.create({
+      fileId: file._id,
+      businessId: file.businessId,
+      versionNumber: 1,
+      fileName: file.fileName,
+      fileSize: file.fileSize,
+      contentType: file.contentType ?? null,
+      checksumSha256: file.checksumSha256 ?? null,
+      s3Key: file.s3Key,
+      uploadedBy: file.userId,
+    });
+
+    await File.updateOne(
+      { _id: file._id },
+      { $set: { currentVersionId: initialVersion._id, versionCount: 1 } }
+    );
+  }
+
+  /**
+   * Record a freshly uploaded object as a new version.
+   * The caller decides whether it becomes current.
+   */
+  async createVersion(params: {
+    fileId: Types.ObjectId;
+    businessId: Types.ObjectId;
+    versionNumber: number;
+    userId: string;
+    fileName: string;
+    fileSize: number;
+    contentType?: string | null;
+    checksumSha256?: string | null;
+    s3Key: string;
+  }): Promise<FileVersionHydrated> {
+    const version = new FileVersion({
+      fileId: params.fileId,
+      businessId: params.businessId,
+      versionNumber: params.versionNumber,
+      fileName: params.fileName,
+      fileSize: params.fileSize,
+      contentType: params.contentType ?? null,
+      checksumSha256: params.checksumSha256 ?? null,
+      s3Key: params.s3Key,
+      uploadedBy: new Types.ObjectId(params.userId),
+    }) as FileVersionHydrated;
+
+    return version.save();
+  }
+
+  /**
+   * Newest first.
+   */
+  async listVersions(fileId: string): Promise<FileVersionListItem[]> {
+    const file = await this.loadFile(fileId);
+    await this.ensureInitialVersion(file);
+
+    const refreshed = await this.loadFile(fileId);
+    const versions = await FileVersion.find({ fileId: refreshed._id })
+      .sort({ versionNumber: -1 })
+      .lean<FileVersionLean[]>();
+
+    return versions.map((version) => ({
+      ...version,
+      isCurrent: Boolean(refreshed.currentVersionId?.equals(version._id)),
+    }));
+  }
+
+  async getVersionDownloadUrl(fileId: string, versionId: string): Promise<FileVersionWithDownloadUrl> {
+    await this.loadFile(fileId);
+    const version = await this.loadVersion(fileId, versionId);
+
+    const downloadUrl = await S3Service.presignDownload(version.s3Key, { fileName: version.fileName });
+    return { ...version, downloadUrl };
+  }
+
+  /**
+   * Make an older version current again.
+   * No bytes move: the File simply points at that version's object.
+   * Refused while another user holds the file's lock.
+   */
+  async restoreVersion(fileId: string, versionId: string, userId: string): Promise<FileLean> {
+    const file = await this.loadFile(fileId, { liveOnly: true });
+    await fileLockService.assertCanModify(file, userId);
+    const version = await this.loadVersion(fileId, versionId);
+
+    const restored = await File.findByIdAndUpdate(
+      fileId,
+      {
+        $set: {
+          currentVersionId: version._id,
+          s3Key: version.s3Key,
+          fileSize: version.fileSize,
+          contentType: version.contentType ?? null,
+          checksumSha256: version.checksumSha256 ?? null,
+        },
+      },
+      { new: true }
+    ).lean<FileLean>();
+
+    if (!restored) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    await thumbnailService.queue(restored);
+
+    return restored;
+  }
+
+  /**
+   * Delete a non-current version (S3 object + metadata).
+   * Same guards as `restoreVersion`: live file, not locked by someone else.
+   */
+  async deleteVersion(fileId: string, versionId: string, userId: string): Promise<FileVersionLean> {
+    const file = await this.loadFile(fileId, { liveOnly: true });
+    await fileLockService.assertCanModify(file, userId);
+    const version = await this.loadVersion(fileId, versionId);
+
+    const isCurrent =
+      Boolean(file.currentVersionId?.equals(version._id)) || file.s3Key === version.s3Key;
+
+    if (isCurrent) {
+      throw new AppError({
+        message: "The current version cannot be deleted. Restore another version first.",
+        statusCode: 409,
+        code: "FILE_VERSION_IS_CURRENT",
+      });
+    }
+
+    // History of a held file is part of the preserved record
+    await retentionService.assertFileDeletable(file, { holdsOnly: true });
+
+    await S3Service.deleteObject(version.s3Key);
+    await FileVersion.deleteOne({ _id: version._id });
+    await storageQuotaService.recordRemoved(version.businessId, { bytes: version.fileSize, files: 0 });
+
+    return version;
+  }
+
+  /**
+   * Remove every version of a file (S3 objects + metadata).
+   * `extraKeys` lets the caller include keys not tracked as versions (legacy files).
+   */
+  async deleteAllVersions(fileId: Types.ObjectId, extraKeys: string[] = []): Promise<void> {
+    const versions = await FileVersion.find({ fileId }).select("s3Key").lean<FileVersionLean[]>();
+
+    const objectKeys = [...new Set([...versions.map((version) => version.s3Key), ...extraKeys])];
+    await S3Service.deleteObjects(objectKeys);
+
+    await FileVersion.deleteMany({ fileId });
+  }
+}
+
+export default new FileVersionService();
\ No newline at end of file
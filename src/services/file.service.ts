@@ -1,23 +1,122 @@
 import { Types } from "mongoose";
 import { File, type FileHydrated, type FileLean, type FileSchemaType } from "../models/file.model";
 import { Folder, type FolderLean } from "../models/folder.model";
+import { FileVersion, type FileVersionLean } from "../models/file-version.model";
 import S3Service from "./s3.service";
 import folderService from "./folder.service";
+import fileVersionService from "./file-version.service";
+import pendingUploadService from "./pending-upload.service";
+import metadataService from "./metadata.service";
+import recentFileService from "./recent-file.service";
+import thumbnailService from "./thumbnail.service";
+import storageQuotaService from "./storage-quota.service";
+import retentionService from "./retention.service";
+import fileLockService, { type ActiveFileLock } from "./file-lock.service";
+import commentService from "./comment.service";
+import nameConflictService, { type NameConflictPolicy } from "./name-conflict.service";
+import type { PendingUploadLean } from "../models/pending-upload.model";
 import { User } from "../models/user.model";
+import { AppError } from "../errors/app.errors";
+import { hasPermission } from "../middleware/permissions.middleware";
+import { fileObjectKey, keyBasename, rootPrefix } from "../utils/s3-key.utils";
+import { normalizeFileName, sanitizeFilename } from "../utils/name.utils";
+import {
+  NATURAL_SORT_COLLATION,
+  pageStages,
+  resolveListingOptions,
+  takePage,
+  type ListingOptions,
+} from "../utils/listing.utils";
 
-function sanitizeFilename(originalName: string): string {
-  // Keep it simple, safe, predictable (avoid weird keys)
-  return originalName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 180);
+/**
+ * S3 multipart limits: parts are 5 MiB..5 GiB (last part may be smaller),
+ * at most 10,000 parts, objects up to 5 TiB.
+ */
+const MIB = 1024 * 1024;
+const MULTIPART_MIN_PART_BYTES = 8 * MIB;
+const MULTIPART_MAX_PARTS = 10_000;
+const MULTIPART_MAX_PARTS_PER_REQUEST = 100;
+const MULTIPART_MAX_OBJECT_BYTES = 5 * 1024 * 1024 * MIB;
+
+/**
+ * Fields `updateFile` accepts (`PUT /file/:id`).
+ */
+export const FILE_UPDATE_FIELDS = ["fileName", "folderId", "contentType", "metadata"] as const;
+
+/**
+ * Smallest whole-MiB part size (>= 8 MiB) that fits the file in 10,000 parts.
+ */
+function multipartPartSize(fileSize: number): number {
+  const minimumForPartLimit = Math.ceil(fileSize / MULTIPART_MAX_PARTS);
+  return Math.max(MULTIPART_MIN_PART_BYTES, Math.ceil(minimumForPartLimit / MIB) * MIB);
+}
+
+type StartUploadParams = {
+  businessId: string;
+  userId: string;
+  folderId?: string | null;
+  fileId?: string | null;
+  fileName: string;
+  fileSize: number;
+  contentType?: string;
+  checksumSha256?: string;
+  /** New files only: what to do when `fileName` is taken in the folder (default "reject") */
+  conflict?: NameConflictPolicy;
+  /** Set when an anonymous visitor uploads through a file request link */
+  fileRequestId?: Types.ObjectId | null;
+};
+
+type CompleteUploadParams = {
+  fileId: string;
+  userId: string;
+  businessId: string;
+  folderId?: string | null;
+  fileName: string;
+  fileSize: number;
+  contentType?: string;
+  checksumSha256?: string;
+  s3Key: string;
+  /** Custom metadata, validated against the destination folder's schema */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * What S3 actually stored (source of truth for size/type/checksum).
+ */
+type VerifiedObject = {
+  fileSize: number;
+  contentType: string | null;
+  checksumSha256: string | null;
+};
+
+/**
+ * "Text/Plain; charset=UTF-8" => "text/plain"
+ */
+function normalizeContentType(contentType: string | null | undefined): string | null {
+  const mediaType = contentType?.split(";")[0]?.trim().toLowerCase();
+  return mediaType ? mediaType : null;
 }
 
-function rootPrefix(businessId: string): string {
-  // Root “folder” prefix for files that are not in a folder
-  return `${businessId}/root/`;
+/**
+ * Multipart objects report a checksum-of-checksums ("<base64>-<partCount>").
+ */
+function isFullObjectChecksum(checksum: string | null): checksum is string {
+  return Boolean(checksum && !checksum.includes("-"));
 }
 
+type PlannedUpload = {
+  fileId: Types.ObjectId;
+  folderId: string | null;
+  s3Key: string;
+  normalizedFileName: string;
+  isNewVersion: boolean;
+  autorename: boolean;
+};
+
 type FileWithDownloadUrl = FileLean & { downloadUrl?: string };
 
-type FileWithUsernameAndUrl = FileLean & {
+type FileWithUsernameAndUrl = Omit<FileLean, "lock"> & {
+  lock: ActiveFileLock | null;
   username: string;
   downloadUrl?: string;
 };
@@ -27,101 +126,443 @@ class FileService {
     return File.find().lean<FileLean[]>();
   }
 
-  async getFileById(id: string): Promise<FileWithDownloadUrl | null> {
+  /**
+   * `viewerId` (when given) gets the file in their recent feed as "open".
+   */
+  async getFileById(id: string, viewerId?: string): Promise<FileWithDownloadUrl | null> {
     if (!Types.ObjectId.isValid(id)) throw new Error("Invalid file ID");
 
     const file = await File.findById(id).lean<FileLean>();
     if (!file) throw new Error("File not found");
 
     const downloadUrl = file.s3Key
-      ? await S3Service.presignDownload(file.s3Key)
+      ? await S3Service.presignDownload(file.s3Key, { fileName: file.fileName })
       : undefined;
 
+    if (viewerId && downloadUrl) {
+      await recentFileService.record({ userId: viewerId, file, action: "open" });
+    }
+
     return { ...file, downloadUrl };
   }
 
   /**
-   * Best-practice presigned upload start:
-   * - server decides s3Key (stable, ID-based)
-   * - returns PUT URL + the fileId to use in `completeUpload`
+   * Load an existing file that a new version is being uploaded to.
+   * The file must live in the business the upload is scoped to.
    */
-  async startUpload(params: {
-    businessId: string;
-    userId: string;
-    folderId?: string | null;
-    fileName: string;
-    fileSize: number;
-    contentType?: string;
-  }): Promise<{
-    fileId: string;
-    s3Key: string;
-    uploadUrl: string;
-    normalizedFileName: string;
-  }> {
-    const { businessId, userId, folderId, fileName, fileSize, contentType } = params;
+  private async loadFileForNewVersion(fileId: string, businessId: string): Promise<FileLean> {
+    if (!Types.ObjectId.isValid(fileId)) throw new Error("Invalid fileId");
+
+    const existingFile = await File.findById(fileId).lean<FileLean>();
+    if (!existingFile) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    if (existingFile.businessId.toString() !== businessId) {
+      throw new AppError({
+        message: "File does not belong to this business",
+        statusCode: 403,
+        code: "FILE_BUSINESS_MISMATCH",
+      });
+    }
+
+    return existingFile;
+  }
+
+  /**
+   * Folder files are stored in (upload / move destination): live and of the same business.
+   */
+  private async loadDestinationFolder(businessId: string, folderId: string): Promise<FolderLean> {
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folderId");
+
+    const folder = await Folder.findOne({ _id: new Types.ObjectId(folderId), deletedAt: null }).lean<FolderLean>();
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    if (folder.businessId.toString() !== businessId) {
+      throw new AppError({
+        message: "Folder belongs to another business",
+        statusCode: 403,
+        code: "FOLDER_BUSINESS_MISMATCH",
+      });
+    }
+
+    return folder;
+  }
+
+  /**
+   * S3 prefix for files of a folder (or the business root).
+   */
+  private async resolveKeyPrefix(businessId: string, folderId?: string | null): Promise<string> {
+    if (!folderId) return rootPrefix(businessId);
+
+    const folder = await this.loadDestinationFolder(businessId, folderId);
+    return folder.s3Key; // folder prefix ends with "/"
+  }
+
+  /**
+   * Validate an upload request and decide where its bytes go.
+   * Shared by the single PUT and the multipart flows.
+   */
+  private async planUpload(params: StartUploadParams): Promise<PlannedUpload> {
+    const { businessId, userId, fileName, fileSize } = params;
 
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
     if (!Types.ObjectId.isValid(userId)) throw new Error("Invalid userId");
     if (!fileName || typeof fileName !== "string") throw new Error("Invalid fileName");
     if (typeof fileSize !== "number" || fileSize < 0) throw new Error("Invalid fileSize");
+    if (params.folderId && !Types.ObjectId.isValid(params.folderId)) throw new Error("Invalid folderId");
 
-    const normalizedFileName = sanitizeFilename(fileName.trim());
+    // Display name as typed (NFC); only the key segment is sanitized
+    let normalizedFileName = normalizeFileName(fileName);
 
-    // Generate fileId now so key is stable
-    const fileId = new Types.ObjectId();
+    // New version => keep the file's id and location; otherwise generate fileId now so key is stable
+    let existingFile = params.fileId
+      ? await this.loadFileForNewVersion(params.fileId, businessId)
+      : null;
 
-    let keyPrefix = rootPrefix(businessId);
-
-    if (folderId) {
-      if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folderId");
+    // A new file goes into a live folder of this business, checked before anything is reserved
+    if (!existingFile && params.folderId) await this.loadDestinationFolder(businessId, params.folderId);
 
-      const folder = await Folder.findById(folderId).lean<FolderLean>();
-      if (!folder) throw new Error("Folder not found");
+    if (!existingFile) {
+      // Name taken in the folder: reject, pick "name (n).ext", or upload a new version of that file
+      const resolution = await nameConflictService.resolveFileName({
+        businessId: new Types.ObjectId(businessId),
+        folderId: params.folderId ? new Types.ObjectId(params.folderId) : null,
+        fileName: normalizedFileName,
+        conflict: params.conflict ?? "reject",
+      });
 
-      keyPrefix = folder.s3Key; // folder prefix ends with "/"
+      if (resolution.conflictingFile) {
+        await nameConflictService.assertCanReplace("file", resolution.conflictingFile._id, userId, "write");
+        existingFile = resolution.conflictingFile;
+      }
+      normalizedFileName = resolution.fileName;
     }
 
+    if (existingFile) await fileLockService.assertCanModify(existingFile, userId);
+
+    const fileId = existingFile ? existingFile._id : new Types.ObjectId();
+    const folderId = (existingFile ? existingFile.folderId?.toString() : params.folderId) ?? null;
+
+    await storageQuotaService.assertCanStore(businessId, { bytes: fileSize, files: existingFile ? 0 : 1 });
+
+    const keyPrefix = await this.resolveKeyPrefix(businessId, folderId);
+
     // Stable key: prefix + files/<fileId>-<name>
-    const s3Key = `${keyPrefix}files/${fileId.toString()}-${normalizedFileName}`;
+    // New versions get their own object: prefix + files/<fileId>-<versionKeyId>-<name>
+    const s3Key = fileObjectKey(
+      keyPrefix,
+      fileId.toString(),
+      sanitizeFilename(normalizedFileName),
+      existingFile ? new Types.ObjectId().toString() : undefined
+    );
+
+    return {
+      fileId,
+      folderId,
+      s3Key,
+      normalizedFileName,
+      isNewVersion: Boolean(existingFile),
+      autorename: !existingFile && params.conflict === "autorename",
+    };
+  }
+
+  /**
+   * Best-practice presigned upload start:
+   * - server decides s3Key (stable, ID-based)
+   * - returns PUT URL + the fileId to use in `completeUpload`
+   * - pass an existing `fileId` to upload a new version of that file
+   * - `conflict` decides what happens when the name is already used in the folder
+   */
+  async startUpload(params: StartUploadParams): Promise<{
+    fileId: string;
+    s3Key: string;
+    uploadUrl: string;
+    normalizedFileName: string;
+    isNewVersion: boolean;
+  }> {
+    const plannedUpload = await this.planUpload(params);
 
     const uploadUrl = await S3Service.presignUpload({
-      key: s3Key,
-      contentType,
+      key: plannedUpload.s3Key,
+      contentType: params.contentType,
+      checksumSha256: params.checksumSha256,
       expiresInSeconds: 3600,
     });
 
+    await pendingUploadService.reserve({
+      fileId: plannedUpload.fileId,
+      s3Key: plannedUpload.s3Key,
+      declaredSize: params.fileSize,
+      userId: params.userId,
+      businessId: params.businessId,
+      folderId: plannedUpload.folderId,
+      isNewVersion: plannedUpload.isNewVersion,
+      fileName: plannedUpload.isNewVersion ? null : plannedUpload.normalizedFileName,
+      autorename: plannedUpload.autorename,
+      fileRequestId: params.fileRequestId ?? null,
+    });
+
     return {
-      fileId: fileId.toString(),
-      s3Key,
+      fileId: plannedUpload.fileId.toString(),
+      s3Key: plannedUpload.s3Key,
       uploadUrl,
-      normalizedFileName,
+      normalizedFileName: plannedUpload.normalizedFileName,
+      isNewVersion: plannedUpload.isNewVersion,
     };
   }
 
   /**
-   * After client PUTs bytes to S3, they call completeUpload to write metadata to Mongo.
-   * This keeps DB consistent with what was uploaded.
+   * Multipart upload start (large files, resumable):
+   * - same key rules as `startUpload`
+   * - returns uploadId + the part size the client must use
+   * - part URLs are presigned on demand with `presignMultipartParts`
    */
-  async completeUpload(params: {
+  async startMultipartUpload(params: StartUploadParams): Promise<{
     fileId: string;
+    s3Key: string;
+    uploadId: string;
+    partSize: number;
+    partCount: number;
+    normalizedFileName: string;
+    isNewVersion: boolean;
+  }> {
+    if (params.fileSize > MULTIPART_MAX_OBJECT_BYTES) {
+      throw new AppError({
+        message: "File is too large (max 5 TiB)",
+        statusCode: 400,
+        code: "UPLOAD_TOO_LARGE",
+      });
+    }
+
+    if (params.checksumSha256) {
+      // S3 only reports a checksum-of-part-checksums for multipart objects
+      throw new AppError({
+        message: "checksumSha256 is only supported for single-part uploads",
+        statusCode: 400,
+        code: "UPLOAD_CHECKSUM_UNSUPPORTED",
+      });
+    }
+
+    const plannedUpload = await this.planUpload(params);
+
+    const uploadId = await S3Service.createMultipartUpload({
+      key: plannedUpload.s3Key,
+      contentType: params.contentType,
+    });
+
+    await pendingUploadService.reserve({
+      fileId: plannedUpload.fileId,
+      s3Key: plannedUpload.s3Key,
+      declaredSize: params.fileSize,
+      userId: params.userId,
+      businessId: params.businessId,
+      folderId: plannedUpload.folderId,
+      isNewVersion: plannedUpload.isNewVersion,
+      fileName: plannedUpload.isNewVersion ? null : plannedUpload.normalizedFileName,
+      autorename: plannedUpload.autorename,
+      uploadId,
+    });
+
+    const partSize = multipartPartSize(params.fileSize);
+
+    return {
+      fileId: plannedUpload.fileId.toString(),
+      s3Key: plannedUpload.s3Key,
+      uploadId,
+      partSize,
+      partCount: Math.max(1, Math.ceil(params.fileSize / partSize)),
+      normalizedFileName: plannedUpload.normalizedFileName,
+      isNewVersion: plannedUpload.isNewVersion,
+    };
+  }
+
+  /**
+   * Presign PUT URLs for the requested part numbers (1..10000).
+   * Clients ask for a few at a time and can come back for more after a reconnect.
+   */
+  async presignMultipartParts(params: {
+    businessId: string;
+    userId: string;
+    s3Key: string;
+    uploadId: string;
+    partNumbers: number[];
+  }): Promise<Array<{ partNumber: number; uploadUrl: string }>> {
+    const { businessId, userId, s3Key, uploadId, partNumbers } = params;
+
+    // Only uploads the caller started in this business (and not expired) can receive parts
+    await pendingUploadService.getActive({ s3Key, businessId, userId, uploadId });
+
+    const uniquePartNumbers = [...new Set(partNumbers)];
+    if (
+      uniquePartNumbers.length === 0 ||
+      uniquePartNumbers.length > MULTIPART_MAX_PARTS_PER_REQUEST ||
+      uniquePartNumbers.some(
+        (partNumber) => !Number.isInteger(partNumber) || partNumber < 1 || partNumber > MULTIPART_MAX_PARTS
+      )
+    ) {
+      throw new AppError({
+        message: `partNumbers must contain 1-${MULTIPART_MAX_PARTS_PER_REQUEST} integers between 1 and ${MULTIPART_MAX_PARTS}`,
+        statusCode: 400,
+        code: "UPLOAD_INVALID_PART_NUMBERS",
+      });
+    }
+
+    return Promise.all(
+      uniquePartNumbers.map(async (partNumber) => ({
+        partNumber,
+        uploadUrl: await S3Service.presignUploadPart({
+          key: s3Key,
+          uploadId,
+          partNumber,
+          expiresInSeconds: 3600,
+        }),
+      }))
+    );
+  }
+
+  /**
+   * Parts already stored in S3, so a client can resume after a dropped connection.
+   */
+  async listMultipartParts(params: {
+    businessId: string;
     userId: string;
+    s3Key: string;
+    uploadId: string;
+  }): Promise<Array<{ partNumber: number; eTag: string; size: number }>> {
+    await pendingUploadService.getActive(params);
+
+    return S3Service.listParts({ key: params.s3Key, uploadId: params.uploadId });
+  }
+
+  /**
+   * Assemble the parts in S3, then write metadata exactly like `completeUpload`.
+   */
+  async completeMultipartUpload(
+    params: CompleteUploadParams & {
+      uploadId: string;
+      parts: Array<{ partNumber: number; eTag: string }>;
+    }
+  ): Promise<FileHydrated> {
+    const { uploadId, parts, ...completeParams } = params;
+
+    const reservation = await pendingUploadService.getActive({
+      s3Key: completeParams.s3Key,
+      businessId: completeParams.businessId,
+      userId: completeParams.userId,
+      uploadId,
+    });
+
+    // Reject bad metadata before S3 assembles the parts (that step cannot be retried)
+    if (completeParams.metadata !== undefined) {
+      const schema = await metadataService.resolveSchemaForFolder(reservation.folderId);
+      metadataService.validateValues(schema, completeParams.metadata);
+    }
+
+    if (!Array.isArray(parts) || parts.length === 0) {
+      throw new AppError({
+        message: "parts are required to complete a multipart upload",
+        statusCode: 400,
+        code: "UPLOAD_MISSING_PARTS",
+      });
+    }
+
+    await S3Service.completeMultipartUpload({ key: completeParams.s3Key, uploadId, parts });
+
+    return this.completeUpload(completeParams);
+  }
+
+  /**
+   * Give up on a multipart upload (frees the parts already stored).
+   */
+  async abortMultipartUpload(params: {
     businessId: string;
-    folderId?: string | null;
-    fileName: string;
+    userId: string;
+    s3Key: string;
+    uploadId: string;
+  }): Promise<void> {
+    const reservation = await pendingUploadService.getActive(params);
+
+    await S3Service.abortMultipartUpload({ key: params.s3Key, uploadId: params.uploadId });
+    await pendingUploadService.cancel(reservation._id);
+  }
+
+  /**
+   * HEAD the uploaded object and compare it with what the client declared.
+   */
+  private async verifyUploadedObject(params: {
+    s3Key: string;
     fileSize: number;
     contentType?: string;
-    s3Key: string;
-  }): Promise<FileHydrated> {
-    const {
-      fileId,
-      userId,
-      businessId,
-      folderId,
-      fileName,
-      fileSize,
-      contentType,
-      s3Key,
-    } = params;
+    checksumSha256?: string;
+  }): Promise<VerifiedObject> {
+    const storedObject = await S3Service.headObject(params.s3Key);
+
+    if (!storedObject) {
+      throw new AppError({
+        message: "Uploaded object not found in storage",
+        statusCode: 400,
+        code: "UPLOAD_OBJECT_NOT_FOUND",
+      });
+    }
+
+    if (storedObject.contentLength !== params.fileSize) {
+      throw new AppError({
+        message: "Uploaded object size does not match the declared fileSize",
+        statusCode: 400,
+        code: "UPLOAD_SIZE_MISMATCH",
+        details: { declared: params.fileSize, actual: storedObject.contentLength },
+      });
+    }
+
+    const declaredContentType = normalizeContentType(params.contentType);
+    if (declaredContentType && declaredContentType !== normalizeContentType(storedObject.contentType)) {
+      throw new AppError({
+        message: "Uploaded object content type does not match the declared contentType",
+        statusCode: 400,
+        code: "UPLOAD_CONTENT_TYPE_MISMATCH",
+        details: { declared: params.contentType, actual: storedObject.contentType },
+      });
+    }
+
+    if (params.checksumSha256) {
+      if (!isFullObjectChecksum(storedObject.checksumSha256)) {
+        throw new AppError({
+          message: "Storage has no SHA-256 checksum for this object (send it to startUpload first)",
+          statusCode: 400,
+          code: "UPLOAD_CHECKSUM_UNVERIFIABLE",
+        });
+      }
+
+      if (storedObject.checksumSha256 !== params.checksumSha256) {
+        throw new AppError({
+          message: "Uploaded object checksum does not match the declared checksumSha256",
+          statusCode: 400,
+          code: "UPLOAD_CHECKSUM_MISMATCH",
+        });
+      }
+    }
+
+    return {
+      fileSize: storedObject.contentLength,
+      contentType: storedObject.contentType ?? params.contentType ?? null,
+      checksumSha256: isFullObjectChecksum(storedObject.checksumSha256) ? storedObject.checksumSha256 : null,
+    };
+  }
+
+  /**
+   * After client PUTs bytes to S3, they call completeUpload to write metadata to Mongo.
+   * The upload's reservation (created by startUpload) is claimed first, so each issued
+   * key is completed at most once, by the user who started it.
+   * The object is then verified with a HEAD request: size/type/checksum stored in Mongo
+   * are the ones S3 reports, never the client's.
+   *
+   * If `fileId` already exists, the upload is recorded as a new current version.
+   */
+  async completeUpload(params: CompleteUploadParams): Promise<FileHydrated> {
+    const { fileId, userId, businessId, folderId, s3Key } = params;
 
     if (!Types.ObjectId.isValid(fileId)) throw new Error("Invalid fileId");
     if (!Types.ObjectId.isValid(userId)) throw new Error("Invalid userId");
@@ -129,42 +570,224 @@ class FileService {
     if (folderId && !Types.ObjectId.isValid(folderId)) throw new Error("Invalid folderId");
     if (!s3Key) throw new Error("Missing s3Key");
 
+    const reservation = await pendingUploadService.claim({ s3Key, fileId, businessId, userId });
+
+    let savedFile: FileHydrated;
+    try {
+      savedFile = await this.registerUploadedObject(params, reservation);
+      await pendingUploadService.consume(reservation._id);
+    } catch (error) {
+      // Let the client fix the problem (ex: finish the PUT) and retry
+      await pendingUploadService.release(reservation._id);
+      throw error;
+    }
+
+    // Saved and reservation consumed (a retry could not complete again): nothing below may fail the request
+    await storageQuotaService
+      .recordStored(businessId, { bytes: savedFile.fileSize, files: reservation.isNewVersion ? 0 : 1 })
+      .catch((error) => console.error(`❌ Failed to update storage usage for business ${businessId}:`, error));
+    await recentFileService.record({ userId, file: savedFile, action: "upload" }).catch((error) => {
+      console.error(`❌ Failed to record the upload of file ${fileId}:`, error);
+    });
+    await thumbnailService.queue(savedFile).catch((error) => {
+      console.error(`❌ Failed to queue thumbnails for file ${fileId}:`, error);
+    });
+
+    return savedFile;
+  }
+
+  /**
+   * Verify the object and write File / FileVersion metadata.
+   * Destination folder and new-version intent come from the reservation, not the client.
+   */
+  private async registerUploadedObject(
+    params: CompleteUploadParams,
+    reservation: PendingUploadLean
+  ): Promise<FileHydrated> {
+    const { fileId, userId, businessId, fileName, contentType, checksumSha256, s3Key } = params;
+    const folderId = reservation.folderId?.toString() ?? null;
+
+    const existingFile = await File.findById(fileId).lean<FileLean>();
+
+    if (existingFile && existingFile.businessId.toString() !== businessId) {
+      throw new AppError({
+        message: "File does not belong to this business",
+        statusCode: 403,
+        code: "FILE_BUSINESS_MISMATCH",
+      });
+    }
+
+    if (reservation.isNewVersion && !existingFile) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    // Someone may have locked the file since the upload started
+    if (existingFile) await fileLockService.assertCanModify(existingFile, userId);
+
+    // New versions keep the file's metadata unless the client sends new values
+    const metadata =
+      existingFile && params.metadata === undefined
+        ? undefined
+        : metadataService.validateValues(
+            await metadataService.resolveSchemaForFolder(existingFile ? existingFile.folderId : folderId),
+            params.metadata
+          );
+
+    const verifiedObject = await this.verifyUploadedObject({
+      s3Key,
+      fileSize: reservation.declaredSize,
+      contentType,
+      checksumSha256,
+    });
+
+    if (existingFile) {
+      return this.completeNewVersion(existingFile, { userId, fileName, s3Key, metadata, ...verifiedObject });
+    }
+
+    // Name decided at start: it may have been taken since
+    const { fileName: freeFileName } = await nameConflictService.resolveFileName({
+      businessId: new Types.ObjectId(businessId),
+      folderId: folderId ? new Types.ObjectId(folderId) : null,
+      fileName: reservation.fileName ?? normalizeFileName(fileName),
+      conflict: reservation.autorename ? "autorename" : "reject",
+    });
+
     const newFileDocument = new File({
       _id: new Types.ObjectId(fileId),
       userId: new Types.ObjectId(userId),
       businessId: new Types.ObjectId(businessId),
       folderId: folderId ? new Types.ObjectId(folderId) : null,
-      fileName: sanitizeFilename(fileName.trim()),
-      fileSize,
-      contentType: contentType ?? null,
+      fileName: freeFileName,
+      fileSize: verifiedObject.fileSize,
+      contentType: verifiedObject.contentType,
+      checksumSha256: verifiedObject.checksumSha256,
       s3Key,
+      metadata: metadata ?? {},
     }) as FileHydrated;
 
-    const savedFile = await newFileDocument.save();
+    const savedFile = await nameConflictService.guardFileName(freeFileName, () => newFileDocument.save());
+
+    const initialVersion = await fileVersionService.createVersion({
+      fileId: savedFile._id,
+      businessId: savedFile.businessId,
+      versionNumber: 1,
+      userId,
+      fileName: savedFile.fileName,
+      fileSize: savedFile.fileSize,
+      contentType: savedFile.contentType,
+      checksumSha256: savedFile.checksumSha256,
+      s3Key,
+    });
+
+    savedFile.currentVersionId = initialVersion._id;
+    savedFile.versionCount = 1;
+    await savedFile.save();
 
     // Keep your folder.fileIds relationship if you want it
     if (folderId) {
       // IMPORTANT: savedFile._id is a real ObjectId here (not unknown)
-      await folderService.addFileToFolder(savedFile._id.toString(), folderId.toString());
+      await folderService.addFileToFolder(savedFile._id.toString(), folderId);
     }
 
     return savedFile;
   }
 
+  /**
+   * Record an upload to an existing file as its new current version.
+   * The display name and folder stay as they are.
+   */
+  private async completeNewVersion(
+    existingFile: FileLean,
+    upload: VerifiedObject & {
+      userId: string;
+      fileName: string;
+      s3Key: string;
+      metadata?: Record<string, unknown>;
+    }
+  ): Promise<FileHydrated> {
+    if (upload.s3Key === existingFile.s3Key) {
+      throw new AppError({
+        message: "A new version must be uploaded to a new s3Key (call startUpload with fileId)",
+        statusCode: 409,
+        code: "FILE_VERSION_KEY_REUSED",
+      });
+    }
+
+    await fileVersionService.ensureInitialVersion(existingFile);
+
+    // Atomic counter => concurrent uploads never share a version number
+    const counter = await File.findByIdAndUpdate(
+      existingFile._id,
+      { $inc: { versionCount: 1 } },
+      { new: true }
+    ).lean<FileLean>();
+    if (!counter) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    const version = await fileVersionService.createVersion({
+      fileId: existingFile._id,
+      businessId: existingFile.businessId,
+      versionNumber: counter.versionCount,
+      userId: upload.userId,
+      fileName: normalizeFileName(upload.fileName),
+      fileSize: upload.fileSize,
+      contentType: upload.contentType,
+      checksumSha256: upload.checksumSha256,
+      s3Key: upload.s3Key,
+    });
+
+    const updatedFile = (await File.findByIdAndUpdate(
+      existingFile._id,
+      {
+        $set: {
+          currentVersionId: version._id,
+          s3Key: upload.s3Key,
+          fileSize: upload.fileSize,
+          contentType: upload.contentType,
+          checksumSha256: upload.checksumSha256,
+          ...(upload.metadata ? { metadata: upload.metadata } : {}),
+        },
+      },
+      { new: true }
+    )) as FileHydrated | null;
+
+    if (!updatedFile) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return updatedFile;
+  }
+
+  /**
+   * One page of the files in a folder (or root); pass `nextCursor` back as `cursor` for the next one.
+   */
   async getFilesAccessibleByUser(
     userId: string,
     businessId: string,
-    folderId?: string
-  ): Promise<Array<Record<string, unknown>>> {
+    folderId?: string,
+    listing: ListingOptions = {}
+  ): Promise<{ files: Array<Record<string, unknown>>; nextCursor: string | null }> {
     if (!Types.ObjectId.isValid(userId)) throw new Error("Invalid userId");
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
 
-    const query: Record<string, unknown> = { businessId: new Types.ObjectId(businessId) };
+    const options = resolveListingOptions(listing);
+
+    const query: Record<string, unknown> = {
+      businessId: new Types.ObjectId(businessId),
+      deletedAt: null,
+    };
     query.folderId =
       folderId && Types.ObjectId.isValid(folderId) ? new Types.ObjectId(folderId) : null;
 
-    const files = await File.aggregate([
+    const rows = await File.aggregate<{
+      _id: Types.ObjectId;
+      fileName: string;
+      s3Key?: string;
+      lock?: FileLean["lock"];
+    }>([
       { $match: query },
+      ...pageStages("file", options),
       {
         $lookup: {
           from: "users",
@@ -191,6 +814,7 @@ class FileService {
           contentType: 1,
           s3Key: 1,
           userId: 1,
+          lock: 1,
           user: {
             username: 1,
             email: 1,
@@ -198,31 +822,47 @@ class FileService {
           },
         },
       },
-      { $sort: { fileName: 1 } },
-    ]);
+    ]).collation(NATURAL_SORT_COLLATION);
 
-    return Promise.all(
-      files.map(async (fileRecord) => ({
+    const { items, nextCursor } = takePage("file", rows, options.limit, options);
+
+    const files = await Promise.all(
+      items.map(async (fileRecord) => ({
         ...fileRecord,
+        lock: fileLockService.activeLock(fileRecord),
         downloadUrl: fileRecord.s3Key
-          ? await S3Service.presignDownload(String(fileRecord.s3Key))
+          ? await S3Service.presignDownload(fileRecord.s3Key, { fileName: fileRecord.fileName })
           : undefined,
       }))
     );
+
+    return { files, nextCursor };
   }
 
+  /**
+   * One page of the files in a folder (or root); pass `nextCursor` back as `cursor` for the next one.
+   */
   async getFilesByBusinessId(
     businessId: string,
-    folderId?: string
-  ): Promise<FileWithUsernameAndUrl[]> {
+    folderId?: string,
+    listing: ListingOptions = {}
+  ): Promise<{ files: FileWithUsernameAndUrl[]; nextCursor: string | null }> {
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
 
-    const query: Record<string, unknown> = { businessId: new Types.ObjectId(businessId) };
+    const options = resolveListingOptions(listing);
+
+    const query: Record<string, unknown> = {
+      businessId: new Types.ObjectId(businessId),
+      deletedAt: null,
+    };
     query.folderId =
       folderId && Types.ObjectId.isValid(folderId) ? new Types.ObjectId(folderId) : null;
 
-    const files = await File.find(query).lean<FileLean[]>();
-    if (!files.length) return [];
+    const rows = await File.aggregate<FileLean>([{ $match: query }, ...pageStages("file", options)]).collation(
+      NATURAL_SORT_COLLATION
+    );
+    const { items: files, nextCursor } = takePage("file", rows, options.limit, options);
+    if (!files.length) return { files: [], nextCursor: null };
 
     const uniqueUserIdStrings = [...new Set(files.map((fileDoc) => fileDoc.userId.toString()))];
 
@@ -232,13 +872,18 @@ class FileService {
 
     const usernameByUserId = new Map(users.map((userDoc) => [userDoc._id.toString(), userDoc.username]));
 
-    return Promise.all(
+    const signedFiles = await Promise.all(
       files.map(async (fileDoc) => ({
         ...fileDoc,
         username: usernameByUserId.get(fileDoc.userId.toString()) ?? "Unknown User",
-        downloadUrl: fileDoc.s3Key ? await S3Service.presignDownload(fileDoc.s3Key) : undefined,
+        lock: fileLockService.activeLock(fileDoc),
+        downloadUrl: fileDoc.s3Key
+          ? await S3Service.presignDownload(fileDoc.s3Key, { fileName: fileDoc.fileName })
+          : undefined,
       }))
     );
+
+    return { files: signedFiles, nextCursor };
   }
 
   /**
@@ -261,16 +906,185 @@ class FileService {
     return savedFile;
   }
 
-  async updateFile(id: string, fileData: Partial<FileSchemaType>): Promise<FileLean | null> {
+  /**
+   * Move every object of the file (versions, thumbnails) under the prefix of `folderId` (null means "root").
+   * Keeps the key layout true: a folder's prefix only holds the objects of its own files.
+   * The folder must be live and of the file's business (404 / 403 otherwise).
+   * Returns the file's new current key.
+   */
+  async relocateObjects(file: FileLean, folderId: Types.ObjectId | null): Promise<string> {
+    const businessId = file.businessId.toString();
+    const targetPrefix = folderId
+      ? (await this.loadDestinationFolder(businessId, folderId.toString())).s3Key
+      : rootPrefix(businessId);
+
+    await fileVersionService.ensureInitialVersion(file);
+    const versions = await FileVersion.find({ fileId: file._id }).lean<FileVersionLean[]>();
+    let currentKey = file.s3Key;
+
+    for (const version of versions) {
+      if (version.s3Key.startsWith(targetPrefix)) continue;
+
+      const destinationKey = `${targetPrefix}files/${keyBasename(version.s3Key)}`;
+      await S3Service.moveObject({ sourceKey: version.s3Key, destinationKey });
+      await FileVersion.updateOne({ _id: version._id }, { $set: { s3Key: destinationKey } });
+
+      if (version.s3Key === file.s3Key) currentKey = destinationKey;
+    }
+
+    if (currentKey !== file.s3Key) {
+      await File.updateOne({ _id: file._id }, { $set: { s3Key: currentKey } });
+      await thumbnailService.relocate(file, currentKey);
+    }
+
+    return currentKey;
+  }
+
+  /**
+   * Destination of a file move (null means "root"): live, same business as the file,
+   * and writable by `editorId` when the move is made on a user's behalf.
+   */
+  private async resolveMoveTarget(
+    file: FileLean,
+    folderId: string | null,
+    editorId?: string
+  ): Promise<FolderLean | null> {
+    if (!folderId) return null;
+
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folderId");
+
+    const targetFolder = await Folder.findOne({
+      _id: new Types.ObjectId(folderId),
+      deletedAt: null,
+    }).lean<FolderLean>();
+    if (!targetFolder) {
+      throw new AppError({ message: "Target folder not found", statusCode: 404, code: "FILE_MOVE_TARGET_NOT_FOUND" });
+    }
+
+    if (!targetFolder.businessId.equals(file.businessId)) {
+      throw new AppError({
+        message: "Target folder belongs to another business",
+        statusCode: 403,
+        code: "FILE_MOVE_BUSINESS_MISMATCH",
+      });
+    }
+
+    if (editorId) {
+      const canWrite = await hasPermission({
+        userId: editorId,
+        resource: "folder",
+        resourceId: folderId,
+        action: "write",
+      });
+      if (!canWrite) {
+        throw new AppError({
+          message: "Access denied to the target folder",
+          statusCode: 403,
+          code: "FILE_MOVE_TARGET_FORBIDDEN",
+        });
+      }
+    }
+
+    return targetFolder;
+  }
+
+  /**
+   * Only `FILE_UPDATE_FIELDS` can be changed (400 FILE_UPDATE_FIELD_NOT_ALLOWED otherwise).
+   * `editorId` (when given) gets the file in their recent feed as "edit",
+   * and is refused while another user holds the file's lock.
+   * `conflict` applies when the new name (or the same name in the new folder) is taken.
+   * A new `folderId` is a move: the destination is checked like a copy's, the file's objects
+   * and the folders' fileIds follow it.
+   */
+  async updateFile(
+    id: string,
+    fileData: Partial<FileSchemaType>,
+    editorId?: string,
+    conflict: NameConflictPolicy = "reject"
+  ): Promise<FileLean | null> {
     if (!Types.ObjectId.isValid(id)) throw new Error("Invalid file ID");
 
-    // Best practice:
-    // - rename => update fileName only (do NOT move S3 object)
-    // - move folder => update folderId only (do NOT move S3 object)
-    // - never allow s3Key changes via update
-    const { s3Key: _ignoreS3Key, ...safeUpdate } = fileData as Record<string, unknown>;
+    // Only user-editable fields: keys, sizes, versions, locks, trash state... have their own flows
+    const rejectedFields = Object.keys(fileData).filter(
+      (field) => !(FILE_UPDATE_FIELDS as readonly string[]).includes(field)
+    );
+    if (rejectedFields.length > 0) {
+      throw new AppError({
+        message: `These fields cannot be updated: ${rejectedFields.join(", ")}`,
+        statusCode: 400,
+        code: "FILE_UPDATE_FIELD_NOT_ALLOWED",
+        details: { fields: rejectedFields, allowed: FILE_UPDATE_FIELDS },
+      });
+    }
+
+    const safeUpdate: Record<string, unknown> = { ...fileData };
+
+    const existingFile = await File.findById(id).lean<FileLean>();
+    if (!existingFile) return null;
+
+    if (editorId) await fileLockService.assertCanModify(existingFile, editorId);
+
+    // Move: a live folder of the same business the editor can write to (null means "root")
+    const requestedFolderId = "folderId" in safeUpdate && safeUpdate.folderId ? String(safeUpdate.folderId) : null;
+    const isMove = "folderId" in safeUpdate && requestedFolderId !== (existingFile.folderId?.toString() ?? null);
+    const moveTarget = isMove ? await this.resolveMoveTarget(existingFile, requestedFolderId, editorId) : null;
+    const targetFolderId = isMove ? (moveTarget?._id ?? null) : (existingFile.folderId ?? null);
+    if ("folderId" in safeUpdate) safeUpdate.folderId = targetFolderId;
+
+    // metadata is validated against the schema of the folder the file ends up in
+    if ("metadata" in safeUpdate || "folderId" in safeUpdate) {
+      const schema = await metadataService.resolveSchemaForFolder(targetFolderId);
+
+      if ("metadata" in safeUpdate) {
+        safeUpdate.metadata = metadataService.validateValues(schema, safeUpdate.metadata);
+      } else if (schema) {
+        // Moving into a schema folder: the current values must satisfy it
+        metadataService.validateValues(schema, existingFile.metadata);
+      }
+    }
+
+    // Rename / move: the name must be free among the destination folder's live files
+    if ("fileName" in safeUpdate || "folderId" in safeUpdate) {
+      const requestedName =
+        typeof safeUpdate.fileName === "string" ? normalizeFileName(safeUpdate.fileName) : existingFile.fileName;
+
+      const resolution = await nameConflictService.resolveFileName({
+        businessId: existingFile.businessId,
+        folderId: targetFolderId ? new Types.ObjectId(targetFolderId) : null,
+        fileName: requestedName,
+        conflict,
+        excludeFileId: existingFile._id,
+      });
+
+      if (resolution.conflictingFile) {
+        if (!editorId) throw new Error("editorId is required to replace a file");
+        await nameConflictService.trashConflictingFile(resolution.conflictingFile, editorId);
+      }
+      safeUpdate.fileName = resolution.fileName;
+    }
+
+    // A rename only changes metadata; a move takes the file's objects along
+    if (isMove) {
+      await this.relocateObjects(existingFile, moveTarget?._id ?? null);
+    }
+
+    const fileName = String(safeUpdate.fileName ?? existingFile.fileName);
+    const updated = await nameConflictService.guardFileName(fileName, () =>
+      File.findByIdAndUpdate(id, safeUpdate, { new: true }).lean<FileLean>()
+    );
+
+    // Keep the folders' fileIds in step with the move
+    if (updated && isMove) {
+      if (existingFile.folderId) {
+        await Folder.updateOne({ _id: existingFile.folderId }, { $pull: { fileIds: existingFile._id } });
+      }
+      if (moveTarget) await folderService.addFileToFolder(id, moveTarget._id.toString());
+    }
+
+    if (updated && editorId) {
+      await recentFileService.record({ userId: editorId, file: updated, action: "edit" });
+    }
 
-    const updated = await File.findByIdAndUpdate(id, safeUpdate, { new: true }).lean<FileLean>();
     return updated ?? null;
   }
 
@@ -280,6 +1094,9 @@ class FileService {
     const fileDocument = await File.findById(id);
     if (!fileDocument) throw new Error("File not found for deletion");
 
+    // Legal holds / minimum retention
+    await retentionService.assertFileDeletable(fileDocument);
+
     // unlink from folder fileIds if you keep that relationship
     if (fileDocument.folderId) {
       await Folder.findByIdAndUpdate(
@@ -289,12 +1106,15 @@ class FileService {
       );
     }
 
-    // delete from S3 first
-    if (fileDocument.s3Key) {
-      await S3Service.deleteObject(fileDocument.s3Key);
-    }
+    const removed = await storageQuotaService.measure({ _id: fileDocument._id });
+
+    // delete every version's object from S3 first (current key included for legacy files)
+    await fileVersionService.deleteAllVersions(fileDocument._id, [fileDocument.s3Key]);
+    await thumbnailService.deleteThumbnails(fileDocument);
+    await commentService.deleteFileComments([fileDocument._id]);
 
     const deleted = await File.findByIdAndDelete(id).lean<FileLean>();
+    await storageQuotaService.recordRemoved(fileDocument.businessId, removed);
     return deleted ?? null;
   }
 }
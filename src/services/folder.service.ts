@@ -1,24 +1,29 @@
-import { Types } from "mongoose";
+import { Types, trusted } from "mongoose";
 import S3Service from "./s3.service";
+import thumbnailService from "./thumbnail.service";
+import storageQuotaService, { type StorageTotals } from "./storage-quota.service";
+import retentionService from "./retention.service";
+import fileLockService, { type ActiveFileLock } from "./file-lock.service";
+import commentService from "./comment.service";
+import nameConflictService, { type NameConflictPolicy } from "./name-conflict.service";
 
 import { Folder, type FolderLean, type FolderSchemaType } from "../models/folder.model";
-import { File } from "../models/file.model";
+import { File, type FileLean } from "../models/file.model";
+import { FileVersion } from "../models/file-version.model";
 import { User } from "../models/user.model";
-
-/**
- * Sanitizes folder names for display + storage.
- * Keeps it predictable and safe across file systems + URLs.
- */
-function sanitizeFolderName(folderName: string): string {
-  return folderName.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
-}
-
-/**
- * S3 folder prefix (must end with "/")
- */
-function folderPrefix(businessId: string, folderId: string): string {
-  return `${businessId}/folders/${folderId}/`;
-}
+import { folderPrefix } from "../utils/s3-key.utils";
+import { AppError } from "../errors/app.errors";
+import { hasPermission } from "../middleware/permissions.middleware";
+import { normalizeFolderName } from "../utils/name.utils";
+import {
+  NATURAL_SORT_COLLATION,
+  pageStages,
+  resolveListingOptions,
+  startOfFilesCursor,
+  takePage,
+  type ListingOptions,
+  type ResolvedListingOptions,
+} from "../utils/listing.utils";
 
 /**
  * Types for the aggregate payload returned to the UI.
@@ -34,6 +39,8 @@ type FolderListItem = {
   s3Key: string;
   fileCount: number;
   userId: Types.ObjectId;
+  tagIds?: Types.ObjectId[];
+  metadataSchemaId?: Types.ObjectId | null;
   user?: { _id: Types.ObjectId; username?: string; email?: string } | null;
 };
 
@@ -48,10 +55,49 @@ type FileListItem = {
   updatedAt: Date;
   s3Key: string;
   userId: Types.ObjectId;
+  tagIds?: Types.ObjectId[];
+  metadata?: Record<string, unknown>;
+  thumbnail?: FileLean["thumbnail"] | null;
+  lock?: FileLean["lock"] | null;
   user?: { _id: Types.ObjectId; username?: string; email?: string } | null;
 };
 
-type SignedFileListItem = FileListItem & { downloadUrl?: string };
+/**
+ * Sidebar tree: levels returned by default / at most (roots are level 1)
+ */
+export const DEFAULT_TREE_DEPTH = 10;
+export const MAX_TREE_DEPTH = 50;
+
+/**
+ * Fields `updateFolder` accepts (`PUT /folder/:id`).
+ */
+export const FOLDER_UPDATE_FIELDS = ["folderName"] as const;
+
+type FolderTreeNode = {
+  _id: Types.ObjectId;
+  folderName: string;
+  parentFolderId: Types.ObjectId | null;
+  /** false when the folder has no live subfolder; true below the depth limit means "load more" */
+  hasChildren: boolean;
+  children: FolderTreeNode[];
+};
+
+type FolderStats = {
+  folderId: Types.ObjectId;
+  fileCount: number;
+  folderCount: number;
+  /** Current version of every file (older versions not counted) */
+  totalBytes: number;
+  /** Latest change of the folder, a subfolder or a file in the subtree */
+  lastModified: Date;
+  byContentType: Array<{ contentType: string | null; fileCount: number; totalBytes: number }>;
+};
+
+type SignedFileListItem = Omit<FileListItem, "lock"> & {
+  lock: ActiveFileLock | null;
+  downloadUrl?: string;
+  thumbnailUrl?: string;
+};
 
 class FolderService {
   /**
@@ -63,26 +109,87 @@ class FolderService {
   }
 
   /**
-   * Fetch immediate child folders + files under a folderId (or root when folderId undefined/null).
-   * Adds signed URLs only for files.
+   * Fetch one page of the immediate child folders + files under a folderId (or root when folderId undefined/null).
+   * Folders come first, then files; both in the requested sort (natural name order by default).
+   * Adds signed URLs only for files of the page (`thumbnailUrl` once a thumbnail is ready).
+   * `tagIds` keeps only items carrying every one of those tags.
+   * `metadata` holds `metadata.<key>` conditions already cast by the folder's schema (files only).
+   * Pass `nextCursor` back as `cursor` (same sort / order) for the next page; null = last page.
    */
   async fetchItemsByFolderId(
     folderId: string | undefined,
-    businessId: string
-  ): Promise<{ folders: FolderListItem[]; files: SignedFileListItem[] }> {
+    businessId: string,
+    filters: { tagIds?: string[]; metadata?: Record<string, unknown> } = {},
+    listing: ListingOptions = {}
+  ): Promise<{ folders: FolderListItem[]; files: SignedFileListItem[]; nextCursor: string | null }> {
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
     if (folderId && !Types.ObjectId.isValid(folderId)) throw new Error("Invalid folderId");
+    if (filters.tagIds?.some((tagId) => !Types.ObjectId.isValid(tagId))) throw new Error("Invalid tagId");
 
+    const options = resolveListingOptions(listing);
     const businessObjectId = new Types.ObjectId(businessId);
     const parentFolderObjectId = folderId ? new Types.ObjectId(folderId) : null;
+    const tagMatch = filters.tagIds?.length
+      ? { tagIds: { $all: filters.tagIds.map((tagId) => new Types.ObjectId(tagId)) } }
+      : {};
+
+    const folderMatch = {
+      businessId: businessObjectId,
+      parentFolderId: parentFolderObjectId,
+      deletedAt: null,
+      ...tagMatch,
+    };
+    const fileMatch = {
+      businessId: businessObjectId,
+      folderId: parentFolderObjectId,
+      deletedAt: null,
+      ...tagMatch,
+      ...(filters.metadata ?? {}),
+    };
 
-    const folders = await Folder.aggregate<FolderListItem>([
-      {
-        $match: {
-          businessId: businessObjectId,
-          parentFolderId: parentFolderObjectId,
-        },
-      },
+    let folders: FolderListItem[] = [];
+    let nextCursor: string | null = null;
+
+    // A cursor into the files means every folder was already listed
+    if (options.after?.phase !== "file") {
+      const folderPage = takePage("folder", await this.listFolderRows(folderMatch, options), options.limit, options);
+      folders = folderPage.items;
+      nextCursor = folderPage.nextCursor;
+    }
+
+    const remaining = options.limit - folders.length;
+    if (nextCursor || remaining === 0) {
+      // Aggregation: tag / metadata conditions carry operators the query sanitizer would strip
+      const hasFiles = !nextCursor && (await File.aggregate([{ $match: fileMatch }, { $limit: 1 }])).length > 0;
+      return { folders, files: [], nextCursor: hasFiles ? startOfFilesCursor(options) : nextCursor };
+    }
+
+    const filePage = takePage("file", await this.listFileRows(fileMatch, options, remaining), remaining, options);
+
+    const signedFiles = await Promise.all(
+      filePage.items.map(async (fileItem): Promise<SignedFileListItem> => {
+        const downloadUrl = fileItem.s3Key
+          ? await S3Service.presignDownload(fileItem.s3Key, { fileName: fileItem.fileName })
+          : undefined;
+        const thumbnailUrl = await thumbnailService.presignThumbnail(fileItem);
+
+        return { ...fileItem, lock: fileLockService.activeLock(fileItem), downloadUrl, thumbnailUrl };
+      })
+    );
+
+    return { folders, files: signedFiles, nextCursor: filePage.nextCursor };
+  }
+
+  /**
+   * One page (+1) of folders matching `match`, with the listing fields.
+   */
+  private async listFolderRows(
+    match: Record<string, unknown>,
+    options: ResolvedListingOptions
+  ): Promise<FolderListItem[]> {
+    return Folder.aggregate<FolderListItem>([
+      { $match: match },
+      ...pageStages("folder", options),
       {
         $lookup: {
           from: "users",
@@ -113,19 +220,25 @@ class FolderService {
           s3Key: 1,
           fileCount: 1,
           userId: 1,
+          tagIds: 1,
+          metadataSchemaId: 1,
           user: { _id: 1, username: 1, email: 1 },
         },
       },
-      { $sort: { folderName: 1 } },
-    ]);
+    ]).collation(NATURAL_SORT_COLLATION);
+  }
 
-    const files = await File.aggregate<FileListItem>([
-      {
-        $match: {
-          businessId: businessObjectId,
-          folderId: parentFolderObjectId,
-        },
-      },
+  /**
+   * One page (+1) of files matching `match`, with the listing fields.
+   */
+  private async listFileRows(
+    match: Record<string, unknown>,
+    options: ResolvedListingOptions,
+    limit: number
+  ): Promise<FileListItem[]> {
+    return File.aggregate<FileListItem>([
+      { $match: match },
+      ...pageStages("file", options, limit),
       {
         $lookup: {
           from: "users",
@@ -147,23 +260,14 @@ class FolderService {
           updatedAt: 1,
           s3Key: 1,
           userId: 1,
+          tagIds: 1,
+          metadata: 1,
+          thumbnail: { status: 1, sourceKey: 1, sizes: 1 },
+          lock: 1,
           user: { _id: 1, username: 1, email: 1 },
         },
       },
-      { $sort: { fileName: 1 } },
-    ]);
-
-    const signedFiles = await Promise.all(
-      files.map(async (fileItem): Promise<SignedFileListItem> => {
-        const downloadUrl = fileItem.s3Key
-          ? await S3Service.presignDownload(fileItem.s3Key)
-          : undefined;
-
-        return { ...fileItem, downloadUrl };
-      })
-    );
-
-    return { folders, files: signedFiles };
+    ]).collation(NATURAL_SORT_COLLATION);
   }
 
   async getFoldersByUserId(userId: string): Promise<FolderLean[]> {
@@ -177,7 +281,10 @@ class FolderService {
   ): Promise<Array<FolderLean & { username: string }>> {
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid business ID");
 
-    const query: Record<string, unknown> = { businessId: new Types.ObjectId(businessId) };
+    const query: Record<string, unknown> = {
+      businessId: new Types.ObjectId(businessId),
+      deletedAt: null,
+    };
     if (folderId && Types.ObjectId.isValid(folderId)) {
       query._id = new Types.ObjectId(folderId);
     }
@@ -204,6 +311,207 @@ class FolderService {
     return Folder.findById(id).lean<FolderLean | null>();
   }
 
+  /**
+   * Live (non-trashed) folders below `folderId`, at any depth.
+   * Traversal stops at trashed folders: their subtree is not live either.
+   */
+  async getLiveDescendantFolders(folderId: Types.ObjectId): Promise<FolderLean[]> {
+    const [result] = await Folder.aggregate<{ descendants: FolderLean[] }>([
+      { $match: { _id: folderId } },
+      {
+        $graphLookup: {
+          from: "folders",
+          startWith: "$_id",
+          connectFromField: "_id",
+          connectToField: "parentFolderId",
+          as: "descendants",
+          restrictSearchWithMatch: { deletedAt: null },
+        },
+      },
+      { $project: { descendants: 1 } },
+    ]);
+
+    return result?.descendants ?? [];
+  }
+
+  /**
+   * Folders above `folderId`, root first (the folder itself is not included).
+   */
+  async getAncestorFolders(folderId: Types.ObjectId): Promise<FolderLean[]> {
+    const [result] = await Folder.aggregate<{ ancestors: Array<FolderLean & { depth: number }> }>([
+      { $match: { _id: folderId } },
+      {
+        $graphLookup: {
+          from: "folders",
+          startWith: "$parentFolderId",
+          connectFromField: "parentFolderId",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+        },
+      },
+      { $project: { ancestors: 1 } },
+    ]);
+
+    return (result?.ancestors ?? [])
+      .sort((left, right) => right.depth - left.depth)
+      .map(({ depth: _depth, ...ancestor }) => ancestor as FolderLean);
+  }
+
+  /**
+   * Live folder hierarchy of a business, `maxDepth` levels deep (roots are level 1).
+   * One $graphLookup per root folder fetches its subtree; the tree is assembled in memory.
+   */
+  async getFolderTree(businessId: string, maxDepth: number = DEFAULT_TREE_DEPTH): Promise<FolderTreeNode[]> {
+    if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
+    if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_TREE_DEPTH) {
+      throw new AppError({
+        message: `depth must be an integer between 1 and ${MAX_TREE_DEPTH}`,
+        statusCode: 400,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const businessObjectId = new Types.ObjectId(businessId);
+    type TreeRow = { _id: Types.ObjectId; folderName: string; parentFolderId: Types.ObjectId | null };
+
+    // One level past the limit, only to know whether the deepest nodes have children
+    const roots = await Folder.aggregate<TreeRow & { descendants: Array<TreeRow & { depth: number }> }>([
+      { $match: { businessId: businessObjectId, parentFolderId: null, deletedAt: null } },
+      {
+        $graphLookup: {
+          from: Folder.collection.name,
+          startWith: "$_id",
+          connectFromField: "_id",
+          connectToField: "parentFolderId",
+          as: "descendants",
+          maxDepth: maxDepth - 1,
+          depthField: "depth",
+          restrictSearchWithMatch: { businessId: businessObjectId, deletedAt: null },
+        },
+      },
+      {
+        $project: {
+          folderName: 1,
+          parentFolderId: 1,
+          descendants: { _id: 1, folderName: 1, parentFolderId: 1, depth: 1 },
+        },
+      },
+    ]);
+
+    const toNode = (row: TreeRow): FolderTreeNode => ({
+      _id: row._id,
+      folderName: row.folderName,
+      parentFolderId: row.parentFolderId ?? null,
+      hasChildren: false,
+      children: [],
+    });
+
+    const byName = (left: FolderTreeNode, right: FolderTreeNode) => left.folderName.localeCompare(right.folderName);
+
+    return roots
+      .map((root) => {
+        const rootNode = toNode(root);
+        const nodeById = new Map([[root._id.toString(), rootNode]]);
+
+        // Parents first, so every child finds its parent node
+        const descendants = [...root.descendants].sort((left, right) => left.depth - right.depth);
+
+        for (const descendant of descendants) {
+          const parentNode = nodeById.get(descendant.parentFolderId?.toString() ?? "");
+          if (!parentNode) continue;
+
+          parentNode.hasChildren = true;
+
+          // graph depth 0 = level 2
+          if (descendant.depth + 2 > maxDepth) continue;
+
+          const node = toNode(descendant);
+          parentNode.children.push(node);
+          nodeById.set(descendant._id.toString(), node);
+        }
+
+        for (const node of nodeById.values()) node.children.sort(byName);
+        return rootNode;
+      })
+      .sort(byName);
+  }
+
+  /**
+   * Recursive totals of a folder: live subfolders and files at any depth (trash excluded).
+   * Two aggregations: the subtree ($graphLookup), then the files grouped by content type.
+   */
+  async getFolderStats(folderId: string): Promise<FolderStats> {
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folder ID");
+
+    const folderObjectId = new Types.ObjectId(folderId);
+
+    const [folder] = await Folder.aggregate<{
+      _id: Types.ObjectId;
+      updatedAt: Date;
+      descendants: Array<{ _id: Types.ObjectId; updatedAt: Date }>;
+    }>([
+      { $match: { _id: folderObjectId } },
+      {
+        $graphLookup: {
+          from: Folder.collection.name,
+          startWith: "$_id",
+          connectFromField: "_id",
+          connectToField: "parentFolderId",
+          as: "descendants",
+          restrictSearchWithMatch: { deletedAt: null },
+        },
+      },
+      { $project: { updatedAt: 1, descendants: { _id: 1, updatedAt: 1 } } },
+    ]);
+
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    const byContentType = await File.aggregate<{
+      _id: string | null;
+      fileCount: number;
+      totalBytes: number;
+      lastModified: Date;
+    }>([
+      {
+        $match: {
+          folderId: { $in: [folder._id, ...folder.descendants.map((descendant) => descendant._id)] },
+          deletedAt: null,
+        },
+      },
+      {
+        $group: {
+          _id: { $ifNull: ["$contentType", null] },
+          fileCount: { $sum: 1 },
+          totalBytes: { $sum: "$fileSize" },
+          lastModified: { $max: "$updatedAt" },
+        },
+      },
+      { $sort: { totalBytes: -1, _id: 1 } },
+    ]);
+
+    const lastModified = [
+      folder.updatedAt,
+      ...folder.descendants.map((descendant) => descendant.updatedAt),
+      ...byContentType.map((group) => group.lastModified),
+    ].reduce((latest, date) => (date > latest ? date : latest));
+
+    return {
+      folderId: folder._id,
+      fileCount: byContentType.reduce((total, group) => total + group.fileCount, 0),
+      folderCount: folder.descendants.length,
+      totalBytes: byContentType.reduce((total, group) => total + group.totalBytes, 0),
+      lastModified,
+      byContentType: byContentType.map((group) => ({
+        contentType: group._id,
+        fileCount: group.fileCount,
+        totalBytes: group.totalBytes,
+      })),
+    };
+  }
+
   async addChildFolderToFolder(parentFolderId: string, childFolderId: string): Promise<void> {
     const parentFolderObjectId = new Types.ObjectId(parentFolderId);
     const childFolderObjectId = new Types.ObjectId(childFolderId);
@@ -252,6 +560,7 @@ class FolderService {
    * - set s3Key prefix = businessId/folders/<folderId>/
    * - save mongo
    * - update parent folder folderIds
+   * - `conflict` decides what happens when the name is taken under the parent
    *
    * (No S3 calls needed here.)
    */
@@ -259,7 +568,8 @@ class FolderService {
     folderName: string,
     userId: string,
     businessId: string,
-    parentFolderId: string | null
+    parentFolderId: string | null,
+    conflict: NameConflictPolicy = "reject"
   ): Promise<FolderLean> {
     if (!folderName || !userId || !businessId) {
       throw new Error("User ID, Business ID, and Folder Name are required.");
@@ -268,18 +578,16 @@ class FolderService {
     if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
     if (parentFolderId && !Types.ObjectId.isValid(parentFolderId)) throw new Error("Invalid parentFolderId");
 
-    const normalizedName = sanitizeFolderName(folderName.trim());
     const newFolderId = new Types.ObjectId();
 
-    const exists = await Folder.findOne({
+    const { folderName: normalizedName, conflictingFolder } = await nameConflictService.resolveFolderName({
       businessId: new Types.ObjectId(businessId),
       parentFolderId: parentFolderId ? new Types.ObjectId(parentFolderId) : null,
-      folderName: normalizedName,
-    }).lean<FolderLean | null>();
+      folderName: normalizeFolderName(folderName),
+      conflict,
+    });
 
-    if (exists) {
-      throw new Error(`A folder named "${normalizedName}" already exists in this location.`);
-    }
+    if (conflictingFolder) await nameConflictService.trashConflictingFolder(conflictingFolder, userId);
 
     const prefix = folderPrefix(businessId, newFolderId.toString());
 
@@ -294,7 +602,7 @@ class FolderService {
       folderIds: [],
     });
 
-    await folderDoc.save();
+    await nameConflictService.guardFolderName(normalizedName, () => folderDoc.save());
 
     if (parentFolderId) {
       // ✅ Fix for your "'_id' is unknown" issue:
@@ -309,27 +617,211 @@ class FolderService {
 
   /**
    * Rename folder = DB update only (no S3 move).
+   * Only `FOLDER_UPDATE_FIELDS` can be changed (400 FOLDER_UPDATE_FIELD_NOT_ALLOWED otherwise):
+   * moves go through `moveFolder`, schemas / tags through their own services.
+   * `conflict` applies when the new name is taken under the same parent.
    */
-  async updateFolder(id: string, folderData: Partial<FolderSchemaType>): Promise<FolderLean | null> {
+  async updateFolder(
+    id: string,
+    folderData: Partial<FolderSchemaType>,
+    editorId?: string,
+    conflict: NameConflictPolicy = "reject"
+  ): Promise<FolderLean | null> {
     if (!Types.ObjectId.isValid(id)) throw new Error("Invalid folder ID");
 
+    const rejectedFields = Object.keys(folderData).filter(
+      (field) => !(FOLDER_UPDATE_FIELDS as readonly string[]).includes(field)
+    );
+    if (rejectedFields.length > 0) {
+      throw new AppError({
+        message: `These fields cannot be updated: ${rejectedFields.join(", ")}`,
+        statusCode: 400,
+        code: "FOLDER_UPDATE_FIELD_NOT_ALLOWED",
+        details: { fields: rejectedFields, allowed: FOLDER_UPDATE_FIELDS },
+      });
+    }
+
     const update: Partial<FolderSchemaType> = { ...folderData };
 
     if (update.folderName) {
-      update.folderName = sanitizeFolderName(update.folderName.trim());
+      const folder = await Folder.findById(id).lean<FolderLean | null>();
+      if (!folder) return null;
+
+      const { folderName, conflictingFolder } = await nameConflictService.resolveFolderName({
+        businessId: folder.businessId,
+        parentFolderId: folder.parentFolderId ?? null,
+        folderName: normalizeFolderName(update.folderName),
+        conflict,
+        excludeFolderId: folder._id,
+      });
+
+      if (conflictingFolder) {
+        if (!editorId) throw new Error("editorId is required to replace a folder");
+        await nameConflictService.trashConflictingFolder(conflictingFolder, editorId);
+      }
+      update.folderName = folderName;
+    }
+
+    return nameConflictService.guardFolderName(String(update.folderName), () =>
+      Folder.findByIdAndUpdate(id, update, { new: true }).lean<FolderLean | null>()
+    );
+  }
+
+  /**
+   * Move a folder under another folder (or root when `targetFolderId` is null).
+   *
+   * Rules:
+   * - destination must be live, in the same business, and writable by the user
+   * - a folder cannot be moved into itself or one of its descendants
+   * - folder names are unique per parent (`conflict` decides what happens when the name is taken)
+   * - the folder and both parents' folderIds change in one transaction
+   *
+   * S3 prefixes are flat (not nested under the parent), so no objects move.
+   */
+  async moveFolder(
+    folderId: string,
+    targetFolderId: string | null,
+    userId: string,
+    conflict: NameConflictPolicy = "reject"
+  ): Promise<FolderLean> {
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folder ID");
+    if (targetFolderId && !Types.ObjectId.isValid(targetFolderId)) throw new Error("Invalid targetFolderId");
+
+    const folder = await Folder.findOne({ _id: new Types.ObjectId(folderId), deletedAt: null }).lean<FolderLean>();
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    const targetParentId = targetFolderId ? new Types.ObjectId(targetFolderId) : null;
+    const currentParentId = folder.parentFolderId ?? null;
+
+    if (targetParentId) {
+      const targetFolder = await Folder.findOne({ _id: targetParentId, deletedAt: null }).lean<FolderLean>();
+      if (!targetFolder) {
+        throw new AppError({
+          message: "Target folder not found",
+          statusCode: 404,
+          code: "FOLDER_MOVE_TARGET_NOT_FOUND",
+        });
+      }
+
+      if (!targetFolder.businessId.equals(folder.businessId)) {
+        throw new AppError({
+          message: "Target folder belongs to another business",
+          statusCode: 403,
+          code: "FOLDER_MOVE_BUSINESS_MISMATCH",
+        });
+      }
+
+      const canWrite = await hasPermission({
+        userId,
+        resource: "folder",
+        resourceId: targetParentId.toString(),
+        action: "write",
+      });
+      if (!canWrite) {
+        throw new AppError({
+          message: "Access denied to the target folder",
+          statusCode: 403,
+          code: "FOLDER_MOVE_TARGET_FORBIDDEN",
+        });
+      }
+
+      const targetAncestorIds = (await this.getAncestorFolders(targetParentId)).map((ancestor) => ancestor._id);
+      if ([targetParentId, ...targetAncestorIds].some((ancestorId) => ancestorId.equals(folder._id))) {
+        throw new AppError({
+          message: "A folder cannot be moved into itself or one of its subfolders",
+          statusCode: 409,
+          code: "FOLDER_MOVE_CYCLE",
+        });
+      }
     }
 
-    // Never change s3Key on rename
-    delete (update as Partial<FolderSchemaType> & { s3Key?: string }).s3Key;
+    const isSameParent = currentParentId && targetParentId
+      ? currentParentId.equals(targetParentId)
+      : currentParentId === targetParentId;
+    if (isSameParent) return folder;
+
+    const { folderName, conflictingFolder } = await nameConflictService.resolveFolderName({
+      businessId: folder.businessId,
+      parentFolderId: targetParentId,
+      folderName: folder.folderName,
+      conflict,
+    });
+
+    if (conflictingFolder) await nameConflictService.trashConflictingFolder(conflictingFolder, userId);
+
+    const session = await Folder.startSession();
+    try {
+      await nameConflictService.guardFolderName(folderName, () =>
+        session.withTransaction(async () => {
+          // Guard on the parent we validated against: a concurrent move makes this match nothing
+          const moved = await Folder.updateOne(
+            { _id: folder._id, parentFolderId: currentParentId, deletedAt: null },
+            { $set: { parentFolderId: targetParentId, folderName } },
+            { session }
+          );
+          if (moved.matchedCount === 0) {
+            throw new AppError({
+              message: "Folder was modified concurrently, retry the move",
+              statusCode: 409,
+              code: "FOLDER_MOVE_CONFLICT",
+            });
+          }
+
+          if (currentParentId) {
+            await Folder.updateOne({ _id: currentParentId }, { $pull: { folderIds: folder._id } }, { session });
+          }
+          if (targetParentId) {
+            await Folder.updateOne({ _id: targetParentId }, { $addToSet: { folderIds: folder._id } }, { session });
+          }
+        })
+      );
+    } finally {
+      await session.endSession();
+    }
 
-    return Folder.findByIdAndUpdate(id, update, { new: true }).lean<FolderLean | null>();
+    const movedFolder = await Folder.findById(folder._id).lean<FolderLean>();
+    if (!movedFolder) throw new Error("Folder move failed.");
+    return movedFolder;
+  }
+
+  /**
+   * Delete files directly inside a folder: S3 objects (every version + thumbnails),
+   * version metadata, comments and the files themselves.
+   * Objects are deleted by key, never by folder prefix: a file moved out of the folder
+   * before its objects were relocated may still have keys under this prefix.
+   * Returns the storage that was freed.
+   */
+  private async deleteFilesInFolder(folderId: string): Promise<StorageTotals> {
+    const folderObjectId = new Types.ObjectId(folderId);
+    const removed = await storageQuotaService.measure({ folderId: folderObjectId });
+    const files = await File.find({ folderId: folderObjectId }).select("s3Key thumbnail").lean<FileLean[]>();
+    const fileIds = files.map((file) => file._id);
+    const versions = await FileVersion.find({ fileId: trusted({ $in: fileIds }) })
+      .select("s3Key")
+      .lean<Array<{ s3Key: string }>>();
+
+    const objectKeys = new Set([
+      ...files.flatMap((file) => [file.s3Key, ...thumbnailService.objectKeys(file)]),
+      ...versions.map((version) => version.s3Key),
+    ]);
+    await S3Service.deleteObjects([...objectKeys]);
+
+    await FileVersion.deleteMany({ fileId: trusted({ $in: fileIds }) });
+    await commentService.deleteFileComments(fileIds);
+    await File.deleteMany({ folderId: folderObjectId });
+
+    return removed;
   }
 
   /**
    * Delete folder subtree:
-   * - delete S3 prefix ONCE per folder
+   * - delete the S3 objects of the files in the subtree (by key)
    * - delete files under subtree in Mongo
    * - delete folders under subtree in Mongo
+   * - release the freed storage from the business quota
+   * - refused while a legal hold or a minimum retention covers the subtree
    */
   async deleteFolder(id: string): Promise<FolderLean | null> {
     if (!Types.ObjectId.isValid(id)) throw new Error("Invalid folder ID");
@@ -337,24 +829,29 @@ class FolderService {
     const rootFolder = await Folder.findById(id).lean<FolderLean | null>();
     if (!rootFolder) throw new Error("Folder not found in the database");
 
-    // 1) Delete S3 objects under this folder prefix
-    await S3Service.deletePrefix(rootFolder.s3Key);
+    // Legal holds / minimum retention anywhere in the subtree
+    await retentionService.assertFolderDeletable(rootFolder);
 
-    // 2) Delete files directly in this folder
-    await File.deleteMany({ folderId: new Types.ObjectId(id) });
+    // 1) Delete files directly in this folder (objects + version history)
+    const removed = await this.deleteFilesInFolder(id);
 
-    // 3) Walk subtree
+    // 2) Walk subtree
     const folderIdStack: string[] = (rootFolder.folderIds ?? []).map((childFolderObjectId) =>
       childFolderObjectId.toString()
     );
 
+    const deletedFolderIds: Types.ObjectId[] = [rootFolder._id];
+
     while (folderIdStack.length) {
       const childFolderId = folderIdStack.pop()!;
       const childFolder = await Folder.findById(childFolderId).lean<FolderLean | null>();
       if (!childFolder) continue;
 
-      await S3Service.deletePrefix(childFolder.s3Key);
-      await File.deleteMany({ folderId: new Types.ObjectId(childFolderId) });
+      deletedFolderIds.push(childFolder._id);
+
+      const removedInChild = await this.deleteFilesInFolder(childFolderId);
+      removed.bytes += removedInChild.bytes;
+      removed.files += removedInChild.files;
 
       for (const nestedFolderObjectId of childFolder.folderIds ?? []) {
         folderIdStack.push(nestedFolderObjectId.toString());
@@ -363,6 +860,9 @@ class FolderService {
       await Folder.findByIdAndDelete(childFolderId);
     }
 
+    await storageQuotaService.recordRemoved(rootFolder.businessId, removed);
+    await retentionService.removeRulesForFolders(deletedFolderIds);
+
     // unlink from parent.folderIds
     if (rootFolder.parentFolderId) {
       await Folder.findByIdAndUpdate(rootFolder.parentFolderId, {
@@ -385,6 +885,7 @@ class FolderService {
       businessId: new Types.ObjectId(businessId),
       folderName,
       parentFolderId: parentFolderId ? new Types.ObjectId(parentFolderId) : null,
+      deletedAt: null,
     };
 
     return Folder.findOne(query).lean<FolderLean | null>();
@@ -0,0 +1,154 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { Job, type JobLean, type JobType } from "../models/job.model";
+
+/**
+ * Finished jobs stay readable for a week, then the TTL index removes them.
+ */
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A job's process refreshes `heartbeatAt` this often while the task runs.
+ */
+const JOB_HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Unfinished jobs without a heartbeat for this long lost their process (restart, crash).
+ */
+export const JOB_STALE_MS = 5 * JOB_HEARTBEAT_MS;
+
+/**
+ * Handed to a running task so it can report how far it got.
+ */
+export type JobProgress = {
+  advance(count?: number): Promise<void>;
+};
+
+type JobTask = (progress: JobProgress, jobId: Types.ObjectId) => Promise<Record<string, unknown>>;
+
+/**
+ * Long-running operations executed in the background of the API process.
+ *
+ * Rules:
+ * - `start` returns immediately with the queued job; the task runs afterwards
+ * - the task's return value becomes `result`; a thrown error marks the job failed
+ * - only the user who started a job can read it
+ * - a job whose process stopped (restart, crash) is marked failed with JOB_INTERRUPTED
+ */
+class JobService {
+  async start(params: {
+    type: JobType;
+    userId: string;
+    businessId: string;
+    total: number;
+    task: JobTask;
+  }): Promise<JobLean> {
+    const job = await Job.create({
+      type: params.type,
+      userId: new Types.ObjectId(params.userId),
+      businessId: new Types.ObjectId(params.businessId),
+      progress: { processed: 0, total: params.total },
+      expiresAt: new Date(Date.now() + JOB_RETENTION_MS),
+    });
+
+    // Not awaited: the HTTP request returns while the job runs
+    void this.execute(job._id, params.task);
+
+    return job.toObject() as JobLean;
+  }
+
+  private async execute(jobId: Types.ObjectId, task: JobTask): Promise<void> {
+    const progress: JobProgress = {
+      advance: async (count = 1) => {
+        await Job.updateOne(
+          { _id: jobId },
+          { $inc: { "progress.processed": count }, $set: { heartbeatAt: new Date() } }
+        );
+      },
+    };
+
+    // Steps can be slow (ex: one large S3 copy): keep the job alive between them
+    const heartbeat = setInterval(() => {
+      void Job.updateOne({ _id: jobId }, { $set: { heartbeatAt: new Date() } }).catch(() => undefined);
+    }, JOB_HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+      await Job.updateOne(
+        { _id: jobId },
+        { $set: { status: "running", startedAt: new Date(), heartbeatAt: new Date() } }
+      );
+
+      const result = await task(progress, jobId);
+
+      await Job.updateOne(
+        { _id: jobId },
+        {
+          $set: {
+            status: "succeeded",
+            result,
+            finishedAt: new Date(),
+            expiresAt: new Date(Date.now() + JOB_RETENTION_MS),
+          },
+        }
+      );
+    } catch (error) {
+      console.error(`❌ Job ${jobId.toString()} failed:`, error);
+
+      await Job.updateOne(
+        { _id: jobId },
+        {
+          $set: {
+            status: "failed",
+            error: {
+              message: error instanceof Error ? error.message : "Job failed",
+              code: error instanceof AppError ? error.code ?? null : null,
+            },
+            finishedAt: new Date(),
+            expiresAt: new Date(Date.now() + JOB_RETENTION_MS),
+          },
+        }
+      ).catch(() => undefined);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Fail the queued / running jobs whose process stopped sending heartbeats.
+   * Returns how many jobs were marked failed.
+   */
+  async failInterrupted(now: Date = new Date()): Promise<number> {
+    const result = await Job.updateMany(
+      {
+        status: trusted({ $in: ["queued", "running"] }),
+        heartbeatAt: trusted({ $lt: new Date(now.getTime() - JOB_STALE_MS) }),
+      },
+      {
+        $set: {
+          status: "failed",
+          error: { message: "The job was interrupted before it finished", code: "JOB_INTERRUPTED" },
+          finishedAt: now,
+          expiresAt: new Date(now.getTime() + JOB_RETENTION_MS),
+        },
+      }
+    );
+
+    return result.modifiedCount;
+  }
+
+  async getJob(jobId: string, userId: string): Promise<JobLean> {
+    if (!Types.ObjectId.isValid(jobId)) throw new Error("Invalid job ID");
+
+    const job = await Job.findById(jobId).lean<JobLean>();
+
+    // Someone else's job is reported as missing (no id probing)
+    if (!job || job.userId.toString() !== userId) {
+      throw new AppError({ message: "Job not found", statusCode: 404, code: "JOB_NOT_FOUND" });
+    }
+
+    return job;
+  }
+}
+
+export default new JobService();
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File } from "../models/file.model";
+import { Folder } from "../models/folder.model";
+import { LegalHold, type LegalHoldLean, type LegalHoldTargetType } from "../models/legal-hold.model";
+
+/**
+ * Legal holds on files and folders.
+ *
+ * Rules:
+ * - a hold blocks permanent deletion only (trash / restore still work)
+ * - a folder hold covers the folder and everything below it
+ * - holds are never deleted, only released (the history stays)
+ * - enforcement lives in RetentionService (delete guards)
+ */
+class LegalHoldService {
+  private assertValidId(id: string, label: string): void {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError({ message: `Invalid ${label} ID`, statusCode: 400, code: "VALIDATION_ERROR" });
+    }
+  }
+
+  async listHolds(businessId: string, options: { activeOnly?: boolean } = {}): Promise<LegalHoldLean[]> {
+    this.assertValidId(businessId, "business");
+
+    return LegalHold.find({
+      businessId: new Types.ObjectId(businessId),
+      ...(options.activeOnly ? { releasedAt: null } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .lean<LegalHoldLean[]>();
+  }
+
+  async placeHold(params: {
+    businessId: string;
+    userId: string;
+    targetType: LegalHoldTargetType;
+    targetId: string;
+    reason: string;
+  }): Promise<LegalHoldLean> {
+    this.assertValidId(params.businessId, "business");
+    this.assertValidId(params.targetId, params.targetType);
+
+    const businessId = new Types.ObjectId(params.businessId);
+    const targetId = new Types.ObjectId(params.targetId);
+
+    // Trashed items can be held too: that is exactly what stops the purge
+    const targetExists =
+      params.targetType === "file"
+        ? await File.exists({ _id: targetId, businessId })
+        : await Folder.exists({ _id: targetId, businessId });
+
+    if (!targetExists) {
+      throw new AppError({
+        message: `${params.targetType === "file" ? "File" : "Folder"} not found`,
+        statusCode: 404,
+        code: params.targetType === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    const hold = await LegalHold.create({
+      businessId,
+      targetType: params.targetType,
+      targetId,
+      reason: params.reason.trim(),
+      createdBy: new Types.ObjectId(params.userId),
+    });
+
+    return hold.toObject() as LegalHoldLean;
+  }
+
+  async releaseHold(params: { businessId: string; holdId: string; userId: string }): Promise<LegalHoldLean> {
+    this.assertValidId(params.businessId, "business");
+    this.assertValidId(params.holdId, "hold");
+
+    const released = await LegalHold.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(params.holdId),
+        businessId: new Types.ObjectId(params.businessId),
+        releasedAt: null,
+      },
+      { $set: { releasedAt: new Date(), releasedBy: new Types.ObjectId(params.userId) } },
+      { new: true }
+    ).lean<LegalHoldLean>();
+
+    if (!released) {
+      throw new AppError({
+        message: "Active legal hold not found",
+        statusCode: 404,
+        code: "LEGAL_HOLD_NOT_FOUND",
+      });
+    }
+
+    return released;
+  }
+
+  /**
+   * First active hold on one of `folderIds` / `fileIds`, or on a file stored in `fileFolderIds`.
+   */
+  async findActiveHold(params: {
+    businessId: Types.ObjectId;
+    folderIds?: Types.ObjectId[];
+    fileIds?: Types.ObjectId[];
+    fileFolderIds?: Types.ObjectId[];
+  }): Promise<LegalHoldLean | null> {
+    const targetIds = [...(params.folderIds ?? []), ...(params.fileIds ?? [])];
+
+    if (targetIds.length > 0) {
+      const directHold = await LegalHold.findOne({
+        businessId: params.businessId,
+        releasedAt: null,
+        targetId: trusted({ $in: targetIds }),
+      }).lean<LegalHoldLean>();
+
+      if (directHold) return directHold;
+    }
+
+    if (!params.fileFolderIds?.length) return null;
+
+    const fileHolds = await LegalHold.find({
+      businessId: params.businessId,
+      releasedAt: null,
+      targetType: "file",
+    }).lean<LegalHoldLean[]>();
+    if (fileHolds.length === 0) return null;
+
+    const heldFile = await File.findOne({
+      _id: trusted({ $in: fileHolds.map((hold) => hold.targetId) }),
+      folderId: trusted({ $in: params.fileFolderIds }),
+    })
+      .select("_id")
+      .lean<{ _id: Types.ObjectId }>();
+
+    return heldFile ? fileHolds.find((hold) => hold.targetId.equals(heldFile._id)) ?? null : null;
+  }
+
+  /**
+   * Ids of the files and folders under an active hold in a business (folder holds are not expanded).
+   */
+  async activeHoldTargets(businessId: Types.ObjectId): Promise<{ fileIds: Types.ObjectId[]; folderIds: Types.ObjectId[] }> {
+    const holds = await LegalHold.find({ businessId, releasedAt: null })
+      .select("targetType targetId")
+      .lean<Array<Pick<LegalHoldLean, "targetType" | "targetId">>>();
+
+    return {
+      fileIds: holds.filter((hold) => hold.targetType === "file").map((hold) => hold.targetId),
+      folderIds: holds.filter((hold) => hold.targetType === "folder").map((hold) => hold.targetId),
+    };
+  }
+
+  async hasActiveHolds(businessId: Types.ObjectId): Promise<boolean> {
+    return Boolean(await LegalHold.exists({ businessId, releasedAt: null }));
+  }
+}
+
+export default new LegalHoldService();
\ No newline at end of file
@@ -0,0 +1,350 @@
+import { Types } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import {
+  MetadataSchemaModel,
+  type MetadataField,
+  type MetadataSchemaLean,
+} from "../models/metadata-schema.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import folderService from "./folder.service";
+
+type MetadataFieldInput = {
+  key: string;
+  label?: string;
+  type: MetadataField["type"];
+  required?: boolean;
+  options?: string[];
+};
+
+type MetadataValues = Record<string, unknown>;
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Custom metadata: business-defined field schemas, attached to folders.
+ *
+ * Rules:
+ * - a file uses the schema of its folder, or of the nearest ancestor that has one
+ * - files outside any schema cannot carry metadata
+ * - values are stored typed (number, Date), unknown keys are rejected
+ * - changing a schema does not revalidate existing files
+ */
+class MetadataService {
+  private async loadSchema(schemaId: string, businessId: string): Promise<MetadataSchemaLean> {
+    if (!Types.ObjectId.isValid(schemaId)) throw new Error("Invalid metadata schema ID");
+
+    const schema = await MetadataSchemaModel.findOne({
+      _id: new Types.ObjectId(schemaId),
+      businessId: new Types.ObjectId(businessId),
+    }).lean<MetadataSchemaLean>();
+
+    if (!schema) {
+      throw new AppError({
+        message: "Metadata schema not found",
+        statusCode: 404,
+        code: "METADATA_SCHEMA_NOT_FOUND",
+      });
+    }
+
+    return schema;
+  }
+
+  /**
+   * Field definitions must be consistent before they are stored.
+   */
+  private assertValidFields(fields: MetadataFieldInput[]): void {
+    const problems: string[] = [];
+    const seenKeys = new Set<string>();
+
+    for (const field of fields) {
+      if (seenKeys.has(field.key)) problems.push(`duplicate key "${field.key}"`);
+      seenKeys.add(field.key);
+
+      if (field.type === "enum" && !field.options?.length) {
+        problems.push(`enum field "${field.key}" needs options`);
+      }
+      if (field.type !== "enum" && field.options?.length) {
+        problems.push(`only enum fields take options ("${field.key}")`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new AppError({
+        message: "Invalid metadata fields",
+        statusCode: 400,
+        code: "METADATA_SCHEMA_INVALID",
+        details: { problems },
+      });
+    }
+  }
+
+  private nameConflict(name: string): AppError {
+    return new AppError({
+      message: `A metadata schema named "${name}" already exists`,
+      statusCode: 409,
+      code: "METADATA_SCHEMA_NAME_CONFLICT",
+    });
+  }
+
+  async listSchemas(businessId: string): Promise<MetadataSchemaLean[]> {
+    if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
+
+    return MetadataSchemaModel.find({ businessId: new Types.ObjectId(businessId) })
+      .sort({ name: 1 })
+      .lean<MetadataSchemaLean[]>();
+  }
+
+  async createSchema(params: {
+    businessId: string;
+    userId: string;
+    name: string;
+    fields: MetadataFieldInput[];
+  }): Promise<MetadataSchemaLean> {
+    if (!Types.ObjectId.isValid(params.businessId)) throw new Error("Invalid businessId");
+
+    this.assertValidFields(params.fields);
+
+    try {
+      const schema = await MetadataSchemaModel.create({
+        businessId: new Types.ObjectId(params.businessId),
+        name: params.name.trim(),
+        fields: params.fields,
+        createdBy: new Types.ObjectId(params.userId),
+      });
+
+      return schema.toObject() as MetadataSchemaLean;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) throw this.nameConflict(params.name.trim());
+      throw error;
+    }
+  }
+
+  async updateSchema(
+    schemaId: string,
+    businessId: string,
+    changes: { name?: string; fields?: MetadataFieldInput[] }
+  ): Promise<MetadataSchemaLean> {
+    const schema = await this.loadSchema(schemaId, businessId);
+
+    if (changes.fields) this.assertValidFields(changes.fields);
+
+    const name = changes.name?.trim();
+
+    try {
+      const updatedSchema = await MetadataSchemaModel.findByIdAndUpdate(
+        schema._id,
+        {
+          ...(name ? { name } : {}),
+          ...(changes.fields ? { fields: changes.fields } : {}),
+        },
+        { new: true, runValidators: true }
+      ).lean<MetadataSchemaLean>();
+
+      if (!updatedSchema) {
+        throw new AppError({
+          message: "Metadata schema not found",
+          statusCode: 404,
+          code: "METADATA_SCHEMA_NOT_FOUND",
+        });
+      }
+
+      return updatedSchema;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) throw this.nameConflict(name ?? schema.name);
+      throw error;
+    }
+  }
+
+  /**
+   * Schemas still attached to a live folder cannot be deleted (detach them first).
+   */
+  async deleteSchema(schemaId: string, businessId: string): Promise<void> {
+    const schema = await this.loadSchema(schemaId, businessId);
+
+    const isInUse = await Folder.exists({ metadataSchemaId: schema._id, deletedAt: null });
+    if (isInUse) {
+      throw new AppError({
+        message: "Metadata schema is attached to folders",
+        statusCode: 409,
+        code: "METADATA_SCHEMA_IN_USE",
+      });
+    }
+
+    await Folder.updateMany({ metadataSchemaId: schema._id }, { $set: { metadataSchemaId: null } });
+    await MetadataSchemaModel.deleteOne({ _id: schema._id });
+  }
+
+  /**
+   * Attach (or detach with null) a schema to a folder.
+   */
+  async setFolderSchema(folderId: string, schemaId: string | null): Promise<FolderLean> {
+    if (!Types.ObjectId.isValid(folderId)) throw new Error("Invalid folder ID");
+
+    const folder = await Folder.findOne({ _id: new Types.ObjectId(folderId), deletedAt: null }).lean<FolderLean>();
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    const schema = schemaId ? await this.loadSchema(schemaId, folder.businessId.toString()) : null;
+
+    const updatedFolder = await Folder.findByIdAndUpdate(
+      folder._id,
+      { $set: { metadataSchemaId: schema?._id ?? null } },
+      { new: true }
+    ).lean<FolderLean>();
+
+    if (!updatedFolder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    return updatedFolder;
+  }
+
+  /**
+   * Schema that applies to files directly in `folderId` (null for root / no schema).
+   */
+  async resolveSchemaForFolder(
+    folderId: Types.ObjectId | string | null | undefined
+  ): Promise<MetadataSchemaLean | null> {
+    if (!folderId || !Types.ObjectId.isValid(folderId)) return null;
+
+    const folderObjectId = new Types.ObjectId(folderId);
+    const folder = await Folder.findById(folderObjectId).lean<FolderLean>();
+    if (!folder) return null;
+
+    let schemaId: Types.ObjectId | null = folder.metadataSchemaId ?? null;
+    if (!schemaId) {
+      // Nearest ancestor wins (ancestors come root first)
+      const ancestors = await folderService.getAncestorFolders(folderObjectId);
+      schemaId = [...ancestors].reverse().find((ancestor) => ancestor.metadataSchemaId)?.metadataSchemaId ?? null;
+    }
+
+    if (!schemaId) return null;
+
+    return MetadataSchemaModel.findById(schemaId).lean<MetadataSchemaLean>();
+  }
+
+  /**
+   * Validate client values against a schema and return them typed for storage.
+   */
+  validateValues(schema: MetadataSchemaLean | null, values: unknown): MetadataValues {
+    if (values === undefined || values === null) values = {};
+
+    if (!isPlainObject(values)) {
+      throw new AppError({
+        message: "metadata must be an object",
+        statusCode: 400,
+        code: "METADATA_INVALID",
+      });
+    }
+
+    if (!schema) {
+      if (Object.keys(values).length === 0) return {};
+
+      throw new AppError({
+        message: "This folder has no metadata schema",
+        statusCode: 400,
+        code: "METADATA_SCHEMA_MISSING",
+      });
+    }
+
+    const errors: Record<string, string> = {};
+    const normalizedValues: MetadataValues = {};
+    const fieldsByKey = new Map(schema.fields.map((field) => [field.key, field]));
+
+    for (const key of Object.keys(values)) {
+      if (!fieldsByKey.has(key)) errors[key] = "unknown field";
+    }
+
+    for (const field of schema.fields) {
+      const value = values[field.key];
+
+      if (value === undefined || value === null || value === "") {
+        if (field.required) errors[field.key] = "is required";
+        continue;
+      }
+
+      switch (field.type) {
+        case "string":
+          if (typeof value !== "string") errors[field.key] = "must be a string";
+          else normalizedValues[field.key] = value.trim();
+          break;
+        case "number":
+          if (typeof value !== "number" || !Number.isFinite(value)) errors[field.key] = "must be a number";
+          else normalizedValues[field.key] = value;
+          break;
+        case "date": {
+          const dateValue = typeof value === "string" || value instanceof Date ? new Date(value) : null;
+          if (!dateValue || Number.isNaN(dateValue.getTime())) errors[field.key] = "must be an ISO 8601 date";
+          else normalizedValues[field.key] = dateValue;
+          break;
+        }
+        case "enum":
+          if (typeof value !== "string" || !field.options?.includes(value)) {
+            errors[field.key] = `must be one of: ${(field.options ?? []).join(", ")}`;
+          } else {
+            normalizedValues[field.key] = value;
+          }
+          break;
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new AppError({
+        message: "Invalid metadata",
+        statusCode: 400,
+        code: "METADATA_INVALID",
+        details: { errors },
+      });
+    }
+
+    return normalizedValues;
+  }
+
+  /**
+   * Listing filter (`?meta[key]=value`): cast query strings with the folder's schema
+   * and return `{ "metadata.<key>": value }` conditions.
+   */
+  async buildListingFilter(
+    folderId: string | undefined,
+    rawFilters: Record<string, string>
+  ): Promise<Record<string, unknown>> {
+    if (Object.keys(rawFilters).length === 0) return {};
+
+    const schema = await this.resolveSchemaForFolder(folderId);
+    const fieldsByKey = new Map((schema?.fields ?? []).map((field) => [field.key, field]));
+    const conditions: Record<string, unknown> = {};
+
+    for (const [key, rawValue] of Object.entries(rawFilters)) {
+      const field = fieldsByKey.get(key);
+      if (!field) {
+        throw new AppError({
+          message: `Unknown metadata field "${key}" for this folder`,
+          statusCode: 400,
+          code: "METADATA_UNKNOWN_FIELD",
+        });
+      }
+
+      const value = field.type === "number" ? Number(rawValue) : field.type === "date" ? new Date(rawValue) : rawValue;
+      if ((typeof value === "number" && Number.isNaN(value)) || (value instanceof Date && Number.isNaN(value.getTime()))) {
+        throw new AppError({
+          message: `Invalid value for metadata field "${key}"`,
+          statusCode: 400,
+          code: "METADATA_INVALID",
+        });
+      }
+
+      conditions[`metadata.${key}`] = value;
+    }
+
+    return conditions;
+  }
+}
+
+export default new MetadataService();
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import trashService from "./trash.service";
+import { hasPermission, type Resource } from "../middleware/permissions.middleware";
+import { nextAvailableName } from "../utils/name.utils";
+
+/**
+ * What to do when the name is already used by a live item in the destination:
+ * - reject: 409 FILE_NAME_CONFLICT / FOLDER_NAME_CONFLICT
+ * - autorename: take the first free "name (n).ext"
+ * - replace: uploads become a new version of the existing file; otherwise the existing item goes to the trash
+ */
+export const NAME_CONFLICT_POLICIES = ["reject", "autorename", "replace"] as const;
+export type NameConflictPolicy = (typeof NAME_CONFLICT_POLICIES)[number];
+
+type FileNameResolution = {
+  fileName: string;
+  /** Live file using the name (conflict "replace" only) */
+  conflictingFile: FileLean | null;
+};
+
+type FolderNameResolution = {
+  folderName: string;
+  /** Live folder using the name (conflict "replace" only) */
+  conflictingFolder: FolderLean | null;
+};
+
+/**
+ * E11000 raised by the unique name index of files / folders (not by another unique index).
+ * Bulk writes carry no `keyPattern`, but their message names the index.
+ */
+function isNameDuplicateError(error: unknown, nameField: "fileName" | "folderName"): boolean {
+  if (typeof error !== "object" || error === null) return false;
+
+  const duplicate = error as { code?: unknown; keyPattern?: Record<string, unknown>; message?: unknown };
+  if (duplicate.code !== 11000) return false;
+
+  return Boolean(duplicate.keyPattern?.[nameField]) || String(duplicate.message).includes(`${nameField}_1`);
+}
+
+/**
+ * Names are unique among the live items of a folder (files and folders separately).
+ *
+ * Rules:
+ * - the unique indexes are the source of truth; checks here only pick the outcome
+ *   and turn a lost race into the same 409 as an up-front conflict
+ * - an item never conflicts with itself (renaming "a" to "a", moving within its folder)
+ * - replacing needs "write" access to a file that gets a new version and
+ *   "delete" access to an item that goes to the trash
+ */
+class NameConflictService {
+  fileConflict(fileName: string, existingFileId?: Types.ObjectId): AppError {
+    return new AppError({
+      message: `A file named "${fileName}" already exists in this location.`,
+      statusCode: 409,
+      code: "FILE_NAME_CONFLICT",
+      details: { fileName, ...(existingFileId ? { existingFileId: existingFileId.toString() } : {}) },
+    });
+  }
+
+  folderConflict(folderName: string, existingFolderId?: Types.ObjectId): AppError {
+    return new AppError({
+      message: `A folder named "${folderName}" already exists in this location.`,
+      statusCode: 409,
+      code: "FOLDER_NAME_CONFLICT",
+      details: { folderName, ...(existingFolderId ? { existingFolderId: existingFolderId.toString() } : {}) },
+    });
+  }
+
+  /**
+   * Name a file can take in `folderId` (null means "root") under `conflict`.
+   */
+  async resolveFileName(params: {
+    businessId: Types.ObjectId;
+    folderId: Types.ObjectId | null;
+    fileName: string;
+    conflict: NameConflictPolicy;
+    excludeFileId?: Types.ObjectId;
+  }): Promise<FileNameResolution> {
+    const siblings = {
+      businessId: params.businessId,
+      folderId: params.folderId,
+      deletedAt: null,
+      ...(params.excludeFileId ? { _id: trusted({ $ne: params.excludeFileId }) } : {}),
+    };
+
+    const existing = await File.findOne({ ...siblings, fileName: params.fileName }).lean<FileLean>();
+    if (!existing) return { fileName: params.fileName, conflictingFile: null };
+
+    switch (params.conflict) {
+      case "replace":
+        return { fileName: params.fileName, conflictingFile: existing };
+      case "autorename": {
+        const takenNames = await File.find(siblings).distinct("fileName");
+        return {
+          fileName: nextAvailableName(params.fileName, takenNames, { hasExtension: true }),
+          conflictingFile: null,
+        };
+      }
+      default:
+        throw this.fileConflict(params.fileName, existing._id);
+    }
+  }
+
+  /**
+   * Name a folder can take under `parentFolderId` (null means "root") under `conflict`.
+   */
+  async resolveFolderName(params: {
+    businessId: Types.ObjectId;
+    parentFolderId: Types.ObjectId | null;
+    folderName: string;
+    conflict: NameConflictPolicy;
+    excludeFolderId?: Types.ObjectId;
+  }): Promise<FolderNameResolution> {
+    const siblings = {
+      businessId: params.businessId,
+      parentFolderId: params.parentFolderId,
+      deletedAt: null,
+      ...(params.excludeFolderId ? { _id: trusted({ $ne: params.excludeFolderId }) } : {}),
+    };
+
+    const existing = await Folder.findOne({ ...siblings, folderName: params.folderName }).lean<FolderLean>();
+    if (!existing) return { folderName: params.folderName, conflictingFolder: null };
+
+    switch (params.conflict) {
+      case "replace":
+        return { folderName: params.folderName, conflictingFolder: existing };
+      case "autorename": {
+        const takenNames = await Folder.find(siblings).distinct("folderName");
+        return {
+          folderName: nextAvailableName(params.folderName, takenNames, { hasExtension: false }),
+          conflictingFolder: null,
+        };
+      }
+      default:
+        throw this.folderConflict(params.folderName, existing._id);
+    }
+  }
+
+  /**
+   * Refuse to replace an item the user could not change themselves.
+   */
+  async assertCanReplace(
+    resource: Resource,
+    itemId: Types.ObjectId,
+    userId: string,
+    action: "write" | "delete"
+  ): Promise<void> {
+    const isAllowed = await hasPermission({ userId, resource, resourceId: itemId.toString(), action });
+
+    if (!isAllowed) {
+      throw new AppError({
+        message: `Access denied to the ${resource} being replaced`,
+        statusCode: 403,
+        code: "NAME_CONFLICT_REPLACE_FORBIDDEN",
+        details: { resource, id: itemId.toString(), action },
+      });
+    }
+  }
+
+  /**
+   * conflict "replace" for renames / moves / new folders: the item using the name goes to the trash.
+   */
+  async trashConflictingFile(file: FileLean, userId: string): Promise<void> {
+    await this.assertCanReplace("file", file._id, userId, "delete");
+    await trashService.trashFile(file._id.toString(), userId);
+  }
+
+  async trashConflictingFolder(folder: FolderLean, userId: string): Promise<void> {
+    await this.assertCanReplace("folder", folder._id, userId, "delete");
+    await trashService.trashFolder(folder._id.toString(), userId);
+  }
+
+  /**
+   * Run a write that sets `fileName`; a unique index violation becomes FILE_NAME_CONFLICT.
+   */
+  async guardFileName<T>(fileName: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isNameDuplicateError(error, "fileName")) throw this.fileConflict(fileName);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a write that sets `folderName`; a unique index violation becomes FOLDER_NAME_CONFLICT.
+   */
+  async guardFolderName<T>(folderName: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isNameDuplicateError(error, "folderName")) throw this.folderConflict(folderName);
+      throw error;
+    }
+  }
+}
+
+export default new NameConflictService();
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { Types } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { hasPermission, type Resource } from "../middleware/permissions.middleware";
+
+const PATH_SEPARATOR = "/";
+const MAX_PATH_SEGMENTS = 100;
+
+type BreadcrumbEntry = {
+  _id: Types.ObjectId;
+  type: Resource;
+  name: string;
+};
+
+type Breadcrumbs = {
+  /** Root first, the item itself last */
+  chain: BreadcrumbEntry[];
+  /** "/Clients/Acme/contract.pdf" */
+  path: string;
+};
+
+type ResolvedPath =
+  | { type: "root"; path: string; item: null; breadcrumbs: [] }
+  | { type: "folder"; path: string; item: FolderLean; breadcrumbs: BreadcrumbEntry[] }
+  | { type: "file"; path: string; item: FileLean; breadcrumbs: BreadcrumbEntry[] };
+
+type AncestorRow = { _id: Types.ObjectId; folderName: string; depth: number };
+
+function toObjectId(id: string, label: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new AppError({ message: `Invalid ${label} ID`, statusCode: 400, code: "VALIDATION_ERROR" });
+  }
+  return new Types.ObjectId(id);
+}
+
+/**
+ * Path-based addressing ("/Clients/Acme/contract.pdf") on top of the ObjectId tree.
+ *
+ * Rules:
+ * - paths are absolute within one business; "/" is the business root
+ * - names match exactly (case-sensitive, after NFC normalization), trashed items are never matched
+ * - a trailing "/" only matches a folder; otherwise a folder wins over a file of the same name
+ * - the resolved item must be readable by the caller (same rules as checkPermission)
+ * - breadcrumbs walk `parentFolderId` with a single $graphLookup
+ */
+class PathService {
+  /**
+   * "/a//b/" => ["a", "b"]
+   */
+  private splitPath(path: string): string[] {
+    const segments = path.split(PATH_SEPARATOR).filter((segment) => segment.length > 0);
+
+    if (segments.length > MAX_PATH_SEGMENTS) {
+      throw new AppError({
+        message: `path must have at most ${MAX_PATH_SEGMENTS} segments`,
+        statusCode: 400,
+        code: "PATH_TOO_DEEP",
+      });
+    }
+
+    return segments;
+  }
+
+  private notFound(path: string, segment: string): AppError {
+    return new AppError({
+      message: "No file or folder at this path",
+      statusCode: 404,
+      code: "PATH_NOT_FOUND",
+      details: { path, segment },
+    });
+  }
+
+  private async findChildFolder(
+    businessId: Types.ObjectId,
+    parentFolderId: Types.ObjectId | null,
+    folderName: string
+  ): Promise<FolderLean | null> {
+    return Folder.findOne({ businessId, parentFolderId, folderName, deletedAt: null })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean<FolderLean>();
+  }
+
+  async resolve(params: { businessId: string; path: string; userId: string }): Promise<ResolvedPath> {
+    const businessId = toObjectId(params.businessId, "business");
+    // Display names are stored in NFC; "é" may arrive decomposed from some clients
+    const segments = this.splitPath(params.path.normalize("NFC"));
+    const normalizedPath = PATH_SEPARATOR + segments.join(PATH_SEPARATOR);
+
+    if (segments.length === 0) {
+      return { type: "root", path: PATH_SEPARATOR, item: null, breadcrumbs: [] };
+    }
+
+    const folderOnly = params.path.endsWith(PATH_SEPARATOR);
+    const lastSegment = segments[segments.length - 1];
+    let parentFolderId: Types.ObjectId | null = null;
+
+    for (const segment of segments.slice(0, -1)) {
+      const folder = await this.findChildFolder(businessId, parentFolderId, segment);
+      if (!folder) throw this.notFound(normalizedPath, segment);
+      parentFolderId = folder._id;
+    }
+
+    const folder = await this.findChildFolder(businessId, parentFolderId, lastSegment);
+    if (folder) {
+      await this.assertReadable(params.userId, "folder", folder._id);
+      const { chain } = await this.folderBreadcrumbs(folder._id.toString());
+      return { type: "folder", path: normalizedPath, item: folder, breadcrumbs: chain };
+    }
+
+    if (folderOnly) throw this.notFound(normalizedPath, lastSegment);
+
+    const file = await File.findOne({
+      businessId,
+      folderId: parentFolderId,
+      fileName: lastSegment,
+      deletedAt: null,
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean<FileLean>();
+    if (!file) throw this.notFound(normalizedPath, lastSegment);
+
+    await this.assertReadable(params.userId, "file", file._id);
+    const { chain } = await this.fileBreadcrumbs(file._id.toString());
+    return { type: "file", path: normalizedPath, item: file, breadcrumbs: chain };
+  }
+
+  private async assertReadable(userId: string, resource: Resource, resourceId: Types.ObjectId): Promise<void> {
+    const isAllowed = await hasPermission({ userId, resource, resourceId: resourceId.toString(), action: "read" });
+
+    if (!isAllowed) {
+      throw new AppError({
+        message: "Access denied",
+        statusCode: 403,
+        code: "FORBIDDEN",
+        details: { resource, action: "read" },
+      });
+    }
+  }
+
+  private toBreadcrumbs(ancestors: AncestorRow[], item: BreadcrumbEntry): Breadcrumbs {
+    const chain: BreadcrumbEntry[] = [...ancestors]
+      .sort((left, right) => right.depth - left.depth)
+      .map((ancestor) => ({ _id: ancestor._id, type: "folder", name: ancestor.folderName }));
+    chain.push(item);
+
+    return { chain, path: PATH_SEPARATOR + chain.map((entry) => entry.name).join(PATH_SEPARATOR) };
+  }
+
+  /**
+   * Ancestor chain of a folder (root first, the folder last).
+   */
+  async folderBreadcrumbs(folderId: string): Promise<Breadcrumbs> {
+    const [folder] = await Folder.aggregate<{ _id: Types.ObjectId; folderName: string; ancestors: AncestorRow[] }>([
+      { $match: { _id: toObjectId(folderId, "folder") } },
+      {
+        $graphLookup: {
+          from: Folder.collection.name,
+          startWith: "$parentFolderId",
+          connectFromField: "parentFolderId",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+        },
+      },
+      { $project: { folderName: 1, ancestors: { _id: 1, folderName: 1, depth: 1 } } },
+    ]);
+
+    if (!folder) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    return this.toBreadcrumbs(folder.ancestors, { _id: folder._id, type: "folder", name: folder.folderName });
+  }
+
+  /**
+   * Ancestor chain of a file (root first, the file last).
+   */
+  async fileBreadcrumbs(fileId: string): Promise<Breadcrumbs> {
+    const [file] = await File.aggregate<{ _id: Types.ObjectId; fileName: string; ancestors: AncestorRow[] }>([
+      { $match: { _id: toObjectId(fileId, "file") } },
+      {
+        $graphLookup: {
+          from: Folder.collection.name,
+          startWith: "$folderId",
+          connectFromField: "parentFolderId",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+        },
+      },
+      { $project: { fileName: 1, ancestors: { _id: 1, folderName: 1, depth: 1 } } },
+    ]);
+
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    return this.toBreadcrumbs(file.ancestors, { _id: file._id, type: "file", name: file.fileName });
+  }
+}
+
+export default new PathService();
\ No newline at end of file
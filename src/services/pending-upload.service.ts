@@ -0,0 +1,249 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File } from "../models/file.model";
+import { FileVersion } from "../models/file-version.model";
+import { PendingUpload, type PendingUploadLean } from "../models/pending-upload.model";
+import S3Service from "./s3.service";
+
+/**
+ * How long a reservation can be completed.
+ * Presigned PUT URLs live 1h; multipart uploads can legitimately take days.
+ */
+const SINGLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const MULTIPART_UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type ReapResult = {
+  reservations: number;
+  objectsDeleted: number;
+  multipartAborted: number;
+  bytesReclaimed: number;
+};
+
+/**
+ * Upload reservations (PendingUpload).
+ *
+ * Rules:
+ * - every issued s3Key has exactly one reservation
+ * - completion claims the reservation atomically (pending -> completing), so it is consumed once
+ * - a failed completion releases it (completing -> pending) so the client can retry
+ * - expired reservations are reaped: their objects/multipart parts are deleted
+ */
+class PendingUploadService {
+  async reserve(params: {
+    fileId: Types.ObjectId;
+    s3Key: string;
+    declaredSize: number;
+    userId: string;
+    businessId: string;
+    folderId?: string | null;
+    isNewVersion: boolean;
+    fileName?: string | null;
+    autorename?: boolean;
+    uploadId?: string | null;
+    fileRequestId?: Types.ObjectId | null;
+  }): Promise<PendingUploadLean> {
+    const ttlMs = params.uploadId ? MULTIPART_UPLOAD_TTL_MS : SINGLE_UPLOAD_TTL_MS;
+
+    const reservation = await PendingUpload.create({
+      fileId: params.fileId,
+      s3Key: params.s3Key,
+      declaredSize: params.declaredSize,
+      userId: new Types.ObjectId(params.userId),
+      businessId: new Types.ObjectId(params.businessId),
+      folderId: params.folderId ? new Types.ObjectId(params.folderId) : null,
+      isNewVersion: params.isNewVersion,
+      fileName: params.fileName ?? null,
+      autorename: params.autorename ?? false,
+      uploadId: params.uploadId ?? null,
+      fileRequestId: params.fileRequestId ?? null,
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+
+    return reservation.toObject() as PendingUploadLean;
+  }
+
+  /**
+   * Active reservation for a key, scoped to its business and uploader (multipart part/list/abort calls).
+   */
+  async getActive(params: {
+    s3Key: string;
+    businessId: string;
+    userId: string;
+    uploadId?: string;
+  }): Promise<PendingUploadLean> {
+    const reservation = await PendingUpload.findOne({
+      s3Key: params.s3Key,
+      businessId: new Types.ObjectId(params.businessId),
+      userId: new Types.ObjectId(params.userId),
+      status: "pending",
+      ...(params.uploadId ? { uploadId: params.uploadId } : {}),
+    }).lean<PendingUploadLean>();
+
+    if (!reservation) {
+      throw new AppError({
+        message: "s3Key does not match any upload issued by startUpload",
+        statusCode: 403,
+        code: "UPLOAD_KEY_MISMATCH",
+      });
+    }
+
+    if (reservation.expiresAt.getTime() <= Date.now()) {
+      throw new AppError({
+        message: "Upload reservation has expired. Start the upload again.",
+        statusCode: 410,
+        code: "UPLOAD_RESERVATION_EXPIRED",
+      });
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Storage promised to the unexpired reservations of a business (quota checks).
+   * New versions add bytes but no file.
+   */
+  async reservedTotals(businessId: Types.ObjectId): Promise<{ bytes: number; files: number }> {
+    const [totals] = await PendingUpload.aggregate<{ bytes: number; files: number }>([
+      { $match: { businessId, expiresAt: { $gt: new Date() } } },
+      {
+        $group: {
+          _id: null,
+          bytes: { $sum: "$declaredSize" },
+          files: { $sum: { $cond: ["$isNewVersion", 0, 1] } },
+        },
+      },
+    ]);
+
+    return { bytes: totals?.bytes ?? 0, files: totals?.files ?? 0 };
+  }
+
+  /**
+   * Atomically take the reservation for completion.
+   * Only the user who started the upload, for the same file and business, can claim it.
+   */
+  async claim(params: {
+    s3Key: string;
+    fileId: string;
+    businessId: string;
+    userId: string;
+  }): Promise<PendingUploadLean> {
+    const claimed = await PendingUpload.findOneAndUpdate(
+      {
+        s3Key: params.s3Key,
+        fileId: new Types.ObjectId(params.fileId),
+        businessId: new Types.ObjectId(params.businessId),
+        userId: new Types.ObjectId(params.userId),
+        status: "pending",
+        expiresAt: trusted({ $gt: new Date() }),
+      },
+      { $set: { status: "completing" } },
+      { new: true }
+    ).lean<PendingUploadLean>();
+
+    if (claimed) return claimed;
+
+    // Explain why (the atomic filter above is the only thing that grants the claim)
+    const reservation = await PendingUpload.findOne({ s3Key: params.s3Key }).lean<PendingUploadLean>();
+
+    const matchesCaller =
+      reservation &&
+      reservation.fileId.toString() === params.fileId &&
+      reservation.businessId.toString() === params.businessId &&
+      reservation.userId.toString() === params.userId;
+
+    if (!matchesCaller) {
+      throw new AppError({
+        message: "s3Key does not match the key issued by startUpload",
+        statusCode: 403,
+        code: "UPLOAD_KEY_MISMATCH",
+      });
+    }
+
+    if (reservation.status === "completing") {
+      throw new AppError({
+        message: "This upload is already being completed",
+        statusCode: 409,
+        code: "UPLOAD_ALREADY_COMPLETING",
+      });
+    }
+
+    throw new AppError({
+      message: "Upload reservation has expired. Start the upload again.",
+      statusCode: 410,
+      code: "UPLOAD_RESERVATION_EXPIRED",
+    });
+  }
+
+  /**
+   * Completion failed: give the reservation back so the client can retry.
+   */
+  async release(reservationId: Types.ObjectId): Promise<void> {
+    await PendingUpload.updateOne(
+      { _id: reservationId, status: "completing" },
+      { $set: { status: "pending" } }
+    );
+  }
+
+  /**
+   * Completion succeeded: the File/FileVersion now owns the object.
+   */
+  async consume(reservationId: Types.ObjectId): Promise<void> {
+    await PendingUpload.deleteOne({ _id: reservationId });
+  }
+
+  /**
+   * Client gave up (multipart abort).
+   */
+  async cancel(reservationId: Types.ObjectId): Promise<void> {
+    await PendingUpload.deleteOne({ _id: reservationId });
+  }
+
+  /**
+   * Delete the S3 data of expired reservations and report reclaimed storage.
+   * Objects already referenced by a File/FileVersion are never deleted.
+   */
+  async reapExpired(now: Date = new Date()): Promise<ReapResult> {
+    const result: ReapResult = { reservations: 0, objectsDeleted: 0, multipartAborted: 0, bytesReclaimed: 0 };
+
+    const expiredReservations = await PendingUpload.find({ expiresAt: trusted({ $lte: now }) })
+      .limit(500)
+      .lean<PendingUploadLean[]>();
+
+    for (const reservation of expiredReservations) {
+      const isReferenced =
+        (await File.exists({ s3Key: reservation.s3Key })) ||
+        (await FileVersion.exists({ s3Key: reservation.s3Key }));
+
+      if (!isReferenced) {
+        if (reservation.uploadId) {
+          const uploadedParts = await S3Service.listParts({
+            key: reservation.s3Key,
+            uploadId: reservation.uploadId,
+          }).catch(() => []);
+
+          await S3Service.abortMultipartUpload({ key: reservation.s3Key, uploadId: reservation.uploadId }).catch(
+            () => undefined // already completed or aborted
+          );
+
+          result.multipartAborted += 1;
+          result.bytesReclaimed += uploadedParts.reduce((total, part) => total + part.size, 0);
+        }
+
+        // A single PUT (or a completed multipart upload that was never registered) leaves an object
+        const storedObject = await S3Service.headObject(reservation.s3Key);
+        if (storedObject) {
+          await S3Service.deleteObject(reservation.s3Key);
+          result.objectsDeleted += 1;
+          result.bytesReclaimed += storedObject.contentLength;
+        }
+      }
+
+      await PendingUpload.deleteOne({ _id: reservation._id });
+      result.reservations += 1;
+    }
+
+    return result;
+  }
+}
+
+export default new PendingUploadService();
\ No newline at end of file
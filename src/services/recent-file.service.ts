@@ -0,0 +1,120 @@
+import { Types, trusted } from "mongoose";
+import { RecentFile, type RecentFileAction, type RecentFileLean } from "../models/recent-file.model";
+import { File, type FileLean } from "../models/file.model";
+import { User } from "../models/user.model";
+import { readableItemsFilter } from "../middleware/permissions.middleware";
+
+/**
+ * Entries kept per user (older ones are trimmed on write).
+ */
+export const RECENT_FILE_MAX_ENTRIES = 200;
+export const RECENT_FILE_MAX_LIMIT = 100;
+
+type RecentFileItem = {
+  lastAction: RecentFileAction;
+  lastActivityAt: Date;
+  file: FileLean;
+};
+
+type RecentFilePage = {
+  items: RecentFileItem[];
+  page: number;
+  limit: number;
+  total: number;
+};
+
+/**
+ * "Recent files" feed: uploads, opens (download URL issued) and edits.
+ *
+ * Rules:
+ * - one entry per (user, file), moved to the top on every activity
+ * - recording never fails the request that triggered it
+ * - listing only returns live files of the user's business that the user can still read
+ * - entries of files that no longer exist are removed while listing
+ */
+class RecentFileService {
+  async record(params: {
+    userId: string;
+    file: Pick<FileLean, "_id" | "businessId">;
+    action: RecentFileAction;
+  }): Promise<void> {
+    try {
+      const userObjectId = new Types.ObjectId(params.userId);
+
+      await RecentFile.updateOne(
+        { userId: userObjectId, fileId: params.file._id },
+        {
+          $set: { businessId: params.file.businessId, lastAction: params.action, lastActivityAt: new Date() },
+        },
+        { upsert: true }
+      );
+
+      const oldestKept = await RecentFile.findOne({ userId: userObjectId })
+        .sort({ lastActivityAt: -1 })
+        .skip(RECENT_FILE_MAX_ENTRIES - 1)
+        .select("lastActivityAt")
+        .lean<Pick<RecentFileLean, "_id" | "lastActivityAt">>();
+
+      if (oldestKept) {
+        await RecentFile.deleteMany({ userId: userObjectId, lastActivityAt: trusted({ $lt: oldestKept.lastActivityAt }) });
+      }
+    } catch (error) {
+      console.error("❌ Failed to record recent file activity:", error);
+    }
+  }
+
+  async listRecent(userId: string, options: { page?: number; limit?: number } = {}): Promise<RecentFilePage> {
+    if (!Types.ObjectId.isValid(userId)) throw new Error("Invalid userId");
+
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), RECENT_FILE_MAX_LIMIT);
+    const page = Math.max(options.page ?? 1, 1);
+
+    const user = await User.findById(userId).select("businessId").lean<{ businessId?: Types.ObjectId }>();
+
+    const entries = await RecentFile.find({ userId: new Types.ObjectId(userId) })
+      .sort({ lastActivityAt: -1, _id: -1 })
+      .lean<RecentFileLean[]>();
+
+    const fileIds = entries.map((entry) => entry.fileId);
+    const readable = await readableItemsFilter(userId, "file");
+
+    const existingFileIds: Types.ObjectId[] = await File.find({ _id: trusted({ $in: fileIds }) }).distinct("_id");
+    const visibleFiles = await File.find({
+      _id: trusted({ $in: fileIds }),
+      businessId: user?.businessId ?? null,
+      deletedAt: null,
+      ...(readable ?? {}),
+    }).lean<FileLean[]>();
+
+    const existingKeys = new Set(existingFileIds.map((fileId) => fileId.toString()));
+    const filesById = new Map(visibleFiles.map((file) => [file._id.toString(), file]));
+
+    const items: RecentFileItem[] = [];
+    const danglingEntryIds: Types.ObjectId[] = [];
+
+    for (const entry of entries) {
+      const fileKey = entry.fileId.toString();
+
+      if (!existingKeys.has(fileKey)) {
+        danglingEntryIds.push(entry._id);
+        continue;
+      }
+
+      const file = filesById.get(fileKey);
+      if (file) items.push({ lastAction: entry.lastAction, lastActivityAt: entry.lastActivityAt, file });
+    }
+
+    if (danglingEntryIds.length > 0) {
+      await RecentFile.deleteMany({ _id: trusted({ $in: danglingEntryIds }) });
+    }
+
+    return {
+      items: items.slice((page - 1) * limit, page * limit),
+      page,
+      limit,
+      total: items.length,
+    };
+  }
+}
+
+export default new RecentFileService();
\ No newline at end of file
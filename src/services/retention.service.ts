@@ -0,0 +1,467 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import type { LegalHoldLean } from "../models/legal-hold.model";
+import { RetentionRule, type RetentionRuleLean } from "../models/retention-rule.model";
+import legalHoldService from "./legal-hold.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error codes thrown by the delete guards (sweeps skip these items instead of failing)
+ */
+const RETENTION_BLOCK_CODES = new Set(["LEGAL_HOLD_ACTIVE", "RETENTION_PERIOD_ACTIVE"]);
+
+export function isRetentionBlock(error: unknown): boolean {
+  return error instanceof AppError && RETENTION_BLOCK_CODES.has(error.code ?? "");
+}
+
+type FolderNode = Pick<FolderLean, "_id" | "parentFolderId">;
+
+/**
+ * Retention in force for the files of one folder (rules of the folder and its ancestors combined)
+ */
+type EffectivePolicy = {
+  minRetentionDays: number | null;
+  autoDeleteAfterDays: number | null;
+  /** Folder whose rule sets the auto-delete */
+  autoDeleteRuleFolderId: Types.ObjectId | null;
+};
+
+export type AutoDeleteCandidate = {
+  fileId: Types.ObjectId;
+  fileName: string;
+  businessId: Types.ObjectId;
+  folderId: Types.ObjectId;
+  createdAt: Date;
+  autoDeleteAfterDays: number;
+  ruleFolderId: Types.ObjectId;
+};
+
+/**
+ * Max, ignoring nulls (null when both are null)
+ */
+function longestDays(left: number | null, right: number | null | undefined): number | null {
+  if (right == null) return left;
+  if (left == null) return right;
+  return Math.max(left, right);
+}
+
+/**
+ * Folder retention rules and the delete guards shared by every permanent delete path.
+ *
+ * Rules:
+ * - rules apply to the whole subtree; nested rules combine (longest minimum, nearest auto-delete)
+ * - a file younger than its minimum retention cannot be permanently deleted
+ * - an active legal hold (see LegalHoldService) blocks permanent deletion regardless of age
+ * - auto-delete removes files once older than max(autoDelete, minimum); held files are skipped
+ * - trashing is not a permanent delete: protected items stay in the trash until they may go
+ */
+class RetentionService {
+  private assertValidId(id: string, label: string): void {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError({ message: `Invalid ${label} ID`, statusCode: 400, code: "VALIDATION_ERROR" });
+    }
+  }
+
+  private holdError(hold: LegalHoldLean): AppError {
+    return new AppError({
+      message: "This item is under legal hold and cannot be deleted",
+      statusCode: 423,
+      code: "LEGAL_HOLD_ACTIVE",
+      details: { holdId: hold._id.toString(), targetType: hold.targetType, targetId: hold.targetId.toString() },
+    });
+  }
+
+  private retentionError(details: { minRetentionDays: number; retainUntil?: Date; folderId: Types.ObjectId }): AppError {
+    return new AppError({
+      message: `Files here must be kept for at least ${details.minRetentionDays} day(s)`,
+      statusCode: 423,
+      code: "RETENTION_PERIOD_ACTIVE",
+      details: {
+        minRetentionDays: details.minRetentionDays,
+        folderId: details.folderId.toString(),
+        ...(details.retainUntil ? { retainUntil: details.retainUntil } : {}),
+      },
+    });
+  }
+
+  async listRules(businessId: string): Promise<RetentionRuleLean[]> {
+    this.assertValidId(businessId, "business");
+
+    return RetentionRule.find({ businessId: new Types.ObjectId(businessId) })
+      .sort({ createdAt: 1 })
+      .lean<RetentionRuleLean[]>();
+  }
+
+  /**
+   * Create or replace the rule of a folder.
+   */
+  async setRule(params: {
+    businessId: string;
+    folderId: string;
+    userId: string;
+    minRetentionDays: number | null;
+    autoDeleteAfterDays: number | null;
+  }): Promise<RetentionRuleLean> {
+    this.assertValidId(params.businessId, "business");
+    this.assertValidId(params.folderId, "folder");
+
+    const { minRetentionDays, autoDeleteAfterDays } = params;
+
+    if (minRetentionDays == null && autoDeleteAfterDays == null) {
+      throw new AppError({
+        message: "Set minRetentionDays and/or autoDeleteAfterDays (or delete the rule)",
+        statusCode: 400,
+        code: "RETENTION_RULE_INVALID",
+      });
+    }
+
+    if (minRetentionDays != null && autoDeleteAfterDays != null && autoDeleteAfterDays < minRetentionDays) {
+      throw new AppError({
+        message: "autoDeleteAfterDays cannot be shorter than minRetentionDays",
+        statusCode: 400,
+        code: "RETENTION_RULE_INVALID",
+      });
+    }
+
+    const businessId = new Types.ObjectId(params.businessId);
+    const folderId = new Types.ObjectId(params.folderId);
+
+    const folderExists = await Folder.exists({ _id: folderId, businessId, deletedAt: null });
+    if (!folderExists) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    const userId = new Types.ObjectId(params.userId);
+
+    const rule = await RetentionRule.findOneAndUpdate(
+      { folderId },
+      {
+        $set: { minRetentionDays, autoDeleteAfterDays, updatedBy: userId },
+        $setOnInsert: { businessId, folderId, createdBy: userId },
+      },
+      { upsert: true, new: true, runValidators: true }
+    ).lean<RetentionRuleLean>();
+
+    return rule!;
+  }
+
+  async removeRule(businessId: string, folderId: string): Promise<void> {
+    this.assertValidId(businessId, "business");
+    this.assertValidId(folderId, "folder");
+
+    const removed = await RetentionRule.findOneAndDelete({
+      businessId: new Types.ObjectId(businessId),
+      folderId: new Types.ObjectId(folderId),
+    });
+
+    if (!removed) {
+      throw new AppError({ message: "Retention rule not found", statusCode: 404, code: "RETENTION_RULE_NOT_FOUND" });
+    }
+  }
+
+  /**
+   * Drop the rules of permanently deleted folders.
+   */
+  async removeRulesForFolders(folderIds: Types.ObjectId[]): Promise<void> {
+    if (folderIds.length === 0) return;
+    await RetentionRule.deleteMany({ folderId: trusted({ $in: folderIds }) });
+  }
+
+  /**
+   * `folderId` and every folder above it.
+   */
+  private async folderChain(folderId: Types.ObjectId): Promise<Types.ObjectId[]> {
+    const [result] = await Folder.aggregate<{ ancestors: FolderNode[] }>([
+      { $match: { _id: folderId } },
+      {
+        $graphLookup: {
+          from: "folders",
+          startWith: "$parentFolderId",
+          connectFromField: "parentFolderId",
+          connectToField: "_id",
+          as: "ancestors",
+        },
+      },
+      { $project: { "ancestors._id": 1 } },
+    ]);
+
+    return [folderId, ...(result?.ancestors ?? []).map((ancestor) => ancestor._id)];
+  }
+
+  /**
+   * Every folder below `folderId` (trashed ones included: a hard delete removes them too).
+   */
+  private async descendantFolders(folderId: Types.ObjectId): Promise<FolderNode[]> {
+    const [result] = await Folder.aggregate<{ descendants: FolderNode[] }>([
+      { $match: { _id: folderId } },
+      {
+        $graphLookup: {
+          from: "folders",
+          startWith: "$_id",
+          connectFromField: "_id",
+          connectToField: "parentFolderId",
+          as: "descendants",
+        },
+      },
+      { $project: { "descendants._id": 1, "descendants.parentFolderId": 1 } },
+    ]);
+
+    return result?.descendants ?? [];
+  }
+
+  /**
+   * Effective policy of every folder reachable from `roots`, walking down `folders`.
+   * `inherited` is what the roots receive from above.
+   */
+  private resolvePolicies(
+    roots: Types.ObjectId[],
+    folders: FolderNode[],
+    rulesByFolderId: Map<string, RetentionRuleLean>,
+    inherited: EffectivePolicy
+  ): Map<string, EffectivePolicy> {
+    const childrenByParentId = new Map<string, Types.ObjectId[]>();
+    for (const folder of folders) {
+      if (!folder.parentFolderId) continue;
+      const parentKey = folder.parentFolderId.toString();
+      childrenByParentId.set(parentKey, [...(childrenByParentId.get(parentKey) ?? []), folder._id]);
+    }
+
+    const policies = new Map<string, EffectivePolicy>();
+    const stack = roots.map((folderId) => ({ folderId, parentPolicy: inherited }));
+
+    while (stack.length > 0) {
+      const { folderId, parentPolicy } = stack.pop()!;
+      const folderKey = folderId.toString();
+      const rule = rulesByFolderId.get(folderKey);
+
+      const policy: EffectivePolicy = {
+        minRetentionDays: longestDays(parentPolicy.minRetentionDays, rule?.minRetentionDays),
+        autoDeleteAfterDays: rule?.autoDeleteAfterDays ?? parentPolicy.autoDeleteAfterDays,
+        autoDeleteRuleFolderId: rule?.autoDeleteAfterDays ? folderId : parentPolicy.autoDeleteRuleFolderId,
+      };
+      policies.set(folderKey, policy);
+
+      for (const childId of childrenByParentId.get(folderKey) ?? []) {
+        stack.push({ folderId: childId, parentPolicy: policy });
+      }
+    }
+
+    return policies;
+  }
+
+  /**
+   * Keys of `heldFolderIds` and every folder below them in `folders`.
+   */
+  private heldFolderKeys(heldFolderIds: Types.ObjectId[], folders: FolderNode[]): Set<string> {
+    const childKeysByParentKey = new Map<string, string[]>();
+    for (const folder of folders) {
+      if (!folder.parentFolderId) continue;
+      const parentKey = folder.parentFolderId.toString();
+      childKeysByParentKey.set(parentKey, [...(childKeysByParentKey.get(parentKey) ?? []), folder._id.toString()]);
+    }
+
+    const heldKeys = new Set<string>();
+    const stack = heldFolderIds.map((folderId) => folderId.toString());
+
+    while (stack.length > 0) {
+      const folderKey = stack.pop()!;
+      if (heldKeys.has(folderKey)) continue;
+
+      heldKeys.add(folderKey);
+      stack.push(...(childKeysByParentKey.get(folderKey) ?? []));
+    }
+
+    return heldKeys;
+  }
+
+  private async rulesByFolderId(filter: Record<string, unknown>): Promise<Map<string, RetentionRuleLean>> {
+    const rules = await RetentionRule.find(filter).lean<RetentionRuleLean[]>();
+    return new Map(rules.map((rule) => [rule.folderId.toString(), rule]));
+  }
+
+  /**
+   * Throw unless the file may be permanently deleted.
+   * `holdsOnly` skips the minimum retention (ex: removing an old version).
+   */
+  async assertFileDeletable(
+    file: Pick<FileLean, "_id" | "businessId" | "folderId" | "createdAt">,
+    options: { holdsOnly?: boolean } = {}
+  ): Promise<void> {
+    const folderChain = file.folderId ? await this.folderChain(file.folderId) : [];
+
+    const hold = await legalHoldService.findActiveHold({
+      businessId: file.businessId,
+      fileIds: [file._id],
+      folderIds: folderChain,
+    });
+    if (hold) throw this.holdError(hold);
+
+    if (options.holdsOnly || folderChain.length === 0) return;
+
+    const rules = await RetentionRule.find({
+      folderId: trusted({ $in: folderChain }),
+      minRetentionDays: trusted({ $ne: null }),
+    }).lean<RetentionRuleLean[]>();
+    if (rules.length === 0) return;
+
+    const strictestRule = rules.reduce((strictest, rule) =>
+      rule.minRetentionDays! > strictest.minRetentionDays! ? rule : strictest
+    );
+    const retainUntil = new Date(file.createdAt.getTime() + strictestRule.minRetentionDays! * DAY_MS);
+
+    if (retainUntil.getTime() > Date.now()) {
+      throw this.retentionError({
+        minRetentionDays: strictestRule.minRetentionDays!,
+        retainUntil,
+        folderId: strictestRule.folderId,
+      });
+    }
+  }
+
+  /**
+   * Throw unless the folder and everything below it may be permanently deleted.
+   */
+  async assertFolderDeletable(folder: Pick<FolderLean, "_id" | "businessId" | "parentFolderId">): Promise<void> {
+    const ancestorIds = folder.parentFolderId ? await this.folderChain(folder.parentFolderId) : [];
+    const descendants = await this.descendantFolders(folder._id);
+    const subtreeIds = [folder._id, ...descendants.map((descendant) => descendant._id)];
+
+    const hold = await legalHoldService.findActiveHold({
+      businessId: folder.businessId,
+      folderIds: [...ancestorIds, ...subtreeIds],
+      fileFolderIds: subtreeIds,
+    });
+    if (hold) throw this.holdError(hold);
+
+    const rulesByFolderId = await this.rulesByFolderId({
+      folderId: trusted({ $in: [...ancestorIds, ...subtreeIds] }),
+    });
+    if (rulesByFolderId.size === 0) return;
+
+    const inheritedMinimum = ancestorIds.reduce<number | null>(
+      (minimum, ancestorId) => longestDays(minimum, rulesByFolderId.get(ancestorId.toString())?.minRetentionDays),
+      null
+    );
+
+    const policies = this.resolvePolicies([folder._id], descendants, rulesByFolderId, {
+      minRetentionDays: inheritedMinimum,
+      autoDeleteAfterDays: null,
+      autoDeleteRuleFolderId: null,
+    });
+
+    await this.assertNoRetainedFiles(policies);
+  }
+
+  /**
+   * Throw unless every record of the business may be deleted (account deletion).
+   */
+  async assertBusinessDeletable(businessId: Types.ObjectId): Promise<void> {
+    if (await legalHoldService.hasActiveHolds(businessId)) {
+      throw new AppError({
+        message: "This business has active legal holds and cannot be deleted",
+        statusCode: 423,
+        code: "LEGAL_HOLD_ACTIVE",
+      });
+    }
+
+    const rulesByFolderId = await this.rulesByFolderId({ businessId, minRetentionDays: trusted({ $ne: null }) });
+    if (rulesByFolderId.size === 0) return;
+
+    const folders = await Folder.find({ businessId }).select("_id parentFolderId").lean<FolderNode[]>();
+    const roots = folders.filter((folder) => !folder.parentFolderId).map((folder) => folder._id);
+
+    const policies = this.resolvePolicies(roots, folders, rulesByFolderId, {
+      minRetentionDays: null,
+      autoDeleteAfterDays: null,
+      autoDeleteRuleFolderId: null,
+    });
+
+    await this.assertNoRetainedFiles(policies);
+  }
+
+  /**
+   * Throw if a folder holds a file younger than its effective minimum retention.
+   */
+  private async assertNoRetainedFiles(policies: Map<string, EffectivePolicy>): Promise<void> {
+    const now = Date.now();
+
+    for (const [folderKey, policy] of policies) {
+      if (!policy.minRetentionDays) continue;
+
+      const retainedFile = await File.exists({
+        folderId: new Types.ObjectId(folderKey),
+        createdAt: trusted({ $gt: new Date(now - policy.minRetentionDays * DAY_MS) }),
+      });
+
+      if (retainedFile) {
+        throw this.retentionError({
+          minRetentionDays: policy.minRetentionDays,
+          folderId: new Types.ObjectId(folderKey),
+        });
+      }
+    }
+  }
+
+  /**
+   * Files past their auto-delete age (at most `limit`), trashed ones included.
+   * Held files are left out here, so they never fill the batch and starve the others;
+   * the delete itself checks holds again.
+   */
+  async findAutoDeleteCandidates(now: Date = new Date(), limit = 500): Promise<AutoDeleteCandidate[]> {
+    const businessIds: Types.ObjectId[] = await RetentionRule.find({
+      autoDeleteAfterDays: trusted({ $ne: null }),
+    }).distinct("businessId");
+
+    const candidates: AutoDeleteCandidate[] = [];
+
+    for (const businessId of businessIds) {
+      const rulesByFolderId = await this.rulesByFolderId({ businessId });
+      const folders = await Folder.find({ businessId }).select("_id parentFolderId").lean<FolderNode[]>();
+      const roots = folders.filter((folder) => !folder.parentFolderId).map((folder) => folder._id);
+
+      const policies = this.resolvePolicies(roots, folders, rulesByFolderId, {
+        minRetentionDays: null,
+        autoDeleteAfterDays: null,
+        autoDeleteRuleFolderId: null,
+      });
+      const holdTargets = await legalHoldService.activeHoldTargets(businessId);
+      const heldFolderKeys = this.heldFolderKeys(holdTargets.folderIds, folders);
+
+      for (const [folderKey, policy] of policies) {
+        if (!policy.autoDeleteAfterDays || !policy.autoDeleteRuleFolderId) continue;
+        if (heldFolderKeys.has(folderKey)) continue;
+
+        const deleteAfterDays = longestDays(policy.autoDeleteAfterDays, policy.minRetentionDays)!;
+        const expiredFiles = await File.find({
+          folderId: new Types.ObjectId(folderKey),
+          createdAt: trusted({ $lte: new Date(now.getTime() - deleteAfterDays * DAY_MS) }),
+          ...(holdTargets.fileIds.length > 0 ? { _id: trusted({ $nin: holdTargets.fileIds }) } : {}),
+        })
+          .select("_id fileName businessId folderId createdAt")
+          .limit(limit - candidates.length)
+          .lean<Array<Pick<FileLean, "_id" | "fileName" | "businessId" | "folderId" | "createdAt">>>();
+
+        for (const expiredFile of expiredFiles) {
+          candidates.push({
+            fileId: expiredFile._id,
+            fileName: expiredFile.fileName,
+            businessId: expiredFile.businessId,
+            folderId: expiredFile.folderId!,
+            createdAt: expiredFile.createdAt,
+            autoDeleteAfterDays: policy.autoDeleteAfterDays,
+            ruleFolderId: policy.autoDeleteRuleFolderId,
+          });
+        }
+
+        if (candidates.length >= limit) return candidates;
+      }
+    }
+
+    return candidates;
+  }
+}
+
+export default new RetentionService();
\ No newline at end of file
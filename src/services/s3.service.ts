@@ -1,20 +1,30 @@
 import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
   CopyObjectCommand,
+  CreateMultipartUploadCommand,
   DeleteObjectCommand,
   DeleteObjectsCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
+  ListPartsCommand,
   PutObjectCommand,
+  UploadPartCommand,
   type S3Client,
 } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { Readable } from "stream";
 import { getClients } from "../infra/clients";
+import { contentDispositionFor } from "../utils/name.utils";
 
 /**
  * Production-grade S3 service for a presigned-URL architecture.
  *
  * Core rules:
- * - API never streams file bytes (client uploads/downloads directly to S3).
+ * - API never streams file bytes to/from clients (client uploads/downloads directly to S3).
+ *   Background jobs may stream S3 -> S3 (ex: ZIP exports).
  * - API generates presigned URLs + performs server-side maintenance (delete/copy/move).
  * - MongoDB is the source of truth for file/folder metadata.
  */
@@ -27,6 +37,11 @@ class S3Service {
    */
   private static readonly MAX_PRESIGN_SECONDS = 60 * 60; // 3600
 
+  /**
+   * DeleteObjects limit per request.
+   */
+  private static readonly MAX_DELETE_KEYS = 1000;
+
   private get bucketName(): string {
     const configuredBucketName = process.env.S3_BUCKET_NAME;
     if (!configuredBucketName) {
@@ -54,30 +69,38 @@ class S3Service {
 
   /**
    * Presigned URL for downloading an object (GET).
+   * Pass the display `fileName` so browsers save the download under it (keys are sanitized).
    */
-  async presignDownload(objectKey: string, expiresInSeconds?: number): Promise<string> {
+  async presignDownload(
+    objectKey: string,
+    options: { expiresInSeconds?: number; fileName?: string } = {}
+  ): Promise<string> {
     if (!objectKey) throw new Error("Missing S3 object key");
 
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: objectKey,
+      ...(options.fileName ? { ResponseContentDisposition: contentDispositionFor(options.fileName) } : {}),
     });
 
     return getSignedUrl(this.s3Client, command, {
-      expiresIn: this.normalizeExpirySeconds(expiresInSeconds),
+      expiresIn: this.normalizeExpirySeconds(options.expiresInSeconds),
     });
   }
 
   /**
    * Presigned URL for uploading an object (PUT).
    * If you provide contentType, the client MUST upload with that Content-Type.
+   * If you provide checksumSha256 (base64), the client MUST send it as
+   * `x-amz-checksum-sha256` and S3 rejects bytes that do not match.
    */
   async presignUpload(params: {
     key: string;
     contentType?: string;
+    checksumSha256?: string;
     expiresInSeconds?: number;
   }): Promise<string> {
-    const { key: objectKey, contentType, expiresInSeconds } = params;
+    const { key: objectKey, contentType, checksumSha256, expiresInSeconds } = params;
 
     if (!objectKey) throw new Error("Missing S3 object key");
 
@@ -85,6 +108,93 @@ class S3Service {
       Bucket: this.bucketName,
       Key: objectKey,
       ...(contentType ? { ContentType: contentType } : {}),
+      ...(checksumSha256 ? { ChecksumSHA256: checksumSha256 } : {}),
+    });
+
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn: this.normalizeExpirySeconds(expiresInSeconds),
+    });
+  }
+
+  /**
+   * Object metadata (HEAD) without downloading bytes.
+   * Returns null when the object does not exist.
+   */
+  async headObject(objectKey: string): Promise<{
+    contentLength: number;
+    contentType: string | null;
+    checksumSha256: string | null;
+    lastModified: Date | null;
+  } | null> {
+    if (!objectKey) throw new Error("Missing S3 object key");
+
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucketName,
+          Key: objectKey,
+          ChecksumMode: "ENABLED",
+        })
+      );
+
+      return {
+        contentLength: response.ContentLength ?? 0,
+        contentType: response.ContentType ?? null,
+        checksumSha256: response.ChecksumSHA256 ?? null,
+        lastModified: response.LastModified ?? null,
+      };
+    } catch (error) {
+      const statusCode = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (statusCode === 404 || (error as { name?: string }).name === "NotFound") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start a multipart upload (large files / resumable uploads).
+   * If you provide contentType, it is stored on the final object.
+   */
+  async createMultipartUpload(params: { key: string; contentType?: string }): Promise<string> {
+    const { key: objectKey, contentType } = params;
+
+    if (!objectKey) throw new Error("Missing S3 object key");
+
+    const response = await this.s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+        ...(contentType ? { ContentType: contentType } : {}),
+      })
+    );
+
+    if (!response.UploadId) {
+      throw new Error("S3 did not return an UploadId");
+    }
+
+    return response.UploadId;
+  }
+
+  /**
+   * Presigned URL for uploading ONE part (PUT).
+   * The client must keep the ETag response header to complete the upload.
+   */
+  async presignUploadPart(params: {
+    key: string;
+    uploadId: string;
+    partNumber: number;
+    expiresInSeconds?: number;
+  }): Promise<string> {
+    const { key: objectKey, uploadId, partNumber, expiresInSeconds } = params;
+
+    if (!objectKey || !uploadId) throw new Error("Missing S3 object key or uploadId");
+
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      UploadId: uploadId,
+      PartNumber: partNumber,
     });
 
     return getSignedUrl(this.s3Client, command, {
@@ -92,6 +202,87 @@ class S3Service {
     });
   }
 
+  /**
+   * Parts already uploaded for a multipart upload (used to resume).
+   * Uses pagination safely.
+   */
+  async listParts(params: {
+    key: string;
+    uploadId: string;
+  }): Promise<Array<{ partNumber: number; eTag: string; size: number }>> {
+    const { key: objectKey, uploadId } = params;
+
+    if (!objectKey || !uploadId) throw new Error("Missing S3 object key or uploadId");
+
+    const parts: Array<{ partNumber: number; eTag: string; size: number }> = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const listResponse = await this.s3Client.send(
+        new ListPartsCommand({
+          Bucket: this.bucketName,
+          Key: objectKey,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        })
+      );
+
+      for (const part of listResponse.Parts ?? []) {
+        if (part.PartNumber === undefined || !part.ETag) continue;
+        parts.push({ partNumber: part.PartNumber, eTag: part.ETag, size: part.Size ?? 0 });
+      }
+
+      partNumberMarker = listResponse.IsTruncated ? listResponse.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  /**
+   * Assemble uploaded parts into the final object.
+   * Parts must be sorted by part number (done here).
+   */
+  async completeMultipartUpload(params: {
+    key: string;
+    uploadId: string;
+    parts: Array<{ partNumber: number; eTag: string }>;
+  }): Promise<void> {
+    const { key: objectKey, uploadId, parts } = params;
+
+    if (!objectKey || !uploadId) throw new Error("Missing S3 object key or uploadId");
+    if (parts.length === 0) throw new Error("Cannot complete a multipart upload without parts");
+
+    const sortedParts = [...parts].sort((left, right) => left.partNumber - right.partNumber);
+
+    await this.s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: sortedParts.map((part) => ({ PartNumber: part.partNumber, ETag: part.eTag })),
+        },
+      })
+    );
+  }
+
+  /**
+   * Abort a multipart upload and free the storage used by its parts.
+   */
+  async abortMultipartUpload(params: { key: string; uploadId: string }): Promise<void> {
+    const { key: objectKey, uploadId } = params;
+
+    if (!objectKey || !uploadId) return;
+
+    await this.s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+        UploadId: uploadId,
+      })
+    );
+  }
+
   /**
    * Delete a single object.
    */
@@ -108,20 +299,36 @@ class S3Service {
 
   /**
    * Delete multiple objects (batch).
+   * S3 takes at most 1000 keys per DeleteObjects request; per-key failures are reported
+   * in the response (not thrown), so they are collected and raised here.
    */
   async deleteObjects(objectKeys: string[]): Promise<void> {
     const filteredKeys = objectKeys.filter((key) => Boolean(key));
     if (filteredKeys.length === 0) return;
 
-    await this.s3Client.send(
-      new DeleteObjectsCommand({
-        Bucket: this.bucketName,
-        Delete: {
-          Objects: filteredKeys.map((key) => ({ Key: key })),
-          Quiet: true,
-        },
-      })
-    );
+    const failedKeys: string[] = [];
+
+    for (let batchStart = 0; batchStart < filteredKeys.length; batchStart += S3Service.MAX_DELETE_KEYS) {
+      const batch = filteredKeys.slice(batchStart, batchStart + S3Service.MAX_DELETE_KEYS);
+
+      const response = await this.s3Client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: {
+            Objects: batch.map((key) => ({ Key: key })),
+            Quiet: true,
+          },
+        })
+      );
+
+      for (const error of response.Errors ?? []) {
+        failedKeys.push(`${error.Key ?? "?"} (${error.Code ?? "unknown error"})`);
+      }
+    }
+
+    if (failedKeys.length > 0) {
+      throw new Error(`Failed to delete ${failedKeys.length} S3 object(s): ${failedKeys.slice(0, 10).join(", ")}`);
+    }
   }
 
   /**
@@ -185,6 +392,85 @@ class S3Service {
     await this.copyObject(params);
     await this.deleteObject(params.sourceKey);
   }
+
+  /**
+   * Object body as a Node stream (server-side jobs only, ex: ZIP export).
+   */
+  async getObjectStream(objectKey: string): Promise<Readable> {
+    if (!objectKey) throw new Error("Missing S3 object key");
+
+    const response = await this.s3Client.send(
+      new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+      })
+    );
+
+    if (!response.Body) {
+      throw new Error(`S3 returned no body for ${objectKey}`);
+    }
+
+    return response.Body as Readable;
+  }
+
+  /**
+   * Upload a stream of unknown length (multipart under the hood).
+   * `signal` aborts the upload and frees the parts already sent.
+   */
+  async uploadStream(params: {
+    key: string;
+    body: Readable;
+    contentType?: string;
+    signal?: AbortSignal;
+  }): Promise<void> {
+    const { key: objectKey, body, contentType, signal } = params;
+
+    if (!objectKey) throw new Error("Missing S3 object key");
+
+    const upload = new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.bucketName,
+        Key: objectKey,
+        Body: body,
+        ...(contentType ? { ContentType: contentType } : {}),
+      },
+      leavePartsOnError: false,
+    });
+
+    signal?.addEventListener("abort", () => void upload.abort(), { once: true });
+
+    await upload.done();
+  }
+
+  /**
+   * List every object under a prefix (paginated internally).
+   */
+  async listObjects(prefix: string): Promise<Array<{ key: string; size: number; lastModified: Date | null }>> {
+    if (!prefix) throw new Error("Missing S3 prefix");
+
+    const objects: Array<{ key: string; size: number; lastModified: Date | null }> = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const listResponse = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of listResponse.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({ key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? null });
+      }
+
+      continuationToken = listResponse.IsTruncated ? listResponse.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
 }
 
 export default new S3Service();
\ No newline at end of file
@@ -0,0 +1,405 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File } from "../models/file.model";
+import { Folder } from "../models/folder.model";
+import folderService from "./folder.service";
+import { readableItemsFilter } from "../middleware/permissions.middleware";
+
+export const SEARCH_ITEM_TYPES = ["file", "folder"] as const;
+export type SearchItemType = (typeof SEARCH_ITEM_TYPES)[number];
+
+export const SEARCH_SORT_FIELDS = ["relevance", "name", "size", "createdAt", "updatedAt"] as const;
+export type SearchSortField = (typeof SEARCH_SORT_FIELDS)[number];
+
+export const SEARCH_MAX_LIMIT = 100;
+export const SEARCH_MAX_PAGE = 100;
+
+type SearchParams = {
+  businessId: string;
+  userId: string;
+  q?: string;
+  type?: SearchItemType;
+  contentType?: string;
+  minSize?: number;
+  maxSize?: number;
+  ownerId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  folderId?: string;
+  sort?: SearchSortField;
+  order?: "asc" | "desc";
+  page?: number;
+  limit?: number;
+};
+
+/**
+ * One search result (files and folders share the same shape).
+ * `path` is the containing folder path ("/" for the business root).
+ */
+type SearchHit = {
+  _id: Types.ObjectId;
+  type: SearchItemType;
+  name: string;
+  businessId: Types.ObjectId;
+  parentFolderId: Types.ObjectId | null;
+  userId: Types.ObjectId;
+  contentType: string | null;
+  fileSize: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  score?: number;
+  path: string;
+};
+
+type SearchResult = {
+  items: SearchHit[];
+  page: number;
+  limit: number;
+  total: number;
+};
+
+/**
+ * Raw document as read from either collection.
+ */
+type MatchedDocument = {
+  _id: Types.ObjectId;
+  businessId: Types.ObjectId;
+  userId: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  score?: number;
+  fileName?: string;
+  folderId?: Types.ObjectId | null;
+  fileSize?: number;
+  contentType?: string | null;
+  folderName?: string;
+  parentFolderId?: Types.ObjectId | null;
+};
+
+type NameField = "fileName" | "folderName";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Characters that start a new word inside a name ("q3-report_final.pdf").
+ */
+const WORD_SEPARATORS = "[\\s._()\\[\\]-]";
+
+/**
+ * Every term of `searchText` somewhere in the name (case-insensitive, any position).
+ */
+function nameFilter(nameField: NameField, searchText: string): Record<string, unknown> {
+  const terms = searchText.split(/\s+/).filter(Boolean);
+
+  return {
+    $and: terms.map((term) => ({ [nameField]: trusted({ $regex: escapeRegExp(term), $options: "i" }) })),
+  };
+}
+
+/**
+ * Relevance of a matching name: exact name > name prefix > start of a word > anywhere.
+ */
+function nameRank(nameField: NameField, searchText: string): Record<string, unknown> {
+  const text = escapeRegExp(searchText);
+  const matches = (regex: string) => ({ $regexMatch: { input: `$${nameField}`, regex, options: "i" } });
+
+  return {
+    $switch: {
+      branches: [
+        { case: matches(`^${text}$`), then: 4 },
+        { case: matches(`^${text}`), then: 3 },
+        { case: matches(`${WORD_SEPARATORS}${text}`), then: 2 },
+      ],
+      default: 1,
+    },
+  };
+}
+
+/**
+ * { $gte, $lte } for an optional range (undefined when both ends are missing).
+ */
+function rangeFilter<T>(from: T | undefined, to: T | undefined): Record<string, T> | undefined {
+  if (from === undefined && to === undefined) return undefined;
+
+  return {
+    ...(from !== undefined ? { $gte: from } : {}),
+    ...(to !== undefined ? { $lte: to } : {}),
+  };
+}
+
+/**
+ * Business-wide search over file and folder names.
+ *
+ * Rules:
+ * - `q` matches names containing every word of it, anywhere (case-insensitive: "port" finds "Report.pdf")
+ * - relevance ranks exact names first, then name prefixes, then word starts, then any other match
+ * - trashed items never match
+ * - only items the caller can read are returned (same rules as `checkPermission`:
+ *   owner, global "read" permission, or a specific "read" permission on the item)
+ * - file-only filters (contentType, size) exclude folders
+ */
+class SearchService {
+  private sortSpec(
+    sort: SearchSortField,
+    direction: 1 | -1,
+    nameField: NameField
+  ): Record<string, 1 | -1> {
+    switch (sort) {
+      case "relevance":
+        return { score: -1, _id: 1 };
+      case "name":
+        return { [nameField]: direction, _id: 1 };
+      case "size":
+        return nameField === "fileName" ? { fileSize: direction, _id: 1 } : { _id: 1 };
+      default:
+        return { [sort]: direction, _id: 1 };
+    }
+  }
+
+  /**
+   * Same order as `sortSpec`, used to merge the file and folder result lists.
+   */
+  private compareHits(sort: SearchSortField, direction: 1 | -1): (left: SearchHit, right: SearchHit) => number {
+    const sortValue = (hit: SearchHit): number | string => {
+      switch (sort) {
+        case "relevance":
+          return -(hit.score ?? 0);
+        case "name":
+          return hit.name;
+        case "size":
+          return hit.fileSize ?? 0;
+        default:
+          return hit[sort].getTime();
+      }
+    };
+    const sortDirection = sort === "relevance" ? 1 : direction;
+
+    return (left, right) => {
+      const leftValue = sortValue(left);
+      const rightValue = sortValue(right);
+      if (leftValue !== rightValue) return (leftValue < rightValue ? -1 : 1) * sortDirection;
+      return left._id.toString() < right._id.toString() ? -1 : 1;
+    };
+  }
+
+  /**
+   * First `fetchCount` readable matches of one collection, in page order, plus the total.
+   */
+  private async findMatches(
+    resource: SearchItemType,
+    filter: Record<string, unknown>,
+    options: {
+      userId: Types.ObjectId;
+      sort: SearchSortField;
+      direction: 1 | -1;
+      fetchCount: number;
+      searchText?: string;
+    }
+  ): Promise<[MatchedDocument[], number]> {
+    const nameField: NameField = resource === "file" ? "fileName" : "folderName";
+    const readable = await readableItemsFilter(options.userId.toString(), resource);
+    const readableMatchFilter = {
+      ...filter,
+      ...(readable ?? {}),
+      ...(options.searchText ? nameFilter(nameField, options.searchText) : {}),
+    };
+    const projection =
+      resource === "file"
+        ? { fileName: 1, businessId: 1, folderId: 1, userId: 1, fileSize: 1, contentType: 1, createdAt: 1, updatedAt: 1 }
+        : { folderName: 1, businessId: 1, parentFolderId: 1, userId: 1, createdAt: 1, updatedAt: 1 };
+    const model = resource === "file" ? File : Folder;
+
+    // The score is computed per match, so sort + limit run in an aggregation
+    return Promise.all([
+      model.aggregate<MatchedDocument>([
+        { $match: readableMatchFilter },
+        ...(options.searchText ? [{ $addFields: { score: nameRank(nameField, options.searchText) } }] : []),
+        { $sort: this.sortSpec(options.sort, options.direction, nameField) },
+        { $limit: options.fetchCount },
+        { $project: { ...projection, ...(options.searchText ? { score: 1 } : {}) } },
+      ]),
+      model.countDocuments(readableMatchFilter),
+    ]);
+  }
+
+  /**
+   * "/Projects/2024" for each containing folder id (root folders => "/<name>").
+   */
+  private async folderPaths(folderIds: Types.ObjectId[]): Promise<Map<string, string>> {
+    if (folderIds.length === 0) return new Map();
+
+    const folders = await Folder.aggregate<{
+      _id: Types.ObjectId;
+      folderName: string;
+      ancestors: Array<{ folderName: string; depth: number }>;
+    }>([
+      { $match: { _id: { $in: folderIds } } },
+      {
+        $graphLookup: {
+          from: "folders",
+          startWith: "$parentFolderId",
+          connectFromField: "parentFolderId",
+          connectToField: "_id",
+          as: "ancestors",
+          depthField: "depth",
+        },
+      },
+      { $project: { folderName: 1, ancestors: { folderName: 1, depth: 1 } } },
+    ]);
+
+    return new Map(
+      folders.map((folder) => {
+        const ancestorNames = [...folder.ancestors]
+          .sort((left, right) => right.depth - left.depth)
+          .map((ancestor) => ancestor.folderName);
+
+        return [folder._id.toString(), `/${[...ancestorNames, folder.folderName].join("/")}`];
+      })
+    );
+  }
+
+  async search(params: SearchParams): Promise<SearchResult> {
+    if (!Types.ObjectId.isValid(params.businessId)) throw new Error("Invalid businessId");
+    if (!Types.ObjectId.isValid(params.userId)) throw new Error("Invalid userId");
+    if (params.ownerId && !Types.ObjectId.isValid(params.ownerId)) throw new Error("Invalid ownerId");
+    if (params.folderId && !Types.ObjectId.isValid(params.folderId)) throw new Error("Invalid folderId");
+
+    const businessId = new Types.ObjectId(params.businessId);
+    const userId = new Types.ObjectId(params.userId);
+    const searchText = params.q?.trim();
+
+    const limit = Math.min(Math.max(params.limit ?? 20, 1), SEARCH_MAX_LIMIT);
+    const page = Math.min(Math.max(params.page ?? 1, 1), SEARCH_MAX_PAGE);
+    const sort: SearchSortField = params.sort ?? (searchText ? "relevance" : "updatedAt");
+    const direction: 1 | -1 = params.order === "asc" ? 1 : -1;
+
+    if (sort === "relevance" && !searchText) {
+      throw new AppError({
+        message: "sort=relevance requires a search text (q)",
+        statusCode: 400,
+        code: "SEARCH_RELEVANCE_WITHOUT_QUERY",
+      });
+    }
+
+    // "Within folder" = the folder and every live folder below it
+    let containerIds: Types.ObjectId[] | undefined;
+    if (params.folderId) {
+      const rootFolder = await Folder.findOne({
+        _id: new Types.ObjectId(params.folderId),
+        businessId,
+        deletedAt: null,
+      }).lean();
+
+      if (!rootFolder) {
+        throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+      }
+
+      const descendants = await folderService.getLiveDescendantFolders(rootFolder._id);
+      containerIds = [rootFolder._id, ...descendants.map((folder) => folder._id)];
+    }
+
+    const createdRange = rangeFilter(params.createdFrom, params.createdTo);
+    const updatedRange = rangeFilter(params.updatedFrom, params.updatedTo);
+    const sizeRange = rangeFilter(params.minSize, params.maxSize);
+
+    const commonFilter: Record<string, unknown> = {
+      businessId,
+      deletedAt: null,
+      ...(params.ownerId ? { userId: new Types.ObjectId(params.ownerId) } : {}),
+      ...(createdRange ? { createdAt: trusted(createdRange) } : {}),
+      ...(updatedRange ? { updatedAt: trusted(updatedRange) } : {}),
+    };
+
+    const hasFileOnlyFilter = Boolean(params.contentType || sizeRange);
+    const searchFiles = params.type !== "folder";
+    const searchFolders = params.type !== "file" && !hasFileOnlyFilter;
+
+    // Enough of each list to cut the requested page out of the merged result
+    const fetchCount = page * limit;
+
+    const contentType = params.contentType?.trim().toLowerCase();
+    const fileFilter: Record<string, unknown> = {
+      ...commonFilter,
+      ...(containerIds ? { folderId: trusted({ $in: containerIds }) } : {}),
+      ...(sizeRange ? { fileSize: trusted(sizeRange) } : {}),
+      // "image/" matches every image type, "image/png" only PNG
+      ...(contentType
+        ? {
+            contentType: contentType.endsWith("/")
+              ? trusted({ $regex: `^${escapeRegExp(contentType)}`, $options: "i" })
+              : contentType,
+          }
+        : {}),
+    };
+    const folderFilter: Record<string, unknown> = {
+      ...commonFilter,
+      ...(containerIds ? { parentFolderId: trusted({ $in: containerIds }) } : {}),
+    };
+
+    const [fileMatches, fileTotal] = searchFiles
+      ? await this.findMatches("file", fileFilter, { userId, sort, direction, fetchCount, searchText })
+      : [[], 0];
+    const [folderMatches, folderTotal] = searchFolders
+      ? await this.findMatches("folder", folderFilter, { userId, sort, direction, fetchCount, searchText })
+      : [[], 0];
+
+    const hits: Array<Omit<SearchHit, "path">> = [
+      ...fileMatches.map((file) => ({
+        _id: file._id,
+        type: "file" as const,
+        name: file.fileName ?? "",
+        businessId: file.businessId,
+        parentFolderId: file.folderId ?? null,
+        userId: file.userId,
+        contentType: file.contentType ?? null,
+        fileSize: file.fileSize ?? 0,
+        createdAt: file.createdAt,
+        updatedAt: file.updatedAt,
+        score: file.score,
+      })),
+      ...folderMatches.map((folder) => ({
+        _id: folder._id,
+        type: "folder" as const,
+        name: folder.folderName ?? "",
+        businessId: folder.businessId,
+        parentFolderId: folder.parentFolderId ?? null,
+        userId: folder.userId,
+        contentType: null,
+        fileSize: null,
+        createdAt: folder.createdAt,
+        updatedAt: folder.updatedAt,
+        score: folder.score,
+      })),
+    ];
+
+    const pageHits = hits
+      .map((hit) => ({ ...hit, path: "/" }))
+      .sort(this.compareHits(sort, direction))
+      .slice((page - 1) * limit, page * limit);
+
+    const parentIds = [
+      ...new Map(
+        pageHits
+          .filter((hit) => hit.parentFolderId)
+          .map((hit) => [hit.parentFolderId!.toString(), hit.parentFolderId!])
+      ).values(),
+    ];
+    const pathByFolderId = await this.folderPaths(parentIds);
+
+    return {
+      items: pageHits.map((hit) => ({
+        ...hit,
+        path: hit.parentFolderId ? pathByFolderId.get(hit.parentFolderId.toString()) ?? "/" : "/",
+      })),
+      page,
+      limit,
+      total: fileTotal + folderTotal,
+    };
+  }
+}
+
+export default new SearchService();
\ No newline at end of file
@@ -0,0 +1,333 @@
+import { randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { ShareLink, type ShareLinkItemType, type ShareLinkLean } from "../models/share-link.model";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import S3Service from "./s3.service";
+import folderService from "./folder.service";
+
+const PASSWORD_SALT_ROUNDS = 12;
+
+/**
+ * What the link owner sees (never the password hash).
+ */
+type ShareLinkView = Omit<ShareLinkLean, "passwordHash"> & { hasPassword: boolean };
+
+/**
+ * What anonymous visitors see of an item (no keys, owners or business ids).
+ */
+type PublicFile = { _id: Types.ObjectId; fileName: string; fileSize: number; contentType?: string | null; updatedAt: Date };
+type PublicFolder = { _id: Types.ObjectId; folderName: string; updatedAt: Date };
+
+type SharedFileAccess = {
+  itemType: "file";
+  expiresAt: Date | null;
+  file: PublicFile;
+  downloadUrl: string;
+};
+
+type SharedFolderAccess = {
+  itemType: "folder";
+  expiresAt: Date | null;
+  root: PublicFolder;
+  folder: PublicFolder;
+  folders: PublicFolder[];
+  files: PublicFile[];
+};
+
+function toPublicFile(file: FileLean): PublicFile {
+  return {
+    _id: file._id,
+    fileName: file.fileName,
+    fileSize: file.fileSize,
+    contentType: file.contentType,
+    updatedAt: file.updatedAt,
+  };
+}
+
+function toPublicFolder(folder: FolderLean): PublicFolder {
+  return { _id: folder._id, folderName: folder.folderName, updatedAt: folder.updatedAt };
+}
+
+function toView(link: ShareLinkLean): ShareLinkView {
+  const { passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: Boolean(passwordHash) };
+}
+
+/**
+ * Public share links (anyone with the token, no account).
+ *
+ * Rules:
+ * - a link stops working once revoked, expired, or when its download limit is reached
+ * - the shared item must still be live (trashed/deleted items are not reachable)
+ * - folder links only reach the shared folder and its live descendants
+ * - only the creator lists and revokes a link
+ */
+class ShareLinkService {
+  private notFound(): AppError {
+    return new AppError({ message: "Share link not found", statusCode: 404, code: "SHARE_LINK_NOT_FOUND" });
+  }
+
+  async createLink(params: {
+    userId: string;
+    itemType: ShareLinkItemType;
+    itemId: string;
+    expiresAt?: Date | null;
+    password?: string | null;
+    maxDownloads?: number | null;
+  }): Promise<ShareLinkView> {
+    if (!Types.ObjectId.isValid(params.itemId)) throw new Error("Invalid item ID");
+
+    const filter = { _id: new Types.ObjectId(params.itemId), deletedAt: null };
+    const item =
+      params.itemType === "file"
+        ? await File.findOne(filter).lean<FileLean>()
+        : await Folder.findOne(filter).lean<FolderLean>();
+
+    if (!item) {
+      throw new AppError({
+        message: params.itemType === "file" ? "File not found" : "Folder not found",
+        statusCode: 404,
+        code: params.itemType === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    if (params.expiresAt && params.expiresAt.getTime() <= Date.now()) {
+      throw new AppError({
+        message: "expiresAt must be in the future",
+        statusCode: 400,
+        code: "SHARE_LINK_INVALID_EXPIRY",
+      });
+    }
+
+    const link = await ShareLink.create({
+      token: randomBytes(32).toString("base64url"),
+      itemType: params.itemType,
+      itemId: item._id,
+      businessId: item.businessId,
+      createdBy: new Types.ObjectId(params.userId),
+      expiresAt: params.expiresAt ?? null,
+      passwordHash: params.password ? await bcrypt.hash(params.password, PASSWORD_SALT_ROUNDS) : null,
+      maxDownloads: params.maxDownloads ?? null,
+    });
+
+    return toView(link.toObject() as ShareLinkLean);
+  }
+
+  /**
+   * Links created by the user (optionally for one item), newest first, with their counters.
+   */
+  async listLinks(
+    userId: string,
+    filters: { itemType?: ShareLinkItemType; itemId?: string } = {}
+  ): Promise<ShareLinkView[]> {
+    if (filters.itemId && !Types.ObjectId.isValid(filters.itemId)) throw new Error("Invalid item ID");
+
+    const links = await ShareLink.find({
+      createdBy: new Types.ObjectId(userId),
+      ...(filters.itemType ? { itemType: filters.itemType } : {}),
+      ...(filters.itemId ? { itemId: new Types.ObjectId(filters.itemId) } : {}),
+    })
+      .select("+passwordHash")
+      .sort({ createdAt: -1 })
+      .lean<ShareLinkLean[]>();
+
+    return links.map(toView);
+  }
+
+  async revokeLink(linkId: string, userId: string): Promise<ShareLinkView> {
+    if (!Types.ObjectId.isValid(linkId)) throw new Error("Invalid share link ID");
+
+    const filter = { _id: new Types.ObjectId(linkId), createdBy: new Types.ObjectId(userId) };
+
+    // Keep the first revocation date
+    await ShareLink.updateOne({ ...filter, revoked: false }, { $set: { revoked: true, revokedAt: new Date() } });
+
+    const link = await ShareLink.findOne(filter).select("+passwordHash").lean<ShareLinkLean>();
+    if (!link) throw this.notFound();
+
+    return toView(link);
+  }
+
+  /**
+   * Load a usable link and check its password.
+   */
+  private async openLink(token: string, password?: string): Promise<ShareLinkLean> {
+    const link = await ShareLink.findOne({ token }).select("+passwordHash").lean<ShareLinkLean>();
+    if (!link) throw this.notFound();
+
+    if (link.revoked) {
+      throw new AppError({ message: "This share link was revoked", statusCode: 410, code: "SHARE_LINK_REVOKED" });
+    }
+
+    if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+      throw new AppError({ message: "This share link has expired", statusCode: 410, code: "SHARE_LINK_EXPIRED" });
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw new AppError({
+          message: "This share link is password protected",
+          statusCode: 401,
+          code: "SHARE_LINK_PASSWORD_REQUIRED",
+        });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, link.passwordHash);
+      if (!isValidPassword) {
+        throw new AppError({
+          message: "Wrong share link password",
+          statusCode: 401,
+          code: "SHARE_LINK_PASSWORD_INVALID",
+        });
+      }
+    }
+
+    return link;
+  }
+
+  /**
+   * Count one access (and one download when `isDownload`).
+   * The download limit is enforced atomically, so concurrent visitors cannot exceed it.
+   */
+  private async registerAccess(link: ShareLinkLean, isDownload: boolean): Promise<void> {
+    const now = new Date();
+
+    if (!isDownload) {
+      await ShareLink.updateOne({ _id: link._id }, { $inc: { accessCount: 1 }, $set: { lastAccessedAt: now } });
+      return;
+    }
+
+    const counted = await ShareLink.updateOne(
+      {
+        _id: link._id,
+        revoked: false,
+        $or: [{ maxDownloads: null }, { $expr: trusted({ $lt: ["$downloadCount", "$maxDownloads"] }) }],
+      },
+      { $inc: { accessCount: 1, downloadCount: 1 }, $set: { lastAccessedAt: now } }
+    );
+
+    if (counted.modifiedCount === 0) {
+      throw new AppError({
+        message: "This share link reached its download limit",
+        statusCode: 410,
+        code: "SHARE_LINK_DOWNLOAD_LIMIT_REACHED",
+      });
+    }
+  }
+
+  private async loadSharedFolder(link: ShareLinkLean): Promise<FolderLean> {
+    const root = await Folder.findOne({ _id: link.itemId, deletedAt: null }).lean<FolderLean>();
+    if (!root) throw this.notFound();
+    return root;
+  }
+
+  /**
+   * `folderId` must be the shared folder or one of its live descendants.
+   */
+  private async assertInSharedSubtree(root: FolderLean, folderId: Types.ObjectId): Promise<FolderLean> {
+    if (folderId.equals(root._id)) return root;
+
+    const folder = await Folder.findOne({ _id: folderId, deletedAt: null }).lean<FolderLean>();
+    const ancestors = folder ? await folderService.getAncestorFolders(folder._id) : [];
+
+    if (!folder || !ancestors.some((ancestor) => ancestor._id.equals(root._id))) {
+      throw new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+    }
+
+    return folder;
+  }
+
+  /**
+   * Resolve a link for an anonymous visitor.
+   * - file link: returns a presigned download URL (counts as a download)
+   * - folder link: lists `folderId` (default: the shared folder) inside the shared subtree
+   */
+  async resolve(params: {
+    token: string;
+    password?: string;
+    folderId?: string;
+  }): Promise<SharedFileAccess | SharedFolderAccess> {
+    const link = await this.openLink(params.token, params.password);
+
+    if (link.itemType === "file") {
+      const file = await File.findOne({ _id: link.itemId, deletedAt: null }).lean<FileLean>();
+      if (!file) throw this.notFound();
+
+      await this.registerAccess(link, true);
+
+      return {
+        itemType: "file",
+        expiresAt: link.expiresAt ?? null,
+        file: toPublicFile(file),
+        downloadUrl: await S3Service.presignDownload(file.s3Key, { fileName: file.fileName }),
+      };
+    }
+
+    if (params.folderId && !Types.ObjectId.isValid(params.folderId)) throw new Error("Invalid folderId");
+
+    const root = await this.loadSharedFolder(link);
+    const folder = params.folderId
+      ? await this.assertInSharedSubtree(root, new Types.ObjectId(params.folderId))
+      : root;
+
+    const folders = await Folder.find({ parentFolderId: folder._id, deletedAt: null })
+      .sort({ folderName: 1 })
+      .lean<FolderLean[]>();
+    const files = await File.find({ folderId: folder._id, deletedAt: null })
+      .sort({ fileName: 1 })
+      .lean<FileLean[]>();
+
+    await this.registerAccess(link, false);
+
+    return {
+      itemType: "folder",
+      expiresAt: link.expiresAt ?? null,
+      root: toPublicFolder(root),
+      folder: toPublicFolder(folder),
+      folders: folders.map(toPublicFolder),
+      files: files.map(toPublicFile),
+    };
+  }
+
+  /**
+   * Download one file of a shared folder (counts as a download).
+   */
+  async downloadFromFolder(params: {
+    token: string;
+    password?: string;
+    fileId: string;
+  }): Promise<{ file: PublicFile; downloadUrl: string }> {
+    if (!Types.ObjectId.isValid(params.fileId)) throw new Error("Invalid fileId");
+
+    const link = await this.openLink(params.token, params.password);
+    if (link.itemType !== "folder") {
+      throw new AppError({
+        message: "This share link is not a folder link",
+        statusCode: 400,
+        code: "SHARE_LINK_NOT_FOLDER",
+      });
+    }
+
+    const root = await this.loadSharedFolder(link);
+    const file = await File.findOne({ _id: new Types.ObjectId(params.fileId), deletedAt: null }).lean<FileLean>();
+    if (!file?.folderId) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    await this.assertInSharedSubtree(root, file.folderId).catch(() => {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    });
+
+    await this.registerAccess(link, true);
+
+    return {
+      file: toPublicFile(file),
+      downloadUrl: await S3Service.presignDownload(file.s3Key, { fileName: file.fileName }),
+    };
+  }
+}
+
+export default new ShareLinkService();
\ No newline at end of file
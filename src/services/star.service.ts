@@ -0,0 +1,185 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { Star, type StarItemType, type StarLean } from "../models/star.model";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { User } from "../models/user.model";
+import { hasPermission, readableItemsFilter } from "../middleware/permissions.middleware";
+
+export const STAR_MAX_PER_USER = 1000;
+export const STAR_MAX_LIMIT = 100;
+
+type StarredItem = {
+  itemType: StarItemType;
+  starredAt: Date;
+  item: FileLean | FolderLean;
+};
+
+type StarredPage = {
+  items: StarredItem[];
+  page: number;
+  limit: number;
+  total: number;
+};
+
+/**
+ * Per-user stars on files and folders.
+ *
+ * Rules:
+ * - starring requires read permission on the item
+ * - listing only returns live items of the user's business that the user can still read
+ * - stars of items that no longer exist are removed while listing
+ */
+class StarService {
+  private async loadLiveItem(itemType: StarItemType, itemId: string): Promise<FileLean | FolderLean | null> {
+    if (!Types.ObjectId.isValid(itemId)) return null;
+
+    const filter = { _id: new Types.ObjectId(itemId), deletedAt: null };
+    return itemType === "file"
+      ? File.findOne(filter).lean<FileLean>()
+      : Folder.findOne(filter).lean<FolderLean>();
+  }
+
+  async starItem(params: { userId: string; itemType: StarItemType; itemId: string }): Promise<StarLean> {
+    const item = await this.loadLiveItem(params.itemType, params.itemId);
+    if (!item) {
+      throw new AppError({
+        message: params.itemType === "file" ? "File not found" : "Folder not found",
+        statusCode: 404,
+        code: params.itemType === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    const canRead = await hasPermission({
+      userId: params.userId,
+      resource: params.itemType,
+      resourceId: params.itemId,
+      action: "read",
+    });
+    if (!canRead) {
+      throw new AppError({
+        message: "Access denied",
+        statusCode: 403,
+        code: "FORBIDDEN",
+        details: { resource: params.itemType, action: "read" },
+      });
+    }
+
+    const userObjectId = new Types.ObjectId(params.userId);
+    const existingStar = await Star.findOne({
+      userId: userObjectId,
+      itemType: params.itemType,
+      itemId: item._id,
+    }).lean<StarLean>();
+    if (existingStar) return existingStar;
+
+    const starCount = await Star.countDocuments({ userId: userObjectId });
+    if (starCount >= STAR_MAX_PER_USER) {
+      throw new AppError({
+        message: `You can star at most ${STAR_MAX_PER_USER} items`,
+        statusCode: 409,
+        code: "STAR_LIMIT_REACHED",
+      });
+    }
+
+    // Upsert: starring twice concurrently still leaves one star
+    const star = await Star.findOneAndUpdate(
+      { userId: userObjectId, itemType: params.itemType, itemId: item._id },
+      { $setOnInsert: { businessId: item.businessId } },
+      { upsert: true, new: true }
+    ).lean<StarLean>();
+
+    return star!;
+  }
+
+  async unstarItem(params: { userId: string; itemType: StarItemType; itemId: string }): Promise<void> {
+    if (!Types.ObjectId.isValid(params.itemId)) throw new Error("Invalid item ID");
+
+    await Star.deleteOne({
+      userId: new Types.ObjectId(params.userId),
+      itemType: params.itemType,
+      itemId: new Types.ObjectId(params.itemId),
+    });
+  }
+
+  /**
+   * Ids of the given items that exist (any state), and of those the user can see right now.
+   */
+  private async resolveItems(
+    userId: string,
+    businessId: Types.ObjectId | null,
+    itemType: StarItemType,
+    itemIds: Types.ObjectId[]
+  ): Promise<{ existingIds: Set<string>; visibleItems: Map<string, FileLean | FolderLean> }> {
+    if (itemIds.length === 0) return { existingIds: new Set(), visibleItems: new Map() };
+
+    const idFilter = { _id: trusted({ $in: itemIds }) };
+    const readable = await readableItemsFilter(userId, itemType);
+    const visibleFilter = { ...idFilter, businessId, deletedAt: null, ...(readable ?? {}) };
+
+    const existingIds: Types.ObjectId[] =
+      itemType === "file" ? await File.find(idFilter).distinct("_id") : await Folder.find(idFilter).distinct("_id");
+
+    const visibleItems: Array<FileLean | FolderLean> =
+      itemType === "file"
+        ? await File.find(visibleFilter).lean<FileLean[]>()
+        : await Folder.find(visibleFilter).lean<FolderLean[]>();
+
+    return {
+      existingIds: new Set(existingIds.map((id) => id.toString())),
+      visibleItems: new Map(visibleItems.map((item) => [item._id.toString(), item])),
+    };
+  }
+
+  /**
+   * Starred items, most recently starred first.
+   */
+  async listStarred(userId: string, options: { page?: number; limit?: number } = {}): Promise<StarredPage> {
+    if (!Types.ObjectId.isValid(userId)) throw new Error("Invalid userId");
+
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), STAR_MAX_LIMIT);
+    const page = Math.max(options.page ?? 1, 1);
+
+    const user = await User.findById(userId).select("businessId").lean<{ businessId?: Types.ObjectId }>();
+    const businessId = user?.businessId ?? null;
+
+    const stars = await Star.find({ userId: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1, _id: -1 })
+      .lean<StarLean[]>();
+
+    const idsOf = (itemType: StarItemType) =>
+      stars.filter((star) => star.itemType === itemType).map((star) => star.itemId);
+
+    const files = await this.resolveItems(userId, businessId, "file", idsOf("file"));
+    const folders = await this.resolveItems(userId, businessId, "folder", idsOf("folder"));
+
+    const visibleStars: StarredItem[] = [];
+    const danglingStarIds: Types.ObjectId[] = [];
+
+    for (const star of stars) {
+      const resolved = star.itemType === "file" ? files : folders;
+      const itemKey = star.itemId.toString();
+
+      if (!resolved.existingIds.has(itemKey)) {
+        danglingStarIds.push(star._id);
+        continue;
+      }
+
+      const item = resolved.visibleItems.get(itemKey);
+      if (item) visibleStars.push({ itemType: star.itemType, starredAt: star.createdAt, item });
+    }
+
+    if (danglingStarIds.length > 0) {
+      await Star.deleteMany({ _id: trusted({ $in: danglingStarIds }) });
+    }
+
+    return {
+      items: visibleStars.slice((page - 1) * limit, page * limit),
+      page,
+      limit,
+      total: visibleStars.length,
+    };
+  }
+}
+
+export default new StarService();
\ No newline at end of file
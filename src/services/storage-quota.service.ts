@@ -0,0 +1,261 @@
+import { Types } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { BusinessModel } from "../models/business.model";
+import { File } from "../models/file.model";
+import { FileVersion } from "../models/file-version.model";
+import { StorageQuota, type StorageQuotaLean } from "../models/storage-quota.model";
+import type { ISubscription } from "../models/subscription.model";
+import subscriptionService from "./subscription.service";
+import pendingUploadService from "./pending-upload.service";
+
+const GIB = 1024 * 1024 * 1024;
+
+export type StoragePlan = "free" | ISubscription["planType"];
+
+export type StorageLimits = {
+  maxBytes: number;
+  maxFiles: number;
+};
+
+/**
+ * Limits per plan. "free" applies when the owner has no active subscription.
+ */
+export const PLAN_STORAGE_LIMITS: Record<StoragePlan, StorageLimits> = {
+  free: { maxBytes: 5 * GIB, maxFiles: 10_000 },
+  monthly: { maxBytes: 1024 * GIB, maxFiles: 1_000_000 },
+  yearly: { maxBytes: 1024 * GIB, maxFiles: 1_000_000 },
+  yearly_presale: { maxBytes: 1024 * GIB, maxFiles: 1_000_000 },
+  test: { maxBytes: 1024 * GIB, maxFiles: 1_000_000 },
+};
+
+/**
+ * Bytes / files added to or removed from a business
+ */
+export type StorageTotals = {
+  bytes: number;
+  files: number;
+};
+
+type StorageUsage = {
+  businessId: string;
+  plan: StoragePlan;
+  usedBytes: number;
+  fileCount: number;
+  /** Promised to uploads that were started but not completed yet */
+  reservedBytes: number;
+  reservedFiles: number;
+  limits: StorageLimits;
+  overrides: { maxBytes: number | null; maxFiles: number | null };
+};
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+function toBusinessObjectId(businessId: string | Types.ObjectId): Types.ObjectId {
+  if (businessId instanceof Types.ObjectId) return businessId;
+
+  if (!Types.ObjectId.isValid(businessId)) {
+    throw new AppError({ message: "Invalid business ID", statusCode: 400, code: "VALIDATION_ERROR" });
+  }
+
+  return new Types.ObjectId(businessId);
+}
+
+/**
+ * Per-business storage limits and usage counters.
+ *
+ * Rules:
+ * - every stored version counts (S3 keeps them all); trashed items count until purged
+ * - counters move with uploads, copies and permanent deletions; the first read counts from scratch
+ * - startUpload / copy reject with STORAGE_QUOTA_EXCEEDED when usage + in-flight uploads
+ *   + the request would pass a limit
+ * - limits come from the owner's active plan; admin overrides win when set
+ */
+class StorageQuotaService {
+  /**
+   * Bytes and files matching `fileFilter`, every version counted.
+   * Legacy files without FileVersion rows count their own size.
+   */
+  async measure(fileFilter: Record<string, unknown>): Promise<StorageTotals> {
+    const [totals] = await File.aggregate<StorageTotals>([
+      { $match: fileFilter },
+      {
+        $lookup: {
+          from: FileVersion.collection.name,
+          localField: "_id",
+          foreignField: "fileId",
+          as: "versions",
+          pipeline: [{ $project: { fileSize: 1 } }],
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          files: { $sum: 1 },
+          bytes: {
+            $sum: {
+              $cond: [{ $gt: [{ $size: "$versions" }, 0] }, { $sum: "$versions.fileSize" }, "$fileSize"],
+            },
+          },
+        },
+      },
+    ]);
+
+    return { bytes: totals?.bytes ?? 0, files: totals?.files ?? 0 };
+  }
+
+  /**
+   * Recount usage from File / FileVersion (also repairs drifted counters).
+   */
+  async recalculate(businessId: string | Types.ObjectId): Promise<StorageQuotaLean> {
+    const businessObjectId = toBusinessObjectId(businessId);
+    const totals = await this.measure({ businessId: businessObjectId });
+
+    const quota = await StorageQuota.findOneAndUpdate(
+      { businessId: businessObjectId },
+      { $set: { usedBytes: totals.bytes, fileCount: totals.files, recalculatedAt: new Date() } },
+      { upsert: true, new: true }
+    ).lean<StorageQuotaLean>();
+
+    return quota!;
+  }
+
+  /**
+   * Counters of a business, counted from scratch the first time.
+   */
+  private async loadQuota(businessObjectId: Types.ObjectId): Promise<StorageQuotaLean> {
+    const quota = await StorageQuota.findOne({ businessId: businessObjectId }).lean<StorageQuotaLean>();
+    if (quota) return quota;
+
+    try {
+      return await this.recalculate(businessObjectId);
+    } catch (error) {
+      // Concurrent first reads: the other one created it
+      if (!isDuplicateKeyError(error)) throw error;
+
+      const created = await StorageQuota.findOne({ businessId: businessObjectId }).lean<StorageQuotaLean>();
+      if (!created) throw error;
+      return created;
+    }
+  }
+
+  private async planFor(businessObjectId: Types.ObjectId): Promise<StoragePlan> {
+    const business = await BusinessModel.findById(businessObjectId).select("ownerId").lean();
+    if (!business) {
+      throw new AppError({ message: "Business not found", statusCode: 404, code: "BUSINESS_NOT_FOUND" });
+    }
+
+    const subscription = await subscriptionService.getMostRecentActiveSubscription(business.ownerId.toString());
+    return subscription?.planType ?? "free";
+  }
+
+  async getUsage(businessId: string): Promise<StorageUsage> {
+    const businessObjectId = toBusinessObjectId(businessId);
+
+    const [quota, plan, reserved] = await Promise.all([
+      this.loadQuota(businessObjectId),
+      this.planFor(businessObjectId),
+      pendingUploadService.reservedTotals(businessObjectId),
+    ]);
+
+    const planLimits = PLAN_STORAGE_LIMITS[plan];
+
+    return {
+      businessId: businessObjectId.toString(),
+      plan,
+      usedBytes: Math.max(0, quota.usedBytes),
+      fileCount: Math.max(0, quota.fileCount),
+      reservedBytes: reserved.bytes,
+      reservedFiles: reserved.files,
+      limits: {
+        maxBytes: quota.maxBytesOverride ?? planLimits.maxBytes,
+        maxFiles: quota.maxFilesOverride ?? planLimits.maxFiles,
+      },
+      overrides: { maxBytes: quota.maxBytesOverride ?? null, maxFiles: quota.maxFilesOverride ?? null },
+    };
+  }
+
+  /**
+   * Reject a request that would take the business over one of its limits.
+   */
+  async assertCanStore(businessId: string | Types.ObjectId, requested: StorageTotals): Promise<void> {
+    const usage = await this.getUsage(toBusinessObjectId(businessId).toString());
+
+    this.assertWithinLimit(usage, "bytes", requested.bytes);
+    this.assertWithinLimit(usage, "files", requested.files);
+  }
+
+  private assertWithinLimit(usage: StorageUsage, resource: "bytes" | "files", requested: number): void {
+    if (requested <= 0) return;
+
+    const [used, reserved, limit] =
+      resource === "bytes"
+        ? [usage.usedBytes, usage.reservedBytes, usage.limits.maxBytes]
+        : [usage.fileCount, usage.reservedFiles, usage.limits.maxFiles];
+
+    if (used + reserved + requested <= limit) return;
+
+    throw new AppError({
+      message: resource === "bytes" ? "Storage quota exceeded" : "File count quota exceeded",
+      statusCode: 413,
+      code: "STORAGE_QUOTA_EXCEEDED",
+      details: { resource, limit, used, reserved, requested, plan: usage.plan },
+    });
+  }
+
+  /**
+   * Add stored bytes / files. No-op until the counters exist (the first read counts them).
+   */
+  async recordStored(businessId: string | Types.ObjectId, totals: StorageTotals): Promise<void> {
+    await this.increment(businessId, totals.bytes, totals.files);
+  }
+
+  /**
+   * Remove permanently deleted bytes / files.
+   */
+  async recordRemoved(businessId: string | Types.ObjectId, totals: StorageTotals): Promise<void> {
+    await this.increment(businessId, -totals.bytes, -totals.files);
+  }
+
+  private async increment(businessId: string | Types.ObjectId, bytes: number, files: number): Promise<void> {
+    if (bytes === 0 && files === 0) return;
+
+    await StorageQuota.updateOne(
+      { businessId: toBusinessObjectId(businessId) },
+      { $inc: { usedBytes: bytes, fileCount: files } }
+    );
+  }
+
+  /**
+   * Admin overrides: a number replaces the plan limit, null goes back to the plan,
+   * undefined leaves the current value.
+   */
+  async setOverrides(
+    businessId: string,
+    overrides: { maxBytes?: number | null; maxFiles?: number | null }
+  ): Promise<StorageUsage> {
+    const businessObjectId = toBusinessObjectId(businessId);
+
+    const businessExists = await BusinessModel.exists({ _id: businessObjectId });
+    if (!businessExists) {
+      throw new AppError({ message: "Business not found", statusCode: 404, code: "BUSINESS_NOT_FOUND" });
+    }
+
+    await this.loadQuota(businessObjectId);
+
+    await StorageQuota.updateOne(
+      { businessId: businessObjectId },
+      {
+        $set: {
+          ...(overrides.maxBytes !== undefined ? { maxBytesOverride: overrides.maxBytes } : {}),
+          ...(overrides.maxFiles !== undefined ? { maxFilesOverride: overrides.maxFiles } : {}),
+        },
+      }
+    );
+
+    return this.getUsage(businessId);
+  }
+}
+
+export default new StorageQuotaService();
\ No newline at end of file
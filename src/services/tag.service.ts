@@ -0,0 +1,307 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { Tag, type TagLean } from "../models/tag.model";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { hasPermission, readableItemsFilter, type Resource } from "../middleware/permissions.middleware";
+
+export const TAG_BULK_MAX_ITEMS = 500;
+
+type TaggableItem = {
+  type: Resource;
+  id: string;
+};
+
+type BulkTagOutcome = TaggableItem & {
+  status: "updated" | "not_found" | "forbidden";
+};
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+/**
+ * Business tag catalog + tagging of files and folders.
+ *
+ * Rules:
+ * - tag names are unique per business (case-insensitive)
+ * - items can only carry tags of their own business
+ * - deleting a tag removes it from every item
+ */
+class TagService {
+  private async loadTag(tagId: string, businessId: string): Promise<TagLean> {
+    if (!Types.ObjectId.isValid(tagId)) throw new Error("Invalid tag ID");
+
+    const tag = await Tag.findOne({
+      _id: new Types.ObjectId(tagId),
+      businessId: new Types.ObjectId(businessId),
+    }).lean<TagLean>();
+
+    if (!tag) {
+      throw new AppError({ message: "Tag not found", statusCode: 404, code: "TAG_NOT_FOUND" });
+    }
+
+    return tag;
+  }
+
+  /**
+   * All requested tags must exist in the business.
+   */
+  async resolveTagIds(tagIds: string[], businessId: Types.ObjectId): Promise<Types.ObjectId[]> {
+    const uniqueTagIds = [...new Set(tagIds)];
+    if (uniqueTagIds.some((tagId) => !Types.ObjectId.isValid(tagId))) throw new Error("Invalid tag ID");
+
+    const tagObjectIds = uniqueTagIds.map((tagId) => new Types.ObjectId(tagId));
+    const foundCount = await Tag.countDocuments({ _id: trusted({ $in: tagObjectIds }), businessId });
+
+    if (foundCount !== tagObjectIds.length) {
+      throw new AppError({
+        message: "One or more tags do not exist in this business",
+        statusCode: 400,
+        code: "TAG_NOT_FOUND",
+      });
+    }
+
+    return tagObjectIds;
+  }
+
+  private async loadItem(type: Resource, itemId: string): Promise<FileLean | FolderLean | null> {
+    if (!Types.ObjectId.isValid(itemId)) return null;
+
+    const filter = { _id: new Types.ObjectId(itemId), deletedAt: null };
+    return type === "file"
+      ? File.findOne(filter).lean<FileLean>()
+      : Folder.findOne(filter).lean<FolderLean>();
+  }
+
+  /**
+   * Add or remove already resolved tags on one item (checks done by the caller).
+   */
+  async applyTags(
+    type: Resource,
+    itemId: Types.ObjectId,
+    tagObjectIds: Types.ObjectId[],
+    action: "add" | "remove"
+  ): Promise<void> {
+    await this.updateItemTags(
+      type,
+      itemId,
+      action === "add"
+        ? { $addToSet: { tagIds: { $each: tagObjectIds } } }
+        : { $pull: { tagIds: { $in: tagObjectIds } } }
+    );
+  }
+
+  private async updateItemTags(
+    type: Resource,
+    itemId: Types.ObjectId,
+    update: Record<string, unknown>
+  ): Promise<void> {
+    if (type === "file") {
+      await File.updateOne({ _id: itemId }, update);
+    } else {
+      await Folder.updateOne({ _id: itemId }, update);
+    }
+  }
+
+  async listTags(businessId: string): Promise<TagLean[]> {
+    if (!Types.ObjectId.isValid(businessId)) throw new Error("Invalid businessId");
+
+    return Tag.find({ businessId: new Types.ObjectId(businessId) })
+      .sort({ normalizedName: 1 })
+      .lean<TagLean[]>();
+  }
+
+  async createTag(params: {
+    businessId: string;
+    userId: string;
+    name: string;
+    color?: string;
+  }): Promise<TagLean> {
+    if (!Types.ObjectId.isValid(params.businessId)) throw new Error("Invalid businessId");
+
+    const name = params.name.trim();
+
+    try {
+      const tag = await Tag.create({
+        businessId: new Types.ObjectId(params.businessId),
+        name,
+        normalizedName: name.toLowerCase(),
+        ...(params.color ? { color: params.color } : {}),
+        createdBy: new Types.ObjectId(params.userId),
+      });
+
+      return tag.toObject() as TagLean;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new AppError({
+          message: `A tag named "${name}" already exists`,
+          statusCode: 409,
+          code: "TAG_NAME_CONFLICT",
+        });
+      }
+      throw error;
+    }
+  }
+
+  async updateTag(
+    tagId: string,
+    businessId: string,
+    changes: { name?: string; color?: string }
+  ): Promise<TagLean> {
+    const tag = await this.loadTag(tagId, businessId);
+
+    const name = changes.name?.trim();
+    const update = {
+      ...(name ? { name, normalizedName: name.toLowerCase() } : {}),
+      ...(changes.color ? { color: changes.color } : {}),
+    };
+
+    try {
+      const updatedTag = await Tag.findByIdAndUpdate(tag._id, update, {
+        new: true,
+        runValidators: true,
+      }).lean<TagLean>();
+
+      if (!updatedTag) {
+        throw new AppError({ message: "Tag not found", statusCode: 404, code: "TAG_NOT_FOUND" });
+      }
+
+      return updatedTag;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new AppError({
+          message: `A tag named "${name}" already exists`,
+          statusCode: 409,
+          code: "TAG_NAME_CONFLICT",
+        });
+      }
+      throw error;
+    }
+  }
+
+  async deleteTag(tagId: string, businessId: string): Promise<void> {
+    const tag = await this.loadTag(tagId, businessId);
+
+    await File.updateMany({ tagIds: tag._id }, { $pull: { tagIds: tag._id } });
+    await Folder.updateMany({ tagIds: tag._id }, { $pull: { tagIds: tag._id } });
+    await Tag.deleteOne({ _id: tag._id });
+  }
+
+  /**
+   * Attach tags to one file/folder (permission checked by the route).
+   */
+  async attachTags(type: Resource, itemId: string, tagIds: string[]): Promise<Types.ObjectId[]> {
+    const item = await this.loadItem(type, itemId);
+    if (!item) {
+      throw new AppError({
+        message: type === "file" ? "File not found" : "Folder not found",
+        statusCode: 404,
+        code: type === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    const tagObjectIds = await this.resolveTagIds(tagIds, item.businessId);
+    await this.updateItemTags(type, item._id, { $addToSet: { tagIds: { $each: tagObjectIds } } });
+
+    const updatedItem = await this.loadItem(type, itemId);
+    return updatedItem?.tagIds ?? [];
+  }
+
+  async detachTag(type: Resource, itemId: string, tagId: string): Promise<Types.ObjectId[]> {
+    if (!Types.ObjectId.isValid(tagId)) throw new Error("Invalid tag ID");
+
+    const item = await this.loadItem(type, itemId);
+    if (!item) {
+      throw new AppError({
+        message: type === "file" ? "File not found" : "Folder not found",
+        statusCode: 404,
+        code: type === "file" ? "FILE_NOT_FOUND" : "FOLDER_NOT_FOUND",
+      });
+    }
+
+    await this.updateItemTags(type, item._id, { $pull: { tagIds: new Types.ObjectId(tagId) } });
+
+    const updatedItem = await this.loadItem(type, itemId);
+    return updatedItem?.tagIds ?? [];
+  }
+
+  /**
+   * Add or remove tags on many items at once.
+   * Each item is checked on its own (write permission, same business); failures do not stop the rest.
+   */
+  async bulkTag(params: {
+    businessId: string;
+    userId: string;
+    items: TaggableItem[];
+    tagIds: string[];
+    action: "add" | "remove";
+  }): Promise<BulkTagOutcome[]> {
+    if (!Types.ObjectId.isValid(params.businessId)) throw new Error("Invalid businessId");
+
+    const businessId = new Types.ObjectId(params.businessId);
+    const tagObjectIds = await this.resolveTagIds(params.tagIds, businessId);
+
+    const outcomes: BulkTagOutcome[] = [];
+
+    for (const requestedItem of params.items) {
+      const item = await this.loadItem(requestedItem.type, requestedItem.id);
+      if (!item || !item.businessId.equals(businessId)) {
+        outcomes.push({ ...requestedItem, status: "not_found" });
+        continue;
+      }
+
+      const canWrite = await hasPermission({
+        userId: params.userId,
+        resource: requestedItem.type,
+        resourceId: requestedItem.id,
+        action: "write",
+      });
+      if (!canWrite) {
+        outcomes.push({ ...requestedItem, status: "forbidden" });
+        continue;
+      }
+
+      await this.applyTags(requestedItem.type, item._id, tagObjectIds, params.action);
+      outcomes.push({ ...requestedItem, status: "updated" });
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Live files and folders carrying a tag, limited to what the user can read.
+   */
+  async listItemsByTag(
+    tagId: string,
+    businessId: string,
+    userId: string
+  ): Promise<{ tag: TagLean; files: FileLean[]; folders: FolderLean[] }> {
+    const tag = await this.loadTag(tagId, businessId);
+
+    const readableFiles = await readableItemsFilter(userId, "file");
+    const readableFolders = await readableItemsFilter(userId, "folder");
+
+    const files = await File.find({
+      businessId: tag.businessId,
+      tagIds: tag._id,
+      deletedAt: null,
+      ...(readableFiles ?? {}),
+    })
+      .sort({ fileName: 1 })
+      .lean<FileLean[]>();
+
+    const folders = await Folder.find({
+      businessId: tag.businessId,
+      tagIds: tag._id,
+      deletedAt: null,
+      ...(readableFolders ?? {}),
+    })
+      .sort({ folderName: 1 })
+      .lean<FolderLean[]>();
+
+    return { tag, files, folders };
+  }
+}
+
+export default new TagService();
\ No newline at end of file
@@ -0,0 +1,312 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pipeline } from "stream/promises";
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean, type ThumbnailStatus } from "../models/file.model";
+import S3Service from "./s3.service";
+import { thumbnailObjectKey } from "../utils/s3-key.utils";
+import { canRenderThumbnail, renderThumbnails } from "../utils/thumbnail.utils";
+
+/**
+ * Rendered sizes (longest side, px). The largest one doubles as a preview.
+ */
+export const THUMBNAIL_SIZES = [128, 256, 1024] as const;
+
+/**
+ * Size returned as `thumbnailUrl` in listings
+ */
+export const THUMBNAIL_LISTING_SIZE = 256;
+
+/**
+ * Larger sources are not downloaded for rendering
+ */
+const THUMBNAIL_MAX_SOURCE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Automatic attempts before a failure is left for a manual retry
+ */
+const THUMBNAIL_MAX_ATTEMPTS = 3;
+
+/**
+ * A claimed file is not picked again for this long (covers a crash mid-render)
+ */
+const THUMBNAIL_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before automatic retry n (1-based): 1 min, 5 min, 25 min...
+ */
+function retryDelayMs(attempt: number): number {
+  return 60 * 1000 * 5 ** (attempt - 1);
+}
+
+type ThumbnailSource = { s3Key: string; thumbnail?: FileLean["thumbnail"] | null };
+
+type QueuedFile = Pick<FileLean, "_id" | "contentType" | "fileSize" | "thumbnail">;
+
+/**
+ * Image / PDF thumbnails stored next to the file in S3.
+ *
+ * Rules:
+ * - completing an upload (new file or new version) queues the file when its type is supported
+ * - rendering happens in the background (right after the upload, then ThumbnailWorker retries)
+ * - failures are recorded on the file (`thumbnail.lastError`) and retried with backoff
+ * - after THUMBNAIL_MAX_ATTEMPTS only POST /file/:id/thumbnail retries again
+ * - thumbnails of a replaced version are deleted once the new ones exist
+ */
+class ThumbnailService {
+  private isRenderable(file: Pick<FileLean, "contentType" | "fileSize">): boolean {
+    return canRenderThumbnail(file.contentType) && file.fileSize <= THUMBNAIL_MAX_SOURCE_BYTES;
+  }
+
+  /**
+   * Thumbnail state for files inserted in bulk (ex: copies); ThumbnailWorker renders them.
+   */
+  initialState(file: Pick<FileLean, "contentType" | "fileSize">): { status: ThumbnailStatus; nextAttemptAt: Date | null } {
+    return this.isRenderable(file)
+      ? { status: "pending", nextAttemptAt: new Date() }
+      : { status: "none", nextAttemptAt: null };
+  }
+
+  /**
+   * Mark the file's current object for rendering and start right away (not awaited).
+   * Unsupported files are marked "none" (thumbnails of a previous version are dropped).
+   */
+  async queue(file: QueuedFile): Promise<void> {
+    if (!this.isRenderable(file)) {
+      await File.updateOne(
+        { _id: file._id },
+        {
+          $set: {
+            "thumbnail.status": "none",
+            "thumbnail.sourceKey": null,
+            "thumbnail.sizes": [],
+            "thumbnail.lastError": null,
+            "thumbnail.nextAttemptAt": null,
+          },
+        }
+      );
+      await this.deleteThumbnails(file);
+      return;
+    }
+
+    await File.updateOne(
+      { _id: file._id },
+      {
+        $set: {
+          "thumbnail.status": "pending",
+          "thumbnail.attempts": 0,
+          "thumbnail.lastError": null,
+          "thumbnail.nextAttemptAt": new Date(),
+        },
+      }
+    );
+
+    void this.process(file._id).catch((error) => {
+      console.error(`❌ Thumbnail generation failed for file ${file._id.toString()}:`, error);
+    });
+  }
+
+  /**
+   * Manual retry (resets the attempt counter).
+   */
+  async retry(fileId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new AppError({ message: "Invalid file ID", statusCode: 400, code: "FILE_INVALID_ID" });
+    }
+
+    const file = await File.findOne({ _id: new Types.ObjectId(fileId), deletedAt: null }).lean<FileLean>();
+    if (!file) {
+      throw new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" });
+    }
+
+    if (!this.isRenderable(file)) {
+      throw new AppError({
+        message: "No thumbnail can be generated for this file type",
+        statusCode: 422,
+        code: "THUMBNAIL_UNSUPPORTED",
+      });
+    }
+
+    await this.queue(file);
+  }
+
+  /**
+   * Atomically take a due file so two workers never render the same one.
+   */
+  private async claim(filter: Record<string, unknown>): Promise<FileLean | null> {
+    const now = new Date();
+
+    return File.findOneAndUpdate(
+      {
+        ...filter,
+        deletedAt: null,
+        "thumbnail.status": trusted({ $in: ["pending", "failed"] }),
+        "thumbnail.attempts": trusted({ $lt: THUMBNAIL_MAX_ATTEMPTS }),
+        "thumbnail.nextAttemptAt": trusted({ $lte: now }),
+      },
+      {
+        $inc: { "thumbnail.attempts": 1 },
+        $set: { "thumbnail.nextAttemptAt": new Date(now.getTime() + THUMBNAIL_CLAIM_MS) },
+      },
+      { new: true }
+    ).lean<FileLean>();
+  }
+
+  /**
+   * Render one file if it is due. Returns false when there was nothing to do.
+   */
+  private async process(fileId: Types.ObjectId): Promise<boolean> {
+    const file = await this.claim({ _id: fileId });
+    if (!file) return false;
+
+    await this.render(file);
+    return true;
+  }
+
+  /**
+   * Render every due file, at most `limit`. Returns how many succeeded / failed.
+   */
+  async processDue(limit = 20): Promise<{ rendered: number; failed: number }> {
+    let rendered = 0;
+    let failed = 0;
+
+    for (let index = 0; index < limit; index += 1) {
+      const file = await this.claim({});
+      if (!file) break;
+
+      if (await this.render(file)) rendered += 1;
+      else failed += 1;
+    }
+
+    return { rendered, failed };
+  }
+
+  /**
+   * Download, render and upload every size; record the outcome on the file.
+   */
+  private async render(file: FileLean): Promise<boolean> {
+    const sourceKey = file.s3Key;
+    const workDir = await mkdtemp(join(tmpdir(), "thumbnail-"));
+
+    try {
+      const sourcePath = join(workDir, "source");
+      await pipeline(await S3Service.getObjectStream(sourceKey), createWriteStream(sourcePath));
+
+      const outputs = await renderThumbnails({
+        sourcePath,
+        contentType: file.contentType!,
+        sizes: THUMBNAIL_SIZES,
+        workDir,
+      });
+
+      for (const [size, outputPath] of outputs) {
+        await S3Service.uploadStream({
+          key: thumbnailObjectKey(sourceKey, size),
+          body: createReadStream(outputPath),
+          contentType: "image/jpeg",
+        });
+      }
+
+      // Only if the file still points at the rendered object (a newer version re-queues it)
+      const updated = await File.updateOne(
+        { _id: file._id, s3Key: sourceKey },
+        {
+          $set: {
+            "thumbnail.status": "ready",
+            "thumbnail.sourceKey": sourceKey,
+            "thumbnail.sizes": [...outputs.keys()],
+            "thumbnail.lastError": null,
+            "thumbnail.nextAttemptAt": null,
+            "thumbnail.generatedAt": new Date(),
+          },
+        }
+      );
+
+      if (updated.modifiedCount === 0) {
+        // Deleted or replaced meanwhile: nothing references these objects
+        await this.deleteObjects(sourceKey, [...outputs.keys()]);
+      } else if (file.thumbnail?.sourceKey && file.thumbnail.sourceKey !== sourceKey) {
+        await this.deleteThumbnails(file);
+      }
+
+      return true;
+    } catch (error) {
+      const attempts = file.thumbnail?.attempts ?? 1;
+      console.error(`❌ Thumbnail attempt ${attempts} failed for file ${file._id.toString()}:`, error);
+
+      await File.updateOne(
+        { _id: file._id, s3Key: sourceKey },
+        {
+          $set: {
+            "thumbnail.status": "failed",
+            "thumbnail.lastError": error instanceof Error ? error.message : "Thumbnail generation failed",
+            "thumbnail.nextAttemptAt":
+              attempts < THUMBNAIL_MAX_ATTEMPTS ? new Date(Date.now() + retryDelayMs(attempts)) : null,
+          },
+        }
+      ).catch(() => undefined);
+
+      return false;
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Presigned URL of a ready, up-to-date thumbnail (undefined otherwise).
+   */
+  async presignThumbnail(file: ThumbnailSource, size: number = THUMBNAIL_LISTING_SIZE): Promise<string | undefined> {
+    const thumbnail = file.thumbnail;
+
+    if (thumbnail?.status !== "ready" || thumbnail.sourceKey !== file.s3Key || !thumbnail.sizes.includes(size)) {
+      return undefined;
+    }
+
+    return S3Service.presignDownload(thumbnailObjectKey(file.s3Key, size));
+  }
+
+  private async deleteObjects(sourceKey: string, sizes: number[]): Promise<void> {
+    if (sizes.length === 0) return;
+    await S3Service.deleteObjects(sizes.map((size) => thumbnailObjectKey(sourceKey, size)));
+  }
+
+  /**
+   * Keys of the thumbnail objects recorded on the file.
+   */
+  objectKeys(file: Pick<FileLean, "thumbnail">): string[] {
+    const sourceKey = file.thumbnail?.sourceKey;
+    if (!sourceKey) return [];
+
+    return (file.thumbnail?.sizes ?? []).map((size) => thumbnailObjectKey(sourceKey, size));
+  }
+
+  /**
+   * The file's current object moved to `sourceKey` (file moved to another folder):
+   * ready thumbnails move next to it. Pending ones are rendered from the new key anyway.
+   */
+  async relocate(file: ThumbnailSource & { _id: Types.ObjectId }, sourceKey: string): Promise<void> {
+    const thumbnail = file.thumbnail;
+    if (thumbnail?.status !== "ready" || thumbnail.sourceKey !== file.s3Key) return;
+
+    for (const size of thumbnail.sizes) {
+      await S3Service.moveObject({
+        sourceKey: thumbnailObjectKey(file.s3Key, size),
+        destinationKey: thumbnailObjectKey(sourceKey, size),
+      });
+    }
+
+    await File.updateOne({ _id: file._id }, { $set: { "thumbnail.sourceKey": sourceKey } });
+  }
+
+  /**
+   * Delete the thumbnail objects recorded on the file (file deletion, replaced version).
+   */
+  async deleteThumbnails(file: Pick<FileLean, "thumbnail">): Promise<void> {
+    await S3Service.deleteObjects(this.objectKeys(file));
+  }
+}
+
+export default new ThumbnailService();
\ No newline at end of file
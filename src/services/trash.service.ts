@@ -0,0 +1,374 @@
+import { Types, trusted } from "mongoose";
+import { AppError } from "../errors/app.errors";
+import { File, type FileLean } from "../models/file.model";
+import { Folder, type FolderLean } from "../models/folder.model";
+import { BusinessModel } from "../models/business.model";
+import fileService from "./file.service";
+import folderService from "./folder.service";
+import fileLockService, { NO_LOCK } from "./file-lock.service";
+import nameConflictService from "./name-conflict.service";
+import { isRetentionBlock } from "./retention.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+type TrashItemType = "file" | "folder";
+
+/**
+ * Trash listing entry (only items the user trashed directly, not their descendants).
+ */
+type TrashItem = {
+  _id: Types.ObjectId;
+  type: TrashItemType;
+  name: string;
+  businessId: Types.ObjectId;
+  parentFolderId: Types.ObjectId | null;
+  deletedAt: Date;
+  deletedBy: Types.ObjectId | null;
+  purgeAt: Date;
+};
+
+type PurgeResult = {
+  files: number;
+  folders: number;
+};
+
+/**
+ * Trash bin (soft delete).
+ *
+ * Rules:
+ * - trashing hides an item (and its subtree) from every listing; nothing is removed from S3
+ * - descendants of a trashed folder carry `trashRootId` so they are restored/purged together
+ * - restore puts the item back in its original parent, or at root if that parent is gone
+ * - a restored item whose name is now used there gets a " (n)" suffix
+ * - items are purged permanently after the business retention period
+ * - items under legal hold / minimum retention stay in the trash until they may be deleted
+ * - files locked by another user cannot be trashed (directly or with their folder); trashing drops the lock
+ */
+class TrashService {
+  private notFound(type: TrashItemType): AppError {
+    return type === "file"
+      ? new AppError({ message: "File not found", statusCode: 404, code: "FILE_NOT_FOUND" })
+      : new AppError({ message: "Folder not found", statusCode: 404, code: "FOLDER_NOT_FOUND" });
+  }
+
+  private assertValidId(id: string, type: TrashItemType): void {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError({
+        message: `Invalid ${type} ID`,
+        statusCode: 400,
+        code: type === "file" ? "FILE_INVALID_ID" : "FOLDER_INVALID_ID",
+      });
+    }
+  }
+
+  /**
+   * Only items trashed directly can be restored/deleted from the trash.
+   */
+  private assertTrashRoot(item: { deletedAt?: Date | null; trashRootId?: Types.ObjectId | null }): void {
+    if (!item.deletedAt) {
+      throw new AppError({ message: "Item is not in the trash", statusCode: 409, code: "TRASH_ITEM_NOT_TRASHED" });
+    }
+
+    if (item.trashRootId) {
+      throw new AppError({
+        message: "Item was trashed with its parent folder. Restore or delete that folder instead.",
+        statusCode: 409,
+        code: "TRASH_ITEM_NOT_ROOT",
+        details: { trashRootId: item.trashRootId.toString() },
+      });
+    }
+  }
+
+  private async retentionDays(businessId: Types.ObjectId): Promise<number> {
+    const business = await BusinessModel.findById(businessId)
+      .select("trashRetentionDays")
+      .lean<{ trashRetentionDays?: number } | null>();
+
+    return business?.trashRetentionDays ?? DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Live (non-trashed) folders below `folderId`.
+   * Traversal stops at folders that are already trashed: they belong to their own trash entry.
+   */
+  private async liveDescendantFolderIds(folderId: Types.ObjectId): Promise<Types.ObjectId[]> {
+    const descendants = await folderService.getLiveDescendantFolders(folderId);
+    return descendants.map((folder) => folder._id);
+  }
+
+  /**
+   * Parent to restore into: the original parent if it is still live, otherwise root (null).
+   */
+  private async resolveRestoreParent(parentFolderId: Types.ObjectId | null | undefined): Promise<Types.ObjectId | null> {
+    if (!parentFolderId) return null;
+
+    const parentIsLive = await Folder.exists({ _id: parentFolderId, deletedAt: null });
+    return parentIsLive ? parentFolderId : null;
+  }
+
+  async trashFile(fileId: string, userId: string): Promise<FileLean> {
+    this.assertValidId(fileId, "file");
+
+    const file = await File.findById(fileId).lean<FileLean>();
+    if (!file) throw this.notFound("file");
+    if (file.deletedAt) {
+      throw new AppError({ message: "File is already in the trash", statusCode: 409, code: "TRASH_ALREADY_TRASHED" });
+    }
+
+    await fileLockService.assertCanModify(file, userId);
+
+    const trashed = await File.findByIdAndUpdate(
+      fileId,
+      {
+        $set: {
+          deletedAt: new Date(),
+          deletedBy: new Types.ObjectId(userId),
+          trashRootId: null,
+          lock: NO_LOCK,
+        },
+      },
+      { new: true }
+    ).lean<FileLean>();
+
+    if (file.folderId) {
+      await Folder.updateOne({ _id: file.folderId }, { $pull: { fileIds: file._id } });
+    }
+
+    if (!trashed) throw this.notFound("file");
+    return trashed;
+  }
+
+  async trashFolder(folderId: string, userId: string): Promise<FolderLean> {
+    this.assertValidId(folderId, "folder");
+
+    const folder = await Folder.findById(folderId).lean<FolderLean>();
+    if (!folder) throw this.notFound("folder");
+    if (folder.deletedAt) {
+      throw new AppError({ message: "Folder is already in the trash", statusCode: 409, code: "TRASH_ALREADY_TRASHED" });
+    }
+
+    const descendantFolderIds = await this.liveDescendantFolderIds(folder._id);
+    await fileLockService.assertCanModifyFilesIn([folder._id, ...descendantFolderIds], userId);
+
+    const trashState = { deletedAt: new Date(), deletedBy: new Types.ObjectId(userId) };
+
+    await Folder.updateMany(
+      { _id: trusted({ $in: descendantFolderIds }) },
+      { $set: { ...trashState, trashRootId: folder._id } }
+    );
+    await File.updateMany(
+      { folderId: trusted({ $in: [folder._id, ...descendantFolderIds] }), deletedAt: null },
+      {
+        $set: {
+          ...trashState,
+          trashRootId: folder._id,
+          lock: NO_LOCK,
+        },
+      }
+    );
+
+    const trashed = await Folder.findByIdAndUpdate(
+      folderId,
+      { $set: { ...trashState, trashRootId: null } },
+      { new: true }
+    ).lean<FolderLean>();
+
+    if (folder.parentFolderId) {
+      await Folder.updateOne({ _id: folder.parentFolderId }, { $pull: { folderIds: folder._id } });
+    }
+
+    if (!trashed) throw this.notFound("folder");
+    return trashed;
+  }
+
+  /**
+   * Items trashed directly in a business, newest first.
+   */
+  async listTrash(businessId: string): Promise<TrashItem[]> {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new AppError({ message: "Invalid businessId", statusCode: 400, code: "BUSINESS_INVALID_ID" });
+    }
+
+    const businessObjectId = new Types.ObjectId(businessId);
+    const retentionMs = (await this.retentionDays(businessObjectId)) * DAY_MS;
+    const trashQuery = { businessId: businessObjectId, deletedAt: trusted({ $ne: null }), trashRootId: null };
+
+    const [folders, files] = await Promise.all([
+      Folder.find(trashQuery).lean<FolderLean[]>(),
+      File.find(trashQuery).lean<FileLean[]>(),
+    ]);
+
+    const items: TrashItem[] = [
+      ...folders.map((folder) => ({
+        _id: folder._id,
+        type: "folder" as const,
+        name: folder.folderName,
+        businessId: folder.businessId,
+        parentFolderId: folder.parentFolderId ?? null,
+        deletedAt: folder.deletedAt as Date,
+        deletedBy: folder.deletedBy ?? null,
+        purgeAt: new Date((folder.deletedAt as Date).getTime() + retentionMs),
+      })),
+      ...files.map((file) => ({
+        _id: file._id,
+        type: "file" as const,
+        name: file.fileName,
+        businessId: file.businessId,
+        parentFolderId: file.folderId ?? null,
+        deletedAt: file.deletedAt as Date,
+        deletedBy: file.deletedBy ?? null,
+        purgeAt: new Date((file.deletedAt as Date).getTime() + retentionMs),
+      })),
+    ];
+
+    return items.sort((left, right) => right.deletedAt.getTime() - left.deletedAt.getTime());
+  }
+
+  async restoreFile(fileId: string): Promise<FileLean> {
+    this.assertValidId(fileId, "file");
+
+    const file = await File.findById(fileId).lean<FileLean>();
+    if (!file) throw this.notFound("file");
+    this.assertTrashRoot(file);
+
+    const restoreParentId = await this.resolveRestoreParent(file.folderId);
+
+    const { fileName } = await nameConflictService.resolveFileName({
+      businessId: file.businessId,
+      folderId: restoreParentId,
+      fileName: file.fileName,
+      conflict: "autorename",
+    });
+
+    // Restored to root: its objects leave the old folder's prefix, like a move
+    if (!restoreParentId && file.folderId) {
+      await fileService.relocateObjects(file, null);
+    }
+
+    const restored = await nameConflictService.guardFileName(fileName, () =>
+      File.findByIdAndUpdate(
+        fileId,
+        { $set: { deletedAt: null, deletedBy: null, trashRootId: null, folderId: restoreParentId, fileName } },
+        { new: true }
+      ).lean<FileLean>()
+    );
+
+    if (restoreParentId) {
+      await folderService.addFileToFolder(fileId, restoreParentId.toString());
+    }
+
+    if (!restored) throw this.notFound("file");
+    return restored;
+  }
+
+  async restoreFolder(folderId: string): Promise<FolderLean> {
+    this.assertValidId(folderId, "folder");
+
+    const folder = await Folder.findById(folderId).lean<FolderLean>();
+    if (!folder) throw this.notFound("folder");
+    this.assertTrashRoot(folder);
+
+    const restoreParentId = await this.resolveRestoreParent(folder.parentFolderId);
+    const liveState = { deletedAt: null, deletedBy: null, trashRootId: null };
+
+    const { folderName } = await nameConflictService.resolveFolderName({
+      businessId: folder.businessId,
+      parentFolderId: restoreParentId,
+      folderName: folder.folderName,
+      conflict: "autorename",
+    });
+
+    // Root first: if its name is lost to a concurrent write, the subtree stays in the trash
+    const restored = await nameConflictService.guardFolderName(folderName, () =>
+      Folder.findByIdAndUpdate(
+        folderId,
+        { $set: { ...liveState, parentFolderId: restoreParentId, folderName } },
+        { new: true }
+      ).lean<FolderLean>()
+    );
+
+    await Folder.updateMany({ trashRootId: folder._id }, { $set: liveState });
+    await File.updateMany({ trashRootId: folder._id }, { $set: liveState });
+
+    if (restoreParentId) {
+      await folderService.addChildFolderToFolder(restoreParentId.toString(), folderId);
+    }
+
+    if (!restored) throw this.notFound("folder");
+    return restored;
+  }
+
+  /**
+   * "Delete forever" from the trash.
+   */
+  async deleteFilePermanently(fileId: string): Promise<FileLean | null> {
+    this.assertValidId(fileId, "file");
+
+    const file = await File.findById(fileId).lean<FileLean>();
+    if (!file) throw this.notFound("file");
+    this.assertTrashRoot(file);
+
+    return fileService.deleteFile(fileId);
+  }
+
+  /**
+   * "Delete forever" from the trash (whole subtree).
+   */
+  async deleteFolderPermanently(folderId: string): Promise<FolderLean | null> {
+    this.assertValidId(folderId, "folder");
+
+    const folder = await Folder.findById(folderId).lean<FolderLean>();
+    if (!folder) throw this.notFound("folder");
+    this.assertTrashRoot(folder);
+
+    return folderService.deleteFolder(folderId);
+  }
+
+  /**
+   * Permanently remove trashed items older than each business retention period.
+   * Descendants of a purged folder go with it (hard delete walks the subtree).
+   */
+  async purgeExpired(now: Date = new Date()): Promise<PurgeResult> {
+    const result: PurgeResult = { files: 0, folders: 0 };
+
+    const businesses = await BusinessModel.find()
+      .select("trashRetentionDays")
+      .lean<Array<{ _id: Types.ObjectId; trashRetentionDays?: number }>>();
+
+    for (const business of businesses) {
+      const retentionDays = business.trashRetentionDays ?? DEFAULT_RETENTION_DAYS;
+      const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+      const expiredQuery = { businessId: business._id, deletedAt: trusted({ $ne: null, $lte: cutoff }), trashRootId: null };
+
+      const expiredFolderIds: Types.ObjectId[] = await Folder.find(expiredQuery).distinct("_id");
+      for (const folderId of expiredFolderIds) {
+        try {
+          await folderService.deleteFolder(folderId.toString());
+          result.folders += 1;
+        } catch (error) {
+          // Held / retained items wait in the trash until they may be deleted
+          if (!isRetentionBlock(error)) throw error;
+        }
+      }
+
+      const expiredFileIds: Types.ObjectId[] = await File.find(expiredQuery).distinct("_id");
+      for (const fileId of expiredFileIds) {
+        // A purged folder may already have removed it
+        const stillExists = await File.exists({ _id: fileId });
+        if (!stillExists) continue;
+
+        try {
+          await fileService.deleteFile(fileId.toString());
+          result.files += 1;
+        } catch (error) {
+          if (!isRetentionBlock(error)) throw error;
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+export default new TrashService();
\ No newline at end of file
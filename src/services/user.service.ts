@@ -3,13 +3,25 @@ import jwt from "jsonwebtoken";
 
 import { User, type IUser } from "../models/user.model";
 import { File } from "../models/file.model";
+import { FileVersion } from "../models/file-version.model";
 import { Folder } from "../models/folder.model";
+import { Tag } from "../models/tag.model";
+import { MetadataSchemaModel } from "../models/metadata-schema.model";
+import { Star } from "../models/star.model";
+import { RecentFile } from "../models/recent-file.model";
+import { ShareLink } from "../models/share-link.model";
+import { FileRequest } from "../models/file-request.model";
+import { StorageQuota } from "../models/storage-quota.model";
+import { RetentionRule } from "../models/retention-rule.model";
+import { LegalHold } from "../models/legal-hold.model";
+import { Comment } from "../models/comment.model";
 import { Permission } from "../models/permission.model";
 import { Subscription } from "../models/subscription.model";
 import { BusinessModel } from "../models/business.model";
 import { NotificationModel } from "../models/notification.model";
 
 import sesService from "./ses.service";
+import retentionService from "./retention.service";
 import { AppError } from "../errors/app.errors";
 import { generateTemporaryPassword } from "../utils/auth.utils";
 import { requireEnv } from "../config/env";
@@ -153,13 +165,27 @@ class UserService {
     if (user.role === "owner") {
       const businessId = user.businessId;
 
+      // Deleting the owner deletes every record of the business
+      if (businessId) await retentionService.assertBusinessDeletable(businessId);
+
       const usersInBusiness = await User.find({ businessId });
       const userIds = usersInBusiness.map((u) => u._id);
 
       await BusinessModel.deleteMany({ ownerId: user._id });
 
+      await FileVersion.deleteMany({ businessId });
       await File.deleteMany({ businessId });
       await Folder.deleteMany({ businessId });
+      await Tag.deleteMany({ businessId });
+      await MetadataSchemaModel.deleteMany({ businessId });
+      await Star.deleteMany({ businessId });
+      await RecentFile.deleteMany({ businessId });
+      await ShareLink.deleteMany({ businessId });
+      await FileRequest.deleteMany({ businessId });
+      await StorageQuota.deleteMany({ businessId });
+      await RetentionRule.deleteMany({ businessId });
+      await LegalHold.deleteMany({ businessId });
+      await Comment.deleteMany({ businessId });
 
       await NotificationModel.deleteMany({ userId: { $in: userIds } });
 
@@ -170,6 +196,10 @@ class UserService {
 
       await User.deleteMany({ businessId });
     } else {
+      await Star.deleteMany({ userId: user._id });
+      await RecentFile.deleteMany({ userId: user._id });
+      await ShareLink.deleteMany({ createdBy: user._id });
+      await FileRequest.deleteMany({ createdBy: user._id });
       await User.findByIdAndDelete(id);
     }
 
@@ -0,0 +1,173 @@
+import { describe } from "vitest";
+import { S3Client } from "@aws-sdk/client-s3";
+import mongoose, { Types } from "mongoose";
+import { setClients, type Clients } from "../infra/clients";
+import { BusinessModel } from "../models/business.model";
+import { User } from "../models/user.model";
+import type { FileHydrated } from "../models/file.model";
+import fileService from "../services/file.service";
+import { generateAccessToken } from "../utils/auth.utils";
+
+/**
+ * Shared test helpers (no tests here).
+ */
+
+/**
+ * Suites that need MongoDB (set MONGO_URI in .env.test, ex: the docker-compose replica set).
+ */
+export const describeWithDb = describe.skipIf(!process.env.MONGO_URI);
+
+/**
+ * Authorization header value for `userId` (same tokens as the login flow).
+ */
+export function bearer(userId: string): string {
+  return `Bearer ${generateAccessToken(userId)}`;
+}
+
+export type TestWorkspace = {
+  businessId: string;
+  userId: string;
+  auth: string;
+};
+
+/**
+ * A business with its owner (plus the owner's Authorization header).
+ */
+export async function createTestWorkspace(): Promise<TestWorkspace> {
+  const userId = new Types.ObjectId();
+  const business = await BusinessModel.create({ name: `Business ${userId}`, ownerId: userId });
+  await User.create({
+    _id: userId,
+    username: `user-${userId}`,
+    email: `${userId}@example.test`,
+    password: "password123",
+    businessId: business._id,
+    role: "owner",
+  });
+
+  return { businessId: business._id.toString(), userId: userId.toString(), auth: bearer(userId.toString()) };
+}
+
+/**
+ * Empty every collection (indexes are kept, unlike dropDatabase).
+ */
+export async function clearTestDb(): Promise<void> {
+  const collections = Object.values(mongoose.connection.collections);
+  await Promise.all(collections.map((collection) => collection.deleteMany({})));
+}
+
+type FakeObject = { size: number; contentType?: string };
+
+type FakeCommand = { constructor: { name: string }; input: Record<string, any> };
+
+/**
+ * In-memory S3: stores object keys + sizes and answers the commands S3Service sends.
+ * `maxDeleteKeys` mirrors the DeleteObjects limit so oversized requests fail like S3 does.
+ */
+export class FakeS3 {
+  readonly objects = new Map<string, FakeObject>();
+  readonly sent: FakeCommand[] = [];
+  maxDeleteKeys = 1000;
+  private multipartCount = 0;
+
+  put(key: string, size = 1, contentType?: string): void {
+    this.objects.set(key, { size, contentType });
+  }
+
+  has(key: string): boolean {
+    return this.objects.has(key);
+  }
+
+  commands(name: string): FakeCommand[] {
+    return this.sent.filter((command) => command.constructor.name === name);
+  }
+
+  async send(command: FakeCommand): Promise<Record<string, unknown>> {
+    this.sent.push(command);
+    const input = command.input;
+
+    switch (command.constructor.name) {
+      case "PutObjectCommand":
+        this.put(input.Key, 0, input.ContentType);
+        return {};
+      case "HeadObjectCommand": {
+        const object = this.objects.get(input.Key);
+        if (!object) throw Object.assign(new Error("NotFound"), { name: "NotFound", $metadata: { httpStatusCode: 404 } });
+        return { ContentLength: object.size, ContentType: object.contentType };
+      }
+      case "CopyObjectCommand": {
+        const sourceKey = decodeURIComponent(String(input.CopySource).slice(String(input.Bucket).length + 1));
+        const source = this.objects.get(sourceKey);
+        if (!source) throw Object.assign(new Error("NoSuchKey"), { name: "NoSuchKey" });
+        this.objects.set(input.Key, { ...source });
+        return {};
+      }
+      case "DeleteObjectCommand":
+        this.objects.delete(input.Key);
+        return {};
+      case "DeleteObjectsCommand": {
+        const keys: string[] = input.Delete.Objects.map((object: { Key: string }) => object.Key);
+        if (keys.length > this.maxDeleteKeys) throw new Error("MalformedXML: too many keys");
+        keys.forEach((key) => this.objects.delete(key));
+        return { Errors: [] };
+      }
+      case "ListObjectsV2Command": {
+        const keys = [...this.objects.keys()].filter((key) => key.startsWith(input.Prefix ?? ""));
+        return { Contents: keys.map((key) => ({ Key: key, Size: this.objects.get(key)!.size })), IsTruncated: false };
+      }
+      case "CreateMultipartUploadCommand":
+        this.multipartCount += 1;
+        return { UploadId: `upload-${this.multipartCount}` };
+      case "ListPartsCommand":
+        return { Parts: [], IsTruncated: false };
+      case "CompleteMultipartUploadCommand":
+        // Tests store the assembled object (with its size) before completing
+        if (!this.has(input.Key)) this.put(input.Key, 1);
+        return {};
+      case "AbortMultipartUploadCommand":
+        return {};
+      default:
+        throw new Error(`FakeS3: unsupported command ${command.constructor.name}`);
+    }
+  }
+}
+
+/**
+ * Upload a file through the regular start / complete flow (bytes land in `fakeS3`).
+ */
+export async function uploadTestFile(
+  fakeS3: FakeS3,
+  workspace: TestWorkspace,
+  params: { fileName: string; folderId?: string | null; fileSize?: number; contentType?: string }
+): Promise<FileHydrated> {
+  const fileSize = params.fileSize ?? 10;
+  const contentType = params.contentType ?? "text/plain";
+  const uploadParams = {
+    businessId: workspace.businessId,
+    userId: workspace.userId,
+    folderId: params.folderId ?? null,
+    fileName: params.fileName,
+    fileSize,
+    contentType,
+  };
+
+  const started = await fileService.startUpload(uploadParams);
+  fakeS3.put(started.s3Key, fileSize, contentType);
+
+  return fileService.completeUpload({ ...uploadParams, fileId: started.fileId, s3Key: started.s3Key });
+}
+
+/**
+ * Route S3Service through a fresh FakeS3 (SES / Stripe stay unset).
+ * A real client is kept for presigning (local signing only); only `send` is replaced.
+ */
+export function installFakeS3(): FakeS3 {
+  const fakeS3 = new FakeS3();
+  const s3Client = new S3Client({
+    region: "us-east-1",
+    credentials: { accessKeyId: "test", secretAccessKey: "test" },
+  });
+  s3Client.send = ((command: FakeCommand) => fakeS3.send(command)) as S3Client["send"];
+  setClients({ s3: s3Client } as Clients);
+  return fakeS3;
+}
\ No newline at end of file
@@ -28,20 +28,29 @@ dotenv.config({ path: fs.existsSync(envPath) ? envPath : fallbackEnvPath });
 // Ensure NODE_ENV is test (some libs behave differently)
 process.env.NODE_ENV = "test";
 
+// Secrets read at import time; tests sign their own tokens with these
+process.env.ACCESS_TOKEN_SECRET ??= "test-access-token-secret";
+process.env.REFRESH_TOKEN_SECRET ??= "test-refresh-token-secret";
+process.env.S3_BUCKET_NAME ??= "test-bucket";
+
 // 2) Import AFTER dotenv so config/env-dependent modules see correct values
-import { startServer, stopServer } from "../server";
+//    (dynamic: static imports are hoisted above the code above)
+let server: typeof import("../server");
 
 beforeAll(async () => {
+  server = await import("../server");
+
   // Test-proof defaults in your server.ts:
   // - listen: false in NODE_ENV=test
   // - initThirdParty: false in NODE_ENV=test
   // - connectDb: true (unless you override)
-  await startServer({
-    // If you want pure unit tests without Mongo:
-    // connectDb: false,
+  await server.startServer({
+    // Without MONGO_URI only unit / mocked route tests run;
+    // Mongo-backed suites skip themselves (see `describeWithDb` in ./helpers)
+    connectDb: Boolean(process.env.MONGO_URI),
   });
 });
 
 afterAll(async () => {
-  await stopServer();
+  await server.stopServer();
 });
\ No newline at end of file
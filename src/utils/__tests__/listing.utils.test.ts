@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Types } from "mongoose";
+import { pageStages, resolveListingOptions, startOfFilesCursor, takePage } from "../listing.utils";
+
+function fileRow(fileName: string, extra: Record<string, unknown> = {}) {
+  return { _id: new Types.ObjectId(), fileName, ...extra };
+}
+
+/**
+ * Decoded cursor of the page after `rows` (throws when there is none).
+ */
+function nextOptions(rows: Array<{ _id: Types.ObjectId }>, limit: number, options = resolveListingOptions({ limit })) {
+  const { nextCursor } = takePage("file", rows, limit, options);
+  if (!nextCursor) throw new Error("expected a next cursor");
+  return resolveListingOptions({ sort: options.sort, order: options.order, limit, cursor: nextCursor });
+}
+
+describe("listing cursors", () => {
+  it("round-trips the last item's sort value and id", () => {
+    const rows = [fileRow("a.txt"), fileRow("b.txt"), fileRow("c.txt")];
+
+    const options = nextOptions(rows, 2);
+
+    expect(options.after).toEqual({ phase: "file", value: "b.txt", id: rows[1]._id });
+  });
+
+  it("keeps dates as dates", () => {
+    const createdAt = new Date("2024-05-01T10:00:00.000Z");
+    const rows = [fileRow("a.txt", { createdAt }), fileRow("b.txt", { createdAt: new Date() })];
+
+    const options = nextOptions(rows, 1, resolveListingOptions({ sort: "createdAt", order: "desc", limit: 1 }));
+
+    expect(options.after?.value).toEqual(createdAt);
+  });
+
+  it("has no next cursor on the last page", () => {
+    const page = takePage("file", [fileRow("a.txt")], 2, resolveListingOptions({ limit: 2 }));
+
+    expect(page.items).toHaveLength(1);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("rejects a cursor issued for another sort", () => {
+    const rows = [fileRow("a.txt"), fileRow("b.txt")];
+    const { nextCursor } = takePage("file", rows, 1, resolveListingOptions({ limit: 1 }));
+
+    expect(() => resolveListingOptions({ sort: "size", cursor: nextCursor })).toThrow(
+      expect.objectContaining({ code: "LISTING_INVALID_CURSOR" })
+    );
+  });
+
+  it.each(["not-base64-json", Buffer.from('{"p":"file","s":"name","o":"asc","v":1,"id":"nope"}').toString("base64url")])(
+    "rejects a malformed cursor (%s)",
+    (cursor) => {
+      expect(() => resolveListingOptions({ cursor })).toThrow(expect.objectContaining({ code: "LISTING_INVALID_CURSOR" }));
+    }
+  );
+
+  it("points the start-of-files cursor at the first file", () => {
+    const options = resolveListingOptions({ cursor: startOfFilesCursor(resolveListingOptions()) });
+
+    expect(options.after).toEqual({ phase: "file", value: null, id: null });
+    expect(pageStages("file", options)[0]).toEqual({ $sort: { fileName: 1, _id: 1 } });
+  });
+});
+
+describe("pageStages", () => {
+  it("sorts and compares on the stored field, not a computed one", () => {
+    const rows = [fileRow("a.txt"), fileRow("b.txt")];
+    const options = nextOptions(rows, 1);
+
+    expect(pageStages("file", options)).toEqual([
+      { $match: { $or: [{ fileName: { $gt: "a.txt" } }, { fileName: "a.txt", _id: { $gt: rows[0]._id } }] } },
+      { $sort: { fileName: 1, _id: 1 } },
+      { $limit: 2 },
+    ]);
+  });
+
+  it("lists folders by name whatever file-only sort is asked", () => {
+    const options = resolveListingOptions({ sort: "size", order: "desc" });
+
+    expect(pageStages("folder", options, 10)).toEqual([{ $sort: { folderName: -1, _id: -1 } }, { $limit: 11 }]);
+  });
+
+  it("keeps items without a value after a null cursor (ascending)", () => {
+    const rows = [fileRow("a.txt", { contentType: null }), fileRow("b.txt", { contentType: "text/plain" })];
+    const options = nextOptions(rows, 1, resolveListingOptions({ sort: "type", limit: 1 }));
+
+    expect(pageStages("file", options)[0]).toEqual({
+      $match: { $or: [{ contentType: { $ne: null } }, { contentType: null, _id: { $gt: rows[0]._id } }] },
+    });
+  });
+
+  it("ends a descending page with the items without a value", () => {
+    const rows = [fileRow("a.txt", { contentType: "text/plain" }), fileRow("b.txt", { contentType: null })];
+    const options = nextOptions(rows, 1, resolveListingOptions({ sort: "type", order: "desc", limit: 1 }));
+
+    expect(pageStages("file", options)[0]).toEqual({
+      $match: {
+        $or: [
+          { contentType: { $lt: "text/plain" } },
+          { contentType: "text/plain", _id: { $lt: rows[0]._id } },
+          { contentType: null },
+        ],
+      },
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { contentDispositionFor, nextAvailableName, sanitizeFilename } from "../name.utils";
+
+describe("nextAvailableName", () => {
+  it("keeps a free name", () => {
+    expect(nextAvailableName("report.pdf", ["notes.pdf"], { hasExtension: true })).toBe("report.pdf");
+  });
+
+  it("numbers before the extension, skipping taken numbers", () => {
+    const taken = ["report.pdf", "report (1).pdf", "report (3).pdf"];
+
+    expect(nextAvailableName("report.pdf", taken, { hasExtension: true })).toBe("report (2).pdf");
+  });
+
+  it("numbers after the last dot only", () => {
+    expect(nextAvailableName("archive.tar.gz", ["archive.tar.gz"], { hasExtension: true })).toBe("archive.tar (1).gz");
+  });
+
+  it("treats a leading dot as part of the name", () => {
+    expect(nextAvailableName(".env", [".env"], { hasExtension: true })).toBe(".env (1)");
+  });
+
+  it("never splits folder names", () => {
+    expect(nextAvailableName("v1.2", ["v1.2"], { hasExtension: false })).toBe("v1.2 (1)");
+  });
+});
+
+describe("sanitizeFilename", () => {
+  it("drops accents and replaces anything outside [a-zA-Z0-9._-]", () => {
+    expect(sanitizeFilename("Résumé 2024 (final).pdf")).toBe("Resume_2024__final_.pdf");
+  });
+
+  it("never keeps path separators", () => {
+    expect(sanitizeFilename("../etc/passwd")).toBe(".._etc_passwd");
+  });
+
+  it("caps the key segment length", () => {
+    expect(sanitizeFilename("a".repeat(300))).toHaveLength(180);
+  });
+});
+
+describe("contentDispositionFor", () => {
+  it("sends an ASCII fallback and the UTF-8 name", () => {
+    expect(contentDispositionFor("Résumé.pdf")).toBe(
+      `attachment; filename="Resume.pdf"; filename*=UTF-8''R%C3%A9sum%C3%A9.pdf`
+    );
+  });
+
+  it("escapes quotes, backslashes and RFC 5987 reserved characters", () => {
+    expect(contentDispositionFor(`it's "a\\b" (1)*.txt`, "inline")).toBe(
+      `inline; filename="it's _a_b_ (1)*.txt"; filename*=UTF-8''it%27s%20%22a%5Cb%22%20%281%29%2A.txt`
+    );
+  });
+
+  it("replaces characters with no ASCII form in the fallback", () => {
+    expect(contentDispositionFor("报告.pdf")).toBe(`attachment; filename="__.pdf"; filename*=UTF-8''%E6%8A%A5%E5%91%8A.pdf`);
+  });
+});
\ No newline at end of file
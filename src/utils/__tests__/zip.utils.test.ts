@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { Readable } from "stream";
+import { crc32, inflateRawSync } from "zlib";
+import { ZipWriter } from "../zip.utils";
+
+type ParsedEntry = {
+  name: string;
+  flags: number;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  externalAttributes: number;
+  localHeaderOffset: number;
+};
+
+/**
+ * Write entries with ZipWriter and return the whole archive.
+ */
+async function buildArchive(build: (zip: ZipWriter) => Promise<void>): Promise<Buffer> {
+  const zip = new ZipWriter();
+  const chunks: Buffer[] = [];
+  zip.output.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const ended = new Promise((resolve) => zip.output.on("end", resolve));
+
+  await build(zip);
+  await zip.finalize();
+  await ended;
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read the end record and the central directory, the way unzip tools do.
+ */
+function readCentralDirectory(archive: Buffer): { entryCount: number; entries: ParsedEntry[] } {
+  const end = archive.subarray(archive.length - 22);
+  expect(end.readUInt32LE(0)).toBe(0x06054b50);
+
+  const entryCount = end.readUInt16LE(10);
+  const centralDirectorySize = end.readUInt32LE(12);
+  const centralDirectoryOffset = end.readUInt32LE(16);
+  expect(centralDirectoryOffset + centralDirectorySize).toBe(archive.length - 22);
+
+  const entries: ParsedEntry[] = [];
+  let position = centralDirectoryOffset;
+  for (let index = 0; index < entryCount; index += 1) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const nameLength = archive.readUInt16LE(position + 28);
+
+    entries.push({
+      flags: archive.readUInt16LE(position + 8),
+      method: archive.readUInt16LE(position + 10),
+      crc: archive.readUInt32LE(position + 16),
+      compressedSize: archive.readUInt32LE(position + 20),
+      uncompressedSize: archive.readUInt32LE(position + 24),
+      externalAttributes: archive.readUInt32LE(position + 38),
+      localHeaderOffset: archive.readUInt32LE(position + 42),
+      name: archive.subarray(position + 46, position + 46 + nameLength).toString("utf8"),
+    });
+    position += 46 + nameLength;
+  }
+
+  return { entryCount, entries };
+}
+
+/**
+ * Inflate an entry's data from its local header.
+ */
+function readEntryData(archive: Buffer, entry: ParsedEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+
+  const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  return inflateRawSync(archive.subarray(dataStart, dataStart + entry.compressedSize));
+}
+
+describe("ZipWriter", () => {
+  const report = Buffer.from("quarterly numbers\n".repeat(200));
+  const resume = Buffer.from("Curriculum vitae");
+
+  it("lists every entry in the central directory with its CRC and sizes", async () => {
+    const archive = await buildArchive(async (zip) => {
+      await zip.addFile("docs/report.txt", Readable.from([report.subarray(0, 100), report.subarray(100)]));
+      await zip.addFile("docs/résumé.txt", Readable.from([resume]));
+      await zip.addDirectory("empty");
+    });
+
+    const { entryCount, entries } = readCentralDirectory(archive);
+
+    expect(entryCount).toBe(3);
+    expect(entries.map((entry) => entry.name)).toEqual(["docs/report.txt", "docs/résumé.txt", "empty/"]);
+    expect(entries.every((entry) => (entry.flags & 0x0800) !== 0)).toBe(true);
+
+    const [reportEntry, resumeEntry, directoryEntry] = entries;
+    expect(reportEntry.crc).toBe(crc32(report));
+    expect(reportEntry.uncompressedSize).toBe(report.length);
+    expect(reportEntry.compressedSize).toBeLessThan(report.length);
+    expect(readEntryData(archive, reportEntry)).toEqual(report);
+    expect(resumeEntry.crc).toBe(crc32(resume));
+    expect(readEntryData(archive, resumeEntry)).toEqual(resume);
+
+    expect(directoryEntry).toMatchObject({ method: 0, crc: 0, compressedSize: 0, externalAttributes: 0x10 });
+  });
+
+  it("follows each file's data with a descriptor matching the central directory", async () => {
+    const archive = await buildArchive(async (zip) => {
+      await zip.addFile("report.txt", Readable.from([report]));
+    });
+
+    const [entry] = readCentralDirectory(archive).entries;
+    expect(entry.flags & 0x0008).toBe(0x0008);
+
+    const descriptorOffset = entry.localHeaderOffset + 30 + Buffer.byteLength(entry.name) + entry.compressedSize;
+    expect(archive.readUInt32LE(descriptorOffset)).toBe(0x08074b50);
+    expect(archive.readUInt32LE(descriptorOffset + 4)).toBe(entry.crc);
+    expect(archive.readUInt32LE(descriptorOffset + 8)).toBe(entry.compressedSize);
+    expect(archive.readUInt32LE(descriptorOffset + 12)).toBe(entry.uncompressedSize);
+  });
+
+  it("writes an empty archive as a lone end record", async () => {
+    const archive = await buildArchive(async () => undefined);
+
+    expect(archive.length).toBe(22);
+    expect(readCentralDirectory(archive).entryCount).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { Types, type PipelineStage } from "mongoose";
+import { AppError } from "../errors/app.errors";
+
+/**
+ * Cursor pagination + sorting for folder / file listings.
+ *
+ * Keyset pagination: a page is "items after (sort field, _id) of the last item seen",
+ * so pages stay stable while items are added or removed and deep pages cost the same.
+ * Pages compare and sort on the stored field itself (never a computed one), so the
+ * listing indexes (natural-sort collation) serve sort=name without an in-memory sort.
+ * The cursor is opaque to clients (base64url JSON) and bound to the sort it was issued for.
+ */
+
+export const LISTING_SORT_FIELDS = ["name", "size", "createdAt", "updatedAt", "type"] as const;
+export type ListingSortField = (typeof LISTING_SORT_FIELDS)[number];
+
+export const LISTING_ORDERS = ["asc", "desc"] as const;
+export type ListingOrder = (typeof LISTING_ORDERS)[number];
+
+export const LISTING_DEFAULT_LIMIT = 100;
+export const LISTING_MAX_LIMIT = 500;
+
+/**
+ * Natural sort: "file2" before "file10" (pass to every listing aggregation).
+ * The listing indexes of File / Folder are built with this exact collation.
+ */
+export const NATURAL_SORT_COLLATION = { locale: "en", numericOrdering: true };
+
+/**
+ * Folders are listed before files, so a cursor also says which list it points into
+ */
+export type ListingPhase = "folder" | "file";
+
+export type ListingOptions = {
+  sort?: ListingSortField;
+  order?: ListingOrder;
+  limit?: number;
+  cursor?: string | null;
+};
+
+export type ResolvedListingOptions = {
+  sort: ListingSortField;
+  order: ListingOrder;
+  limit: number;
+  after: ListingCursor | null;
+};
+
+type SortValue = string | number | Date;
+
+/**
+ * `value` / `id` are null for "start of this phase"
+ */
+type ListingCursor = {
+  phase: ListingPhase;
+  value: SortValue | null;
+  id: Types.ObjectId | null;
+};
+
+type EncodedCursor = {
+  p: ListingPhase;
+  s: ListingSortField;
+  o: ListingOrder;
+  v: string | number | null;
+  d?: true;
+  id: string | null;
+};
+
+function invalidCursor(): AppError {
+  return new AppError({
+    message: "Invalid or expired cursor (it must come from the same listing and sort)",
+    statusCode: 400,
+    code: "LISTING_INVALID_CURSOR",
+  });
+}
+
+function encodeCursor(cursor: ListingCursor, sort: ListingSortField, order: ListingOrder): string {
+  const encoded: EncodedCursor = {
+    p: cursor.phase,
+    s: sort,
+    o: order,
+    v: cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value,
+    ...(cursor.value instanceof Date ? { d: true as const } : {}),
+    id: cursor.id?.toString() ?? null,
+  };
+
+  return Buffer.from(JSON.stringify(encoded)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: ListingSortField, order: ListingOrder): ListingCursor {
+  let decoded: EncodedCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as EncodedCursor;
+  } catch {
+    throw invalidCursor();
+  }
+
+  const isValid =
+    decoded !== null &&
+    typeof decoded === "object" &&
+    (decoded.p === "folder" || decoded.p === "file") &&
+    decoded.s === sort &&
+    decoded.o === order &&
+    (decoded.id === null || (typeof decoded.id === "string" && Types.ObjectId.isValid(decoded.id))) &&
+    (decoded.v === null || typeof decoded.v === "string" || typeof decoded.v === "number") &&
+    (decoded.id !== null || decoded.v === null);
+
+  if (!isValid) throw invalidCursor();
+
+  const value = decoded.d && typeof decoded.v === "string" ? new Date(decoded.v) : decoded.v;
+  if (value instanceof Date && Number.isNaN(value.getTime())) throw invalidCursor();
+
+  return { phase: decoded.p, value, id: decoded.id ? new Types.ObjectId(decoded.id) : null };
+}
+
+/**
+ * Defaults + bounds; decodes the cursor against the requested sort.
+ */
+export function resolveListingOptions(options: ListingOptions = {}): ResolvedListingOptions {
+  const sort = options.sort ?? "name";
+  const order = options.order ?? "asc";
+
+  if (!LISTING_SORT_FIELDS.includes(sort) || !LISTING_ORDERS.includes(order)) {
+    throw new AppError({
+      message: `sort must be one of ${LISTING_SORT_FIELDS.join(", ")} and order asc or desc`,
+      statusCode: 400,
+      code: "VALIDATION_ERROR",
+    });
+  }
+
+  const limit = options.limit ?? LISTING_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > LISTING_MAX_LIMIT) {
+    throw new AppError({
+      message: `limit must be an integer between 1 and ${LISTING_MAX_LIMIT}`,
+      statusCode: 400,
+      code: "VALIDATION_ERROR",
+    });
+  }
+
+  return { sort, order, limit, after: options.cursor ? decodeCursor(options.cursor, sort, order) : null };
+}
+
+/**
+ * Field a folder / file listing is sorted on. Folders have no size or type: they fall back to their name.
+ */
+function sortField(phase: ListingPhase, sort: ListingSortField): string {
+  if (sort === "createdAt" || sort === "updatedAt") return sort;
+  if (phase === "folder") return "folderName";
+
+  switch (sort) {
+    case "size":
+      return "fileSize";
+    case "type":
+      return "contentType";
+    default:
+      return "fileName";
+  }
+}
+
+/**
+ * Items after `after` in (field, _id) order. Missing / null values sort first (ascending),
+ * and range operators never match null, so null gets its own branches.
+ */
+function afterMatch(field: string, after: ListingCursor, direction: 1 | -1): Record<string, unknown> {
+  const comparison = direction === 1 ? "$gt" : "$lt";
+  const afterId = { [comparison]: after.id };
+
+  if (after.value === null) {
+    return direction === 1
+      ? { $or: [{ [field]: { $ne: null } }, { [field]: null, _id: afterId }] }
+      : { [field]: null, _id: afterId };
+  }
+
+  return {
+    $or: [
+      { [field]: { [comparison]: after.value } },
+      { [field]: after.value, _id: afterId },
+      ...(direction === -1 ? [{ [field]: null }] : []),
+    ],
+  };
+}
+
+/**
+ * Stages selecting one page (+1 item to detect the next one) of already-matched items.
+ * Run the aggregation with NATURAL_SORT_COLLATION, and add stages that only shape
+ * the page ($lookup, $project) after these, keeping the sort field.
+ */
+export function pageStages(
+  phase: ListingPhase,
+  options: ResolvedListingOptions,
+  limit: number = options.limit
+): PipelineStage[] {
+  const direction = options.order === "asc" ? 1 : -1;
+  const field = sortField(phase, options.sort);
+  const after = options.after?.phase === phase && options.after.id ? options.after : null;
+
+  return [
+    ...(after ? [{ $match: afterMatch(field, after, direction) }] : []),
+    { $sort: { [field]: direction, _id: direction } },
+    { $limit: limit + 1 },
+  ];
+}
+
+/**
+ * Cut the extra item off and build the cursor of the next page (null when this phase is done).
+ */
+export function takePage<T extends { _id: Types.ObjectId }>(
+  phase: ListingPhase,
+  rows: T[],
+  limit: number,
+  options: ResolvedListingOptions
+): { items: T[]; nextCursor: string | null } {
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit);
+  const lastItem = items[items.length - 1];
+
+  const lastValue = lastItem
+    ? ((lastItem as Record<string, unknown>)[sortField(phase, options.sort)] as SortValue | null | undefined)
+    : null;
+  const nextCursor =
+    hasMore && lastItem
+      ? encodeCursor({ phase, value: lastValue ?? null, id: lastItem._id }, options.sort, options.order)
+      : null;
+
+  return { items, nextCursor };
+}
+
+/**
+ * Cursor pointing at the first file (folders-first listings whose folders fill a page exactly).
+ */
+export function startOfFilesCursor(options: ResolvedListingOptions): string {
+  return encodeCursor({ phase: "file", value: null, id: null }, options.sort, options.order);
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { AppError } from "../errors/app.errors";
+
+/**
+ * File / folder name helpers.
+ *
+ * Display names keep what the user typed (Unicode, NFC); only S3 key segments are sanitized.
+ */
+
+export const FILE_NAME_MAX_LENGTH = 255;
+export const FOLDER_NAME_MAX_LENGTH = 255;
+
+/**
+ * Path separators and control characters (C0, DEL, C1)
+ */
+const FORBIDDEN_NAME_CHARACTERS = /[/\\\u0000-\u001f\u007f-\u009f]/;
+
+/**
+ * Combining marks left over after NFKD ("é" => "e" + U+0301)
+ */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+function invalidName(kind: "file" | "folder", rawName: string, problem: string): AppError {
+  return new AppError({
+    message: `${kind === "file" ? "File" : "Folder"} name ${problem}`,
+    statusCode: 400,
+    code: kind === "file" ? "FILE_NAME_INVALID" : "FOLDER_NAME_INVALID",
+    details: { name: rawName },
+  });
+}
+
+function validateDisplayName(rawName: string, kind: "file" | "folder", maxLength: number): string {
+  const name = rawName.normalize("NFC").trim();
+
+  if (name.length === 0 || name === "." || name === "..") {
+    throw invalidName(kind, rawName, 'must not be empty, "." or ".."');
+  }
+  if (FORBIDDEN_NAME_CHARACTERS.test(name)) {
+    throw invalidName(kind, rawName, "must not contain path separators or control characters");
+  }
+  if (name.length > maxLength) {
+    throw invalidName(kind, rawName, `must be at most ${maxLength} characters`);
+  }
+
+  return name;
+}
+
+/**
+ * Display name of a file: trimmed, NFC ("Résumé 2024.pdf" stays as typed).
+ * Throws 400 FILE_NAME_INVALID for empty / "." / ".." names, separators and control characters.
+ */
+export function normalizeFileName(fileName: string): string {
+  return validateDisplayName(fileName, "file", FILE_NAME_MAX_LENGTH);
+}
+
+/**
+ * Display name of a folder (same rules, 400 FOLDER_NAME_INVALID).
+ */
+export function normalizeFolderName(folderName: string): string {
+  return validateDisplayName(folderName, "folder", FOLDER_NAME_MAX_LENGTH);
+}
+
+/**
+ * S3 key segment for a file name (never shown to users).
+ * Keep it simple, safe, predictable: accents are dropped ("Résumé" => "Resume"), anything else becomes "_".
+ */
+export function sanitizeFilename(originalName: string): string {
+  return originalName
+    .normalize("NFKD")
+    .replace(COMBINING_MARKS, "")
+    .replace(/[^a-zA-Z0-9._-]/g, "_")
+    .slice(0, 180);
+}
+
+/**
+ * Content-Disposition value for downloading `fileName` (RFC 6266 / RFC 5987):
+ * an ASCII `filename` fallback for old clients plus the UTF-8 `filename*` everyone else uses.
+ */
+export function contentDispositionFor(fileName: string, disposition: "attachment" | "inline" = "attachment"): string {
+  const asciiFallback = fileName
+    .normalize("NFKD")
+    .replace(COMBINING_MARKS, "")
+    .replace(/[^\x20-\x7e]|["\\]/g, "_");
+
+  // encodeURIComponent leaves !'()* alone; RFC 5987 attr-char only allows "!"
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `${disposition}; filename="${asciiFallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * First name not in `takenNames`: "report.pdf" -> "report (1).pdf" -> "report (2).pdf" ...
+ * Folders have no extension, so pass `hasExtension: false` ("v1.2" -> "v1.2 (1)").
+ */
+export function nextAvailableName(
+  name: string,
+  takenNames: Iterable<string>,
+  options: { hasExtension: boolean }
+): string {
+  const taken = new Set(takenNames);
+  if (!taken.has(name)) return name;
+
+  const extensionStart = options.hasExtension ? name.lastIndexOf(".") : -1;
+  const hasUsableExtension = extensionStart > 0;
+  const stem = hasUsableExtension ? name.slice(0, extensionStart) : name;
+  const extension = hasUsableExtension ? name.slice(extensionStart) : "";
+
+  for (let counter = 1; ; counter += 1) {
+    const candidate = `${stem} (${counter})${extension}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * S3 key layout helpers.
+ *
+ * Layout:
+ * - root files:    <businessId>/root/files/<fileId>-<name>
+ * - folder prefix: <businessId>/folders/<folderId>/   (flat, NOT nested under the parent)
+ * - folder files:  <folderPrefix>files/<fileId>-<name>
+ * - file versions: <prefix>files/<fileId>-<versionKeyId>-<name>
+ * - thumbnails:    <prefix>thumbnails/<source basename>-<size>.jpg   (derived from the file key)
+ * - ZIP exports:   exports/<businessId>/<jobId>/<archiveName>.zip   (temporary)
+ *
+ * Keys are ID-based so renames and folder moves never touch S3 (folder prefixes are flat).
+ * A file moved to another folder has its objects moved under that folder's prefix.
+ */
+
+/**
+ * Root “folder” prefix for files that are not in a folder
+ */
+export function rootPrefix(businessId: string): string {
+  return `${businessId}/root/`;
+}
+
+/**
+ * S3 folder prefix (must end with "/")
+ */
+export function folderPrefix(businessId: string, folderId: string): string {
+  return `${businessId}/folders/${folderId}/`;
+}
+
+/**
+ * Object key for a file upload under `prefix`.
+ * `versionKeyId` is set for every upload after the first one, so versions never share an object.
+ */
+export function fileObjectKey(
+  prefix: string,
+  fileId: string,
+  normalizedFileName: string,
+  versionKeyId?: string
+): string {
+  return versionKeyId
+    ? `${prefix}files/${fileId}-${versionKeyId}-${normalizedFileName}`
+    : `${prefix}files/${fileId}-${normalizedFileName}`;
+}
+
+/**
+ * Last segment of a key (ex: "<fileId>-<name>").
+ * Used when relocating an object under another prefix.
+ */
+export function keyBasename(objectKey: string): string {
+  return objectKey.slice(objectKey.lastIndexOf("/") + 1);
+}
+
+/**
+ * Thumbnail key derived from the object it was rendered from.
+ * Stays under the same prefix as its source object.
+ */
+export function thumbnailObjectKey(sourceKey: string, size: number): string {
+  const filesSegmentIndex = sourceKey.lastIndexOf("files/");
+  const prefix = filesSegmentIndex >= 0 ? sourceKey.slice(0, filesSegmentIndex) : "";
+
+  return `${prefix}thumbnails/${keyBasename(sourceKey)}-${size}.jpg`;
+}
+
+/**
+ * Prefix of every temporary export archive (one prefix so cleanup is a single listing)
+ */
+export const EXPORTS_PREFIX = "exports/";
+
+/**
+ * Object key of a folder export archive
+ */
+export function exportObjectKey(businessId: string, jobId: string, archiveName: string): string {
+  return `${EXPORTS_PREFIX}${businessId}/${jobId}/${archiveName}`;
+}
\ No newline at end of file
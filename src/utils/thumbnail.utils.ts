@@ -0,0 +1,117 @@
+import { execFile } from "child_process";
+import { join } from "path";
+import { promisify } from "util";
+import { getEnv } from "../config/env";
+
+/**
+ * Thumbnail rendering with external tools (no native Node addons):
+ * - ImageMagick (`magick`) resizes images to JPEG
+ * - poppler (`pdftoppm`) rasterizes the first page of a PDF, then ImageMagick resizes it
+ *
+ * Both binaries must be on the PATH (see Dockerfile) or set through
+ * THUMBNAIL_MAGICK_BIN / THUMBNAIL_PDFTOPPM_BIN.
+ */
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A single tool run never blocks a worker for long
+ */
+const TOOL_TIMEOUT_MS = 60_000;
+
+/**
+ * Content type => ImageMagick coder.
+ * The coder is passed explicitly so ImageMagick never guesses the format from the bytes.
+ */
+const IMAGE_CODERS: Record<string, string> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/tiff": "tiff",
+};
+
+const PDF_CONTENT_TYPE = "application/pdf";
+
+export function canRenderThumbnail(contentType: string | null | undefined): boolean {
+  if (!contentType) return false;
+  return contentType === PDF_CONTENT_TYPE || contentType in IMAGE_CODERS;
+}
+
+async function runTool(command: string, args: string[]): Promise<void> {
+  try {
+    await execFileAsync(command, args, { timeout: TOOL_TIMEOUT_MS, maxBuffer: 1024 * 1024 });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`${command} failed${stderr ? `: ${stderr.slice(0, 500)}` : ""}`);
+  }
+}
+
+/**
+ * Render `sourcePath` as JPEG thumbnails (longest side <= size, never upscaled).
+ * Output files are written to `workDir`; returns their paths by size.
+ */
+export async function renderThumbnails(params: {
+  sourcePath: string;
+  contentType: string;
+  sizes: readonly number[];
+  workDir: string;
+}): Promise<Map<number, string>> {
+  const { sourcePath, contentType, sizes, workDir } = params;
+
+  const magick = getEnv("THUMBNAIL_MAGICK_BIN", "magick")!;
+  let input: string;
+
+  if (contentType === PDF_CONTENT_TYPE) {
+    const pagePrefix = join(workDir, "page");
+
+    // First page only, rendered at the largest size we need
+    await runTool(getEnv("THUMBNAIL_PDFTOPPM_BIN", "pdftoppm")!, [
+      "-png",
+      "-f",
+      "1",
+      "-l",
+      "1",
+      "-singlefile",
+      "-scale-to",
+      String(Math.max(...sizes)),
+      sourcePath,
+      pagePrefix,
+    ]);
+
+    input = `png:${pagePrefix}.png`;
+  } else {
+    const coder = IMAGE_CODERS[contentType];
+    if (!coder) throw new Error(`Unsupported content type: ${contentType}`);
+
+    // [0] = first frame (animated GIF / multi-page TIFF)
+    input = `${coder}:${sourcePath}[0]`;
+  }
+
+  const outputs = new Map<number, string>();
+
+  for (const size of sizes) {
+    const outputPath = join(workDir, `thumbnail-${size}.jpg`);
+
+    await runTool(magick, [
+      input,
+      "-auto-orient",
+      "-thumbnail",
+      `${size}x${size}>`,
+      // JPEG has no alpha: flatten transparent images on white
+      "-background",
+      "white",
+      "-alpha",
+      "remove",
+      "-strip",
+      "-quality",
+      "82",
+      `jpeg:${outputPath}`,
+    ]);
+
+    outputs.set(size, outputPath);
+  }
+
+  return outputs;
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { once } from "events";
+import { PassThrough, Transform, Writable, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { crc32, createDeflateRaw } from "zlib";
+
+/**
+ * Minimal streaming ZIP writer (deflate, UTF-8 names, data descriptors).
+ *
+ * Entries are written one after another to `output` without buffering whole files,
+ * so the archive can be piped straight into an S3 upload.
+ *
+ * No ZIP64: archives are limited to 65,535 entries and 4 GiB.
+ */
+
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_BYTES = 0xffffffff;
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20;
+
+type CentralDirectoryEntry = {
+  name: Buffer;
+  flags: number;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+};
+
+/**
+ * MS-DOS date/time fields used by ZIP headers.
+ */
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  /**
+   * Archive bytes (pipe into a file or an upload)
+   */
+  readonly output = new PassThrough();
+
+  private offset = 0;
+  private readonly entries: CentralDirectoryEntry[] = [];
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    if (this.offset > ZIP_MAX_BYTES) throw new Error("ZIP archive exceeds 4 GiB");
+
+    if (this.output.destroyed) throw new Error("ZIP output was closed");
+
+    if (!this.output.write(chunk)) {
+      // The consumer may go away (ex: failed upload) instead of draining
+      await Promise.race([once(this.output, "drain"), once(this.output, "close")]);
+      if (this.output.destroyed) throw new Error("ZIP output was closed");
+    }
+  }
+
+  private assertCanAddEntry(): void {
+    if (this.entries.length >= ZIP_MAX_ENTRIES) throw new Error("ZIP archive exceeds 65535 entries");
+  }
+
+  private localHeader(entry: Omit<CentralDirectoryEntry, "localHeaderOffset" | "isDirectory">): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION_NEEDED, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.uncompressedSize, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28); // extra field length
+
+    return Buffer.concat([header, entry.name]);
+  }
+
+  /**
+   * Empty directory entry ("a/b/"); keeps empty folders in the archive.
+   */
+  async addDirectory(path: string, modifiedAt: Date = new Date()): Promise<void> {
+    this.assertCanAddEntry();
+
+    const name = Buffer.from(path.endsWith("/") ? path : `${path}/`, "utf8");
+    const entry = {
+      name,
+      flags: FLAG_UTF8_NAME,
+      method: METHOD_STORE,
+      ...toDosDateTime(modifiedAt),
+      crc: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+    };
+
+    const localHeaderOffset = this.offset;
+    await this.write(this.localHeader(entry));
+    this.entries.push({ ...entry, localHeaderOffset, isDirectory: true });
+  }
+
+  /**
+   * Compress `source` into the archive as `path`.
+   * Sizes and CRC are only known at the end, so they follow the data (data descriptor).
+   */
+  async addFile(path: string, source: Readable, modifiedAt: Date = new Date()): Promise<void> {
+    this.assertCanAddEntry();
+
+    const entry = {
+      name: Buffer.from(path, "utf8"),
+      flags: FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME,
+      method: METHOD_DEFLATE,
+      ...toDosDateTime(modifiedAt),
+      crc: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+    };
+
+    const localHeaderOffset = this.offset;
+    await this.write(this.localHeader(entry));
+
+    let crc = 0;
+    let uncompressedSize = 0;
+    let compressedSize = 0;
+
+    await pipeline(
+      source,
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          crc = crc32(chunk, crc);
+          uncompressedSize += chunk.length;
+          callback(null, chunk);
+        },
+      }),
+      createDeflateRaw(),
+      new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          compressedSize += chunk.length;
+          this.write(chunk).then(() => callback(), callback);
+        },
+      })
+    );
+
+    if (uncompressedSize > ZIP_MAX_BYTES) throw new Error("ZIP entry exceeds 4 GiB");
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(uncompressedSize, 12);
+    await this.write(descriptor);
+
+    this.entries.push({ ...entry, crc, compressedSize, uncompressedSize, localHeaderOffset, isDirectory: false });
+  }
+
+  /**
+   * Write the central directory and end the output stream.
+   */
+  async finalize(): Promise<void> {
+    const centralDirectoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+      header.writeUInt16LE(VERSION_NEEDED, 4); // version made by
+      header.writeUInt16LE(VERSION_NEEDED, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.dosTime, 12);
+      header.writeUInt16LE(entry.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.uncompressedSize, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt16LE(0, 30); // extra field length
+      header.writeUInt16LE(0, 32); // comment length
+      header.writeUInt16LE(0, 34); // disk number
+      header.writeUInt16LE(0, 36); // internal attributes
+      header.writeUInt32LE(entry.isDirectory ? 0x10 : 0, 38); // external attributes (MS-DOS directory bit)
+      header.writeUInt32LE(entry.localHeaderOffset, 42);
+
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const centralDirectorySize = this.offset - centralDirectoryOffset;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(0, 4); // disk number
+    end.writeUInt16LE(0, 6); // disk with central directory
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(centralDirectorySize, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    end.writeUInt16LE(0, 20); // comment length
+    await this.write(end);
+
+    this.output.end();
+  }
+}
\ No newline at end of file
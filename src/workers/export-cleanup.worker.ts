@@ -0,0 +1,18 @@
+import type { ScheduledWorker } from "./scheduler";
+import exportService from "../services/export.service";
+
+/**
+ * Deletes folder export archives once their download window is over.
+ */
+export const exportCleanupWorker: ScheduledWorker = {
+  name: "export-cleanup",
+  intervalMs: 60 * 60 * 1000, // hourly
+
+  async run(): Promise<void> {
+    const deletedCount = await exportService.deleteExpired();
+
+    if (deletedCount > 0) {
+      console.log(`🧹 Export cleanup: deleted ${deletedCount} expired archive(s)`);
+    }
+  },
+};
\ No newline at end of file
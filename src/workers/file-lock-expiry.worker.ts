@@ -0,0 +1,18 @@
+import type { ScheduledWorker } from "./scheduler";
+import fileLockService from "../services/file-lock.service";
+
+/**
+ * Clears file locks past their expiry (expired locks are already ignored; this keeps listings clean).
+ */
+export const fileLockExpiryWorker: ScheduledWorker = {
+  name: "file-lock-expiry",
+  intervalMs: 60 * 1000, // every minute
+
+  async run(): Promise<void> {
+    const expired = await fileLockService.expireStale();
+
+    if (expired > 0) {
+      console.log(`🔓 File locks: released ${expired} expired lock(s)`);
+    }
+  },
+};
\ No newline at end of file
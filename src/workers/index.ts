@@ -0,0 +1,30 @@
+import { startScheduledWorkers, stopScheduledWorkers, type ScheduledWorker } from "./scheduler";
+import { trashPurgeWorker } from "./trash-purge.worker";
+import { uploadReaperWorker } from "./upload-reaper.worker";
+import { exportCleanupWorker } from "./export-cleanup.worker";
+import { thumbnailWorker } from "./thumbnail.worker";
+import { retentionEnforcerWorker } from "./retention-enforcer.worker";
+import { fileLockExpiryWorker } from "./file-lock-expiry.worker";
+import { interruptedJobWorker } from "./interrupted-job.worker";
+
+/**
+ * Every periodic background job run by the API process.
+ * Register new workers here.
+ */
+const workers: ScheduledWorker[] = [
+  trashPurgeWorker,
+  uploadReaperWorker,
+  exportCleanupWorker,
+  thumbnailWorker,
+  retentionEnforcerWorker,
+  fileLockExpiryWorker,
+  interruptedJobWorker,
+];
+
+export function startWorkers(): void {
+  startScheduledWorkers(workers);
+}
+
+export function stopWorkers(): void {
+  stopScheduledWorkers();
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { ScheduledWorker } from "./scheduler";
+import jobService from "../services/job.service";
+
+/**
+ * Fails jobs left queued / running by an API process that stopped (restart, crash, deploy).
+ */
+export const interruptedJobWorker: ScheduledWorker = {
+  name: "interrupted-job",
+  intervalMs: 60 * 1000, // every minute
+
+  async run(): Promise<void> {
+    const failedCount = await jobService.failInterrupted();
+
+    if (failedCount > 0) {
+      console.log(`🧹 Interrupted jobs: marked ${failedCount} job(s) failed`);
+    }
+  },
+};
\ No newline at end of file
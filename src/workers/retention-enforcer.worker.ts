@@ -0,0 +1,39 @@
+import type { ScheduledWorker } from "./scheduler";
+import retentionService, { isRetentionBlock } from "../services/retention.service";
+import fileService from "../services/file.service";
+
+/**
+ * Applies retention auto-delete: permanently deletes files older than their folder rule allows
+ * and logs every removal. Files under legal hold are skipped.
+ */
+export const retentionEnforcerWorker: ScheduledWorker = {
+  name: "retention-enforcer",
+  intervalMs: 60 * 60 * 1000, // hourly
+
+  async run(): Promise<void> {
+    const candidates = await retentionService.findAutoDeleteCandidates();
+    let skipped = 0;
+
+    for (const candidate of candidates) {
+      try {
+        await fileService.deleteFile(candidate.fileId.toString());
+
+        console.log(
+          `🗑️ Retention: deleted file ${candidate.fileId.toString()} ("${candidate.fileName}") of business ${candidate.businessId.toString()}, created ${candidate.createdAt.toISOString()}, rule on folder ${candidate.ruleFolderId.toString()} (${candidate.autoDeleteAfterDays} days)`
+        );
+      } catch (error) {
+        if (isRetentionBlock(error)) {
+          skipped += 1;
+          continue;
+        }
+
+        // One broken file must not stop the sweep; the next run retries it
+        console.error(`❌ Retention: failed to delete file ${candidate.fileId.toString()}`, error);
+      }
+    }
+
+    if (skipped > 0) {
+      console.log(`🗑️ Retention: skipped ${skipped} expired file(s) under legal hold`);
+    }
+  },
+};
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { cache } from "../utils/cache.utils";
+
+/**
+ * Minimal in-process scheduler for periodic background jobs.
+ *
+ * Why not a queue?
+ * - jobs here are idempotent sweeps (purge, reap, expire) that can simply run again
+ * - a Redis lock makes sure only ONE API instance runs a given sweep at a time
+ *
+ * In local/dev, Redis may be down: the job runs without the lock.
+ */
+export type ScheduledWorker = {
+  /**
+   * Stable name (used for the lock key + logs)
+   */
+  name: string;
+
+  /**
+   * Delay between two runs
+   */
+  intervalMs: number;
+
+  /**
+   * The sweep itself. Must be safe to re-run.
+   */
+  run: () => Promise<void>;
+};
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+function isLocalOrDev(): boolean {
+  const nodeEnv = process.env.NODE_ENV ?? "production";
+  return nodeEnv === "local" || nodeEnv === "development";
+}
+
+/**
+ * Acquire the per-worker lock for (roughly) one interval.
+ */
+async function acquireLock(worker: ScheduledWorker): Promise<boolean> {
+  const ttlSeconds = Math.max(1, Math.floor(worker.intervalMs / 1000));
+
+  try {
+    return await cache.setIfAbsent(cache.key(["worker-lock", worker.name]), { pid: process.pid }, ttlSeconds);
+  } catch (error) {
+    if (isLocalOrDev()) return true;
+    console.error(`❌ Worker ${worker.name}: lock unavailable, skipping run`, error);
+    return false;
+  }
+}
+
+async function tick(worker: ScheduledWorker): Promise<void> {
+  try {
+    const hasLock = await acquireLock(worker);
+    if (!hasLock) return;
+
+    await worker.run();
+  } catch (error) {
+    // A failed sweep must never crash the process; the next tick retries.
+    console.error(`❌ Worker ${worker.name} failed:`, error);
+  }
+}
+
+/**
+ * Start every worker (no-op for workers already running).
+ */
+export function startScheduledWorkers(workers: ScheduledWorker[]): void {
+  for (const worker of workers) {
+    if (timers.has(worker.name)) continue;
+
+    const timer = setInterval(() => void tick(worker), worker.intervalMs);
+    // Never keep the process alive just for background sweeps
+    timer.unref();
+
+    timers.set(worker.name, timer);
+  }
+}
+
+/**
+ * Stop every running worker (graceful shutdown / tests).
+ */
+export function stopScheduledWorkers(): void {
+  for (const timer of timers.values()) {
+    clearInterval(timer);
+  }
+  timers.clear();
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { ScheduledWorker } from "./scheduler";
+import thumbnailService from "../services/thumbnail.service";
+
+/**
+ * Renders thumbnails that are still pending (ex: copies) or due for a retry after a failure.
+ */
+export const thumbnailWorker: ScheduledWorker = {
+  name: "thumbnail",
+  intervalMs: 60 * 1000, // every minute
+
+  async run(): Promise<void> {
+    const processed = await thumbnailService.processDue();
+
+    if (processed.rendered > 0 || processed.failed > 0) {
+      console.log(`🖼️ Thumbnails: rendered ${processed.rendered} file(s), ${processed.failed} failed`);
+    }
+  },
+};
\ No newline at end of file
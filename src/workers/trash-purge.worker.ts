@@ -0,0 +1,18 @@
+import type { ScheduledWorker } from "./scheduler";
+import trashService from "../services/trash.service";
+
+/**
+ * Permanently removes trashed items past their business retention period.
+ */
+export const trashPurgeWorker: ScheduledWorker = {
+  name: "trash-purge",
+  intervalMs: 60 * 60 * 1000, // hourly
+
+  async run(): Promise<void> {
+    const purged = await trashService.purgeExpired();
+
+    if (purged.files > 0 || purged.folders > 0) {
+      console.log(`🗑️ Trash purge: removed ${purged.folders} folder(s) and ${purged.files} file(s)`);
+    }
+  },
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { ScheduledWorker } from "./scheduler";
+import pendingUploadService from "../services/pending-upload.service";
+
+/**
+ * Deletes S3 objects (and multipart parts) of uploads that were started but never completed.
+ */
+export const uploadReaperWorker: ScheduledWorker = {
+  name: "upload-reaper",
+  intervalMs: 15 * 60 * 1000, // every 15 minutes
+
+  async run(): Promise<void> {
+    const reaped = await pendingUploadService.reapExpired();
+
+    if (reaped.reservations > 0) {
+      const reclaimedMiB = (reaped.bytesReclaimed / (1024 * 1024)).toFixed(1);
+      console.log(
+        `🧹 Upload reaper: expired ${reaped.reservations} reservation(s), deleted ${reaped.objectsDeleted} object(s), aborted ${reaped.multipartAborted} multipart upload(s), reclaimed ${reclaimedMiB} MiB`
+      );
+    }
+  },
+};
\ No newline at end of file